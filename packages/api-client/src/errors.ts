@@ -0,0 +1,40 @@
+import type { components } from './schema.js';
+
+// Body of every error response from the system service
+export type ApiErrorBody = components['schemas']['Error'];
+
+export interface ApiErrorIssue {
+  path: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // Per-field problems of a validation error
+  get issues(): ApiErrorIssue[] {
+    const issues = (this.details as { issues?: unknown } | undefined)?.issues;
+    return Array.isArray(issues)
+      ? issues.filter((issue): issue is ApiErrorIssue => typeof issue?.message === 'string')
+      : [];
+  }
+}
+
+// The error a failed response describes; a proxy in between may not answer with an error body
+export function toApiError(response: Response, body: unknown): ApiError {
+  const error = (body ?? {}) as Partial<ApiErrorBody>;
+  return new ApiError(
+    response.status,
+    error.code ?? 'UNKNOWN',
+    error.message || response.statusText || `Request failed with status ${response.status}`,
+    error.details
+  );
+}
@@ -0,0 +1,101 @@
+import createClient, {
+  type Client,
+  type ClientOptions,
+  type FetchResponse,
+  type MaybeOptionalInit
+} from 'openapi-fetch';
+import type {
+  HttpMethod,
+  MediaType,
+  OperationRequestBodyContent,
+  PathsWithMethod,
+  RequiredKeysOf,
+  SuccessResponseJSON
+} from 'openapi-typescript-helpers';
+import { toApiError } from './errors.js';
+import type { paths } from './schema.js';
+
+export { ApiError } from './errors.js';
+export type { ApiErrorBody, ApiErrorIssue } from './errors.js';
+export type { components, paths } from './schema.js';
+
+// Routes that answer the given method
+export type ApiPath<Method extends HttpMethod = 'get'> = PathsWithMethod<paths, Method>;
+
+// What a route responds with when it succeeds
+export type ApiResponse<
+  Path extends ApiPath<Method>,
+  Method extends HttpMethod = 'get'
+> = SuccessResponseJSON<NonNullable<paths[Path][Method]>>;
+
+// The JSON body a route expects
+export type ApiRequestBody<
+  Path extends ApiPath<Method>,
+  Method extends HttpMethod = 'post'
+> = NonNullable<OperationRequestBodyContent<paths[Path][Method]>>;
+
+type ApiMethod<Method extends HttpMethod> = <
+  Path extends ApiPath<Method>,
+  Init extends MaybeOptionalInit<paths[Path], Method>
+>(
+  path: Path,
+  ...init: RequiredKeysOf<Init> extends never ? [Init?] : [Init]
+) => Promise<
+  Exclude<FetchResponse<NonNullable<paths[Path][Method]>, Init, MediaType>, { error: unknown }>['data']
+>;
+
+/**
+ * Calls a route and resolves with its response body. Paths, parameters and
+ * bodies are checked against the service's OpenAPI document; a failed request
+ * rejects with an ApiError.
+ */
+export interface ApiClient {
+  GET: ApiMethod<'get'>;
+  POST: ApiMethod<'post'>;
+  PUT: ApiMethod<'put'>;
+  DELETE: ApiMethod<'delete'>;
+  // The underlying openapi-fetch client, which leaves failed responses to the caller
+  raw: Client<paths>;
+}
+
+export interface ApiClientOptions extends Omit<ClientOptions, 'baseUrl'> {
+  // Where the system service is reached, e.g. https://nestos.local:3000; '' for the same origin
+  baseUrl?: string;
+  // API token (nestos_…) for scripts; the control panel signs in with a session cookie instead
+  token?: string;
+}
+
+export function createApiClient({
+  baseUrl = '',
+  token,
+  headers,
+  ...options
+}: ApiClientOptions = {}): ApiClient {
+  const raw = createClient<paths>({
+    baseUrl,
+    headers: token ? { ...headers, Authorization: `Bearer ${token}` } : headers,
+    ...options
+  });
+
+  const method = <Method extends HttpMethod>(name: Uppercase<Method>): ApiMethod<Method> => {
+    const call = raw[name as keyof Client<paths>] as unknown as (
+      path: string,
+      init?: object
+    ) => Promise<{ data?: unknown; error?: unknown; response: Response }>;
+    return (async (path: string, init?: object) => {
+      const { data, error, response } = await call(path, init);
+      if (!response.ok) {
+        throw toApiError(response, error);
+      }
+      return data;
+    }) as unknown as ApiMethod<Method>;
+  };
+
+  return {
+    GET: method<'get'>('GET'),
+    POST: method<'post'>('POST'),
+    PUT: method<'put'>('PUT'),
+    DELETE: method<'delete'>('DELETE'),
+    raw
+  };
+}
@@ -4,6 +4,9 @@ import { BrowserRouter } from 'react-router-dom';
 import { theme } from './theme.js';
 import Layout from './components/Layout';
 import FrostedGlassProvider from './components/FrostedGlassProvider/index.js';
+import AuthProvider from './components/AuthProvider';
+import NotificationProvider from './components/NotificationProvider';
+import { api } from './api';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -15,19 +18,10 @@ const queryClient = new QueryClient({
   },
 });
 
-// API base URL from environment or default
-const API_URL = import.meta.env.VITE_API_URL || ''; //`http://${new URL(window.location.href).hostname}:3000`;
-
 function ApiCheck({ children }: { children: React.ReactNode }) {
   const { isLoading, isError, error } = useQuery({
     queryKey: ['api-health'],
-    queryFn: async () => {
-      const response = await fetch(`${API_URL}/health`);
-      if (!response.ok) {
-        throw new Error('API is not responding');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/health'),
   });
 
   if (isLoading) {
@@ -61,17 +55,19 @@ function App(): JSX.Element {
       <ThemeProvider theme={theme}>
         <CssBaseline />
         <BrowserRouter>
-          <ApiCheck>
-            <FrostedGlassProvider>
-              <Layout />
-            </FrostedGlassProvider>
-          </ApiCheck>
+          <NotificationProvider>
+            <ApiCheck>
+              <AuthProvider>
+                <FrostedGlassProvider>
+                  <Layout />
+                </FrostedGlassProvider>
+              </AuthProvider>
+            </ApiCheck>
+          </NotificationProvider>
         </BrowserRouter>
       </ThemeProvider>
     </QueryClientProvider>
   );
 }
 
-// Export API URL for use in other components
-export const apiUrl = API_URL;
 export default App;
@@ -0,0 +1,17 @@
+import { createApiClient } from '@nestos/api-client';
+
+export { ApiError } from '@nestos/api-client';
+export type { ApiErrorBody, ApiErrorIssue, ApiRequestBody, ApiResponse } from '@nestos/api-client';
+
+// API base URL from environment or default (same origin, proxied by Vite in development)
+export const apiUrl = import.meta.env.VITE_API_URL || '';
+
+// Signs in with the session cookie; failed requests reject with an ApiError
+export const api = createApiClient({ baseUrl: apiUrl });
+
+// WebSocket endpoints of the same service, e.g. socketUrl('/ws')
+export function socketUrl(path: string): string {
+  const url = new URL(path, apiUrl || window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
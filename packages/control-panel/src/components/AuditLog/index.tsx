@@ -0,0 +1,249 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { api, ApiResponse } from '../../api';
+
+type AuditEntry = ApiResponse<'/api/system/audit'>['entries'][number];
+type AuditOutcome = AuditEntry['outcome'];
+
+const outcomeColors: Record<AuditOutcome, 'success' | 'error' | 'warning'> = {
+  success: 'success',
+  failure: 'error',
+  denied: 'warning',
+};
+
+function AuditRow({ entry }: { entry: AuditEntry }): JSX.Element {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <>
+      <TableRow hover sx={{ '& > *': { borderBottom: 'unset' } }}>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)}>
+            {open ? <CollapseIcon /> : <ExpandIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+          {new Date(entry.timestamp).toLocaleString()}
+        </TableCell>
+        <TableCell>
+          {entry.actor ? entry.actor.username : <em>anonymous</em>}
+          {entry.actor?.apiToken && (
+            <Typography variant="caption" display="block" color="text.secondary">
+              via token {entry.actor.apiToken.name}
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell>
+          <Chip label={entry.method} size="small" variant="outlined" sx={{ mr: 1 }} />
+          <Typography component="span" variant="body2" sx={{ fontFamily: 'monospace' }}>
+            {entry.url}
+          </Typography>
+        </TableCell>
+        <TableCell>
+          <Chip
+            label={`${entry.outcome} (${entry.statusCode})`}
+            color={outcomeColors[entry.outcome]}
+            size="small"
+          />
+        </TableCell>
+        <TableCell>{entry.ip}</TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={6}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box
+              component="pre"
+              sx={{ m: 1, p: 2, bgcolor: 'action.hover', borderRadius: 1, overflow: 'auto' }}
+            >
+              {JSON.stringify(
+                {
+                  route: entry.route,
+                  params: entry.params,
+                  query: entry.query,
+                  body: entry.body,
+                  error: entry.error,
+                  durationMs: entry.durationMs,
+                },
+                null,
+                2
+              )}
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+export default function AuditLog(): JSX.Element {
+  const [search, setSearch] = React.useState('');
+  const [actor, setActor] = React.useState('');
+  const [method, setMethod] = React.useState('');
+  const [outcome, setOutcome] = React.useState<AuditOutcome | ''>('');
+  const [since, setSince] = React.useState('');
+  const [until, setUntil] = React.useState('');
+  const [page, setPage] = React.useState(0);
+  const [rowsPerPage, setRowsPerPage] = React.useState(25);
+
+  const query = {
+    limit: rowsPerPage,
+    offset: page * rowsPerPage,
+    search: search || undefined,
+    actor: actor || undefined,
+    method: method || undefined,
+    outcome: outcome || undefined,
+    since: since ? new Date(since).toISOString() : undefined,
+    until: until ? new Date(until).toISOString() : undefined,
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-log', query],
+    queryFn: () => api.GET('/api/system/audit', { params: { query } }),
+    refetchInterval: 10000,
+  });
+
+  // Any filter change starts again from the first page
+  const filter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Box sx={{ flexGrow: 1 }}>
+      <Typography variant="h5" gutterBottom>
+        Audit Log
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Every request that changed something on this system, newest first. Passwords, tokens
+        and other secrets are redacted before they are recorded.
+      </Typography>
+
+      <Card>
+        <CardContent>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mb: 2 }}>
+            <TextField
+              label="Search"
+              size="small"
+              value={search}
+              onChange={(e) => filter(setSearch)(e.target.value)}
+              sx={{ flexGrow: 1 }}
+            />
+            <TextField
+              label="User"
+              size="small"
+              value={actor}
+              onChange={(e) => filter(setActor)(e.target.value)}
+            />
+            <TextField
+              select
+              label="Method"
+              size="small"
+              value={method}
+              onChange={(e) => filter(setMethod)(e.target.value)}
+              sx={{ minWidth: 120 }}
+            >
+              <MenuItem value="">Any</MenuItem>
+              {['POST', 'PUT', 'PATCH', 'DELETE'].map((value) => (
+                <MenuItem key={value} value={value}>
+                  {value}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Outcome"
+              size="small"
+              value={outcome}
+              onChange={(e) => filter(setOutcome)(e.target.value as AuditOutcome)}
+              sx={{ minWidth: 120 }}
+            >
+              <MenuItem value="">Any</MenuItem>
+              <MenuItem value="success">Success</MenuItem>
+              <MenuItem value="failure">Failure</MenuItem>
+              <MenuItem value="denied">Denied</MenuItem>
+            </TextField>
+            <TextField
+              label="From"
+              type="datetime-local"
+              size="small"
+              value={since}
+              onChange={(e) => filter(setSince)(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="To"
+              type="datetime-local"
+              size="small"
+              value={until}
+              onChange={(e) => filter(setUntil)(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Stack>
+
+          {isLoading && <LinearProgress />}
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Time</TableCell>
+                  <TableCell>User</TableCell>
+                  <TableCell>Request</TableCell>
+                  <TableCell>Outcome</TableCell>
+                  <TableCell>Address</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {data?.entries.map((entry) => <AuditRow key={entry.id} entry={entry} />)}
+                {data && data.entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      No matching entries
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <TablePagination
+            component="div"
+            count={data?.total ?? 0}
+            page={page}
+            onPageChange={(_, value) => setPage(value)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+          />
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,71 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { Box, CircularProgress } from '@mui/material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError, ApiResponse } from '../../api';
+import Login from '../Login';
+
+export type AuthUser = NonNullable<ApiResponse<'/api/auth/session'>['user']>;
+export type Role = AuthUser['role'];
+export type UserPreferences = AuthUser['preferences'];
+
+const roleOrder: Role[] = ['viewer', 'operator', 'admin'];
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  // Whether the signed-in user holds at least the given role
+  can: (role: Role) => boolean;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  can: () => false,
+  logout: async () => undefined,
+});
+
+export const useAuth = (): AuthContextValue => useContext(AuthContext);
+
+export default function AuthProvider({ children }: { children: ReactNode }): JSX.Element {
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading } = useQuery({
+    queryKey: ['auth-session'],
+    queryFn: () =>
+      api.GET('/api/auth/session').catch((error: unknown) => {
+        if (error instanceof ApiError && error.status === 401) {
+          return { user: null };
+        }
+        throw error;
+      }),
+    // Re-check periodically so an expired session drops back to the login screen
+    refetchInterval: 60000,
+  });
+
+  const logout = async () => {
+    await api.POST('/api/auth/logout');
+    // Drop everything cached for the previous session
+    queryClient.clear();
+    queryClient.setQueryData(['auth-session'], { user: null });
+  };
+
+  const can = (role: Role) =>
+    !!session?.user && roleOrder.indexOf(session.user.role) >= roleOrder.indexOf(role);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!session?.user) {
+    return <Login />;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user: session.user, can, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -24,7 +24,7 @@ import {
 } from '@mui/material';
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
+import { useAuth } from '../AuthProvider';
 import {
   Memory as CpuIcon,
   Storage as RamIcon,
@@ -45,6 +45,7 @@ import {
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
 } from '@mui/icons-material';
+import { api, ApiResponse } from '../../api';
 
 const AnimatedButton = styled(Button)(() => ({
   position: 'relative',
@@ -287,56 +288,7 @@ function groupDevices(devices: StorageDevice[]): Record<string, StorageDevice[]>
   return groups;
 }
 
-interface StorageDevice {
-  name: string;
-  identifier: string;
-  type: string;
-  fsType: string;
-  mount: string;
-  size: number;
-  physical: string;
-  uuid: string;
-  label: string;
-  model: string;
-  serial: string;
-  removable: boolean;
-  protocol: string;
-  group: string;
-  device: string;
-  smart: {
-    health: string;
-    attributes: string;
-  } | null;
-  layout: {
-    vendor: string;
-    type: string;
-    size: number;
-    interfaceType: string;
-    temperature: number;
-    serialNum: string;
-    firmwareRevision: string;
-  } | null;
-  filesystem: {
-    size: number;
-    used: number;
-    available: number;
-    use: number;
-  } | null;
-}
-
-interface StorageInfo {
-  devices: StorageDevice[];
-}
-
-interface NetworkStat {
-  iface: string;
-  rx_sec: number;
-  tx_sec: number;
-}
-
-interface NetworkStats {
-  stats: NetworkStat[];
-}
+type StorageDevice = ApiResponse<'/api/storage/devices'>['devices'][number];
 
 function formatBytes(bytes: number): string {
   const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
@@ -357,46 +309,11 @@ function formatUptime(seconds: number): string {
 function formatSpeed(bytesPerSecond: number): string {
   return `${(bytesPerSecond / 1024 / 1024).toFixed(2)} MB/s`;
 }
-interface StorageHealthDevice {
-  name: string;
-  status: 'healthy' | 'warning' | 'critical';
-  smart?: {
-    health: string;
-    temperature?: number;
-  };
-  issues: string[];
-}
-
-// interface DockerStat {
-//   name: string;
-//   cpu: string;
-//   memory: string;
-//   network: string;
-//   disk: string;
-// }
-
-// interface Service {
-//   name: string;
-//   running: boolean;
-//   startmode: string;
-// }
-
-interface SystemService {
-  name: string;
-  running: boolean;
-  startmode: string;
-}
-
 export default function Dashboard(): JSX.Element {
+  const { can } = useAuth();
   const { data: systemInfo, isLoading: systemLoading } = useQuery({
     queryKey: ['system-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/info?detailed=true`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch system info');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/info', { params: { query: { detailed: 'true' } } }),
     refetchInterval: 5000,
   });
 
@@ -415,33 +332,23 @@ export default function Dashboard(): JSX.Element {
   //   refetchInterval: 10000,
   // });
   // Inside the storage info query
-  const { data: storageInfo, isLoading: storageLoading } = useQuery<StorageInfo>({
+  const { data: storageInfo, isLoading: storageLoading } = useQuery({
     queryKey: ['storage-info'],
     queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/storage/devices`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch storage info');
-      }
-      const data = await response.json();
+      const data = await api.GET('/api/storage/devices');
       console.log('Storage Info:', JSON.stringify(data, null, 2));
       console.log(
         'Docker Detection:',
-        data.devices.some((d: StorageDevice) => d.mount === '/' && d.fsType === 'overlay')
+        data.devices.some((d) => d.mount === '/' && d.fsType === 'overlay')
       );
       return data;
     },
     refetchInterval: 10000,
   });
 
-  const { data: networkStats, isLoading: networkLoading } = useQuery<NetworkStats>({
+  const { data: networkStats, isLoading: networkLoading } = useQuery({
     queryKey: ['network-stats'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/network/stats`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch network stats');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/network/stats'),
     refetchInterval: 2000,
   });
 
@@ -470,22 +377,14 @@ export default function Dashboard(): JSX.Element {
   }>({ open: false, title: '', content: null });
 
   const dockerStatsMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/docker/stats`, {
-        method: 'GET',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to fetch docker stats');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.GET('/api/docker/stats'),
     onSuccess: (data) => {
       setStatsDialog({
         open: true,
         title: 'Docker Stats',
         content: (
           <List>
-            {data.stats.map((stat: any) => (
+            {data.stats.map((stat) => (
               <ListItem key={stat.name}>
                 <ListItemText
                   primary={stat.name}
@@ -507,15 +406,7 @@ export default function Dashboard(): JSX.Element {
   });
 
   const networkTestMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/network/test`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to run network test');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.POST('/api/network/test'),
     onSuccess: (data) => {
       setStatsDialog({
         open: true,
@@ -547,15 +438,7 @@ export default function Dashboard(): JSX.Element {
   });
 
   const storageHealthMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/storage/health`, {
-        method: 'GET',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to check storage health');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.GET('/api/storage/health'),
     onSuccess: (data) => {
       setStatsDialog({
         open: true,
@@ -577,7 +460,7 @@ export default function Dashboard(): JSX.Element {
               />
             </Box>
             <List>
-              {data.devices.map((device: StorageHealthDevice) => (
+              {data.devices.map((device) => (
                 <ListItem key={device.name}>
                   <ListItemText
                     primary={device.name}
@@ -627,15 +510,7 @@ export default function Dashboard(): JSX.Element {
   });
 
   const performanceTestMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/performance`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to run performance test');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.POST('/api/system/performance'),
     onSuccess: (data) => {
       setStatsDialog({
         open: true,
@@ -678,15 +553,7 @@ export default function Dashboard(): JSX.Element {
   });
 
   const systemLogsMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/logs`, {
-        method: 'GET',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to fetch system logs');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.GET('/api/system/logs'),
     onSuccess: (data) => {
       setStatsDialog({
         open: true,
@@ -703,39 +570,15 @@ export default function Dashboard(): JSX.Element {
   });
 
   const rebootMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/reboot`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to reboot system');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.POST('/api/system/reboot'),
   });
 
   const shutdownMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/shutdown`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to shutdown system');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.POST('/api/system/shutdown'),
   });
 
   const updateMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/update`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to update system');
-      }
-      return response.json();
-    },
+    mutationFn: () => api.POST('/api/system/updates/apply', { body: { target: 'system' } }),
   });
 
   if (systemLoading || storageLoading || networkLoading) {
@@ -783,6 +626,7 @@ export default function Dashboard(): JSX.Element {
                 <AnimatedButton
                   startIcon={<UpdateIcon />}
                   onClick={() => updateMutation.mutate()}
+                  disabled={!can('admin')}
                   fullWidth
                 >
                   Update System
@@ -792,6 +636,7 @@ export default function Dashboard(): JSX.Element {
                 <AnimatedButton
                   startIcon={<RebootIcon />}
                   onClick={() => rebootMutation.mutate()}
+                  disabled={!can('admin')}
                   fullWidth
                 >
                   Reboot
@@ -801,6 +646,7 @@ export default function Dashboard(): JSX.Element {
                 <AnimatedButton
                   startIcon={<PowerIcon />}
                   onClick={() => shutdownMutation.mutate()}
+                  disabled={!can('admin')}
                   fullWidth
                 >
                   Shutdown
@@ -1148,7 +994,7 @@ export default function Dashboard(): JSX.Element {
                                     showSystemPartitions ||
                                     (!device.name.includes('boot') && !device.name.includes('efi'))
                                 )
-                                .map((device: StorageDevice) => (
+                                .map((device) => (
                                   <Grid item xs={12} md={compactView ? 6 : 12} key={device.name}>
                                     <Paper variant="outlined" sx={{ p: 1.5 }}>
                                       <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
@@ -1251,7 +1097,7 @@ export default function Dashboard(): JSX.Element {
                   <NetworkIcon color="primary" />
                   <Typography variant="h6">Network</Typography>
                 </Stack>
-                {networkStats.stats.map((stat: NetworkStat) => (
+                {networkStats.stats.map((stat) => (
                   <Box key={stat.iface} sx={{ mb: 2 }}>
                     <Typography variant="subtitle2">{stat.iface}</Typography>
                     <Grid container spacing={2}>
@@ -1259,13 +1105,13 @@ export default function Dashboard(): JSX.Element {
                         <Typography variant="body2" color="text.secondary">
                           Download
                         </Typography>
-                        <Typography variant="body1">{formatSpeed(stat.rx_sec)}</Typography>
+                        <Typography variant="body1">{formatSpeed(stat.rx_sec ?? 0)}</Typography>
                       </Grid>
                       <Grid item xs={6}>
                         <Typography variant="body2" color="text.secondary">
                           Upload
                         </Typography>
-                        <Typography variant="body1">{formatSpeed(stat.tx_sec)}</Typography>
+                        <Typography variant="body1">{formatSpeed(stat.tx_sec ?? 0)}</Typography>
                       </Grid>
                     </Grid>
                   </Box>
@@ -1285,7 +1131,7 @@ export default function Dashboard(): JSX.Element {
                   <Typography variant="h6">Services</Typography>
                 </Stack>
                 <List>
-                  {systemInfo.services.map((service: SystemService) => (
+                  {systemInfo.services.map((service) => (
                     <ListItem key={service.name}>
                       <ListItemIcon>
                         {service.running ? (
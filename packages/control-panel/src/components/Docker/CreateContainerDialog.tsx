@@ -17,6 +17,7 @@ import {
   AccordionDetails,
   Switch,
   FormControlLabel,
+  Box,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -26,8 +27,12 @@ import {
 } from '@mui/icons-material';
 import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
 import { ImageSearchDialog } from './ImageSearchDialog';
+import { ImagePullProgress, useImagePull } from './ImagePullProgress';
+import { api, ApiRequestBody } from '../../api';
+
+type ContainerSettings = ApiRequestBody<'/api/docker/containers'>;
+type RestartPolicy = NonNullable<ContainerSettings['restart']>;
 
 interface Port {
   container: number;
@@ -65,7 +70,7 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
   const [ports, setPorts] = useState<Port[]>([]);
   const [volumes, setVolumes] = useState<Volume[]>([]);
   const [envVars, setEnvVars] = useState<EnvVar[]>([]);
-  const [restart, setRestart] = useState('no');
+  const [restart, setRestart] = useState<RestartPolicy>('no');
   const [privileged, setPrivileged] = useState(false);
   const [networkMode, setNetworkMode] = useState('bridge');
   const [hostname, setHostname] = useState('');
@@ -74,33 +79,15 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
   const [memory, setMemory] = useState<number | ''>('');
   const [cpuShares, setCpuShares] = useState<number | ''>('');
   const [labels, setLabels] = useState<EnvVar[]>([]);
+  const imagePull = useImagePull();
 
   const createContainer = useMutation({
-    mutationFn: async (data: any) => {
-      // First, pull the image
-      const pullResponse = await fetch(`${apiUrl}/api/docker/images/pull`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ image: data.image }),
-      });
-      if (!pullResponse.ok) {
-        throw new Error('Failed to pull image');
-      }
+    mutationFn: async (data: ContainerSettings) => {
+      // First, pull the image; its progress is shown while this waits
+      await imagePull.pull(data.image);
 
       // Then create the container
-      const response = await fetch(`${apiUrl}/api/docker/containers`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) {
-        throw new Error('Failed to create container');
-      }
-      return response.json();
+      return api.POST('/api/docker/containers', { body: data });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
@@ -124,10 +111,11 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
     setMemory('');
     setCpuShares('');
     setLabels([]);
+    imagePull.reset();
   };
 
   const handleSubmit = () => {
-    const data = {
+    const data: ContainerSettings = {
       image,
       name,
       ports: ports.map((p) => ({
@@ -375,6 +363,9 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
                   >
                     Add Environment Variable
                   </Button>
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    Use {'${secret:NAME}'} to fill in a value from Settings &gt; Secrets.
+                  </Typography>
                 </AccordionDetails>
               </Accordion>
             </Grid>
@@ -390,7 +381,10 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
                     <Grid item xs={6}>
                       <FormControl fullWidth>
                         <InputLabel>Restart Policy</InputLabel>
-                        <Select value={restart} onChange={(e) => setRestart(e.target.value)}>
+                        <Select
+                          value={restart}
+                          onChange={(e) => setRestart(e.target.value as RestartPolicy)}
+                        >
                           <MenuItem value="no">No</MenuItem>
                           <MenuItem value="always">Always</MenuItem>
                           <MenuItem value="on-failure">On Failure</MenuItem>
@@ -592,10 +586,21 @@ export function CreateContainerDialog({ open, onClose }: CreateContainerDialogPr
             </Grid>
           </Grid>
         </DialogContent>
+        {/* Outside the scrolling content so it stays in view */}
+        {imagePull.job && (
+          <Box sx={{ px: 3, pt: 2 }}>
+            <ImagePullProgress job={imagePull.job} onCancel={imagePull.cancel} />
+          </Box>
+        )}
         <DialogActions>
           <Button onClick={onClose}>Cancel</Button>
-          <Button onClick={handleSubmit} variant="contained" color="primary">
-            Create Container
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={createContainer.isPending}
+          >
+            {imagePull.job?.status === 'pulling' ? 'Pulling Image…' : 'Create Container'}
           </Button>
         </DialogActions>
       </Dialog>
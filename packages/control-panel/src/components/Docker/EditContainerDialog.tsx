@@ -29,7 +29,8 @@ import {
 } from '@mui/icons-material';
 import { useState, useEffect } from 'react';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
+import { api, ApiRequestBody } from '../../api';
+import type { Container } from './index';
 
 interface Port {
   container: number;
@@ -48,48 +49,66 @@ interface EnvVar {
   value: string;
 }
 
+// Shown by the service instead of secret values; sent back unchanged to keep them
+const SECRET_MASK = '********';
+// Managed by the service to remember which env vars came from secret references
+const SECRET_ENV_LABEL = 'nestos.secret-env';
+
+const hasSecretRef = (value: string) => /\$\{secret:[^}]+\}/.test(value);
+
 interface Device {
   host: string;
   container: string;
   permissions: string;
 }
 
+type ContainerSettings = ApiRequestBody<'/api/docker/containers/{id}/recreate'>;
+type RestartPolicy = NonNullable<ContainerSettings['restart']>;
+
 interface EditContainerDialogProps {
   open: boolean;
   onClose: () => void;
   container: Container | null;
 }
 
-// Add to the Container interface
-interface Container {
-  Id: string;
-  Names: string[];
-  Image: string;
+// The parts of Docker's inspect output the form starts from; the service documents only a few
+interface ContainerDetails {
+  Name: string;
   Config: {
     Hostname: string;
-    Env: string[];
-    Cmd: string[];
-    ExposedPorts: { [key: string]: object };
-    Labels: { [key: string]: string };
-    Volumes: { [key: string]: object };
+    Domainname?: string;
+    User?: string;
+    WorkingDir?: string;
+    Env: string[] | null;
+    Cmd: string[] | null;
+    ExposedPorts?: { [key: string]: object };
+    Labels: { [key: string]: string } | null;
   };
   HostConfig: {
-    Binds: string[];
-    PortBindings: {
-      [key: string]: Array<{ HostPort: string }>;
+    PortBindings?: {
+      [key: string]: Array<{ HostPort: string }> | null;
     };
-    RestartPolicy: { Name: string };
+    // Empty when the container was created without one
+    RestartPolicy: { Name: RestartPolicy | '' };
     NetworkMode: string;
     Privileged: boolean;
     Devices: Array<{
       PathOnHost: string;
       PathInContainer: string;
       CgroupPermissions: string;
-    }>;
+    }> | null;
     Memory: number;
     CpuShares: number;
+    Dns?: string[] | null;
+    DnsSearch?: string[] | null;
+    ExtraHosts?: string[] | null;
+    CpuPeriod?: number;
+    CpuQuota?: number;
+    BlkioWeight?: number;
+    CgroupParent?: string;
+    ReadonlyRootfs?: boolean;
   };
-  Mounts: Array<{
+  Mounts?: Array<{
     Type: string;
     Source: string;
     Destination: string;
@@ -108,7 +127,7 @@ export function EditContainerDialog({
   const [ports, setPorts] = useState<Port[]>([]);
   const [volumes, setVolumes] = useState<Volume[]>([]);
   const [envVars, setEnvVars] = useState<EnvVar[]>([]);
-  const [restart, setRestart] = useState('no');
+  const [restart, setRestart] = useState<RestartPolicy>('no');
   const [privileged, setPrivileged] = useState(false);
   const [networkMode, setNetworkMode] = useState('bridge');
   const [hostname, setHostname] = useState('');
@@ -123,7 +142,6 @@ export function EditContainerDialog({
   const [dns, setDns] = useState<string[]>([]);
   const [dnsSearch, setDnsSearch] = useState<string[]>([]);
   const [extraHosts, setExtraHosts] = useState<EnvVar[]>([]);
-  const [ulimits, setUlimits] = useState<Array<{ name: string; soft: number; hard: number }>>([]);
   const [cpuPeriod, setCpuPeriod] = useState<number | ''>('');
   const [cpuQuota, setCpuQuota] = useState<number | ''>('');
   const [blkioWeight, setBlkioWeight] = useState<number | ''>('');
@@ -140,11 +158,10 @@ export function EditContainerDialog({
       if (!container?.Id) {
         return null;
       }
-      const response = await fetch(`${apiUrl}/api/docker/containers/${container.Id}/inspect`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch container details');
-      }
-      return response.json();
+      const details = await api.GET('/api/docker/containers/{id}/inspect', {
+        params: { path: { id: container.Id } },
+      });
+      return details as unknown as ContainerDetails;
     },
     enabled: !!container?.Id,
   });
@@ -184,7 +201,7 @@ export function EditContainerDialog({
       // Volumes
       const mounts = containerDetails.Mounts || [];
       const parsedVolumes = mounts.map(
-        (mount: { Source: string; Destination: string; RW: string }) => ({
+        (mount): Volume => ({
           host: mount.Source,
           container: mount.Destination,
           mode: mount.RW ? 'rw' : 'ro',
@@ -194,7 +211,7 @@ export function EditContainerDialog({
 
       // Environment Variables
       const env = containerDetails.Config.Env || [];
-      const parsedEnv = env.map((e: string) => {
+      const parsedEnv = env.map((e) => {
         const [key, ...valueParts] = e.split('=');
         return {
           key,
@@ -204,7 +221,7 @@ export function EditContainerDialog({
       setEnvVars(parsedEnv);
 
       // Advanced Settings
-      setRestart(containerDetails.HostConfig.RestartPolicy.Name);
+      setRestart(containerDetails.HostConfig.RestartPolicy.Name || 'no');
       setPrivileged(containerDetails.HostConfig.Privileged);
       setNetworkMode(containerDetails.HostConfig.NetworkMode);
       setHostname(containerDetails.Config.Hostname);
@@ -214,7 +231,7 @@ export function EditContainerDialog({
       // Devices
       const devices = containerDetails.HostConfig.Devices || [];
       const parsedDevices = devices.map(
-        (device: { PathOnHost: string; PathInContainer: string; CgroupPermissions: string }) => ({
+        (device) => ({
           host: device.PathOnHost,
           container: device.PathInContainer,
           permissions: device.CgroupPermissions,
@@ -229,10 +246,12 @@ export function EditContainerDialog({
 
       // Labels
       const labels = containerDetails.Config.Labels || {};
-      const parsedLabels = Object.entries(labels).map(([key, value]) => ({
-        key,
-        value,
-      }));
+      const parsedLabels = Object.entries(labels)
+        .filter(([key]) => key !== SECRET_ENV_LABEL)
+        .map(([key, value]) => ({
+          key,
+          value,
+        }));
       setLabels(parsedLabels as unknown as EnvVar[]);
 
       // User
@@ -252,15 +271,12 @@ export function EditContainerDialog({
 
       // Extra Hosts
       setExtraHosts(
-        (containerDetails.HostConfig.ExtraHosts || []).map((host: string) => {
+        (containerDetails.HostConfig.ExtraHosts || []).map((host) => {
           const [key, value] = host.split(':');
           return { key, value };
         })
       );
 
-      // Ulimits
-      setUlimits(containerDetails.HostConfig.Ulimits || []);
-
       // CPU Period and Quota
       setCpuPeriod(containerDetails.HostConfig.CpuPeriod || '');
       setCpuQuota(containerDetails.HostConfig.CpuQuota || '');
@@ -326,91 +342,21 @@ export function EditContainerDialog({
   //     },
   //   });
   const editContainer = useMutation({
-    mutationFn: async (data: any) => {
+    meta: { inlineError: true },
+    mutationFn: async ({ id, data }: { id: string; data: ContainerSettings }) => {
       setLoading(true);
       setError(null);
       try {
-        // Stop the container first
-        try {
-          const stopResponse = await fetch(
-            `${apiUrl}/api/docker/containers/${container?.Id}/stop`,
-            {
-              method: 'POST',
-            }
-          );
-          // If response is not ok and it's not because container is already stopped (304)
-          if (!stopResponse.ok && stopResponse.status !== 304) {
-            const errorData = await stopResponse.json();
-            throw new Error(errorData.message || 'Failed to stop container');
-          }
-        } catch (stopError: any) {
-          // Ignore "container already stopped" errors
-          if (!stopError.message?.includes('container already stopped')) {
-            throw stopError;
-          }
-        }
-
-        // Remove the old container
-        try {
-          const removeResponse = await fetch(`${apiUrl}/api/docker/containers/${container?.Id}`, {
-            method: 'DELETE',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ force: true }),
-          });
-          if (!removeResponse.ok && removeResponse.status !== 404) {
-            const errorData = await removeResponse.json();
-            throw new Error(errorData.message || 'Failed to remove container');
-          }
-        } catch (removeError: any) {
-          // Ignore "no such container" errors
-          if (!removeError.message?.includes('no such container')) {
-            throw removeError;
-          }
-        }
-
-        // Create new container
-        const createResponse = await fetch(`${apiUrl}/api/docker/containers`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(data),
+        // The service replaces the container, keeping masked secret values
+        const newContainer = await api.POST('/api/docker/containers/{id}/recreate', {
+          params: { path: { id } },
+          body: data,
         });
 
-        if (!createResponse.ok) {
-          const errorData = await createResponse.json();
-          throw new Error(errorData.message || 'Failed to create container');
-        }
-
-        const newContainer = await createResponse.json();
-
-        // Start the new container
-        try {
-          const startResponse = await fetch(
-            `${apiUrl}/api/docker/containers/${newContainer.Id}/start`,
-            {
-              method: 'POST',
-            }
-          );
-
-          // If response is not ok and it's not because container is already started (304)
-          if (!startResponse.ok && startResponse.status !== 304) {
-            const errorData = await startResponse.json();
-            throw new Error(errorData.message || 'Failed to start container');
-          }
-        } catch (startError: any) {
-          // If the error is not "container already started", rethrow it
-          if (!startError.message?.includes('container already started')) {
-            throw startError;
-          }
-        }
-
         setSuccess('Container updated successfully');
         return newContainer;
-      } catch (err: any) {
-        setError(err.message || 'An error occurred');
+      } catch (err) {
+        setError(err instanceof Error && err.message ? err.message : 'An error occurred');
         throw err;
       } finally {
         setLoading(false);
@@ -425,8 +371,11 @@ export function EditContainerDialog({
   });
 
   const handleSubmit = () => {
-    const data = {
-      image: container?.Image,
+    if (!container) {
+      return;
+    }
+    const data: ContainerSettings = {
+      image: container.Image,
       name,
       hostname,
       ports: ports.map((p) => ({
@@ -449,25 +398,15 @@ export function EditContainerDialog({
       cpu_shares: cpuShares || undefined,
       labels:
         labels.length > 0 ? Object.fromEntries(labels.map((l) => [l.key, l.value])) : undefined,
-      exposed_ports: ports.reduce((acc, port) => {
-        acc[`${port.container}/${port.protocol}`] = {};
-        return acc;
-      }, {} as { [key: string]: object }),
       user: user || undefined,
       working_dir: workingDir || undefined,
-      domain_name: domainName || undefined,
+      domainname: domainName || undefined,
       dns: dns.length > 0 ? dns : undefined,
       dns_search: dnsSearch.length > 0 ? dnsSearch : undefined,
       extra_hosts: extraHosts.length > 0 ? extraHosts.map((h) => `${h.key}:${h.value}`) : undefined,
-      ulimits: ulimits.length > 0 ? ulimits : undefined,
-      cpu_period: cpuPeriod || undefined,
-      cpu_quota: cpuQuota || undefined,
-      blkio_weight: blkioWeight || undefined,
-      cgroup_parent: cgroupParent || undefined,
-      readonly_rootfs: readonlyRootfs,
     };
 
-    editContainer.mutate(data);
+    editContainer.mutate({ id: container.Id, data });
   };
 
   return (
@@ -646,6 +585,14 @@ export function EditContainerDialog({
                         fullWidth
                         label="Value"
                         value={env.value}
+                        type={env.value === SECRET_MASK ? 'password' : 'text'}
+                        helperText={
+                          env.value === SECRET_MASK
+                            ? 'Hidden. Leave as is to keep the current value.'
+                            : hasSecretRef(env.value)
+                            ? 'Filled in from the secrets store'
+                            : undefined
+                        }
                         onChange={(e) => {
                           const newEnvVars = [...envVars];
                           newEnvVars[index].value = e.target.value;
@@ -666,6 +613,9 @@ export function EditContainerDialog({
                 >
                   Add Environment Variable
                 </Button>
+                <Typography variant="caption" display="block" color="text.secondary">
+                  Use {'${secret:NAME}'} to fill in a value from Settings &gt; Secrets.
+                </Typography>
               </AccordionDetails>
             </Accordion>
           </Grid>
@@ -681,7 +631,10 @@ export function EditContainerDialog({
                   <Grid item xs={6}>
                     <FormControl fullWidth>
                       <InputLabel>Restart Policy</InputLabel>
-                      <Select value={restart} onChange={(e) => setRestart(e.target.value)}>
+                      <Select
+                        value={restart}
+                        onChange={(e) => setRestart(e.target.value as RestartPolicy)}
+                      >
                         <MenuItem value="no">No</MenuItem>
                         <MenuItem value="always">Always</MenuItem>
                         <MenuItem value="on-failure">On Failure</MenuItem>
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, LinearProgress, Stack, Typography } from '@mui/material';
+import { api, ApiResponse, socketUrl } from '../../api';
+
+export type PullJob = ApiResponse<'/api/docker/images/pulls/{id}'>;
+
+const DONE_STATUSES = ['Pull complete', 'Already exists'];
+
+interface ImagePull {
+  // The pull started last, as of its latest progress
+  job: PullJob | null;
+  pull: (image: string) => Promise<PullJob>;
+  cancel: () => Promise<void>;
+  reset: () => void;
+}
+
+/**
+ * Pulls images as background jobs of the system service and follows their
+ * progress over /ws. `pull` resolves once the image is there and rejects when
+ * the pull fails or is cancelled.
+ */
+export function useImagePull(): ImagePull {
+  const [job, setJob] = useState<PullJob | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  const pull = useCallback(async (image: string): Promise<PullJob> => {
+    socketRef.current?.close();
+    const started = await api.POST('/api/docker/images/pull', { body: { image } });
+    setJob(started);
+
+    return new Promise<PullJob>((resolve, reject) => {
+      const socket = new WebSocket(socketUrl('/ws'));
+      socketRef.current = socket;
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: 'follow_image_pull', data: { jobId: started.id } }));
+      };
+      socket.onmessage = (event) => {
+        const { type, data } = JSON.parse(event.data);
+        if (data?.jobId !== started.id) {
+          return;
+        }
+        if (type === 'image_pull_error') {
+          socket.close();
+          reject(new Error(data.error.message));
+          return;
+        }
+        if (type !== 'image_pull_progress') {
+          return;
+        }
+
+        const current = data.job as PullJob;
+        setJob(current);
+        if (current.status === 'completed') {
+          socket.close();
+          resolve(current);
+        } else if (current.status !== 'pulling') {
+          socket.close();
+          reject(new Error(current.error ?? `Pulling ${image} was cancelled`));
+        }
+      };
+      socket.onerror = () => reject(new Error('Lost the connection to the system service'));
+    });
+  }, []);
+
+  const cancel = useCallback(async () => {
+    if (job?.status === 'pulling') {
+      await api.DELETE('/api/docker/images/pulls/{id}', { params: { path: { id: job.id } } });
+    }
+  }, [job]);
+
+  const reset = useCallback(() => setJob(null), []);
+
+  return { job, pull, cancel, reset };
+}
+
+interface ImagePullProgressProps {
+  job: PullJob;
+  onCancel: () => void;
+}
+
+// The image's layers with how far each has been downloaded and extracted
+export function ImagePullProgress({ job, onCancel }: ImagePullProgressProps): JSX.Element {
+  const done = job.layers.filter((layer) => DONE_STATUSES.includes(layer.status)).length;
+  const pulling = job.status === 'pulling';
+
+  return (
+    <Box sx={{ p: 2, borderRadius: 1, bgcolor: 'action.hover' }}>
+      <Stack direction="row" alignItems="center" spacing={2} mb={1}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          {pulling ? 'Pulling' : 'Pulled'} {job.image}
+          {job.layers.length > 0 && ` (${done} of ${job.layers.length} layers)`}
+        </Typography>
+        {pulling && (
+          <Button size="small" color="error" onClick={onCancel}>
+            Cancel pull
+          </Button>
+        )}
+      </Stack>
+      <LinearProgress
+        variant={job.layers.length ? 'determinate' : 'indeterminate'}
+        value={job.layers.length ? (done / job.layers.length) * 100 : undefined}
+        sx={{ mb: 1 }}
+      />
+      {job.layers.map((layer) => (
+        <Stack key={layer.id} direction="row" alignItems="center" spacing={2}>
+          <Typography variant="caption" fontFamily="monospace" sx={{ width: 100 }}>
+            {layer.id}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ width: 140 }}>
+            {layer.status}
+          </Typography>
+          <Box sx={{ flexGrow: 1 }}>
+            {layer.total ? (
+              <LinearProgress
+                variant="determinate"
+                value={((layer.current ?? 0) / layer.total) * 100}
+              />
+            ) : (
+              DONE_STATUSES.includes(layer.status) && (
+                <LinearProgress variant="determinate" value={100} color="success" />
+              )
+            )}
+          </Box>
+        </Stack>
+      ))}
+      {job.message && (
+        <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+          {job.message}
+        </Typography>
+      )}
+    </Box>
+  );
+}
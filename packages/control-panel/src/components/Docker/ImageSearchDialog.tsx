@@ -18,14 +18,7 @@ import {
 } from '@mui/material';
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
-
-interface SearchResult {
-  name: string;
-  description: string;
-  stars: number;
-  icon: string | null;
-}
+import { api } from '../../api';
 
 interface ImageSearchDialogProps {
   open: boolean;
@@ -47,15 +40,9 @@ export function ImageSearchDialog({
       if (!searchTerm) {
         return [];
       }
-      const response = await fetch(
-        `${apiUrl}/api/docker/images/search?term=${encodeURIComponent(
-          searchTerm
-        )}&registry=${registry}`
-      );
-      if (!response.ok) {
-        throw new Error('Failed to search images');
-      }
-      return response.json();
+      return api.GET('/api/docker/images/search', {
+        params: { query: { term: searchTerm, registry } },
+      });
     },
     enabled: searchTerm.length > 0,
   });
@@ -87,17 +74,11 @@ export function ImageSearchDialog({
           <CircularProgress />
         ) : (
           <List>
-            {searchResults?.map((image: SearchResult) => (
+            {searchResults?.map((image) => (
               <ListItem key={image.name}>
                 <ListItemAvatar>
-                  <Avatar
-                    src={image.icon || undefined}
-                    alt={image.name}
-                    sx={{
-                      bgcolor: image.icon ? 'transparent' : 'grey.300',
-                    }}
-                  >
-                    {!image.icon && image.name.charAt(0).toUpperCase()}
+                  <Avatar alt={image.name} sx={{ bgcolor: 'grey.300' }}>
+                    {image.name.charAt(0).toUpperCase()}
                   </Avatar>
                 </ListItemAvatar>
                 <ListItemText
@@ -1,15 +1,24 @@
+import { useEffect, useRef, useState } from 'react';
 import {
   Dialog,
   DialogTitle,
   DialogContent,
   DialogActions,
+  Alert,
   Button,
   Box,
+  Chip,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
   CircularProgress,
 } from '@mui/material';
-import { useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { apiUrl, socketUrl } from '../../api';
 
 interface LogsDialogProps {
   open: boolean;
@@ -18,50 +27,200 @@ interface LogsDialogProps {
   containerName: string;
 }
 
+// A line as the system service sends it over /ws
+interface LogLine {
+  stream: 'stdout' | 'stderr';
+  timestamp: string | null;
+  message: string;
+}
+
+type StreamSelection = 'all' | 'stdout' | 'stderr';
+
+interface LogQuery {
+  stdout: boolean;
+  stderr: boolean;
+  since?: string;
+  until?: string;
+  filter?: string;
+}
+
+// Older lines are dropped from view beyond this; the download has all of them
+const MAX_LINES = 5000;
+const INITIAL_TAIL = 1000;
+
+// Follows (or reads once) a container's logs over /ws for as long as enabled
+function useContainerLogs(containerId: string, query: LogQuery, follow: boolean, enabled: boolean) {
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ended, setEnded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = JSON.stringify({ containerId, tail: INITIAL_TAIL, ...query });
+
+  useEffect(() => {
+    if (!enabled) {
+      return undefined;
+    }
+
+    setLines([]);
+    setLoading(true);
+    setEnded(false);
+    setError(null);
+
+    const socket = new WebSocket(socketUrl('/ws'));
+    socket.onopen = () => {
+      const type = follow ? 'follow_container_logs' : 'get_container_logs';
+      socket.send(JSON.stringify({ type, data: JSON.parse(request) }));
+      setLoading(false);
+    };
+    socket.onmessage = (event) => {
+      const { type, data } = JSON.parse(event.data);
+      if (data?.containerId !== containerId) {
+        return;
+      }
+      switch (type) {
+        case 'container_logs':
+          setLines((current) => [...current, ...(data.lines as LogLine[])].slice(-MAX_LINES));
+          break;
+        case 'container_logs_end':
+          setEnded(true);
+          break;
+        case 'container_logs_error':
+          setError(data.error.message);
+          break;
+      }
+    };
+    socket.onerror = () => {
+      setError('Lost the connection to the system service');
+      setLoading(false);
+    };
+
+    return () => socket.close();
+  }, [containerId, request, follow, enabled]);
+
+  return { lines, loading, ended, error };
+}
+
+// datetime-local values are in the browser's time zone
+const toIsoTime = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
 export function LogsDialog({
   open,
   onClose,
   containerId,
   containerName,
 }: LogsDialogProps): JSX.Element {
-  const { data: logs, isLoading } = useQuery({
-    queryKey: ['container-logs', containerId],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/docker/containers/${containerId}/logs?tail=1000`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch logs');
-      }
+  const [follow, setFollow] = useState(true);
+  const [streams, setStreams] = useState<StreamSelection>('all');
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [filterInput, setFilterInput] = useState('');
+  const [filter, setFilter] = useState('');
+  const [showTimestamps, setShowTimestamps] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
 
-      // Read the response as a Uint8Array
-      const buffer = await response.arrayBuffer();
-      const uint8Array = new Uint8Array(buffer);
-
-      // Convert the Uint8Array to string, handling Docker log format
-      let result = '';
-      for (let i = 0; i < uint8Array.length; ) {
-        // Docker log format: [8]stream[1][...]size[4]message
-        // Skip the header (8 bytes)
-        i += 8;
-        const size = uint8Array[i + 3];
-        i += 4;
-
-        // Read the message content
-        const chunk = uint8Array.slice(i, i + size);
-        result += new TextDecoder().decode(chunk);
-        i += size;
-      }
+  // Wait for a pause in typing before asking for differently filtered logs
+  useEffect(() => {
+    const timeout = setTimeout(() => setFilter(filterInput), 500);
+    return () => clearTimeout(timeout);
+  }, [filterInput]);
 
-      return result;
-    },
-    enabled: open,
-    refetchInterval: 5000,
-  });
+  const query: LogQuery = {
+    stdout: streams !== 'stderr',
+    stderr: streams !== 'stdout',
+    since: toIsoTime(since),
+    until: toIsoTime(until),
+    filter: filter || undefined,
+  };
+  const { lines, loading, ended, error } = useContainerLogs(
+    containerId,
+    query,
+    follow,
+    open && Boolean(containerId)
+  );
+
+  useEffect(() => {
+    if (follow) {
+      bottomRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [lines, follow]);
+
+  const downloadParams = new URLSearchParams(
+    Object.entries(query).flatMap(([name, value]) =>
+      value === undefined ? [] : [[name, String(value)]]
+    )
+  );
+  const downloadUrl = `${apiUrl}/api/docker/containers/${containerId}/logs/download?${downloadParams}`;
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
-      <DialogTitle>Logs: {containerName}</DialogTitle>
+      <DialogTitle>
+        Logs: {containerName}
+        {follow && !error && (
+          <Chip
+            size="small"
+            sx={{ ml: 1 }}
+            label={ended ? 'Container stopped' : 'Live'}
+            color={ended ? 'default' : 'success'}
+          />
+        )}
+      </DialogTitle>
       <DialogContent>
-        {isLoading ? (
+        <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap mb={2}>
+          <FormControlLabel
+            control={<Switch checked={follow} onChange={(e) => setFollow(e.target.checked)} />}
+            label="Follow"
+          />
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={streams}
+            onChange={(_, value) => value && setStreams(value)}
+          >
+            <ToggleButton value="all">All</ToggleButton>
+            <ToggleButton value="stdout">stdout</ToggleButton>
+            <ToggleButton value="stderr">stderr</ToggleButton>
+          </ToggleButtonGroup>
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="Since"
+            value={since}
+            onChange={(e) => setSince(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="Until"
+            value={until}
+            onChange={(e) => setUntil(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            label="Filter (regular expression)"
+            value={filterInput}
+            onChange={(e) => setFilterInput(e.target.value)}
+            sx={{ flexGrow: 1 }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showTimestamps}
+                onChange={(e) => setShowTimestamps(e.target.checked)}
+              />
+            }
+            label="Timestamps"
+          />
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && !error ? (
           <Box display="flex" justifyContent="center" p={3}>
             <CircularProgress />
           </Box>
@@ -85,12 +244,31 @@ export function LogsDialog({
                 fontSize: '0.875rem',
               }}
             >
-              {logs || ''}
+              {lines.map((line, index) => (
+                <Box
+                  key={index}
+                  component="span"
+                  display="block"
+                  color={line.stream === 'stderr' ? 'error.main' : undefined}
+                >
+                  {showTimestamps && line.timestamp && (
+                    <Box component="span" color="text.secondary">
+                      {new Date(line.timestamp).toLocaleString()}{' '}
+                    </Box>
+                  )}
+                  {line.message}
+                </Box>
+              ))}
+              {!lines.length && (follow && !ended ? 'Waiting for log lines…' : 'No log lines.')}
             </Typography>
+            <div ref={bottomRef} />
           </Box>
         )}
       </DialogContent>
       <DialogActions>
+        <Button startIcon={<DownloadIcon />} href={downloadUrl} download>
+          Download
+        </Button>
         <Button onClick={onClose}>Close</Button>
       </DialogActions>
     </Dialog>
@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+import Terminal, { TerminalSize } from '../Terminal';
+import { api } from '../../api';
+
+interface ShellDialogProps {
+  open: boolean;
+  onClose: () => void;
+  containerId: string;
+  containerName: string;
+}
+
+// A shell inside a running container, started with docker exec
+export function ShellDialog({
+  open,
+  onClose,
+  containerId,
+  containerName,
+}: ShellDialogProps): JSX.Element {
+  const createSession = useCallback(
+    (size: TerminalSize) =>
+      api.POST('/api/docker/containers/{id}/exec', {
+        params: { path: { id: containerId } },
+        body: size,
+      }),
+    [containerId]
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Shell: {containerName}</DialogTitle>
+      <DialogContent>{open && <Terminal createSession={createSession} />}</DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
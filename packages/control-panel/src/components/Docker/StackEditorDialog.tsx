@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError, ApiResponse } from '../../api';
+
+type Validation = ApiResponse<'/api/docker/stacks/validate', 'post'>;
+
+const TEMPLATE = `services:
+  app:
+    image: nginx:alpine
+    restart: unless-stopped
+    ports:
+      - "8080:80"
+`;
+
+const editorSx = { '& textarea': { fontFamily: 'monospace', fontSize: 13 } };
+
+interface StackEditorDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // The stack to edit, or null to create one
+  stackName: string | null;
+}
+
+export function StackEditorDialog({
+  open,
+  onClose,
+  stackName,
+}: StackEditorDialogProps): JSX.Element {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [compose, setCompose] = useState('');
+  const [env, setEnv] = useState('');
+  const [validation, setValidation] = useState<Validation | null>(null);
+
+  const { data: stack, isLoading } = useQuery({
+    queryKey: ['docker-stack', stackName],
+    queryFn: () =>
+      api.GET('/api/docker/stacks/{name}', { params: { path: { name: stackName ?? '' } } }),
+    enabled: open && !!stackName,
+    // A refetch would replace what is being typed
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setName(stackName ?? '');
+    setCompose(stackName ? stack?.compose ?? '' : TEMPLATE);
+    setEnv(stackName ? stack?.env ?? '' : '');
+    setValidation(null);
+  }, [open, stackName, stack]);
+
+  const validate = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      api.POST('/api/docker/stacks/validate', {
+        body: { name: name || undefined, compose, env },
+      }),
+    onSuccess: setValidation,
+  });
+
+  const save = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      stackName
+        ? api.PUT('/api/docker/stacks/{name}', {
+            params: { path: { name: stackName } },
+            body: { compose, env },
+          })
+        : api.POST('/api/docker/stacks', { body: { name, compose, env } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['docker-stacks'] });
+      queryClient.invalidateQueries({ queryKey: ['docker-stack', stackName] });
+      handleClose();
+    },
+  });
+
+  const handleClose = () => {
+    validate.reset();
+    save.reset();
+    onClose();
+  };
+
+  const error = validate.error ?? save.error;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{stackName ? `Edit ${stackName}` : 'New Stack'}</DialogTitle>
+      {isLoading && <LinearProgress />}
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {!stackName && (
+            <TextField
+              autoFocus
+              fullWidth
+              size="small"
+              label="Name"
+              placeholder="media"
+              helperText="Lowercase letters, digits, _ and -. Prefixes the names of its containers."
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={16}
+            maxRows={30}
+            label="compose.yaml"
+            value={compose}
+            onChange={(e) => {
+              setCompose(e.target.value);
+              setValidation(null);
+            }}
+            inputProps={{ spellCheck: false }}
+            sx={editorSx}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            maxRows={10}
+            label=".env"
+            placeholder={'TZ=Europe/London\nDB_PASSWORD=${secret:DB_PASSWORD}'}
+            helperText="Variables used as ${NAME} in the Compose file"
+            value={env}
+            onChange={(e) => {
+              setEnv(e.target.value);
+              setValidation(null);
+            }}
+            inputProps={{ spellCheck: false }}
+            sx={editorSx}
+          />
+          {validation?.valid && (
+            <Alert severity="success">
+              Valid. Services start in this order: {validation.services.join(', ')}.
+            </Alert>
+          )}
+          {validation && !validation.valid && (
+            <Alert severity="error">
+              {validation.errors.map((issue) => (
+                <Typography key={`${issue.path}:${issue.message}`} variant="body2">
+                  {issue.path && <code>{issue.path}: </code>}
+                  {issue.message}
+                </Typography>
+              ))}
+            </Alert>
+          )}
+          {validation && validation.warnings.length > 0 && (
+            <Alert severity="warning">
+              {validation.warnings.map((warning) => (
+                <Typography key={warning} variant="body2">
+                  {warning}
+                </Typography>
+              ))}
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error">
+              {error.message}
+              {error instanceof ApiError &&
+                error.issues.map((issue) => (
+                  <Typography key={`${issue.path}:${issue.message}`} variant="body2">
+                    {issue.path && <code>{issue.path}: </code>}
+                    {issue.message}
+                  </Typography>
+                ))}
+            </Alert>
+          )}
+          {stackName && (
+            <Alert severity="info">
+              Saving does not change running containers. Deploy the stack to apply it.
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={() => validate.mutate()} disabled={!compose || validate.isPending}>
+          Validate
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => save.mutate()}
+          disabled={!name || !compose || save.isPending}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  IconButton,
+  LinearProgress,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  PlayArrow as DeployIcon,
+  Stop as StopIcon,
+  Update as UpdateIcon,
+} from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../AuthProvider';
+import { useNotifications } from '../NotificationProvider';
+import { api, ApiResponse } from '../../api';
+import { StackEditorDialog } from './StackEditorDialog';
+
+type StackSummary = ApiResponse<'/api/docker/stacks'>[number];
+type DeployResult = ApiResponse<'/api/docker/stacks/{name}/deploy', 'post'>;
+
+const STATUS_COLORS = {
+  running: 'success',
+  partial: 'warning',
+  stopped: 'error',
+  undeployed: 'default',
+} as const;
+
+const serviceColor = (state: string | null): 'success' | 'error' | 'default' => {
+  if (state === 'running') {
+    return 'success';
+  }
+  return state ? 'error' : 'default';
+};
+
+// "2 services recreated, 1 started" from what a deployment did
+function describeDeploy({ services }: DeployResult): string {
+  const counts = new Map<string, number>();
+  for (const { action } of services) {
+    if (action !== 'unchanged') {
+      counts.set(action, (counts.get(action) ?? 0) + 1);
+    }
+  }
+  if (!counts.size) {
+    return 'Everything is up to date';
+  }
+  return [...counts]
+    .map(([action, count], index) =>
+      index ? `${count} ${action}` : `${count} service${count === 1 ? '' : 's'} ${action}`
+    )
+    .join(', ');
+}
+
+export default function Stacks(): JSX.Element {
+  const { can } = useAuth();
+  const { notify } = useNotifications();
+  const queryClient = useQueryClient();
+  const [editor, setEditor] = useState<{ open: boolean; stackName: string | null }>({
+    open: false,
+    stackName: null,
+  });
+
+  const { data: stacks, isLoading } = useQuery({
+    queryKey: ['docker-stacks'],
+    queryFn: () => api.GET('/api/docker/stacks'),
+    refetchInterval: 5000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['docker-stacks'] });
+    queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
+  };
+
+  const deployStack = useMutation({
+    mutationFn: ({ name, pull }: { name: string; pull: boolean }) =>
+      api.POST(pull ? '/api/docker/stacks/{name}/update' : '/api/docker/stacks/{name}/deploy', {
+        params: { path: { name } },
+      }),
+    onSuccess: (result, { name }) => {
+      notify(`${name}: ${describeDeploy(result)}`, 'success');
+      refresh();
+    },
+  });
+
+  const stopStack = useMutation({
+    mutationFn: (name: string) =>
+      api.POST('/api/docker/stacks/{name}/stop', { params: { path: { name } } }),
+    onSuccess: refresh,
+  });
+
+  const deleteStack = useMutation({
+    mutationFn: ({ name, removeVolumes }: { name: string; removeVolumes: boolean }) =>
+      api.DELETE('/api/docker/stacks/{name}', {
+        params: { path: { name }, query: { removeVolumes: String(removeVolumes) } },
+      }),
+    onSuccess: refresh,
+  });
+
+  // Deployments can take minutes while images are pulled
+  const busy = (stack: StackSummary) =>
+    (deployStack.isPending && deployStack.variables?.name === stack.name) ||
+    (stopStack.isPending && stopStack.variables === stack.name) ||
+    (deleteStack.isPending && deleteStack.variables?.name === stack.name);
+
+  const handleDelete = (stack: StackSummary) => {
+    if (!window.confirm(`Delete the stack "${stack.name}" and its containers?`)) {
+      return;
+    }
+    const removeVolumes = window.confirm(
+      `Also delete the named volumes of "${stack.name}"? Their data cannot be recovered.`
+    );
+    deleteStack.mutate({ name: stack.name, removeVolumes });
+  };
+
+  if (isLoading) {
+    return <LinearProgress />;
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="body2" color="text.secondary">
+          Docker Compose projects. Containers of a stack are named after it and can also be
+          managed with <code>docker compose -p NAME</code>.
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          disabled={!can('admin')}
+          onClick={() => setEditor({ open: true, stackName: null })}
+        >
+          New Stack
+        </Button>
+      </Stack>
+
+      {stacks && stacks.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No stacks yet.
+        </Typography>
+      )}
+
+      <Grid container spacing={3}>
+        {stacks?.map((stack) => (
+          <Grid item xs={12} key={stack.name}>
+            <Card>
+              {busy(stack) && <LinearProgress />}
+              <CardContent>
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Box sx={{ flexGrow: 1 }}>
+                    <Typography variant="h6">
+                      {stack.name}
+                      <Chip
+                        size="small"
+                        label={stack.status}
+                        color={STATUS_COLORS[stack.status]}
+                        sx={{ ml: 1 }}
+                      />
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Updated {new Date(stack.updatedAt).toLocaleString()}
+                    </Typography>
+                  </Box>
+                  <Stack direction="row" spacing={1}>
+                    <Tooltip title="Deploy">
+                      <span>
+                        <IconButton
+                          color="success"
+                          disabled={!can('admin') || busy(stack)}
+                          onClick={() => deployStack.mutate({ name: stack.name, pull: false })}
+                        >
+                          <DeployIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Pull images and redeploy">
+                      <span>
+                        <IconButton
+                          color="primary"
+                          disabled={!can('admin') || busy(stack)}
+                          onClick={() => deployStack.mutate({ name: stack.name, pull: true })}
+                        >
+                          <UpdateIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Stop">
+                      <span>
+                        <IconButton
+                          color="error"
+                          disabled={
+                            !can('operator') ||
+                            busy(stack) ||
+                            !['running', 'partial'].includes(stack.status)
+                          }
+                          onClick={() => stopStack.mutate(stack.name)}
+                        >
+                          <StopIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <span>
+                        <IconButton
+                          disabled={!can('admin')}
+                          onClick={() => setEditor({ open: true, stackName: stack.name })}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <span>
+                        <IconButton
+                          color="error"
+                          disabled={!can('admin') || busy(stack)}
+                          onClick={() => handleDelete(stack)}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Stack>
+                </Stack>
+
+                {stack.services.length > 0 && (
+                  <Box sx={{ mt: 2 }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Services
+                    </Typography>
+                    <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                      {stack.services.map((service) => (
+                        <Tooltip key={service.name} title={service.status ?? 'Not created'}>
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            label={service.name}
+                            color={serviceColor(service.state)}
+                          />
+                        </Tooltip>
+                      ))}
+                    </Stack>
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <StackEditorDialog
+        open={editor.open}
+        onClose={() => setEditor({ open: false, stackName: null })}
+        stackName={editor.stackName}
+      />
+    </Box>
+  );
+}
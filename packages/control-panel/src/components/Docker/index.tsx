@@ -10,6 +10,8 @@ import {
   Tooltip,
   Chip,
   Button,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   PlayArrow as StartIcon,
@@ -17,77 +19,28 @@ import {
   Delete as DeleteIcon,
   Refresh as RestartIcon,
   Add as AddIcon,
-  Terminal as LogsIcon,
+  Article as LogsIcon,
+  Terminal as ShellIcon,
   Edit as EditIcon,
 } from '@mui/icons-material';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useState } from 'react';
-import { apiUrl } from '../../App';
+import { useAuth } from '../AuthProvider';
 import { CreateContainerDialog } from './CreateContainerDialog';
 // Add to imports
 import { ImageSearchDialog } from './ImageSearchDialog';
 // Add to imports
 import { LogsDialog } from './LogsDialog';
+import { ShellDialog } from './ShellDialog';
 import { EditContainerDialog } from './EditContainerDialog';
+import Stacks from './Stacks';
+import { api, ApiResponse } from '../../api';
 
-interface Port {
-  PublicPort?: number;
-  PrivatePort: number;
-  Type: string;
-}
-
-// interface Container {
-//   Id: string;
-//   Names: string[];
-//   Image: string;
-//   State: string;
-//   Status: string;
-//   Ports: Port[];
-//   Command: string;
-// }
-
-interface Container {
-  Id: string;
-  Names: string[];
-  Image: string;
-  State: string;
-  Status: string;
-  Ports: Port[];
-  Command: string;
-  Config: {
-    Hostname: string;
-    Env: string[];
-    Cmd: string[];
-    ExposedPorts: { [key: string]: object };
-    Labels: { [key: string]: string };
-    Volumes: { [key: string]: object };
-  };
-  HostConfig: {
-    Binds: string[];
-    PortBindings: {
-      [key: string]: Array<{ HostPort: string }>;
-    };
-    RestartPolicy: { Name: string };
-    NetworkMode: string;
-    Privileged: boolean;
-    Devices: Array<{
-      PathOnHost: string;
-      PathInContainer: string;
-      CgroupPermissions: string;
-    }>;
-    Memory: number;
-    CpuShares: number;
-  };
-  Mounts: Array<{
-    Type: string;
-    Source: string;
-    Destination: string;
-    Mode: string;
-    RW: boolean;
-  }>;
-}
+export type Container = ApiResponse<'/api/docker/containers'>[number];
 
 export default function Docker(): JSX.Element {
+  const { can } = useAuth();
+  const [tab, setTab] = useState<'containers' | 'stacks'>('containers');
   // Add new state for logs dialog
   const [logsDialog, setLogsDialog] = useState<{
     open: boolean;
@@ -99,6 +52,16 @@ export default function Docker(): JSX.Element {
     name: '',
   });
 
+  const [shellDialog, setShellDialog] = useState<{
+    open: boolean;
+    containerId: string;
+    name: string;
+  }>({
+    open: false,
+    containerId: '',
+    name: '',
+  });
+
   const [editDialog, setEditDialog] = useState<{
     open: boolean;
     container: Container | null;
@@ -126,60 +89,32 @@ export default function Docker(): JSX.Element {
 
   // Move mutations to the top level
   const startContainer = useMutation({
-    mutationFn: async (containerId: string) => {
-      const response = await fetch(`${apiUrl}/api/docker/containers/${containerId}/start`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to start container');
-      }
-      return response.json();
-    },
+    mutationFn: (containerId: string) =>
+      api.POST('/api/docker/containers/{id}/start', { params: { path: { id: containerId } } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
     },
   });
 
   const stopContainer = useMutation({
-    mutationFn: async (containerId: string) => {
-      const response = await fetch(`${apiUrl}/api/docker/containers/${containerId}/stop`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to stop container');
-      }
-      return response.json();
-    },
+    mutationFn: (containerId: string) =>
+      api.POST('/api/docker/containers/{id}/stop', { params: { path: { id: containerId } } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
     },
   });
 
   const restartContainer = useMutation({
-    mutationFn: async (containerId: string) => {
-      const response = await fetch(`${apiUrl}/api/docker/containers/${containerId}/restart`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to restart container');
-      }
-      return response.json();
-    },
+    mutationFn: (containerId: string) =>
+      api.POST('/api/docker/containers/{id}/restart', { params: { path: { id: containerId } } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
     },
   });
 
   const deleteContainer = useMutation({
-    mutationFn: async (containerId: string) => {
-      const response = await fetch(`${apiUrl}/api/docker/containers/${containerId}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete container');
-      }
-      return response.json();
-    },
+    mutationFn: (containerId: string) =>
+      api.DELETE('/api/docker/containers/{id}', { params: { path: { id: containerId } } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['docker-containers'] });
     },
@@ -187,13 +122,7 @@ export default function Docker(): JSX.Element {
 
   const { data: containers, isLoading } = useQuery({
     queryKey: ['docker-containers'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/docker/containers?all=true`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch containers');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/docker/containers', { params: { query: { all: 'true' } } }),
     refetchInterval: 5000,
   });
 
@@ -204,18 +133,27 @@ export default function Docker(): JSX.Element {
   // Update the IconButton onClick handlers
   return (
     <Box sx={{ flexGrow: 1 }}>
-      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={3}>
-        <Typography variant="h5">Docker Containers</Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setCreateDialogOpen(true)}
-        >
-          Create Container
-        </Button>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h5">Docker</Typography>
+        {tab === 'containers' && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            disabled={!can('admin')}
+            onClick={() => setCreateDialogOpen(true)}
+          >
+            Create Container
+          </Button>
+        )}
       </Stack>
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab value="containers" label="Containers" />
+        <Tab value="stacks" label="Stacks" />
+      </Tabs>
 
-      <Grid container spacing={3}>
+      {tab === 'stacks' && <Stacks />}
+
+      <Grid container spacing={3} sx={{ display: tab === 'containers' ? undefined : 'none' }}>
         {containers?.map((container: Container) => (
           <Grid item xs={12} key={container.Id}>
             <Card>
@@ -238,30 +176,39 @@ export default function Docker(): JSX.Element {
                   <Stack direction="row" spacing={1}>
                     {container.State.toLowerCase() === 'running' ? (
                       <Tooltip title="Stop">
-                        <IconButton
-                          color="error"
-                          onClick={() => stopContainer.mutate(container.Id)}
-                        >
-                          <StopIcon />
-                        </IconButton>
+                        <span>
+                          <IconButton
+                            color="error"
+                            disabled={!can('operator')}
+                            onClick={() => stopContainer.mutate(container.Id)}
+                          >
+                            <StopIcon />
+                          </IconButton>
+                        </span>
                       </Tooltip>
                     ) : (
                       <Tooltip title="Start">
-                        <IconButton
-                          color="success"
-                          onClick={() => startContainer.mutate(container.Id)}
-                        >
-                          <StartIcon />
-                        </IconButton>
+                        <span>
+                          <IconButton
+                            color="success"
+                            disabled={!can('operator')}
+                            onClick={() => startContainer.mutate(container.Id)}
+                          >
+                            <StartIcon />
+                          </IconButton>
+                        </span>
                       </Tooltip>
                     )}
                     <Tooltip title="Restart">
-                      <IconButton
-                        color="warning"
-                        onClick={() => restartContainer.mutate(container.Id)}
-                      >
-                        <RestartIcon />
-                      </IconButton>
+                      <span>
+                        <IconButton
+                          color="warning"
+                          disabled={!can('operator')}
+                          onClick={() => restartContainer.mutate(container.Id)}
+                        >
+                          <RestartIcon />
+                        </IconButton>
+                      </span>
                     </Tooltip>
 
                     <Tooltip title="Logs">
@@ -277,25 +224,42 @@ export default function Docker(): JSX.Element {
                         <LogsIcon />
                       </IconButton>
                     </Tooltip>
-
-                    <LogsDialog
-                      open={logsDialog.open}
-                      onClose={() => setLogsDialog({ open: false, containerId: '', name: '' })}
-                      containerId={logsDialog.containerId}
-                      containerName={logsDialog.name}
-                    />
+                    <Tooltip title="Shell">
+                      <span>
+                        <IconButton
+                          disabled={!can('admin') || container.State.toLowerCase() !== 'running'}
+                          onClick={() =>
+                            setShellDialog({
+                              open: true,
+                              containerId: container.Id,
+                              name: container.Names[0].replace(/^\//, ''),
+                            })
+                          }
+                        >
+                          <ShellIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
                     <Tooltip title="Edit">
-                      <IconButton onClick={() => setEditDialog({ open: true, container })}>
-                        <EditIcon />
-                      </IconButton>
+                      <span>
+                        <IconButton
+                          disabled={!can('admin')}
+                          onClick={() => setEditDialog({ open: true, container })}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </span>
                     </Tooltip>
                     <Tooltip title="Delete">
-                      <IconButton
-                        color="error"
-                        onClick={() => deleteContainer.mutate(container.Id)}
-                      >
-                        <DeleteIcon />
-                      </IconButton>
+                      <span>
+                        <IconButton
+                          color="error"
+                          disabled={!can('operator')}
+                          onClick={() => deleteContainer.mutate(container.Id)}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </span>
                     </Tooltip>
                   </Stack>
                 </Stack>
@@ -361,6 +325,18 @@ export default function Docker(): JSX.Element {
           // You can pass this to CreateContainerDialog
         }}
       />
+      <LogsDialog
+        open={logsDialog.open}
+        onClose={() => setLogsDialog({ open: false, containerId: '', name: '' })}
+        containerId={logsDialog.containerId}
+        containerName={logsDialog.name}
+      />
+      <ShellDialog
+        open={shellDialog.open}
+        onClose={() => setShellDialog({ open: false, containerId: '', name: '' })}
+        containerId={shellDialog.containerId}
+        containerName={shellDialog.name}
+      />
       <EditContainerDialog
         open={editDialog.open}
         onClose={() => setEditDialog({ open: false, container: null })}
@@ -1,8 +1,8 @@
 import { Box, styled } from '@mui/material';
 import { useEffect, ReactNode } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
 import { createContext } from 'react';
+import { api } from '../../api';
 
 export const AppearanceContext = createContext<{
   useFrostedGlass?: boolean;
@@ -46,10 +46,12 @@ const ContentWrapper = styled(Box)(() => ({
     backdropFilter: appearanceSettings?.useFrostedGlass ? 'blur(10px)' : undefined,
   },
 }));
-let appearanceSettings: {
-  useFrostedGlass?: boolean;
-  background?: string;
-} = {
+let appearanceSettings:
+  | {
+      useFrostedGlass?: boolean;
+      background?: string;
+    }
+  | undefined = {
   useFrostedGlass: false,
   background: 'abstract-dark',
 };
@@ -57,13 +59,7 @@ let appearanceSettings: {
 export default function FrostedGlassProvider({ children }: { children: ReactNode }): JSX.Element {
   const { data: tmpSettings } = useQuery({
     queryKey: ['appearance-settings'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/appearance/appearance`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch appearance settings');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/appearance/appearance'),
   });
   appearanceSettings = tmpSettings;
   useEffect(() => {
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { Box, Typography } from '@mui/material';
+import Terminal, { TerminalSize } from '../Terminal';
+import { api } from '../../api';
+
+// A login shell on the host, for admins; a new one starts each time the page opens
+export default function HostTerminal(): JSX.Element {
+  const createSession = useCallback(
+    (size: TerminalSize) => api.POST('/api/system/terminal', { body: size }),
+    []
+  );
+
+  return (
+    <Box sx={{ flexGrow: 1 }}>
+      <Typography variant="h5" gutterBottom>
+        Terminal
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        A shell on the host running as the system service&apos;s user. Opening it is recorded in
+        the audit log, and it closes after a while without activity.
+      </Typography>
+      <Terminal createSession={createSession} height="70vh" />
+    </Box>
+  );
+}
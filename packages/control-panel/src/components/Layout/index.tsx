@@ -1,4 +1,4 @@
-import { useState, useContext } from 'react';
+import { useState, useContext, useEffect } from 'react';
 import {
   Box,
   AppBar,
@@ -12,12 +12,15 @@ import {
   Snackbar,
   Stack,
   Chip,
+  Tooltip,
 } from '@mui/material';
 // import { Extension } from '@mui/icons-material';
 import MenuIcon from '@mui/icons-material/Menu';
 import SignalWifiStatusbar4BarIcon from '@mui/icons-material/SignalWifiStatusbar4Bar';
+import LogoutIcon from '@mui/icons-material/Logout';
+import PersonIcon from '@mui/icons-material/Person';
 import { useQuery } from '@tanstack/react-query';
-import { Routes, Route, useLocation, Navigate } from 'react-router-dom';
+import { Routes, Route, useLocation, useNavigate, Navigate } from 'react-router-dom';
 import Sidebar from '../Sidebar';
 import Dashboard from '../Dashboard';
 import Storage from '../Storage';
@@ -26,8 +29,11 @@ import Network from '../Network';
 import Settings from '../Settings';
 import Plugins from '../Plugins';
 import NestLauncher from '../NestLauncher';
-import { apiUrl } from '../../App';
+import AuditLog from '../AuditLog';
+import HostTerminal from '../HostTerminal';
 import { AppearanceContext } from '../FrostedGlassProvider';
+import { useAuth } from '../AuthProvider';
+import { api } from '../../api';
 
 const drawerWidth = 240;
 
@@ -48,6 +54,8 @@ const getPageTitle = (pathname: string): string => {
       return 'Plugin Management';
     case '/settings':
       return 'System Settings';
+    case '/terminal':
+      return 'Host Terminal';
     default:
       return 'NestOS';
   }
@@ -56,19 +64,25 @@ const getPageTitle = (pathname: string): string => {
 export default function Layout(): JSX.Element {
   const theme = useTheme();
   const location = useLocation();
+  const navigate = useNavigate();
   const [mobileOpen, setMobileOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { useFrostedGlass } = useContext(AppearanceContext);
+  const { user, can, logout } = useAuth();
+
+  // Open the signed-in user's preferred start page when landing on the launcher
+  useEffect(() => {
+    if (location.pathname === '/' && user?.preferences.launcher.defaultView === 'dashboard') {
+      navigate('/dashboard', { replace: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
 
   const { data: systemInfo, isLoading: systemLoading } = useQuery({
     queryKey: ['system-info'],
     queryFn: async () => {
       try {
-        const response = await fetch(`${apiUrl}/api/system/info`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch system info');
-        }
-        return response.json();
+        return await api.GET('/api/system/info');
       } catch (error) {
         setError('Failed to connect to system service');
         throw error;
@@ -146,6 +160,16 @@ export default function Layout(): JSX.Element {
                 />
               </>
             )}
+            <Chip size="small" icon={<PersonIcon />} label={user?.username} variant="outlined" />
+            <Tooltip title="Sign out">
+              <IconButton
+                color="inherit"
+                onClick={logout}
+                sx={{ color: isLauncherPage || useFrostedGlass ? 'white' : 'text.primary' }}
+              >
+                <LogoutIcon />
+              </IconButton>
+            </Tooltip>
           </Stack>
         </Toolbar>
       </AppBar>
@@ -210,6 +234,8 @@ export default function Layout(): JSX.Element {
           <Route path="/network" element={<Network />} />
           <Route path="/plugins" element={<Plugins />} />
           <Route path="/settings" element={<Settings />} />
+          {can('admin') && <Route path="/terminal" element={<HostTerminal />} />}
+          {can('admin') && <Route path="/audit" element={<AuditLog />} />}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Box>
@@ -0,0 +1,205 @@
+import { FormEvent, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import { LoadingButton } from '@mui/lab';
+import { Login as LoginIcon } from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiResponse } from '../../api';
+
+export default function Login(): JSX.Element {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Set when the password was accepted but the account needs a second factor
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: setup, isLoading } = useQuery({
+    queryKey: ['auth-setup'],
+    queryFn: () => api.GET('/api/auth/setup'),
+  });
+
+  const setupRequired = setup?.setupRequired ?? false;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (setupRequired && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      let result: ApiResponse<'/api/auth/login', 'post'>;
+      if (challenge) {
+        result = await api.POST('/api/auth/login/two-factor', { body: { challenge, code } });
+      } else if (setupRequired) {
+        result = await api.POST('/api/auth/setup', {
+          body: { username, password, displayName },
+        });
+      } else {
+        result = await api.POST('/api/auth/login', { body: { username, password } });
+      }
+
+      if ('twoFactorRequired' in result) {
+        setChallenge(result.challenge);
+        return;
+      }
+
+      queryClient.setQueryData(['auth-session'], { user: result.user });
+      await queryClient.invalidateQueries({ queryKey: ['auth-setup'] });
+    } catch (error) {
+      setCode('');
+      setError(error instanceof Error ? error.message : 'Login failed');
+      // An expired challenge means starting over from the password
+      if (challenge && error instanceof Error && error.message.includes('expired')) {
+        setChallenge(null);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      sx={{ p: 2 }}
+    >
+      <Card sx={{ width: '100%', maxWidth: 400 }}>
+        <CardContent>
+          <Stack spacing={2} component="form" onSubmit={handleSubmit}>
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Box component="img" src="/logo.svg" alt="NestOS Logo" sx={{ width: 40 }} />
+              <Typography variant="h5">
+                {setupRequired ? 'Create Admin Account' : 'Sign in to NestOS'}
+              </Typography>
+            </Stack>
+            {challenge ? (
+              <>
+                <Typography variant="body2" color="text.secondary">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery
+                  codes.
+                </Typography>
+                <TextField
+                  autoFocus
+                  fullWidth
+                  label="Authentication Code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  inputProps={{ inputMode: 'numeric' }}
+                  size="small"
+                />
+                {error && <Alert severity="error">{error}</Alert>}
+                <LoadingButton
+                  type="submit"
+                  variant="contained"
+                  loading={submitting}
+                  startIcon={<LoginIcon />}
+                  disabled={!code}
+                >
+                  Verify
+                </LoadingButton>
+                <Button
+                  onClick={() => {
+                    setChallenge(null);
+                    setCode('');
+                    setPassword('');
+                    setError(null);
+                  }}
+                >
+                  Back
+                </Button>
+              </>
+            ) : (
+              <>
+                {setupRequired && (
+                  <Alert severity="info">
+                    No accounts exist yet. The account you create now will be used to sign in to
+                    this server.
+                  </Alert>
+                )}
+                <TextField
+                  autoFocus
+                  fullWidth
+                  label="Username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                  size="small"
+                />
+                {setupRequired && (
+                  <TextField
+                    fullWidth
+                    label="What's your name?"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    helperText="Used to greet you on the launcher"
+                    size="small"
+                  />
+                )}
+                <TextField
+                  fullWidth
+                  label="Password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                  helperText={setupRequired ? 'At least 8 characters' : undefined}
+                  size="small"
+                />
+                {setupRequired && (
+                  <TextField
+                    fullWidth
+                    label="Confirm Password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    size="small"
+                  />
+                )}
+                {error && <Alert severity="error">{error}</Alert>}
+                <LoadingButton
+                  type="submit"
+                  variant="contained"
+                  loading={submitting}
+                  startIcon={<LoginIcon />}
+                  disabled={!username || !password}
+                >
+                  {setupRequired ? 'Create Account' : 'Sign In'}
+                </LoadingButton>
+              </>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
@@ -7,63 +7,14 @@ import {
   InputAdornment,
   styled,
   Paper,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
-  Button,
 } from '@mui/material';
 import { Search as SearchIcon } from '@mui/icons-material';
 import { useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
 import { useState, useEffect } from 'react';
+import { useAuth } from '../AuthProvider';
+import { api, ApiResponse } from '../../api';
 
-// interface StorageDevice {
-//   type: string;
-//   filesystem?: { used: number | string | undefined };
-//   mount?: string[];
-// }
-
-interface StorageDevice {
-  name: string;
-  identifier: string;
-  type: string;
-  fsType: string;
-  mount: string;
-  size: number;
-  physical: string;
-  uuid: string;
-  label: string;
-  model: string;
-  serial: string;
-  removable: boolean;
-  protocol: string;
-  group: string;
-  device: string;
-  smart: {
-    health: string;
-    attributes: string;
-  } | null;
-  layout: {
-    vendor: string;
-    type: string;
-    size: number;
-    interfaceType: string;
-    temperature: number;
-    serialNum: string;
-    firmwareRevision: string;
-  } | null;
-  filesystem: {
-    size: number;
-    used: number;
-    available: number;
-    use: number;
-  } | null;
-}
-
-interface StorageInfo {
-  devices: StorageDevice[];
-}
+type StorageDevice = ApiResponse<'/api/storage/devices'>['devices'][number];
 
 const BackgroundContainer = styled(Box)(() => ({
   position: 'fixed',
@@ -124,100 +75,14 @@ const AppCard = styled(Paper)(({ theme }) => ({
   },
 }));
 
-const StyledDialog = styled(Dialog)(() => ({
-  '& .MuiDialog-paper': {
-    background: 'rgba(255, 255, 255, 0.1)',
-    backdropFilter: 'blur(10px)',
-    border: '1px solid rgba(255, 255, 255, 0.2)',
-    color: 'white',
-  },
-}));
-
-const StyledDialogTitle = styled(DialogTitle)({
-  color: 'white',
-});
-
-const StyledTextField = styled(TextField)({
-  '& .MuiInputLabel-root': {
-    color: 'rgba(255, 255, 255, 0.7)',
-  },
-  '& .MuiInputBase-input': {
-    color: 'white',
-  },
-  '& .MuiOutlinedInput-root': {
-    '& fieldset': {
-      borderColor: 'rgba(255, 255, 255, 0.2)',
-    },
-    '&:hover fieldset': {
-      borderColor: 'rgba(255, 255, 255, 0.3)',
-    },
-    '&.Mui-focused fieldset': {
-      borderColor: 'rgba(255, 255, 255, 0.5)',
-    },
-  },
-});
-
-const StyledButton = styled(Button)({
-  color: 'white',
-  borderColor: 'rgba(255, 255, 255, 0.2)',
-  '&:hover': {
-    borderColor: 'rgba(255, 255, 255, 0.3)',
-    background: 'rgba(255, 255, 255, 0.1)',
-  },
-});
-
 export default function NestLauncher(): JSX.Element {
   const [greeting, setGreeting] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [openDialog, setOpenDialog] = useState(false);
-
-  const { data: userData, refetch: refetchUser } = useQuery({
-    queryKey: ['user-name'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/user/name`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch user name');
-      }
-      return response.json();
-    },
-  });
-
-  useEffect(() => {
-    if (userData && !userData.name) {
-      setOpenDialog(true);
-    }
-  }, [userData]);
-
-  const saveUserName = async (name: string) => {
-    try {
-      const response = await fetch(`${apiUrl}/api/system/user/name`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ name }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save name');
-      }
-
-      setOpenDialog(false);
-      refetchUser();
-    } catch (error) {
-      console.error('Error saving name:', error);
-    }
-  };
+  const { user } = useAuth();
 
   const { data: appearanceSettings } = useQuery({
     queryKey: ['appearance-settings'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/appearance/appearance`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch appearance settings');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/appearance/appearance'),
   });
 
   useEffect(() => {
@@ -231,13 +96,7 @@ export default function NestLauncher(): JSX.Element {
 
   const { data: systemInfo } = useQuery({
     queryKey: ['system-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/info?detailed=true`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch system info');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/info', { params: { query: { detailed: 'true' } } }),
     refetchInterval: 5000,
   });
 
@@ -250,15 +109,9 @@ export default function NestLauncher(): JSX.Element {
     return `${(bytes / Math.pow(1024, i)).toFixed(2)} ${sizes[i]}`;
   };
 
-  const { data: storageInfo } = useQuery<StorageInfo>({
+  const { data: storageInfo } = useQuery({
     queryKey: ['storage-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/storage/devices`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch storage info');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/storage/devices'),
     refetchInterval: 10000,
   });
 
@@ -308,16 +161,10 @@ export default function NestLauncher(): JSX.Element {
 
   const { data: apps } = useQuery({
     queryKey: ['plugins'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/plugins`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch plugins');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/plugins'),
   });
 
-  const filteredApps = (apps || []).filter((app: any) =>
+  const filteredApps = (apps || []).filter((app) =>
     app.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
@@ -338,7 +185,7 @@ export default function NestLauncher(): JSX.Element {
             mb: 5,
           }}
         >
-          {greeting}, {userData?.name || 'Guest'}.
+          {greeting}, {user?.displayName || user?.username || 'Guest'}.
         </Typography>
 
         <Grid container spacing={3} sx={{ mb: 6 }}>
@@ -392,7 +239,7 @@ export default function NestLauncher(): JSX.Element {
         </Typography>
 
         <Grid container spacing={3} sx={{ mb: 6 }}>
-          {filteredApps.map((app: any) => (
+          {filteredApps.map((app) => (
             <Grid item xs={6} sm={4} md={3} lg={2} key={app.id}>
               <AppCard onClick={() => window.open(app.url, '_blank')}>
                 <Box
@@ -444,36 +291,6 @@ export default function NestLauncher(): JSX.Element {
             }}
           />
         </Box>
-        <StyledDialog open={openDialog} onClose={() => setOpenDialog(false)}>
-          <StyledDialogTitle>Welcome!</StyledDialogTitle>
-          <DialogContent>
-            <StyledTextField
-              autoFocus
-              margin="dense"
-              label="What's your name?"
-              type="text"
-              fullWidth
-              onKeyPress={(e) => {
-                if (e.key === 'Enter' && (e.target as HTMLInputElement).value.trim()) {
-                  saveUserName((e.target as HTMLInputElement).value);
-                }
-              }}
-            />
-          </DialogContent>
-          <DialogActions>
-            <StyledButton
-              variant="outlined"
-              onClick={(e) => {
-                const input = e.currentTarget.parentElement?.parentElement?.querySelector('input');
-                if (input && input.value.trim()) {
-                  saveUserName(input.value);
-                }
-              }}
-            >
-              Continue
-            </StyledButton>
-          </DialogActions>
-        </StyledDialog>
       </ContentContainer>
     </BackgroundContainer>
   );
@@ -22,37 +22,8 @@ import {
   Speed as SpeedIcon,
 } from '@mui/icons-material';
 import { useQuery } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
-
-interface NetworkTest {
-  ping: {
-    host: string;
-    latency: number;
-    packetLoss: number;
-  };
-  speedtest?: {
-    download: number;
-    upload: number;
-    latency: number;
-  };
-}
-
-interface NetworkInterface {
-  iface: string;
-  ifaceName: string;
-  ip4: string;
-  ip6: string;
-  mac: string;
-  internal: boolean;
-  virtual: boolean;
-  operstate: string;
-  type: string;
-  duplex: string;
-  speed: number;
-  dhcp: boolean;
-  default: boolean;
-  gateway?: string;
-}
+import { useAuth } from '../AuthProvider';
+import { api } from '../../api';
 
 function getConnectionStatusColor(state: string): 'success' | 'error' | 'warning' {
   switch (state.toLowerCase()) {
@@ -66,15 +37,10 @@ function getConnectionStatusColor(state: string): 'success' | 'error' | 'warning
 }
 
 export default function Network(): JSX.Element {
+  const { can } = useAuth();
   const { data: networkData, isLoading: interfacesLoading } = useQuery({
     queryKey: ['network-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/network/interfaces`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch network interfaces');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/network/interfaces'),
     refetchInterval: 5000,
   });
 
@@ -84,15 +50,7 @@ export default function Network(): JSX.Element {
     refetch: refetchTest,
   } = useQuery({
     queryKey: ['network-test'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/network/test`, {
-        method: 'POST',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to run network test');
-      }
-      return response.json() as Promise<NetworkTest>;
-    },
+    queryFn: () => api.POST('/api/network/test'),
     enabled: false, // Don't run automatically
   });
 
@@ -118,6 +76,7 @@ export default function Network(): JSX.Element {
           <Button
             variant="contained"
             startIcon={<AddIcon />}
+            disabled={!can('admin')}
             onClick={() => {
               // TODO: Implement add interface dialog
               console.log('Add interface');
@@ -187,7 +146,7 @@ export default function Network(): JSX.Element {
       </Card>
 
       <Grid container spacing={3}>
-        {networkData?.interfaces.map((iface: NetworkInterface) => (
+        {networkData?.interfaces.map((iface) => (
           <Grid item xs={12} md={6} key={iface.iface}>
             <Card>
               <CardContent>
@@ -224,14 +183,18 @@ export default function Network(): JSX.Element {
                   </Box>
                   <Stack direction="row" spacing={1}>
                     <Tooltip title="Edit">
-                      <IconButton>
-                        <EditIcon />
-                      </IconButton>
+                      <span>
+                        <IconButton disabled={!can('admin')}>
+                          <EditIcon />
+                        </IconButton>
+                      </span>
                     </Tooltip>
                     <Tooltip title="Delete">
-                      <IconButton color="error">
-                        <DeleteIcon />
-                      </IconButton>
+                      <span>
+                        <IconButton color="error" disabled={!can('admin')}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </span>
                     </Tooltip>
                   </Stack>
                 </Stack>
@@ -0,0 +1,118 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import { Alert, AlertColor, Snackbar } from '@mui/material';
+import { useQueryClient } from '@tanstack/react-query';
+import { ApiError } from '../../api';
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    mutationMeta: {
+      // The component shows this mutation's errors itself, so no snackbar is needed
+      inlineError?: boolean;
+    };
+  }
+}
+
+interface Notification {
+  id: number;
+  message: string;
+  severity: AlertColor;
+  // Further validation problems beyond the one the message names
+  issues: string[];
+}
+
+interface NotificationContextValue {
+  notify: (message: string, severity?: AlertColor) => void;
+  notifyError: (error: unknown, fallback?: string) => void;
+}
+
+const NotificationContext = createContext<NotificationContextValue>({
+  notify: () => undefined,
+  notifyError: () => undefined,
+});
+
+export const useNotifications = (): NotificationContextValue => useContext(NotificationContext);
+
+let nextId = 0;
+
+// Shows API errors from every mutation, and anything components report, as snackbars
+export default function NotificationProvider({ children }: { children: ReactNode }): JSX.Element {
+  const queryClient = useQueryClient();
+  const [queue, setQueue] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(true);
+
+  const push = useCallback((message: string, severity: AlertColor, issues: string[] = []) => {
+    setQueue((current) => [...current, { id: nextId++, message, severity, issues }]);
+  }, []);
+
+  const notify = useCallback(
+    (message: string, severity: AlertColor = 'info') => push(message, severity),
+    [push]
+  );
+
+  const notifyError = useCallback(
+    (error: unknown, fallback = 'Something went wrong') => {
+      if (error instanceof ApiError) {
+        push(
+          error.message,
+          'error',
+          error.issues.slice(1).map((issue) => `${issue.path}: ${issue.message}`)
+        );
+      } else {
+        push(error instanceof Error && error.message ? error.message : fallback, 'error');
+      }
+    },
+    [push]
+  );
+
+  useEffect(
+    () =>
+      queryClient.getMutationCache().subscribe((event) => {
+        if (
+          event.type === 'updated' &&
+          event.action.type === 'error' &&
+          !event.mutation.options.meta?.inlineError
+        ) {
+          notifyError(event.action.error);
+        }
+      }),
+    [queryClient, notifyError]
+  );
+
+  const [current] = queue;
+
+  const handleClose = (_event?: unknown, reason?: string) => {
+    if (reason !== 'clickaway') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <NotificationContext.Provider value={{ notify, notifyError }}>
+      {children}
+      <Snackbar
+        key={current?.id}
+        open={!!current && open}
+        autoHideDuration={current?.severity === 'error' ? 8000 : 4000}
+        onClose={handleClose}
+        TransitionProps={{
+          onExited: () => {
+            setQueue((remaining) => remaining.slice(1));
+            setOpen(true);
+          },
+        }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        {current && (
+          <Alert
+            onClose={handleClose}
+            severity={current.severity}
+            variant="filled"
+            sx={{ width: '100%', whiteSpace: 'pre-line' }}
+          >
+            {[current.message, ...current.issues].join('\n')}
+          </Alert>
+        )}
+      </Snackbar>
+    </NotificationContext.Provider>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiResponse } from '../../api';
+
+type SettingValue = string | number | boolean;
+
+// A plugin's config.schema.json, as returned by the system service
+export type PluginConfigSchema = ApiResponse<'/api/plugins/{id}/config-schema'>['schema'];
+
+export type ConfigField = PluginConfigSchema['properties'][string];
+
+export type PluginSettings = Record<string, SettingValue>;
+
+// Form state keeps numbers as the text being typed
+type FormValues = Record<string, string | boolean>;
+
+const isVisible = (field: ConfigField, values: FormValues) =>
+  Object.entries(field.visibleWhen ?? {}).every(([name, expected]) =>
+    (Array.isArray(expected) ? expected : [expected]).some(
+      (value) => values[name] === (typeof value === 'number' ? String(value) : value)
+    )
+  );
+
+// Mirrors the service's checks so mistakes show up next to the field before saving
+function checkField(
+  field: ConfigField,
+  value: string | boolean,
+  required: boolean,
+  hasStoredSecret: boolean
+): string | null {
+  if (field.type === 'boolean' || typeof value === 'boolean') {
+    return null;
+  }
+  if (value === '') {
+    return required && !hasStoredSecret ? 'Required' : null;
+  }
+
+  if (field.type === 'string') {
+    if (field.minLength !== undefined && value.length < field.minLength) {
+      return `Must be at least ${field.minLength} characters`;
+    }
+    if (field.maxLength !== undefined && value.length > field.maxLength) {
+      return `Must be at most ${field.maxLength} characters`;
+    }
+    if (field.pattern && !new RegExp(field.pattern).test(value)) {
+      return 'Invalid format';
+    }
+    return null;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || (field.type === 'integer' && !Number.isInteger(number))) {
+    return field.type === 'integer' ? 'Must be a whole number' : 'Must be a number';
+  }
+  if (field.minimum !== undefined && number < field.minimum) {
+    return `Must be at least ${field.minimum}`;
+  }
+  if (field.maximum !== undefined && number > field.maximum) {
+    return `Must be at most ${field.maximum}`;
+  }
+  return null;
+}
+
+function initialValues(schema: PluginConfigSchema, config: PluginSettings): FormValues {
+  return Object.fromEntries(
+    Object.entries(schema.properties).map(([key, field]) => {
+      const value = config[key] ?? field.default;
+      if (field.type === 'boolean') {
+        return [key, value === true || value === 'true'];
+      }
+      return [key, value === undefined ? '' : String(value)];
+    })
+  );
+}
+
+interface PluginConfigFormProps {
+  schema: PluginConfigSchema;
+  config?: PluginSettings;
+  // Secrets that already have a value; left empty, they keep it
+  storedSecrets?: string[];
+  submitLabel: string;
+  submitting?: boolean;
+  error?: string | null;
+  success?: string | null;
+  onSubmit: (settings: PluginSettings) => void;
+}
+
+/**
+ * Form generated from a plugin's config.schema.json. Hidden fields and empty
+ * values are left out of the submitted settings; the service fills in defaults.
+ */
+export default function PluginConfigForm({
+  schema,
+  config = {},
+  storedSecrets = [],
+  submitLabel,
+  submitting = false,
+  error,
+  success,
+  onSubmit,
+}: PluginConfigFormProps): JSX.Element {
+  const [values, setValues] = useState<FormValues>(() => initialValues(schema, config));
+  const [showErrors, setShowErrors] = useState(false);
+
+  const fields = Object.entries(schema.properties).filter(([, field]) =>
+    isVisible(field, values)
+  );
+  const fieldErrors = Object.fromEntries(
+    fields.map(([key, field]) => [
+      key,
+      checkField(field, values[key], schema.required.includes(key), storedSecrets.includes(key)),
+    ])
+  );
+
+  const handleSubmit = () => {
+    if (Object.values(fieldErrors).some(Boolean)) {
+      setShowErrors(true);
+      return;
+    }
+
+    const settings: PluginSettings = {};
+    for (const [key, field] of fields) {
+      const value = values[key];
+      if (typeof value === 'boolean') {
+        settings[key] = value;
+      } else if (value !== '') {
+        settings[key] = field.type === 'number' || field.type === 'integer' ? Number(value) : value;
+      }
+    }
+    onSubmit(settings);
+  };
+
+  const setValue = (key: string, value: string | boolean) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Box>
+      {schema.title && (
+        <Typography variant="h6" gutterBottom>
+          {schema.title}
+        </Typography>
+      )}
+      {schema.description && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {schema.description}
+        </Typography>
+      )}
+
+      <Stack spacing={2} sx={{ mt: 1 }}>
+        {fields.map(([key, field]) => {
+          const label = field.title ?? key;
+          const value = values[key];
+
+          if (field.type === 'boolean') {
+            return (
+              <Box key={key}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={value === true}
+                      onChange={(e) => setValue(key, e.target.checked)}
+                    />
+                  }
+                  label={label}
+                />
+                {field.description && (
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    {field.description}
+                  </Typography>
+                )}
+              </Box>
+            );
+          }
+
+          const fieldError = showErrors ? fieldErrors[key] : null;
+          const isSecret = field.type === 'string' && field.secret;
+          const helperText =
+            fieldError ||
+            (isSecret && storedSecrets.includes(key)
+              ? 'Saved. Leave empty to keep the current value.'
+              : field.description);
+
+          return (
+            <TextField
+              key={key}
+              fullWidth
+              select={field.type === 'string' && !!field.enum}
+              label={label}
+              value={value}
+              onChange={(e) => setValue(key, e.target.value)}
+              type={isSecret ? 'password' : field.type === 'string' ? 'text' : 'number'}
+              required={schema.required.includes(key) && !storedSecrets.includes(key)}
+              error={!!fieldError}
+              helperText={helperText}
+              autoComplete={isSecret ? 'new-password' : 'off'}
+            >
+              {field.type === 'string' &&
+                field.enum?.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+            </TextField>
+          );
+        })}
+
+        {error && <Alert severity="error">{error}</Alert>}
+        {success && <Alert severity="success">{success}</Alert>}
+
+        <Box>
+          <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+            {submitLabel}
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
+
+// Loads the current settings of an installed plugin, saves them and restarts the plugin
+export function InstalledPluginConfigForm({ pluginId }: { pluginId: string }): JSX.Element {
+  const queryClient = useQueryClient();
+  const queryKey = ['plugin-config-schema', pluginId];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () =>
+      api.GET('/api/plugins/{id}/config-schema', { params: { path: { id: pluginId } } }),
+  });
+
+  const saveConfig = useMutation({
+    meta: { inlineError: true },
+    mutationFn: async (settings: PluginSettings) => {
+      const params = { path: { id: pluginId } };
+      await api.POST('/api/plugins/{id}/config', { params, body: settings });
+      await api.POST('/api/plugins/{id}/restart', { params });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  if (isLoading) {
+    return <CircularProgress />;
+  }
+  if (error || !data) {
+    return <Alert severity="error">{(error as Error)?.message}</Alert>;
+  }
+
+  return (
+    <PluginConfigForm
+      schema={data.schema}
+      // The service keeps whatever config.json holds; the form reads the fields its schema names
+      config={data.config as PluginSettings}
+      storedSecrets={data.storedSecrets}
+      submitLabel="Save Configuration"
+      submitting={saveConfig.isPending}
+      error={saveConfig.error?.message}
+      success={saveConfig.isSuccess ? 'Configuration saved and plugin restarted' : null}
+      onSubmit={(settings) => saveConfig.mutate(settings)}
+    />
+  );
+}
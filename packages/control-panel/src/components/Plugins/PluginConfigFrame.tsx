@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, Box, CircularProgress } from '@mui/material';
+import {
+  HostMessage,
+  PLUGIN_SANDBOX_URL,
+  PluginApiRequest,
+  PluginApiResponse,
+  PluginConfig,
+  SandboxMessage,
+} from '../../pluginSandbox/bridge';
+import { apiUrl } from '../../api';
+
+// Sub-paths of /api/plugins/:id a plugin may call; no dot segments or query strings
+const PLUGIN_API_PATH = /^(?:\/[\w-][\w.-]*)*$/;
+const PLUGIN_API_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+async function forwardRequest(
+  pluginId: string,
+  request: PluginApiRequest
+): Promise<PluginApiResponse> {
+  if (!PLUGIN_API_PATH.test(request.path) || !PLUGIN_API_METHODS.includes(request.method)) {
+    return { type: 'response', id: request.id, error: 'Request not allowed for plugins' };
+  }
+
+  try {
+    // Plugins define their own routes, so these are forwarded untyped and as-is
+    const response = await fetch(
+      `${apiUrl}/api/plugins/${encodeURIComponent(pluginId)}${request.path}`,
+      {
+        method: request.method,
+        headers: request.contentType ? { 'Content-Type': request.contentType } : undefined,
+        body: typeof request.body === 'string' ? request.body : undefined,
+      }
+    );
+    return {
+      type: 'response',
+      id: request.id,
+      status: response.status,
+      contentType: response.headers.get('Content-Type'),
+      body: await response.text(),
+    };
+  } catch (error) {
+    return { type: 'response', id: request.id, error: String(error) };
+  }
+}
+
+interface PluginConfigFrameProps {
+  pluginId: string;
+  code: string;
+  config?: PluginConfig;
+  onChange?: (config: PluginConfig) => void;
+  onSave?: (config: PluginConfig) => void;
+  isPreInstall?: boolean;
+}
+
+/**
+ * Renders a plugin's config component in a sandboxed iframe. The plugin only sees
+ * its config, the onChange/onSave callbacks and a fetch that is limited to its own
+ * /api/plugins/:id endpoints, forwarded here with the signed-in user's session.
+ */
+export default function PluginConfigFrame({
+  pluginId,
+  code,
+  config,
+  onChange,
+  onSave,
+  isPreInstall = false,
+}: PluginConfigFrameProps): JSX.Element {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The frame is initialised once; later renders only update the callbacks
+  const initialConfig = useRef(config);
+  const callbacks = useRef({ onChange, onSave });
+  callbacks.current = { onChange, onSave };
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    const post = (message: HostMessage) => frame?.contentWindow?.postMessage(message, '*');
+
+    const handleMessage = async (event: MessageEvent<SandboxMessage>) => {
+      // The frame's origin is opaque ("null"), so it is recognised by its window instead
+      if (!frame || event.source !== frame.contentWindow) {
+        return;
+      }
+
+      const message = event.data;
+      switch (message?.type) {
+        case 'ready':
+          setError(null);
+          post({
+            type: 'init',
+            pluginId,
+            code,
+            config: initialConfig.current,
+            isPreInstall,
+          });
+          break;
+        case 'resize':
+          setHeight(message.height);
+          break;
+        case 'change':
+          callbacks.current.onChange?.(message.config);
+          break;
+        case 'save':
+          callbacks.current.onSave?.(message.config);
+          break;
+        case 'error':
+          setError(message.message);
+          break;
+        case 'request':
+          post(await forwardRequest(pluginId, message));
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [pluginId, code, isPreInstall]);
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {height === null && !error && (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress />
+        </Box>
+      )}
+      <Box
+        component="iframe"
+        ref={frameRef}
+        src={PLUGIN_SANDBOX_URL}
+        title="Plugin configuration"
+        sandbox="allow-scripts"
+        sx={{
+          display: 'block',
+          // Laid out at full width while loading so the form can measure itself
+          visibility: height === null ? 'hidden' : 'visible',
+          width: '100%',
+          height: height ?? 0,
+          border: 0,
+        }}
+      />
+    </Box>
+  );
+}
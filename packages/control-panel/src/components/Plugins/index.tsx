@@ -1,4 +1,4 @@
-import React, { useState, Suspense } from 'react';
+import { useState } from 'react';
 import {
   Box,
   Grid,
@@ -15,9 +15,7 @@ import {
   DialogContent,
   DialogTitle,
   IconButton,
-  Alert,
-  Switch,
-  FormControlLabel,
+  Tooltip,
 } from '@mui/material';
 import {
   Search as SearchIcon,
@@ -25,154 +23,34 @@ import {
   Settings as SettingsIcon,
 } from '@mui/icons-material';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
-import * as Babel from '@babel/standalone';
+import { useAuth } from '../AuthProvider';
+import PluginConfigFrame from './PluginConfigFrame';
+import PluginConfigForm, { InstalledPluginConfigForm, PluginSettings } from './PluginConfigForm';
+import { api, ApiResponse } from '../../api';
+import { PluginConfig } from '../../pluginSandbox/bridge';
 
-interface Plugin {
-  id: string;
-  name: string;
-  description: string;
-  version: string;
-  author: string;
-  repository: string;
-  icon: string;
-  installed: boolean;
-  category: string;
-  tags: string[];
-  configComponent?: string; // Base64 encoded React component code
-}
-
-const ConfigTextField = React.memo<{
-  label: string;
-  value: string;
-  onChange?: (value: string) => void;
-  type?: string;
-  helperText?: string;
-}>(({ label, value, onChange, type = 'text', helperText = '' }) => {
-  ConfigTextField.displayName = 'ConfigTextField';
-  const [localValue, setLocalValue] = React.useState(value);
-
-  React.useEffect(() => {
-    setLocalValue(value);
-  }, [value]);
-
-  return (
-    <TextField
-      fullWidth
-      label={label}
-      value={localValue || ''}
-      onChange={(e) => setLocalValue(e.target.value)}
-      onBlur={() => onChange?.(localValue)}
-      type={type}
-      helperText={helperText}
-      autoComplete="off"
-      inputProps={{ autoComplete: 'off' }}
-    />
-  );
-});
-
-interface PluginConfigProps {
-  config?: Record<string, any>;
-  onChange?: (config: Record<string, any>) => void;
-  onSave?: (config: Record<string, any>) => void;
-  isPreInstall?: boolean;
-}
-
-const createConfigComponent = (configCode: string, pluginId: string) => {
-  return React.lazy<React.ComponentType<PluginConfigProps>>(() => {
-    const transformedCode = Babel.transform(configCode, {
-      presets: ['react'],
-      filename: 'dynamic.tsx',
-    }).code;
-
-    const createComponent = new Function(
-      'React',
-      'MaterialUI',
-      'ConfigTextField',
-      'apiUrl',
-      'pluginId',
-      `
-      const { useState, useEffect } = React;
-      const {
-        Box,
-        TextField,
-        Button,
-        Card,
-        CardContent,
-        Typography,
-        Alert,
-        FormControlLabel,
-        Switch
-      } = MaterialUI;
-
-      const apiURL = \`\${apiUrl}/api/plugins/\${pluginId}\`;
-      
-      ${transformedCode}
-      
-      return PluginConfig;
-    `
-    );
-
-    const component = createComponent(
-      React,
-      {
-        Box,
-        TextField,
-        Button,
-        Card,
-        CardContent,
-        Typography,
-        Alert,
-        FormControlLabel,
-        Switch,
-      },
-      ConfigTextField,
-      apiUrl,
-      pluginId
-    );
-
-    return Promise.resolve({ default: component });
-  });
-};
+type Plugin = ApiResponse<'/api/system/plugins'>[number];
 
 export default function Plugins(): JSX.Element {
+  const { can } = useAuth();
   const [search, setSearch] = useState('');
   const [configPlugin, setConfigPlugin] = useState<Plugin | null>(null);
   const [preInstallPlugin, setPreInstallPlugin] = useState<Plugin | null>(null);
-  const [configBeforeInstall, setConfigBeforeInstall] = useState<Record<string, any>>({});
+  const [configBeforeInstall, setConfigBeforeInstall] = useState<PluginConfig>({});
   const queryClient = useQueryClient();
 
-  const { data: plugins, isLoading } = useQuery<Plugin[]>({
+  const { data: plugins, isLoading } = useQuery({
     queryKey: ['plugins'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/plugins`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch plugins');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/plugins'),
   });
 
   const installMutation = useMutation({
-    mutationFn: async ({
-      pluginId,
-      config,
-    }: {
-      pluginId: string;
-      config?: Record<string, any>;
-    }) => {
-      const response = await fetch(`${apiUrl}/api/system/plugins/${pluginId}/install`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ config }),
-      });
-      if (!response.ok) {
-        throw new Error('Failed to install plugin');
-      }
-      return response.json();
-    },
+    meta: { inlineError: true },
+    mutationFn: ({ pluginId, config }: { pluginId: string; config?: PluginSettings }) =>
+      api.POST('/api/system/plugins/{id}/install', {
+        params: { path: { id: pluginId } },
+        body: { config },
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['plugins'] });
       setPreInstallPlugin(null);
@@ -182,16 +60,16 @@ export default function Plugins(): JSX.Element {
 
   const handleInstall = async (plugin: Plugin) => {
     try {
-      const response = await fetch(`${apiUrl}/api/plugins/${plugin.id}/requires-config`);
-      if (!response.ok) {
-        throw new Error('Failed to check plugin configuration');
-      }
-      const { requiresConfig, configComponent } = await response.json();
+      const { requiresConfig, configComponent, configSchema } = await api.GET(
+        '/api/plugins/{id}/requires-config',
+        { params: { path: { id: plugin.id } } }
+      );
 
       if (requiresConfig) {
         setPreInstallPlugin({
           ...plugin,
           configComponent,
+          configSchema: configSchema ?? undefined,
         });
       } else {
         installMutation.mutate({ pluginId: plugin.id });
@@ -202,7 +80,7 @@ export default function Plugins(): JSX.Element {
   };
 
   // Add this dialog for pre-installation configuration
-  const PreInstallConfigDialog = () => (
+  const preInstallConfigDialog = (
     <Dialog open={!!preInstallPlugin} onClose={() => setPreInstallPlugin(null)}>
       <DialogTitle>
         Configure {preInstallPlugin?.name}
@@ -214,38 +92,46 @@ export default function Plugins(): JSX.Element {
         </IconButton>
       </DialogTitle>
       <DialogContent>
-        {preInstallPlugin?.configComponent && (
-          <Suspense fallback={<CircularProgress />}>
-            {React.createElement(
-              createConfigComponent(preInstallPlugin.configComponent, preInstallPlugin.id),
-              {
-                config: configBeforeInstall,
-                onChange: setConfigBeforeInstall,
-                onSave: () => {
-                  installMutation.mutate({
-                    pluginId: preInstallPlugin.id,
-                    config: configBeforeInstall,
-                  });
-                },
-                isPreInstall: true,
-              }
-            )}
-          </Suspense>
+        {preInstallPlugin?.configSchema ? (
+          <PluginConfigForm
+            key={preInstallPlugin.id}
+            schema={preInstallPlugin.configSchema}
+            submitLabel="Install with Configuration"
+            submitting={installMutation.isPending}
+            error={installMutation.error?.message}
+            onSubmit={(config) => {
+              installMutation.mutate({
+                pluginId: preInstallPlugin.id,
+                config,
+              });
+            }}
+          />
+        ) : (
+          preInstallPlugin?.configComponent && (
+            <PluginConfigFrame
+              key={preInstallPlugin.id}
+              pluginId={preInstallPlugin.id}
+              code={preInstallPlugin.configComponent}
+              config={configBeforeInstall}
+              onChange={setConfigBeforeInstall}
+              onSave={(config) => {
+                installMutation.mutate({
+                  pluginId: preInstallPlugin.id,
+                  // Comes from plugin code; the service checks it like any request body
+                  config: config as PluginSettings,
+                });
+              }}
+              isPreInstall
+            />
+          )
         )}
       </DialogContent>
     </Dialog>
   );
 
   const uninstallMutation = useMutation({
-    mutationFn: async (pluginId: string) => {
-      const response = await fetch(`${apiUrl}/api/system/plugins/${pluginId}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to uninstall plugin');
-      }
-      return response.json();
-    },
+    mutationFn: (pluginId: string) =>
+      api.DELETE('/api/system/plugins/{id}', { params: { path: { id: pluginId } } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['plugins'] });
     },
@@ -262,15 +148,10 @@ export default function Plugins(): JSX.Element {
   const filteredPlugins = plugins?.filter(
     (plugin) =>
       plugin.name.toLowerCase().includes(search.toLowerCase()) ||
-      plugin.description.toLowerCase().includes(search.toLowerCase()) ||
-      plugin.tags.some((tag) => tag.toLowerCase().includes(search.toLowerCase()))
+      plugin.description?.toLowerCase().includes(search.toLowerCase()) ||
+      plugin.tags?.some((tag) => tag.toLowerCase().includes(search.toLowerCase()))
   );
 
-  // Replace the existing dynamic import with:
-  const PluginConfig = configPlugin?.configComponent
-    ? createConfigComponent(configPlugin.configComponent, configPlugin.id)
-    : null;
-
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" gutterBottom>
@@ -317,9 +198,19 @@ export default function Plugins(): JSX.Element {
                     {plugin.description}
                   </Typography>
                   <Box sx={{ mb: 2 }}>
-                    {plugin.tags.map((tag) => (
+                    {plugin.tags?.map((tag) => (
                       <Chip key={tag} label={tag} size="small" sx={{ mr: 0.5, mb: 0.5 }} />
                     ))}
+                    {plugin.verificationError && (
+                      <Tooltip title={plugin.verificationError}>
+                        <Chip
+                          label="Unverified"
+                          color="warning"
+                          size="small"
+                          sx={{ mr: 0.5, mb: 0.5 }}
+                        />
+                      </Tooltip>
+                    )}
                   </Box>
                   <Typography variant="caption" display="block" sx={{ mb: 1 }}>
                     Version: {plugin.version} • By {plugin.author}
@@ -335,7 +226,12 @@ export default function Plugins(): JSX.Element {
                           handleInstall(plugin);
                         }
                       }}
-                      disabled={installMutation.isPending || uninstallMutation.isPending}
+                      disabled={
+                        !can('admin') ||
+                        installMutation.isPending ||
+                        uninstallMutation.isPending ||
+                        (!plugin.installed && !!plugin.verificationError)
+                      }
                       sx={{ flex: 1 }}
                     >
                       {plugin.installed ? 'Uninstall' : 'Install'}
@@ -343,6 +239,7 @@ export default function Plugins(): JSX.Element {
                     {plugin.installed && (
                       <IconButton
                         color="primary"
+                        disabled={!can('admin')}
                         onClick={() => handleOpenConfig(plugin)}
                         size="small"
                       >
@@ -371,14 +268,20 @@ export default function Plugins(): JSX.Element {
           </IconButton>
         </DialogTitle>
         <DialogContent dividers>
-          {configPlugin && PluginConfig && (
-            <Suspense fallback={<CircularProgress />}>
-              <PluginConfig />
-            </Suspense>
+          {configPlugin?.configSchema ? (
+            <InstalledPluginConfigForm key={configPlugin.id} pluginId={configPlugin.id} />
+          ) : (
+            configPlugin?.configComponent && (
+              <PluginConfigFrame
+                key={configPlugin.id}
+                pluginId={configPlugin.id}
+                code={configPlugin.configComponent}
+              />
+            )
           )}
         </DialogContent>
       </Dialog>
-      <PreInstallConfigDialog />
+      {preInstallConfigDialog}
     </Box>
   );
 }
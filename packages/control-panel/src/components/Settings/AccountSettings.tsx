@@ -0,0 +1,144 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  TextField,
+  Alert,
+  Divider,
+} from '@mui/material';
+import { Save as SaveIcon, Lock as LockIcon } from '@mui/icons-material';
+import { useQueryClient } from '@tanstack/react-query';
+import { api } from '../../api';
+import { useAuth } from '../AuthProvider';
+
+export default function AccountSettings(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const [displayName, setDisplayName] = React.useState('');
+  const [currentPassword, setCurrentPassword] = React.useState('');
+  const [newPassword, setNewPassword] = React.useState('');
+  const [confirmPassword, setConfirmPassword] = React.useState('');
+  const [message, setMessage] = React.useState<{
+    severity: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  React.useEffect(() => {
+    setDisplayName(user?.displayName || '');
+  }, [user]);
+
+  const handleSaveProfile = async () => {
+    try {
+      setMessage(null);
+      await api.PUT('/api/users/{id}', { params: { path: { id: 'me' } }, body: { displayName } });
+      await queryClient.invalidateQueries({ queryKey: ['auth-session'] });
+      setMessage({ severity: 'success', text: 'Profile updated successfully' });
+    } catch (error) {
+      setMessage({
+        severity: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update profile',
+      });
+    }
+  };
+
+  const handleChangePassword = async () => {
+    try {
+      setMessage(null);
+      if (newPassword !== confirmPassword) {
+        throw new Error('Passwords do not match');
+      }
+
+      const result = await api.POST('/api/users/{id}/password', {
+        params: { path: { id: 'me' } },
+        body: { currentPassword, newPassword },
+      });
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setMessage({ severity: 'success', text: result.message });
+    } catch (error) {
+      setMessage({
+        severity: 'error',
+        text: error instanceof Error ? error.message : 'Failed to change password',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          My Account
+        </Typography>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Signed in as {user?.username}
+        </Typography>
+        <Stack spacing={2}>
+          <TextField
+            fullWidth
+            label="Display Name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            helperText="Used to greet you on the launcher"
+            variant="outlined"
+            size="small"
+          />
+          <Box>
+            <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSaveProfile}>
+              Save Profile
+            </Button>
+          </Box>
+
+          <Divider />
+
+          <TextField
+            fullWidth
+            label="Current Password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            autoComplete="current-password"
+            size="small"
+          />
+          <TextField
+            fullWidth
+            label="New Password"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            autoComplete="new-password"
+            helperText="At least 8 characters"
+            size="small"
+          />
+          <TextField
+            fullWidth
+            label="Confirm New Password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+            size="small"
+          />
+          <Box>
+            <Button
+              variant="outlined"
+              startIcon={<LockIcon />}
+              onClick={handleChangePassword}
+              disabled={!currentPassword || !newPassword}
+            >
+              Change Password
+            </Button>
+          </Box>
+
+          {message && <Alert severity={message.severity}>{message.text}</Alert>}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Link,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, apiUrl, ApiRequestBody } from '../../api';
+import { useAuth } from '../AuthProvider';
+
+type TokenScope = ApiRequestBody<'/api/tokens'>['scopes'][number];
+
+const expiryOptions = [
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+  { label: '1 year', value: 365 },
+  { label: 'Never', value: 0 },
+];
+
+const formatDate = (value: string | null, fallback: string) =>
+  value ? new Date(value).toLocaleString() : fallback;
+
+export default function ApiTokens(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const showAll = can('admin');
+
+  const [createOpen, setCreateOpen] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const [selectedScopes, setSelectedScopes] = React.useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = React.useState(90);
+  const [createdToken, setCreatedToken] = React.useState<string | null>(null);
+
+  const { data: tokens } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: () =>
+      api.GET('/api/tokens', { params: { query: { all: showAll ? 'true' : 'false' } } }),
+  });
+
+  const { data: scopeInfo } = useQuery({
+    queryKey: ['api-token-scopes'],
+    queryFn: () => api.GET('/api/tokens/scopes'),
+  });
+
+  const closeDialog = () => {
+    setCreateOpen(false);
+    setName('');
+    setSelectedScopes([]);
+    setExpiresInDays(90);
+    setCreatedToken(null);
+    createToken.reset();
+  };
+
+  const createToken = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      api.POST('/api/tokens', {
+        body: {
+          name,
+          // Built from the areas the service lists
+          scopes: selectedScopes as TokenScope[],
+          expiresInDays: expiresInDays || null,
+        },
+      }),
+    onSuccess: (result) => {
+      setCreatedToken(result.token);
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+    },
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: (id: string) => api.DELETE('/api/tokens/{id}', { params: { path: { id } } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+    },
+  });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes((current) =>
+      checked ? [...current, scope] : current.filter((existing) => existing !== scope)
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h6">API Tokens</Typography>
+            <Typography variant="body2" color="text.secondary">
+              For scripts and integrations such as Home Assistant. Send them as{' '}
+              <code>Authorization: Bearer &lt;token&gt;</code>. A token can never do more than
+              its owner&apos;s role allows. Every route is described in the{' '}
+              <Link href={`${apiUrl}/api/docs`} target="_blank" rel="noopener">
+                API reference
+              </Link>
+              .
+            </Typography>
+          </Box>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setCreateOpen(true)}
+          >
+            New Token
+          </Button>
+        </Stack>
+
+        {tokens && tokens.length > 0 ? (
+          <Box sx={{ overflowX: 'auto', mt: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  {showAll && <TableCell>Owner</TableCell>}
+                  <TableCell>Scopes</TableCell>
+                  <TableCell>Last Used</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {tokens.map((token) => (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      {token.name}
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {token.preview}…
+                      </Typography>
+                    </TableCell>
+                    {showAll && <TableCell>{token.owner ?? 'Deleted user'}</TableCell>}
+                    <TableCell>
+                      {token.scopes.map((scope) => (
+                        <Chip key={scope} label={scope} size="small" sx={{ mr: 0.5, mb: 0.5 }} />
+                      ))}
+                    </TableCell>
+                    <TableCell>{formatDate(token.lastUsedAt, 'Never')}</TableCell>
+                    <TableCell>{formatDate(token.expiresAt, 'Never')}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Revoke">
+                        <IconButton
+                          color="error"
+                          onClick={() => {
+                            if (window.confirm(`Revoke the token "${token.name}"?`)) {
+                              revokeToken.mutate(token.id);
+                            }
+                          }}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No API tokens yet.
+          </Typography>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>New API Token</DialogTitle>
+        <DialogContent>
+          {createdToken ? (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <Alert severity="warning">
+                Copy this token now. It will not be shown again.
+              </Alert>
+              <TextField
+                fullWidth
+                value={createdToken}
+                size="small"
+                InputProps={{
+                  readOnly: true,
+                  sx: { fontFamily: 'monospace' },
+                  endAdornment: (
+                    <IconButton onClick={() => navigator.clipboard.writeText(createdToken)}>
+                      <ContentCopyIcon />
+                    </IconButton>
+                  ),
+                }}
+              />
+            </Stack>
+          ) : (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                autoFocus
+                fullWidth
+                label="Name"
+                placeholder="Home Assistant"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                size="small"
+              />
+              <TextField
+                select
+                fullWidth
+                label="Expires"
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                size="small"
+              >
+                {expiryOptions.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Scope</TableCell>
+                    <TableCell align="center">Read</TableCell>
+                    <TableCell align="center">Write</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {scopeInfo?.areas.map((area) => (
+                    <TableRow key={area}>
+                      <TableCell sx={{ textTransform: 'capitalize' }}>{area}</TableCell>
+                      {['read', 'write'].map((access) => (
+                        <TableCell key={access} align="center" padding="checkbox">
+                          <Checkbox
+                            checked={selectedScopes.includes(`${area}:${access}`)}
+                            onChange={(e) => toggleScope(`${area}:${access}`, e.target.checked)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Typography variant="caption" color="text.secondary">
+                Write access includes read access to the same area.
+              </Typography>
+              {createToken.error && <Alert severity="error">{createToken.error.message}</Alert>}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {createdToken ? (
+            <Button variant="contained" onClick={closeDialog}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button onClick={closeDialog}>Cancel</Button>
+              <Button
+                variant="contained"
+                onClick={() => createToken.mutate()}
+                disabled={!name || selectedScopes.length === 0 || createToken.isPending}
+              >
+                Create
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
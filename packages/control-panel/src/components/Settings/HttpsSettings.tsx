@@ -0,0 +1,246 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Upload as UploadIcon,
+  Autorenew as AutorenewIcon,
+} from '@mui/icons-material';
+import { LoadingButton } from '@mui/lab';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, apiUrl, ApiRequestBody } from '../../api';
+import { useAuth } from '../AuthProvider';
+
+// Reads a PEM file chosen in the upload dialog
+const readFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+export default function HttpsSettings(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const isAdmin = can('admin');
+
+  const [uploadOpen, setUploadOpen] = React.useState(false);
+  const [certificate, setCertificate] = React.useState('');
+  const [privateKey, setPrivateKey] = React.useState('');
+
+  const { data: tls } = useQuery({
+    queryKey: ['tls'],
+    queryFn: () => api.GET('/api/system/tls'),
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['tls'] });
+
+  const updateSettings = useMutation({
+    mutationFn: (settings: ApiRequestBody<'/api/system/tls/settings', 'put'>) =>
+      api.PUT('/api/system/tls/settings', { body: settings }),
+    onSuccess,
+  });
+
+  const uploadCertificate = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      api.POST('/api/system/tls/certificate', { body: { certificate, privateKey } }),
+    onSuccess: () => {
+      setUploadOpen(false);
+      setCertificate('');
+      setPrivateKey('');
+      onSuccess();
+    },
+  });
+
+  const regenerate = useMutation({
+    mutationFn: () => api.POST('/api/system/tls/certificate/self-signed'),
+    onSuccess,
+  });
+
+  const settings = tls?.settings;
+  // The stored settings only apply after the system service restarts
+  const pendingRestart = Boolean(
+    tls && settings && settings.enabled !== tls.active.https
+  );
+  const error = updateSettings.error || regenerate.error;
+
+  return (
+    <Stack spacing={2}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={Boolean(settings?.enabled)}
+            disabled={!isAdmin || !settings}
+            onChange={(e) => updateSettings.mutate({ enabled: e.target.checked })}
+          />
+        }
+        label="Enable HTTPS"
+      />
+
+      {settings?.enabled && (
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ pl: { sm: 6 } }}>
+          <TextField
+            label="HTTPS Port"
+            type="number"
+            size="small"
+            defaultValue={settings.port}
+            disabled={!isAdmin}
+            onBlur={(e) => {
+              const port = parseInt(e.target.value);
+              if (port && port !== settings.port) {
+                updateSettings.mutate({ port });
+              }
+            }}
+            inputProps={{ min: 1, max: 65535 }}
+            sx={{ width: 140 }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.redirectHttp}
+                disabled={!isAdmin}
+                onChange={(e) => updateSettings.mutate({ redirectHttp: e.target.checked })}
+              />
+            }
+            label={`Redirect HTTP (port ${tls?.active.httpPort}) to HTTPS`}
+          />
+        </Stack>
+      )}
+
+      {pendingRestart && (
+        <Alert severity="warning">
+          Restart the system service to {settings?.enabled ? 'start' : 'stop'} serving HTTPS.
+        </Alert>
+      )}
+
+      {tls?.certificate && (
+        <Box sx={{ pl: { sm: 6 } }}>
+          <Typography variant="subtitle2">
+            Certificate
+            <Chip
+              size="small"
+              sx={{ ml: 1 }}
+              label={settings?.certificateSource === 'uploaded' ? 'Uploaded' : 'Self-signed'}
+            />
+            {tls.certificate.expired && (
+              <Chip size="small" color="error" sx={{ ml: 1 }} label="Expired" />
+            )}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {tls.certificate.subject.replace(/\n/g, ', ')} • Expires{' '}
+            {new Date(tls.certificate.validTo).toLocaleDateString()}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+            {tls.certificate.subjectAltNames.join(', ')}
+          </Typography>
+          <Stack direction="row" spacing={1} sx={{ mt: 1 }} flexWrap="wrap" useFlexGap>
+            <Button
+              size="small"
+              startIcon={<UploadIcon />}
+              disabled={!isAdmin}
+              onClick={() => setUploadOpen(true)}
+            >
+              Upload Certificate
+            </Button>
+            <LoadingButton
+              size="small"
+              startIcon={<AutorenewIcon />}
+              disabled={!isAdmin}
+              loading={regenerate.isPending}
+              onClick={() => {
+                if (window.confirm('Replace the current certificate with a new self-signed one?')) {
+                  regenerate.mutate();
+                }
+              }}
+            >
+              Use Self-Signed
+            </LoadingButton>
+            <Button
+              size="small"
+              startIcon={<DownloadIcon />}
+              href={`${apiUrl}/api/system/tls/ca.crt`}
+            >
+              Download CA Certificate
+            </Button>
+          </Stack>
+        </Box>
+      )}
+
+      {error && <Alert severity="error">{error.message}</Alert>}
+
+      <Dialog open={uploadOpen} onClose={() => setUploadOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Upload Certificate</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2">
+              Provide a PEM encoded certificate (followed by any intermediate certificates) and
+              its unencrypted private key. It is used straight away if HTTPS is active.
+            </Typography>
+            {[
+              { label: 'Certificate', value: certificate, set: setCertificate },
+              { label: 'Private Key', value: privateKey, set: setPrivateKey },
+            ].map(({ label, value, set }) => (
+              <Box key={label}>
+                <Button component="label" size="small" startIcon={<UploadIcon />}>
+                  Choose {label} File
+                  <input
+                    hidden
+                    type="file"
+                    accept=".pem,.crt,.cer,.key"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        set(await readFile(file));
+                      }
+                    }}
+                  />
+                </Button>
+                <TextField
+                  fullWidth
+                  multiline
+                  minRows={4}
+                  maxRows={8}
+                  label={label}
+                  value={value}
+                  onChange={(e) => set(e.target.value)}
+                  size="small"
+                  sx={{ mt: 1 }}
+                  InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.75rem' } }}
+                />
+              </Box>
+            ))}
+            {uploadCertificate.error && (
+              <Alert severity="error">{uploadCertificate.error.message}</Alert>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setUploadOpen(false)}>Cancel</Button>
+          <LoadingButton
+            variant="contained"
+            loading={uploadCertificate.isPending}
+            disabled={!certificate || !privateKey}
+            onClick={() => uploadCertificate.mutate()}
+          >
+            Upload
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
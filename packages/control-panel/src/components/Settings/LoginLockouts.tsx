@@ -0,0 +1,127 @@
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { LockOpen as LockOpenIcon } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiResponse } from '../../api';
+
+type LoginLockout = ApiResponse<'/api/auth/lockouts'>[number];
+
+function LockoutStatus({ lockout }: { lockout: LoginLockout }): JSX.Element {
+  if (lockout.locked) {
+    return <Chip label="Locked out" color="error" size="small" />;
+  }
+  if (lockout.blockedUntil) {
+    return <Chip label="Backing off" color="warning" size="small" />;
+  }
+  return <Chip label="Watching" size="small" variant="outlined" />;
+}
+
+export default function LoginLockouts(): JSX.Element {
+  const queryClient = useQueryClient();
+
+  const { data: lockouts } = useQuery({
+    queryKey: ['login-lockouts'],
+    queryFn: () => api.GET('/api/auth/lockouts'),
+    refetchInterval: 10000,
+  });
+
+  const clearLockout = useMutation({
+    mutationFn: async (id: string | null) => {
+      if (id) {
+        await api.DELETE('/api/auth/lockouts/{id}', { params: { path: { id } } });
+      } else {
+        await api.DELETE('/api/auth/lockouts');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['login-lockouts'] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h6">Sign-in Lockouts</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Addresses and accounts with recent failed sign-ins or API token guesses. Repeated
+              failures have to wait longer between attempts and are eventually locked out for
+              15 minutes.
+            </Typography>
+          </Box>
+          <Button
+            size="small"
+            onClick={() => clearLockout.mutate(null)}
+            disabled={!lockouts || lockouts.length === 0 || clearLockout.isPending}
+          >
+            Clear All
+          </Button>
+        </Stack>
+
+        {lockouts && lockouts.length > 0 ? (
+          <Box sx={{ overflowX: 'auto', mt: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Address or Account</TableCell>
+                  <TableCell>Failures</TableCell>
+                  <TableCell>Last Failure</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {lockouts.map((lockout) => (
+                  <TableRow key={lockout.id}>
+                    <TableCell>
+                      {lockout.value}
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {lockout.kind === 'ip' ? 'IP address' : 'Account'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{lockout.failures}</TableCell>
+                    <TableCell>{new Date(lockout.lastFailureAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <LockoutStatus lockout={lockout} />
+                      {lockout.blockedUntil && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          until {new Date(lockout.blockedUntil).toLocaleTimeString()}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Clear">
+                        <IconButton onClick={() => clearLockout.mutate(lockout.id)}>
+                          <LockOpenIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No failed sign-in attempts recorded.
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  FormControlLabel,
+  Link,
+  MenuItem,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiRequestBody, ApiResponse } from '../../api';
+import { useAuth } from '../AuthProvider';
+
+type ReachableAddress = ApiResponse<'/api/system/access'>['active']['interfaces'][number];
+
+const bindAddressLabels: Record<string, string> = {
+  '0.0.0.0': 'All IPv4 interfaces (0.0.0.0)',
+  '::': 'All interfaces (::)',
+  '127.0.0.1': 'This device only (127.0.0.1)',
+};
+
+const scopeLabels: Record<ReachableAddress['scope'], string> = {
+  loopback: 'This device',
+  lan: 'Local network',
+  internet: 'Public',
+};
+
+function InterfaceStatus({ address }: { address: ReachableAddress }): JSX.Element {
+  if (!address.listening) {
+    return <Chip label="Not listening" size="small" variant="outlined" />;
+  }
+  if (address.blocked) {
+    return <Chip label="Blocked" color="warning" size="small" />;
+  }
+  return <Chip label="Reachable" color="success" size="small" />;
+}
+
+interface NetworkListProps {
+  label: string;
+  description: string;
+  networks: string[];
+  disabled: boolean;
+  onChange: (networks: string[]) => void;
+}
+
+function NetworkList({
+  label,
+  description,
+  networks,
+  disabled,
+  onChange,
+}: NetworkListProps): JSX.Element {
+  const [network, setNetwork] = React.useState('');
+
+  const addNetwork = () => {
+    const value = network.trim();
+    if (value && !networks.includes(value)) {
+      onChange([...networks, value]);
+    }
+    setNetwork('');
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2">{label}</Typography>
+      <Typography variant="caption" display="block" color="text.secondary" sx={{ mb: 1 }}>
+        {description}
+      </Typography>
+      <Box>
+        {networks.map((entry) => (
+          <Chip
+            key={entry}
+            label={entry}
+            size="small"
+            onDelete={disabled ? undefined : () => onChange(networks.filter((n) => n !== entry))}
+            sx={{ mr: 0.5, mb: 0.5 }}
+          />
+        ))}
+      </Box>
+      {!disabled && (
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+          <TextField
+            size="small"
+            placeholder="192.168.1.0/24"
+            value={network}
+            onChange={(e) => setNetwork(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                addNetwork();
+              }
+            }}
+            sx={{ flex: 1, maxWidth: 300 }}
+          />
+          <Button startIcon={<AddIcon />} onClick={addNetwork} disabled={!network.trim()}>
+            Add
+          </Button>
+        </Stack>
+      )}
+    </Box>
+  );
+}
+
+// Which networks may reach the API and on which addresses it listens
+export default function RemoteAccess(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const isAdmin = can('admin');
+
+  const { data: status } = useQuery({
+    queryKey: ['access-status'],
+    queryFn: () => api.GET('/api/system/access'),
+  });
+
+  const updateSettings = useMutation({
+    meta: { inlineError: true },
+    mutationFn: (update: ApiRequestBody<'/api/system/access/settings', 'put'>) =>
+      api.PUT('/api/system/access/settings', { body: update }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['access-status'] });
+    },
+  });
+
+  const settings = status?.settings;
+  const bindAddresses = [
+    ...Object.keys(bindAddressLabels),
+    ...(status?.active.interfaces
+      .map((address) => address.address)
+      .filter((address) => !(address in bindAddressLabels)) ?? []),
+  ];
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6">Remote Access</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Controls who can reach the NestOS API. This device itself can always connect.
+          {status?.clientAddress && ` You are connecting from ${status.clientAddress}.`}
+        </Typography>
+
+        <Stack spacing={2}>
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={Boolean(settings?.remoteAccess)}
+                  disabled={!isAdmin || !settings || updateSettings.isPending}
+                  onChange={(e) => updateSettings.mutate({ remoteAccess: e.target.checked })}
+                />
+              }
+              label="Allow Remote Access"
+            />
+            <Typography variant="caption" display="block" color="text.secondary">
+              When off, only the local network (private addresses) and the allowed networks
+              below can connect.
+            </Typography>
+          </Box>
+
+          <TextField
+            select
+            size="small"
+            label="Listen On"
+            value={settings?.bindAddress ?? ''}
+            disabled={!isAdmin || !settings || updateSettings.isPending}
+            onChange={(e) => updateSettings.mutate({ bindAddress: e.target.value })}
+            helperText="Takes effect after the system service restarts"
+            sx={{ maxWidth: 400 }}
+          >
+            {bindAddresses.map((address) => (
+              <MenuItem key={address} value={address}>
+                {bindAddressLabels[address] ?? address}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {settings && status && settings.bindAddress !== status.active.bindAddress && (
+            <Alert severity="info">
+              Listening on {status.active.bindAddress} until the system service restarts.
+            </Alert>
+          )}
+
+          {settings && (
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
+              <Box sx={{ flex: 1 }}>
+                <NetworkList
+                  label="Allowed Networks"
+                  description="Can connect even while remote access is off, e.g. a VPN."
+                  networks={settings.allow}
+                  disabled={!isAdmin || updateSettings.isPending}
+                  onChange={(allow) => updateSettings.mutate({ allow })}
+                />
+              </Box>
+              <Box sx={{ flex: 1 }}>
+                <NetworkList
+                  label="Blocked Networks"
+                  description="Can never connect, even from the local network."
+                  networks={settings.deny}
+                  disabled={!isAdmin || updateSettings.isPending}
+                  onChange={(deny) => updateSettings.mutate({ deny })}
+                />
+              </Box>
+            </Stack>
+          )}
+
+          {updateSettings.error && <Alert severity="error">{updateSettings.error.message}</Alert>}
+
+          {status && (
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Interface</TableCell>
+                    <TableCell>Address</TableCell>
+                    <TableCell>Network</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {status.active.interfaces.map((address) => (
+                    <TableRow key={`${address.interface}-${address.address}`}>
+                      <TableCell>{address.interface}</TableCell>
+                      <TableCell>
+                        {address.listening && !address.blocked ? (
+                          <Link href={address.url} target="_blank" rel="noopener">
+                            {address.url}
+                          </Link>
+                        ) : (
+                          address.url
+                        )}
+                      </TableCell>
+                      <TableCell>{scopeLabels[address.scope]}</TableCell>
+                      <TableCell>
+                        <InterfaceStatus address={address} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, ApiResponse } from '../../api';
+
+type Secret = ApiResponse<'/api/system/secrets'>[number];
+
+const secretRef = (name: string) => `\${secret:${name}}`;
+
+export default function Secrets(): JSX.Element {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = React.useState(false);
+  // Set when replacing the value of an existing secret
+  const [editing, setEditing] = React.useState<Secret | null>(null);
+  const [name, setName] = React.useState('');
+  const [value, setValue] = React.useState('');
+  const [description, setDescription] = React.useState('');
+
+  const { data: secrets } = useQuery({
+    queryKey: ['secrets'],
+    queryFn: () => api.GET('/api/system/secrets'),
+  });
+
+  const openDialog = (secret: Secret | null) => {
+    setEditing(secret);
+    setName(secret?.name ?? '');
+    setDescription(secret?.description ?? '');
+    setValue('');
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    saveSecret.reset();
+  };
+
+  const saveSecret = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      api.PUT('/api/system/secrets/{name}', {
+        params: { path: { name } },
+        body: { value, description },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['secrets'] });
+      closeDialog();
+    },
+  });
+
+  const deleteSecret = useMutation({
+    mutationFn: (secretName: string) =>
+      api.DELETE('/api/system/secrets/{name}', { params: { path: { name: secretName } } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['secrets'] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h6">Secrets</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Passwords and tokens stored encrypted on this device. Use{' '}
+              <code>{secretRef('NAME')}</code> in plugin settings or container environment
+              variables instead of the value itself. Values can be replaced but not read back.
+            </Typography>
+          </Box>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openDialog(null)}
+          >
+            New Secret
+          </Button>
+        </Stack>
+
+        {secrets && secrets.length > 0 ? (
+          <Box sx={{ overflowX: 'auto', mt: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Reference</TableCell>
+                  <TableCell>Updated</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {secrets.map((secret) => (
+                  <TableRow key={secret.name}>
+                    <TableCell>
+                      {secret.name}
+                      {secret.description && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          {secret.description}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {secretRef(secret.name)}
+                      <Tooltip title="Copy">
+                        <IconButton
+                          size="small"
+                          onClick={() => navigator.clipboard.writeText(secretRef(secret.name))}
+                        >
+                          <ContentCopyIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>{new Date(secret.updatedAt).toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Replace value">
+                        <IconButton onClick={() => openDialog(secret)}>
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton
+                          color="error"
+                          onClick={() => {
+                            if (
+                              window.confirm(
+                                `Delete the secret "${secret.name}"? ` +
+                                  'Plugins and containers using it will fail to start.'
+                              )
+                            ) {
+                              deleteSecret.mutate(secret.name);
+                            }
+                          }}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No secrets yet.
+          </Typography>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? `Replace ${editing.name}` : 'New Secret'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {!editing && (
+              <TextField
+                autoFocus
+                fullWidth
+                label="Name"
+                placeholder="SMTP_PASSWORD"
+                helperText="Letters, digits, _ . and -"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                size="small"
+              />
+            )}
+            <TextField
+              autoFocus={!!editing}
+              fullWidth
+              label="Value"
+              type="password"
+              autoComplete="new-password"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              size="small"
+            />
+            <TextField
+              fullWidth
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              size="small"
+            />
+            {editing && (
+              <Alert severity="info">
+                Restart the plugins and recreate the containers that use this secret to apply
+                the new value.
+              </Alert>
+            )}
+            {saveSecret.error && <Alert severity="error">{saveSecret.error.message}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => saveSecret.mutate()}
+            disabled={!name || !value || saveSecret.isPending}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
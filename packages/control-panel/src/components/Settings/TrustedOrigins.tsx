@@ -0,0 +1,109 @@
+import React from 'react';
+import { Alert, Box, Button, Chip, Stack, TextField, Typography } from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../api';
+import { useAuth } from '../AuthProvider';
+
+// Other web apps that may use the API with the signed-in user's session
+export default function TrustedOrigins(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const isAdmin = can('admin');
+  const [newOrigin, setNewOrigin] = React.useState('');
+  const [inputError, setInputError] = React.useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['trusted-origins'],
+    queryFn: () => api.GET('/api/system/origins'),
+  });
+
+  const saveOrigins = useMutation({
+    meta: { inlineError: true },
+    mutationFn: (allowedOrigins: string[]) =>
+      api.PUT('/api/system/origins', { body: { allowedOrigins } }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['trusted-origins'], result);
+      setNewOrigin('');
+    },
+  });
+
+  const allowedOrigins = data?.allowedOrigins ?? [];
+
+  const addOrigin = () => {
+    let origin: string;
+    try {
+      ({ origin } = new URL(newOrigin.trim()));
+    } catch {
+      setInputError('Enter an address such as https://dashboard.local:8123');
+      return;
+    }
+    if (!allowedOrigins.includes(origin)) {
+      saveOrigins.mutate([...allowedOrigins, origin]);
+    }
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Typography variant="subtitle1">Trusted Origins</Typography>
+      <Typography variant="body2" color="text.secondary">
+        Web apps on other addresses that may use the API while you are signed in, for example a
+        dashboard embedding NestOS. Requests that change something from any other page are
+        refused. This control panel is always trusted.
+      </Typography>
+
+      <Box>
+        {data?.builtInOrigins.map((origin) => (
+          <Chip key={origin} label={origin} size="small" sx={{ mr: 0.5, mb: 0.5 }} />
+        ))}
+        {allowedOrigins.map((origin) => (
+          <Chip
+            key={origin}
+            label={origin}
+            size="small"
+            color="primary"
+            variant="outlined"
+            onDelete={
+              isAdmin
+                ? () => saveOrigins.mutate(allowedOrigins.filter((existing) => existing !== origin))
+                : undefined
+            }
+            sx={{ mr: 0.5, mb: 0.5 }}
+          />
+        ))}
+      </Box>
+
+      {isAdmin && (
+        <Stack direction="row" spacing={1} alignItems="flex-start">
+          <TextField
+            size="small"
+            label="Origin"
+            placeholder="https://dashboard.local:8123"
+            value={newOrigin}
+            onChange={(e) => {
+              setNewOrigin(e.target.value);
+              setInputError(null);
+            }}
+            error={!!inputError}
+            helperText={inputError}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                addOrigin();
+              }
+            }}
+            sx={{ flex: 1, maxWidth: 400 }}
+          />
+          <Button
+            startIcon={<AddIcon />}
+            onClick={addOrigin}
+            disabled={!newOrigin.trim() || saveOrigins.isPending}
+          >
+            Add
+          </Button>
+        </Stack>
+      )}
+
+      {saveOrigins.error && <Alert severity="error">{saveOrigins.error.message}</Alert>}
+    </Stack>
+  );
+}
@@ -0,0 +1,237 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { LoadingButton } from '@mui/lab';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { api } from '../../api';
+
+export type TwoFactorDialogMode = 'enable' | 'disable' | 'recovery';
+
+interface TwoFactorDialogProps {
+  mode: TwoFactorDialogMode | null;
+  onClose: () => void;
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }): JSX.Element {
+  return (
+    <Stack spacing={2}>
+      <Alert severity="warning">
+        Store these recovery codes somewhere safe. Each one can be used once to sign in if you
+        lose access to your authenticator app. They will not be shown again.
+      </Alert>
+      <Box
+        component="pre"
+        sx={{
+          m: 0,
+          p: 2,
+          borderRadius: 1,
+          bgcolor: 'action.hover',
+          fontFamily: 'monospace',
+          columnCount: 2,
+        }}
+      >
+        {codes.join('\n')}
+      </Box>
+      <Button onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+        Copy to Clipboard
+      </Button>
+    </Stack>
+  );
+}
+
+export function TwoFactorDialog({ mode, onClose }: TwoFactorDialogProps): JSX.Element {
+  const queryClient = useQueryClient();
+  const [code, setCode] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null);
+
+  const setup = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () => api.POST('/api/auth/two-factor/setup'),
+  });
+
+  const enable = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () => api.POST('/api/auth/two-factor/enable', { body: { code } }),
+    onSuccess: (result) => setRecoveryCodes(result.recoveryCodes),
+  });
+
+  const regenerate = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () => api.POST('/api/auth/two-factor/recovery-codes', { body: { password } }),
+    onSuccess: (result) => setRecoveryCodes(result.recoveryCodes),
+  });
+
+  const disable = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () => api.POST('/api/auth/two-factor/disable', { body: { password } }),
+    onSuccess: () => handleClose(),
+  });
+
+  // A fresh secret is generated every time enrollment starts
+  const { mutate: startSetup, reset: resetSetup } = setup;
+  React.useEffect(() => {
+    if (mode === 'enable') {
+      startSetup();
+    }
+  }, [mode, startSetup]);
+
+  const handleClose = () => {
+    setCode('');
+    setPassword('');
+    setRecoveryCodes(null);
+    resetSetup();
+    enable.reset();
+    regenerate.reset();
+    disable.reset();
+    queryClient.invalidateQueries({ queryKey: ['auth-session'] });
+    onClose();
+  };
+
+  const error = setup.error || enable.error || regenerate.error || disable.error;
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return <RecoveryCodes codes={recoveryCodes} />;
+    }
+
+    if (mode === 'enable') {
+      if (!setup.data) {
+        return (
+          <Box display="flex" justifyContent="center" p={3}>
+            {!setup.isError && <CircularProgress />}
+          </Box>
+        );
+      }
+
+      return (
+        <Stack spacing={2} alignItems="center">
+          <Typography variant="body2">
+            Scan this QR code with an authenticator app such as Google Authenticator, Authy or
+            1Password, then enter the 6-digit code it shows.
+          </Typography>
+          <Box sx={{ p: 2, bgcolor: '#fff', borderRadius: 1 }}>
+            <QRCodeSVG value={setup.data.uri} size={180} />
+          </Box>
+          <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+            Can&apos;t scan it? Enter this key manually: {setup.data.secret}
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Authentication Code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            inputProps={{ inputMode: 'numeric' }}
+            size="small"
+          />
+        </Stack>
+      );
+    }
+
+    return (
+      <Stack spacing={2}>
+        <Typography variant="body2">
+          {mode === 'disable'
+            ? 'Enter your password to turn off two-factor authentication for your account.'
+            : 'Enter your password to generate new recovery codes. Your old codes will stop working.'}
+        </Typography>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          size="small"
+        />
+      </Stack>
+    );
+  };
+
+  const renderAction = () => {
+    if (recoveryCodes) {
+      return (
+        <Button variant="contained" onClick={handleClose}>
+          Done
+        </Button>
+      );
+    }
+
+    if (mode === 'enable') {
+      return (
+        <LoadingButton
+          variant="contained"
+          loading={enable.isPending}
+          disabled={!setup.data || !code}
+          onClick={() => enable.mutate()}
+        >
+          Verify and Enable
+        </LoadingButton>
+      );
+    }
+
+    if (mode === 'disable') {
+      return (
+        <LoadingButton
+          variant="contained"
+          color="error"
+          loading={disable.isPending}
+          disabled={!password}
+          onClick={() => disable.mutate()}
+        >
+          Disable
+        </LoadingButton>
+      );
+    }
+
+    return (
+      <LoadingButton
+        variant="contained"
+        loading={regenerate.isPending}
+        disabled={!password}
+        onClick={() => regenerate.mutate()}
+      >
+        Generate New Codes
+      </LoadingButton>
+    );
+  };
+
+  const titles: Record<TwoFactorDialogMode, string> = {
+    enable: 'Enable Two-Factor Authentication',
+    disable: 'Disable Two-Factor Authentication',
+    recovery: 'Regenerate Recovery Codes',
+  };
+
+  return (
+    <Dialog open={mode !== null} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{mode && titles[mode]}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ mt: 1 }}>{renderContent()}</Box>
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error.message}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!recoveryCodes && <Button onClick={handleClose}>Cancel</Button>}
+        {renderAction()}
+      </DialogActions>
+    </Dialog>
+  );
+}
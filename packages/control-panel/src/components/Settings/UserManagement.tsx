@@ -0,0 +1,321 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  TextField,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  MenuItem,
+} from '@mui/material';
+import {
+  PersonAdd as PersonAddIcon,
+  Delete as DeleteIcon,
+  LockReset as LockResetIcon,
+  PhonelinkErase as PhonelinkEraseIcon,
+} from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../../api';
+import { AuthUser, Role, useAuth } from '../AuthProvider';
+
+const roleLabels: Record<Role, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Administrator',
+};
+
+const roleDescriptions: Record<Role, string> = {
+  viewer: 'Can view the system but not change it',
+  operator: 'Can also start and stop containers and run backups',
+  admin: 'Full access, including users, storage and system settings',
+};
+
+export default function UserManagement(): JSX.Element {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+
+  const [createOpen, setCreateOpen] = React.useState(false);
+  const [resetUser, setResetUser] = React.useState<AuthUser | null>(null);
+  const [username, setUsername] = React.useState('');
+  const [displayName, setDisplayName] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [role, setRole] = React.useState<Role>('viewer');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const { data: users } = useQuery({
+    queryKey: ['users'],
+    queryFn: () => api.GET('/api/users'),
+  });
+
+  const closeDialogs = () => {
+    setCreateOpen(false);
+    setResetUser(null);
+    setUsername('');
+    setDisplayName('');
+    setPassword('');
+    setRole('viewer');
+  };
+
+  const createUser = useMutation({
+    meta: { inlineError: true },
+    mutationFn: () =>
+      api.POST('/api/users', { body: { username, displayName, password, role } }),
+    onSuccess: () => {
+      closeDialogs();
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  const resetPassword = useMutation({
+    meta: { inlineError: true },
+    mutationFn: (userId: string) =>
+      api.POST('/api/users/{id}/password', {
+        params: { path: { id: userId } },
+        body: { newPassword: password },
+      }),
+    onSuccess: closeDialogs,
+    onError: (error) => setError(error.message),
+  });
+
+  const updateRole = useMutation({
+    meta: { inlineError: true },
+    mutationFn: ({ userId, role }: { userId: string; role: Role }) =>
+      api.PUT('/api/users/{id}', { params: { path: { id: userId } }, body: { role } }),
+    onSuccess: () => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  const resetTwoFactor = useMutation({
+    meta: { inlineError: true },
+    mutationFn: (userId: string) =>
+      api.DELETE('/api/users/{id}/two-factor', { params: { path: { id: userId } } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  const deleteUser = useMutation({
+    meta: { inlineError: true },
+    mutationFn: (userId: string) =>
+      api.DELETE('/api/users/{id}', { params: { path: { id: userId } } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => setError(error.message),
+  });
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">Users</Typography>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<PersonAddIcon />}
+            onClick={() => {
+              setError(null);
+              setCreateOpen(true);
+            }}
+          >
+            Add User
+          </Button>
+        </Stack>
+
+        <List dense>
+          {users?.map((user) => (
+            <ListItem
+              key={user.id}
+              secondaryAction={
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <TextField
+                    select
+                    size="small"
+                    value={user.role}
+                    disabled={user.id === currentUser?.id || updateRole.isPending}
+                    onChange={(e) =>
+                      updateRole.mutate({ userId: user.id, role: e.target.value as Role })
+                    }
+                    sx={{ minWidth: 140 }}
+                  >
+                    {Object.entries(roleLabels).map(([value, label]) => (
+                      <MenuItem key={value} value={value}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <Tooltip title="Reset Password">
+                    <span>
+                      <IconButton
+                        disabled={user.id === currentUser?.id}
+                        onClick={() => {
+                          setError(null);
+                          setResetUser(user);
+                        }}
+                      >
+                        <LockResetIcon />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Reset Two-Factor Authentication">
+                    <span>
+                      <IconButton
+                        disabled={!user.twoFactorEnabled || user.id === currentUser?.id}
+                        onClick={() => {
+                          if (window.confirm(`Turn off two-factor authentication for ${user.username}?`)) {
+                            resetTwoFactor.mutate(user.id);
+                          }
+                        }}
+                      >
+                        <PhonelinkEraseIcon />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <span>
+                      <IconButton
+                        color="error"
+                        disabled={user.id === currentUser?.id}
+                        onClick={() => {
+                          if (window.confirm(`Delete user ${user.username}?`)) {
+                            deleteUser.mutate(user.id);
+                          }
+                        }}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+              }
+            >
+              <ListItemText
+                primary={
+                  <>
+                    {user.username}
+                    {user.id === currentUser?.id && (
+                      <Chip size="small" label="You" color="primary" sx={{ ml: 1 }} />
+                    )}
+                  </>
+                }
+                secondary={user.displayName || undefined}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        {error && !createOpen && !resetUser && <Alert severity="error">{error}</Alert>}
+      </CardContent>
+
+      <Dialog open={createOpen} onClose={closeDialogs} maxWidth="xs" fullWidth>
+        <DialogTitle>Add User</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              label="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              size="small"
+            />
+            <TextField
+              fullWidth
+              label="Display Name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              size="small"
+            />
+            <TextField
+              fullWidth
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              helperText="At least 8 characters"
+              size="small"
+            />
+            <TextField
+              select
+              fullWidth
+              label="Role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              helperText={roleDescriptions[role]}
+              size="small"
+            >
+              {Object.entries(roleLabels).map(([value, label]) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+            {error && <Alert severity="error">{error}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => createUser.mutate()}
+            disabled={!username || !password || createUser.isPending}
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!resetUser} onClose={closeDialogs} maxWidth="xs" fullWidth>
+        <DialogTitle>Reset Password for {resetUser?.username}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ mt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              label="New Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              helperText="The user will be signed out of all sessions"
+              size="small"
+            />
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {error}
+              </Alert>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => resetUser && resetPassword.mutate(resetUser.id)}
+            disabled={!password || resetPassword.isPending}
+          >
+            Reset Password
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
@@ -23,61 +23,53 @@ import {
   BackupRounded as BackupIcon,
 } from '@mui/icons-material';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
 import React from 'react';
 import { LoadingButton } from '@mui/lab';
-
-interface UpdateSettings {
-  autoUpdate: boolean;
-  schedule: 'hourly' | 'daily' | null;
-}
-
-// Add these interfaces near UpdateSettings interface
-interface BackupSettings {
-  enabled: boolean;
-  location: string;
-  retention: number;
-}
-interface AppearanceSettings {
-  background: string;
-  useFrostedGlass: boolean;
-}
+import { useAuth } from '../AuthProvider';
+import { useNotifications } from '../NotificationProvider';
+import { api, ApiRequestBody } from '../../api';
+import AccountSettings from './AccountSettings';
+import UserManagement from './UserManagement';
+import HttpsSettings from './HttpsSettings';
+import TrustedOrigins from './TrustedOrigins';
+import RemoteAccess from './RemoteAccess';
+import ApiTokens from './ApiTokens';
+import LoginLockouts from './LoginLockouts';
+import Secrets from './Secrets';
+import { TwoFactorDialog, TwoFactorDialogMode } from './TwoFactorDialog';
+
+type UpdateSettings = ApiRequestBody<'/api/system/updates/settings'>;
+type BackupSettings = ApiRequestBody<'/api/system/backup/settings'>;
+type AppearanceSettings = ApiRequestBody<'/api/appearance/appearance'>;
 
 export default function Settings(): JSX.Element {
   const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+  const isAdmin = can('admin');
+  const { notify, notifyError } = useNotifications();
 
   const [isBackingUp, setIsBackingUp] = React.useState(false);
+  const [twoFactorDialog, setTwoFactorDialog] = React.useState<TwoFactorDialogMode | null>(null);
 
-  const { data: backupSettings } = useQuery<BackupSettings>({
+  const { data: backupSettings } = useQuery({
     queryKey: ['backup-settings'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/backup/settings`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch backup settings');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/backup/settings'),
   });
 
   const handleBackupSettings = async (settings: Partial<BackupSettings>) => {
+    if (!backupSettings) {
+      return;
+    }
     try {
-      const response = await fetch(`${apiUrl}/api/system/backup/settings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      await api.POST('/api/system/backup/settings', {
+        body: {
           ...backupSettings,
           ...settings,
-        }),
+        },
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to update backup settings');
-      }
-
       await queryClient.invalidateQueries({ queryKey: ['backup-settings'] });
     } catch (error) {
-      console.error('Failed to update backup settings:', error);
-      alert('Failed to update backup settings');
+      notifyError(error, 'Failed to update backup settings');
     }
   };
 
@@ -85,19 +77,10 @@ export default function Settings(): JSX.Element {
   const handleManualBackup = async () => {
     try {
       setIsBackingUp(true);
-      const response = await fetch(`${apiUrl}/api/system/backup/run`, {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        throw new Error('Backup failed');
-      }
-
-      const result = await response.json();
-      alert(result.message);
+      const result = await api.POST('/api/system/backup/run');
+      notify(result.message, 'success');
     } catch (error) {
-      console.error('Backup failed:', error);
-      alert('Backup failed');
+      notifyError(error, 'Backup failed');
     } finally {
       setIsBackingUp(false);
     }
@@ -105,66 +88,39 @@ export default function Settings(): JSX.Element {
 
   const { data: systemInfo } = useQuery({
     queryKey: ['system-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/info`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch system info');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/info'),
   });
 
-  const { data: updateSettings } = useQuery<UpdateSettings>({
+  const { data: updateSettings } = useQuery({
     queryKey: ['update-settings'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/updates/settings`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch update settings');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/updates/settings'),
   });
 
-  const handleUpdateSettings = async (settings: Partial<UpdateSettings>) => {
+  const handleUpdateSettings = async (settings: UpdateSettings) => {
     try {
-      await fetch(`${apiUrl}/api/system/updates/settings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings),
-      });
+      await api.POST('/api/system/updates/settings', { body: settings });
       await queryClient.invalidateQueries({ queryKey: ['update-settings'] });
     } catch (error) {
-      console.error('Failed to update settings:', error);
-      alert('Failed to update settings');
+      notifyError(error, 'Failed to update settings');
     }
   };
 
-  const { data: appearanceSettings } = useQuery<AppearanceSettings>({
+  const { data: appearanceSettings } = useQuery({
     queryKey: ['appearance-settings'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/appearance/appearance`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch appearance settings');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/appearance/appearance'),
   });
 
   const handleAppearanceSettings = async (settings: Partial<AppearanceSettings>) => {
+    if (!appearanceSettings) {
+      return;
+    }
     try {
-      const response = await fetch(`${apiUrl}/api/appearance/appearance`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings),
+      await api.POST('/api/appearance/appearance', {
+        body: { ...appearanceSettings, ...settings },
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to update appearance settings');
-      }
       await queryClient.invalidateQueries({ queryKey: ['appearance-settings'] });
     } catch (error) {
-      console.error('Failed to update appearance settings:', error);
-      alert('Failed to update appearance settings');
+      notifyError(error, 'Failed to update appearance settings');
     }
   };
 
@@ -178,8 +134,8 @@ export default function Settings(): JSX.Element {
 
   // Load timezones
   React.useEffect(() => {
-    fetch(`${apiUrl}/api/system/timezones`)
-      .then((res) => res.json())
+    api
+      .GET('/api/system/timezones')
       .then((data) => setTimezones(data))
       .catch(console.error);
   }, []);
@@ -188,27 +144,32 @@ export default function Settings(): JSX.Element {
     if (systemInfo) {
       setHostname(systemInfo.hostname || '');
       setTimezone(systemInfo.timezone || 'UTC');
-      setDefaultView(systemInfo.defaultView || 'launcher');
     }
   }, [systemInfo]);
 
+  React.useEffect(() => {
+    setDefaultView(user?.preferences.launcher.defaultView || 'launcher');
+  }, [user]);
+
   const handleSaveSettings = async () => {
     try {
       setSaveError(null);
       setSaveSuccess(false);
 
-      const response = await fetch(`${apiUrl}/api/system/settings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ hostname, timezone, defaultView }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save settings');
+      // Hostname and time zone are host-wide and can only be changed by admins
+      if (isAdmin) {
+        await api.POST('/api/system/settings', { body: { hostname, timezone } });
       }
 
+      // The default view is a per-user launcher preference
+      await api.PUT('/api/users/{id}/preferences', {
+        params: { path: { id: 'me' } },
+        body: { launcher: { defaultView } },
+      });
+
       setSaveSuccess(true);
       await queryClient.invalidateQueries({ queryKey: ['system-info'] });
+      await queryClient.invalidateQueries({ queryKey: ['auth-session'] });
     } catch (error) {
       console.error('Failed to save settings:', error);
       setSaveError(error instanceof Error ? error.message : 'Failed to save settings');
@@ -239,6 +200,7 @@ export default function Settings(): JSX.Element {
                     onChange={(e) => setHostname(e.target.value)}
                     variant="outlined"
                     size="small"
+                    disabled={!isAdmin}
                   />
                 </Grid>
                 <Grid item xs={12} sm={6}>
@@ -250,6 +212,7 @@ export default function Settings(): JSX.Element {
                     onChange={(e) => setTimezone(e.target.value)}
                     variant="outlined"
                     size="small"
+                    disabled={!isAdmin}
                   >
                     {timezones.map((tz) => (
                       <MenuItem key={tz} value={tz}>
@@ -291,6 +254,37 @@ export default function Settings(): JSX.Element {
           </Card>
         </Grid>
 
+        {/* Account */}
+        <Grid item xs={12} md={isAdmin ? 6 : 12}>
+          <AccountSettings />
+        </Grid>
+
+        {/* Users */}
+        {isAdmin && (
+          <Grid item xs={12} md={6}>
+            <UserManagement />
+          </Grid>
+        )}
+
+        {/* API Tokens */}
+        <Grid item xs={12}>
+          <ApiTokens />
+        </Grid>
+
+        {/* Sign-in Lockouts */}
+        {isAdmin && (
+          <Grid item xs={12}>
+            <LoginLockouts />
+          </Grid>
+        )}
+
+        {/* Secrets */}
+        {isAdmin && (
+          <Grid item xs={12}>
+            <Secrets />
+          </Grid>
+        )}
+
         {/* Appearance */}
         <Grid item xs={12} md={6}>
           <Card>
@@ -304,10 +298,7 @@ export default function Settings(): JSX.Element {
                   <Select
                     value={appearanceSettings?.background || 'abstract-dark'}
                     onChange={(e) =>
-                      handleAppearanceSettings({
-                        ...appearanceSettings,
-                        background: e.target.value,
-                      })
+                      handleAppearanceSettings({ background: e.target.value })
                     }
                     label="Background"
                   >
@@ -324,10 +315,7 @@ export default function Settings(): JSX.Element {
                     <Switch
                       checked={appearanceSettings?.useFrostedGlass ?? false}
                       onChange={(e) =>
-                        handleAppearanceSettings({
-                          ...appearanceSettings,
-                          useFrostedGlass: e.target.checked,
-                        })
+                        handleAppearanceSettings({ useFrostedGlass: e.target.checked })
                       }
                     />
                   }
@@ -357,38 +345,30 @@ export default function Settings(): JSX.Element {
                 <Button
                   variant="contained"
                   startIcon={<UpdateIcon />}
+                  disabled={!isAdmin}
                   onClick={async () => {
                     try {
-                      const response = await fetch(`${apiUrl}/api/system/updates/check`);
-                      if (!response.ok) {
-                        throw new Error('Failed to check for updates');
-                      }
-                      const data = await response.json();
+                      const data = await api.GET('/api/system/updates/check');
                       const updateData = data.system;
 
                       if (updateData.updateAvailable) {
                         if (
                           window.confirm(
-                            `Update available! Changes:\n${updateData.updateDetails
-                              .map((d: any) => `${d.hash}: ${d.message}`)
+                            `Update available! Changes:\n${(updateData.updateDetails ?? [])
+                              .map((d) => `${d.hash}: ${d.message}`)
                               .join('\n')}\n\nWould you like to update now?`
                           )
                         ) {
-                          await fetch(`${apiUrl}/api/system/updates/apply`, {
-                            method: 'POST',
-                            headers: {
-                              'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify({ target: 'system' }),
+                          await api.POST('/api/system/updates/apply', {
+                            body: { target: 'system' },
                           });
                           window.location.reload();
                         }
                       } else {
-                        alert('Your system is up to date!');
+                        notify('Your system is up to date!', 'success');
                       }
                     } catch (error) {
-                      console.error('Update check failed:', error);
-                      alert('Failed to check for updates');
+                      notifyError(error, 'Failed to check for updates');
                     }
                   }}
                 >
@@ -398,6 +378,7 @@ export default function Settings(): JSX.Element {
                 <FormControlLabel
                   control={
                     <Switch
+                      disabled={!isAdmin}
                       checked={Boolean(updateSettings?.autoUpdate)}
                       onChange={(e) =>
                         handleUpdateSettings({
@@ -415,6 +396,7 @@ export default function Settings(): JSX.Element {
                     select
                     fullWidth
                     size="small"
+                    disabled={!isAdmin}
                     label="Update Schedule"
                     value={updateSettings.schedule || 'daily'}
                     onChange={(e) =>
@@ -447,77 +429,35 @@ export default function Settings(): JSX.Element {
                 <Button
                   variant="contained"
                   startIcon={<UpdateIcon />}
+                  disabled={!isAdmin}
                   onClick={async () => {
                     try {
-                      const response = await fetch(`${apiUrl}/api/system/updates/check`);
-                      if (!response.ok) {
-                        throw new Error('Failed to check for updates');
-                      }
-                      const data = await response.json();
+                      const data = await api.GET('/api/system/updates/check');
                       const updateData = data.nestos;
 
                       if (updateData.updateAvailable) {
                         if (
                           window.confirm(
-                            `Update available! Changes:\n${updateData.updateDetails
-                              .map((d: any) => `${d.hash}: ${d.message}`)
+                            `Update available! Changes:\n${(updateData.updateDetails ?? [])
+                              .map((d) => `${d.hash}: ${d.message}`)
                               .join('\n')}\n\nWould you like to update now?`
                           )
                         ) {
-                          await fetch(`${apiUrl}/api/system/updates/apply`, {
-                            method: 'POST',
-                            headers: {
-                              'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify({ target: 'nestos' }),
+                          await api.POST('/api/system/updates/apply', {
+                            body: { target: 'nestos' },
                           });
                           window.location.reload();
                         }
                       } else {
-                        alert('Your system is up to date!');
+                        notify('Your system is up to date!', 'success');
                       }
                     } catch (error) {
-                      console.error('Update check failed:', error);
-                      alert('Failed to check for updates');
+                      notifyError(error, 'Failed to check for updates');
                     }
                   }}
                 >
                   Check for Updates
                 </Button>
-
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={Boolean(updateSettings?.autoUpdate)}
-                      onChange={(e) =>
-                        handleUpdateSettings({
-                          autoUpdate: e.target.checked,
-                          schedule: e.target.checked ? updateSettings?.schedule || 'daily' : null,
-                        })
-                      }
-                    />
-                  }
-                  label="Enable Auto Updates"
-                />
-
-                {updateSettings?.autoUpdate && (
-                  <TextField
-                    select
-                    fullWidth
-                    size="small"
-                    label="Update Schedule"
-                    value={updateSettings.schedule || 'daily'}
-                    onChange={(e) =>
-                      handleUpdateSettings({
-                        autoUpdate: true,
-                        schedule: e.target.value as 'hourly' | 'daily',
-                      })
-                    }
-                  >
-                    <MenuItem value="hourly">Every Hour</MenuItem>
-                    <MenuItem value="daily">Once Daily</MenuItem>
-                  </TextField>
-                )}
               </Stack>
             </CardContent>
           </Card>
@@ -535,6 +475,7 @@ export default function Settings(): JSX.Element {
                   variant="contained"
                   color="warning"
                   startIcon={<PowerIcon />}
+                  disabled={!isAdmin}
                   onClick={() => {
                     // TODO: Implement reboot
                     console.log('Reboot system');
@@ -546,6 +487,7 @@ export default function Settings(): JSX.Element {
                   variant="contained"
                   color="error"
                   startIcon={<PowerIcon />}
+                  disabled={!isAdmin}
                   onClick={() => {
                     // TODO: Implement shutdown
                     console.log('Shutdown system');
@@ -566,10 +508,26 @@ export default function Settings(): JSX.Element {
                 Security Settings
               </Typography>
               <Stack spacing={2}>
-                <FormControlLabel control={<Switch defaultChecked />} label="Enable HTTPS" />
-                <FormControlLabel control={<Switch defaultChecked />} label="Allow Remote Access" />
-                <FormControlLabel control={<Switch />} label="Enable Two-Factor Authentication" />
+                <HttpsSettings />
+                <TrustedOrigins />
+                <Stack direction="row" alignItems="center" spacing={2}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={Boolean(user?.twoFactorEnabled)}
+                        onChange={(e) => setTwoFactorDialog(e.target.checked ? 'enable' : 'disable')}
+                      />
+                    }
+                    label="Enable Two-Factor Authentication"
+                  />
+                  {user?.twoFactorEnabled && (
+                    <Button size="small" onClick={() => setTwoFactorDialog('recovery')}>
+                      New Recovery Codes
+                    </Button>
+                  )}
+                </Stack>
               </Stack>
+              <TwoFactorDialog mode={twoFactorDialog} onClose={() => setTwoFactorDialog(null)} />
               <Divider sx={{ my: 2 }} />
               <Alert severity="info">
                 Some security settings may require a system restart to take effect.
@@ -578,6 +536,11 @@ export default function Settings(): JSX.Element {
           </Card>
         </Grid>
 
+        {/* Remote Access */}
+        <Grid item xs={12}>
+          <RemoteAccess />
+        </Grid>
+
         {/* Backup Settings */}
         <Grid item xs={12}>
           <Card>
@@ -589,6 +552,7 @@ export default function Settings(): JSX.Element {
                 <FormControlLabel
                   control={
                     <Switch
+                      disabled={!isAdmin}
                       checked={backupSettings?.enabled ?? false}
                       onChange={(e) => handleBackupSettings({ enabled: e.target.checked })}
                     />
@@ -598,9 +562,11 @@ export default function Settings(): JSX.Element {
                 <TextField
                   fullWidth
                   label="Backup Location"
+                  helperText="A directory under /mnt or /media"
                   value={backupSettings?.location ?? '/mnt/backups'}
                   onChange={(e) => handleBackupSettings({ location: e.target.value })}
                   variant="outlined"
+                  disabled={!isAdmin}
                   size="small"
                 />
                 <TextField
@@ -613,12 +579,14 @@ export default function Settings(): JSX.Element {
                   type="number"
                   variant="outlined"
                   size="small"
+                  disabled={!isAdmin}
                   inputProps={{ min: 1, max: 365 }}
                 />
               </Stack>
               <Box sx={{ mt: 2 }}>
                 <LoadingButton
                   loading={isBackingUp}
+                  disabled={!can('operator')}
                   variant="contained"
                   startIcon={<BackupIcon />}
                   onClick={handleManualBackup}
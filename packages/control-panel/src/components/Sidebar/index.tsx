@@ -18,13 +18,16 @@ import {
   Dashboard as DashboardIcon,
   Extension as ExtensionIcon,
   Apps as AppsIcon,
+  History as HistoryIcon,
+  Terminal as TerminalIcon,
 } from '@mui/icons-material';
 import { useQuery } from '@tanstack/react-query';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { apiUrl } from '../../App';
+import { Role, useAuth } from '../AuthProvider';
+import { api } from '../../api';
 import { version } from '../../../../../package.json';
 
-const menuItems = [
+const menuItems: { text: string; icon: JSX.Element; path: string; role?: Role }[] = [
   { text: 'Home', icon: <AppsIcon />, path: '/' },
   { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
   { text: 'Storage', icon: <StorageIcon />, path: '/storage' },
@@ -32,6 +35,8 @@ const menuItems = [
   { text: 'Network', icon: <NetworkIcon />, path: '/network' },
   { text: 'Plugins', icon: <ExtensionIcon />, path: '/plugins' },
   { text: 'Settings', icon: <SettingsIcon />, path: '/settings' },
+  { text: 'Terminal', icon: <TerminalIcon />, path: '/terminal', role: 'admin' },
+  { text: 'Audit Log', icon: <HistoryIcon />, path: '/audit', role: 'admin' },
 ];
 
 interface SidebarProps {
@@ -42,16 +47,11 @@ export default function Sidebar({ isGlassMode = false }: SidebarProps): JSX.Elem
   const theme = useTheme();
   const location = useLocation();
   const navigate = useNavigate();
+  const { can } = useAuth();
 
   const { data: systemInfo } = useQuery({
     queryKey: ['system-info'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/system/info`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch system info');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/system/info'),
   });
 
   return (
@@ -105,7 +105,7 @@ export default function Sidebar({ isGlassMode = false }: SidebarProps): JSX.Elem
       </Box>
 
       <List>
-        {menuItems.map((item) => (
+        {menuItems.filter((item) => !item.role || can(item.role)).map((item) => (
           <ListItem key={item.text} disablePadding>
             <ListItemButton
               selected={location.pathname === item.path}
@@ -33,55 +33,13 @@ import {
 } from '@mui/icons-material';
 import { useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiUrl } from '../../App';
+import { useAuth } from '../AuthProvider';
+import { useNotifications } from '../NotificationProvider';
+import { api, ApiRequestBody, ApiResponse } from '../../api';
 
-interface StorageDevice {
-  name: string;
-  type: string;
-  fstype: string;
-  mount: string;
-  size: number;
-  model: string;
-  serial: string;
-  removable: boolean;
-  protocol: string;
-  smart?: {
-    health: string;
-    attributes: string;
-  };
-  layout?: {
-    vendor: string;
-    type: string;
-    interfaceType: string;
-    temperature: number;
-    firmwareRevision: string;
-  };
-  filesystem?: {
-    size: number;
-    used: number;
-    available: number;
-    use: number;
-  };
-  bus?: string;
-  path?: string;
-}
-
-interface Volume {
-  name: string;
-  type: string;
-  devices: string[];
-  mountPoint?: string;
-  filesystem?: string;
-}
-
-interface NBD {
-  name: string;
-  device: string;
-  host: string;
-  port: number;
-  size: number;
-  connected: boolean;
-}
+type StorageDevice = ApiResponse<'/api/storage/devices'>['devices'][number];
+type VolumeType = ApiRequestBody<'/api/storage/volumes'>['type'];
+type Filesystem = NonNullable<ApiRequestBody<'/api/storage/volumes'>['filesystem']>;
 
 function formatBytes(bytes: number): string {
   const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
@@ -106,71 +64,44 @@ function getDeviceIcon(device: StorageDevice) {
 }
 
 export default function Storage(): JSX.Element {
+  const { can } = useAuth();
+  const { notifyError } = useNotifications();
   const [createVolumeOpen, setCreateVolumeOpen] = useState(false);
   const [selectedDevices, setSelectedDevices] = useState<string[]>([]);
-  const [volumeType, setVolumeType] = useState<string>('single');
+  const [volumeType, setVolumeType] = useState<VolumeType>('single');
   const [volumeName, setVolumeName] = useState('');
   const [mountPoint, setMountPoint] = useState('');
-  const [filesystem, setFilesystem] = useState('ext4');
+  const [filesystem, setFilesystem] = useState<Filesystem>('ext4');
   const queryClient = useQueryClient();
 
   const { data: storageData, isLoading: storageLoading } = useQuery({
     queryKey: ['storage-devices'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/storage/devices`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch storage devices');
-      }
-      return response.json();
-    },
+    queryFn: () => api.GET('/api/storage/devices'),
     refetchInterval: 5000,
   });
 
   const {
     data: volumeData,
-    isLoading: volumeLoading,
     isError: volumeError,
   } = useQuery({
     queryKey: ['storage-volumes'],
-    queryFn: async () => {
-      try {
-        const response = await fetch(`${apiUrl}/api/storage/volumes`);
-        if (!response.ok) {
-          if (response.status === 500) {
-            return { raids: [], mounts: [], nbds: [] };
-          }
-          console.error('Failed to fetch volumes:', response.statusText, volumeLoading);
-          throw new Error('Failed to fetch volumes');
-        }
-        return response.json();
-      } catch (error) {
-        return { raids: [], mounts: [], nbds: [] };
-      }
-    },
+    queryFn: () => api.GET('/api/storage/volumes'),
     refetchInterval: 5000,
     retry: false,
   });
 
   const handleCreateVolume = async () => {
     try {
-      const response = await fetch(`${apiUrl}/api/storage/volumes`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      await api.POST('/api/storage/volumes', {
+        body: {
           name: volumeName,
           type: volumeType,
           devices: selectedDevices,
-          mountPoint,
+          mountPoint: mountPoint || undefined,
           filesystem,
-        }),
+        },
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to create volume');
-      }
-
       // Invalidate queries to refresh data
       await queryClient.invalidateQueries({ queryKey: ['storage-volumes'] });
       await queryClient.invalidateQueries({ queryKey: ['storage-devices'] });
@@ -180,7 +111,7 @@ export default function Storage(): JSX.Element {
       setVolumeName('');
       setMountPoint('');
     } catch (error) {
-      console.error('Failed to create volume:', error);
+      notifyError(error, 'Failed to create volume');
     }
   };
 
@@ -190,7 +121,6 @@ export default function Storage(): JSX.Element {
 
   const raids = volumeData?.raids || [];
   const mounts = volumeData?.mounts || [];
-  const nbds = volumeData?.nbds || [];
 
   return (
     <Box sx={{ flexGrow: 1 }}>
@@ -199,6 +129,7 @@ export default function Storage(): JSX.Element {
         <Button
           variant="contained"
           startIcon={<AddIcon />}
+          disabled={!can('admin')}
           onClick={() => setCreateVolumeOpen(true)}
         >
           Create Volume
@@ -315,7 +246,7 @@ export default function Storage(): JSX.Element {
         </Alert>
       ) : (
         <Grid container spacing={3} mb={4}>
-          {raids.map((volume: Volume) => (
+          {raids.map((volume) => (
             <Grid item xs={12} md={6} key={volume.name}>
               <Card>
                 <CardContent>
@@ -332,16 +263,17 @@ export default function Storage(): JSX.Element {
                     </Box>
                     <IconButton
                       color="error"
+                      disabled={!can('admin')}
                       onClick={async () => {
                         try {
-                          await fetch(`${apiUrl}/api/storage/volumes/${volume.name}`, {
-                            method: 'DELETE',
+                          await api.DELETE('/api/storage/volumes/{name}', {
+                            params: { path: { name: volume.name } },
                           });
                           // Invalidate queries to refresh data
                           await queryClient.invalidateQueries({ queryKey: ['storage-volumes'] });
                           await queryClient.invalidateQueries({ queryKey: ['storage-devices'] });
                         } catch (error) {
-                          console.error('Failed to delete volume:', error);
+                          notifyError(error, 'Failed to delete volume');
                         }
                       }}
                     >
@@ -359,15 +291,6 @@ export default function Storage(): JSX.Element {
                       ))}
                     </Stack>
                   </Box>
-
-                  {volume.mountPoint && (
-                    <Box sx={{ mt: 2 }}>
-                      <Typography variant="subtitle2" color="text.secondary">
-                        Mount Point
-                      </Typography>
-                      <Typography variant="body2">{volume.mountPoint}</Typography>
-                    </Box>
-                  )}
                 </CardContent>
               </Card>
             </Grid>
@@ -380,48 +303,6 @@ export default function Storage(): JSX.Element {
         Network Block Devices
       </Typography>
       <Grid container spacing={3} mb={4}>
-        {/* Show NBDs from volumes API */}
-        {nbds.map((nbd: NBD) => (
-          <Grid item xs={12} md={6} key={nbd.name}>
-            <Card>
-              <CardContent>
-                <Stack direction="row" spacing={2} alignItems="center">
-                  <DiskIcon color="primary" />
-                  <Box sx={{ flexGrow: 1 }}>
-                    <Typography variant="h6">
-                      {nbd.name}
-                      <Chip
-                        size="small"
-                        label={nbd.connected ? 'Connected' : 'Disconnected'}
-                        color={nbd.connected ? 'success' : 'error'}
-                        sx={{ ml: 1 }}
-                      />
-                    </Typography>
-                    <Typography variant="body2" color="text.secondary">
-                      {nbd.host}:{nbd.port} • {formatBytes(nbd.size)}
-                    </Typography>
-                  </Box>
-                  <IconButton
-                    color="error"
-                    onClick={async () => {
-                      try {
-                        await fetch(`${apiUrl}/api/storage/nbd/${nbd.name}`, {
-                          method: 'DELETE',
-                        });
-                        await queryClient.invalidateQueries({ queryKey: ['storage-volumes'] });
-                      } catch (error) {
-                        console.error('Failed to delete NBD:', error);
-                      }
-                    }}
-                  >
-                    <DeleteIcon />
-                  </IconButton>
-                </Stack>
-              </CardContent>
-            </Card>
-          </Grid>
-        ))}
-        {/* Show NBDs from storage devices API */}
         {storageData?.devices
           .filter((device: StorageDevice) => device.name.startsWith('nbd'))
           .map((device: StorageDevice) => (
@@ -451,36 +332,21 @@ export default function Storage(): JSX.Element {
         Mounts
       </Typography>
       <Grid container spacing={3} mb={4}>
-        {mounts.map((mount: Volume) => (
-          <Grid item xs={12} md={6} key={mount.name}>
+        {mounts.map((mount) => (
+          <Grid item xs={12} md={6} key={mount.mountPoint}>
             <Card>
               <CardContent>
                 <Stack direction="row" spacing={2} alignItems="center">
                   <MountIcon color="primary" />
                   <Box sx={{ flexGrow: 1 }}>
                     <Typography variant="h6">
-                      {mount.name}
+                      {mount.device}
                       <Chip size="small" label={mount.type} color="primary" sx={{ ml: 1 }} />
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       {mount.mountPoint}
                     </Typography>
                   </Box>
-                  <IconButton
-                    color="error"
-                    onClick={async () => {
-                      try {
-                        await fetch(`${apiUrl}/api/storage/mounts/${mount.name}`, {
-                          method: 'DELETE',
-                        });
-                        await queryClient.invalidateQueries({ queryKey: ['storage-volumes'] });
-                      } catch (error) {
-                        console.error('Failed to unmount:', error);
-                      }
-                    }}
-                  >
-                    <DeleteIcon />
-                  </IconButton>
                 </Stack>
               </CardContent>
             </Card>
@@ -510,7 +376,7 @@ export default function Storage(): JSX.Element {
               <Select
                 value={volumeType}
                 label="Volume Type"
-                onChange={(e) => setVolumeType(e.target.value)}
+                onChange={(e) => setVolumeType(e.target.value as VolumeType)}
               >
                 <MenuItem value="single">Single Disk</MenuItem>
                 <MenuItem value="raid0">RAID 0 (Stripe)</MenuItem>
@@ -545,7 +411,7 @@ export default function Storage(): JSX.Element {
               <Select
                 value={filesystem}
                 label="Filesystem"
-                onChange={(e) => setFilesystem(e.target.value)}
+                onChange={(e) => setFilesystem(e.target.value as Filesystem)}
               >
                 <MenuItem value="ext4">ext4</MenuItem>
                 <MenuItem value="xfs">XFS</MenuItem>
@@ -556,6 +422,8 @@ export default function Storage(): JSX.Element {
 
             <TextField
               label="Mount Point"
+              placeholder="/mnt/data"
+              helperText="A directory under /mnt or /media"
               value={mountPoint}
               onChange={(e) => setMountPoint(e.target.value)}
               fullWidth
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, Box, Button, Stack, Typography } from '@mui/material';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { socketUrl } from '../../api';
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+interface TerminalProps {
+  // Creates the session through the API; it is attached over /ws right after
+  createSession: (size: TerminalSize) => Promise<{ sessionId: string }>;
+  height?: number | string;
+}
+
+type SessionState =
+  | { status: 'connecting' }
+  | { status: 'open' }
+  | { status: 'exited'; exitCode: number | null }
+  | { status: 'failed'; message: string };
+
+/**
+ * An xterm.js terminal wired to a terminal session of the system service.
+ * Keystrokes go out as `terminal_input`, output comes back as
+ * `terminal_output`, and the session is resized along with the element.
+ */
+export default function Terminal({ createSession, height = '60vh' }: TerminalProps): JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [state, setState] = useState<SessionState>({ status: 'connecting' });
+  // Bumped to start over with a new session
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return undefined;
+    }
+
+    const term = new XTerm({
+      cursorBlink: true,
+      fontFamily: 'monospace',
+      fontSize: 14,
+      theme: { background: '#1e1e1e' },
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current);
+    fit.fit();
+
+    let socket: WebSocket | null = null;
+    let sessionId: string | null = null;
+    let disposed = false;
+    setState({ status: 'connecting' });
+
+    const send = (type: string, data: object) => {
+      if (socket?.readyState === WebSocket.OPEN && sessionId) {
+        socket.send(JSON.stringify({ type, data: { sessionId, ...data } }));
+      }
+    };
+
+    createSession({ cols: term.cols, rows: term.rows })
+      .then((session) => {
+        if (disposed) {
+          return;
+        }
+        ({ sessionId } = session);
+        socket = new WebSocket(socketUrl('/ws'));
+        socket.onopen = () => {
+          socket?.send(JSON.stringify({ type: 'terminal_attach', data: { sessionId } }));
+          setState({ status: 'open' });
+          term.focus();
+        };
+        socket.onmessage = (event) => {
+          const { type, data } = JSON.parse(event.data);
+          if (data?.sessionId !== sessionId) {
+            return;
+          }
+          switch (type) {
+            case 'terminal_output':
+              term.write(data.data);
+              break;
+            case 'terminal_exit':
+              setState({ status: 'exited', exitCode: data.exitCode });
+              break;
+            case 'terminal_error':
+              setState({ status: 'failed', message: data.error.message });
+              break;
+          }
+        };
+        socket.onclose = () => {
+          setState((current) =>
+            current.status === 'open'
+              ? { status: 'failed', message: 'Lost the connection to the system service' }
+              : current
+          );
+        };
+      })
+      .catch((error: Error) => {
+        if (!disposed) {
+          setState({ status: 'failed', message: error.message });
+        }
+      });
+
+    const input = term.onData((data) => send('terminal_input', { data }));
+    const resize = term.onResize(({ cols, rows }) => send('terminal_resize', { cols, rows }));
+    const observer = new ResizeObserver(() => fit.fit());
+    observer.observe(containerRef.current);
+
+    return () => {
+      disposed = true;
+      observer.disconnect();
+      input.dispose();
+      resize.dispose();
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+      term.dispose();
+    };
+  }, [createSession, attempt]);
+
+  const startAgain = (
+    <Button color="inherit" size="small" onClick={() => setAttempt((n) => n + 1)}>
+      Start again
+    </Button>
+  );
+
+  return (
+    <Stack spacing={1}>
+      {state.status === 'failed' && (
+        <Alert severity="error" action={startAgain}>
+          {state.message}
+        </Alert>
+      )}
+      {state.status === 'exited' && (
+        <Alert severity="info" action={startAgain}>
+          Session ended
+          {state.exitCode !== null && ` with exit code ${state.exitCode}`}
+        </Alert>
+      )}
+      {state.status === 'connecting' && (
+        <Typography variant="body2" color="text.secondary">
+          Connecting…
+        </Typography>
+      )}
+      <Box
+        ref={containerRef}
+        sx={{ height, bgcolor: '#1e1e1e', borderRadius: 1, p: 1, overflow: 'hidden' }}
+      />
+    </Stack>
+  );
+}
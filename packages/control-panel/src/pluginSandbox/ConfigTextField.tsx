@@ -0,0 +1,34 @@
+import React from 'react';
+import { TextField } from '@mui/material';
+
+// Commits its value on blur so plugin forms don't re-render on every keystroke
+const ConfigTextField = React.memo<{
+  label: string;
+  value: string;
+  onChange?: (value: string) => void;
+  type?: string;
+  helperText?: string;
+}>(({ label, value, onChange, type = 'text', helperText = '' }) => {
+  const [localValue, setLocalValue] = React.useState(value);
+
+  React.useEffect(() => {
+    setLocalValue(value);
+  }, [value]);
+
+  return (
+    <TextField
+      fullWidth
+      label={label}
+      value={localValue || ''}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onBlur={() => onChange?.(localValue)}
+      type={type}
+      helperText={helperText}
+      autoComplete="off"
+      inputProps={{ autoComplete: 'off' }}
+    />
+  );
+});
+ConfigTextField.displayName = 'ConfigTextField';
+
+export default ConfigTextField;
@@ -0,0 +1,47 @@
+// Messages exchanged between the Plugins page and the sandboxed frame that renders
+// a plugin's config UI. The frame runs with an opaque origin, so this bridge is
+// the only way the plugin can reach its config or the NestOS API.
+
+export type PluginConfig = Record<string, unknown>;
+
+export const PLUGIN_SANDBOX_URL = '/plugin-sandbox.html';
+
+export interface PluginApiRequest {
+  type: 'request';
+  id: number;
+  // Relative to /api/plugins/:id, e.g. "/config"
+  path: string;
+  method: string;
+  contentType: string | null;
+  body?: string;
+}
+
+export interface PluginApiResponse {
+  type: 'response';
+  id: number;
+  status?: number;
+  contentType?: string | null;
+  body?: string;
+  // Set instead of status and body when the request was refused or failed
+  error?: string;
+}
+
+// Sent by the page to the frame
+export type HostMessage =
+  | {
+      type: 'init';
+      pluginId: string;
+      code: string;
+      config?: PluginConfig;
+      isPreInstall: boolean;
+    }
+  | PluginApiResponse;
+
+// Sent by the frame to the page
+export type SandboxMessage =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'resize'; height: number }
+  | { type: 'change'; config: PluginConfig }
+  | { type: 'save'; config: PluginConfig }
+  | PluginApiRequest;
@@ -0,0 +1,199 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CssBaseline,
+  FormControlLabel,
+  GlobalStyles,
+  Switch,
+  TextField,
+  ThemeProvider,
+  Typography,
+} from '@mui/material';
+import * as Babel from '@babel/standalone';
+import { theme } from '../theme.js';
+import ConfigTextField from './ConfigTextField';
+import { HostMessage, PluginApiResponse, PluginConfig, SandboxMessage } from './bridge';
+
+// Entry point of plugin-sandbox.html. The Plugins page loads it in an iframe with
+// `sandbox="allow-scripts"`, so plugin code gets an opaque origin: no session
+// cookie, no access to the page, and only the bridge in ./bridge.ts to talk through.
+
+interface PluginConfigProps {
+  config?: PluginConfig;
+  onChange?: (config: PluginConfig) => void;
+  onSave?: (config: PluginConfig) => void;
+  isPreInstall?: boolean;
+}
+
+const post = (message: SandboxMessage) => window.parent.postMessage(message, '*');
+
+const pendingRequests = new Map<number, (response: PluginApiResponse) => void>();
+let nextRequestId = 1;
+
+// Stands in for `fetch` inside plugin code. Only the plugin's own API is reachable,
+// and the request is made by the page on the plugin's behalf.
+function createPluginFetch(pluginId: string) {
+  const apiPath = `/api/plugins/${pluginId}`;
+
+  return async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input, window.location.href);
+    if (url.pathname !== apiPath && !url.pathname.startsWith(`${apiPath}/`)) {
+      throw new TypeError(`Plugins may only call ${apiPath}`);
+    }
+    const { body } = init;
+    if (body !== undefined && body !== null && typeof body !== 'string') {
+      throw new TypeError('Plugin requests only support string bodies');
+    }
+
+    const id = nextRequestId++;
+    const response = await new Promise<PluginApiResponse>((resolve) => {
+      pendingRequests.set(id, resolve);
+      post({
+        type: 'request',
+        id,
+        path: url.pathname.slice(apiPath.length),
+        method: (init.method ?? 'GET').toUpperCase(),
+        contentType: new Headers(init.headers).get('Content-Type'),
+        body: body ?? undefined,
+      });
+    });
+
+    if (response.error !== undefined || response.status === undefined) {
+      throw new TypeError(response.error ?? 'Request failed');
+    }
+    return new Response(response.body ?? null, {
+      status: response.status,
+      headers: response.contentType ? { 'Content-Type': response.contentType } : undefined,
+    });
+  };
+}
+
+function compilePlugin(code: string, pluginId: string): React.ComponentType<PluginConfigProps> {
+  const transformedCode = Babel.transform(code, {
+    presets: ['react'],
+    filename: 'dynamic.tsx',
+  }).code;
+
+  // The plugin's own declarations live in a nested block so they may shadow the globals
+  const createComponent = new Function(
+    'React',
+    'MaterialUI',
+    'ConfigTextField',
+    'apiURL',
+    'fetch',
+    `
+    const { useState, useEffect } = React;
+    const {
+      Box,
+      TextField,
+      Button,
+      Card,
+      CardContent,
+      Typography,
+      Alert,
+      FormControlLabel,
+      Switch
+    } = MaterialUI;
+
+    {
+      ${transformedCode}
+
+      return PluginConfig;
+    }
+  `
+  );
+
+  return createComponent(
+    React,
+    {
+      Box,
+      TextField,
+      Button,
+      Card,
+      CardContent,
+      Typography,
+      Alert,
+      FormControlLabel,
+      Switch,
+    },
+    ConfigTextField,
+    `/api/plugins/${pluginId}`,
+    createPluginFetch(pluginId)
+  );
+}
+
+class PluginErrorBoundary extends React.Component<{ children: React.ReactNode }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    post({ type: 'error', message: error.message });
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error('Root element not found');
+}
+const root = ReactDOM.createRoot(rootElement);
+
+// Let the page size the frame to the rendered form
+new ResizeObserver(() => {
+  const height = Math.ceil(rootElement.getBoundingClientRect().height);
+  if (height > 0) {
+    post({ type: 'resize', height });
+  }
+}).observe(rootElement);
+
+function handleInit(message: Extract<HostMessage, { type: 'init' }>): void {
+  let PluginConfig: React.ComponentType<PluginConfigProps>;
+  try {
+    PluginConfig = compilePlugin(message.code, message.pluginId);
+  } catch (error) {
+    post({ type: 'error', message: `Failed to load the plugin configuration: ${error}` });
+    return;
+  }
+
+  root.render(
+    <ThemeProvider theme={theme}>
+      <CssBaseline />
+      <GlobalStyles styles={{ body: { backgroundColor: 'transparent' } }} />
+      <PluginErrorBoundary>
+        <PluginConfig
+          config={message.config}
+          onChange={(config) => post({ type: 'change', config })}
+          onSave={(config) => post({ type: 'save', config })}
+          isPreInstall={message.isPreInstall}
+        />
+      </PluginErrorBoundary>
+    </ThemeProvider>
+  );
+}
+
+window.addEventListener('message', (event: MessageEvent<HostMessage>) => {
+  if (event.source !== window.parent) {
+    return;
+  }
+
+  const message = event.data;
+  if (message?.type === 'init') {
+    handleInit(message);
+  } else if (message?.type === 'response') {
+    pendingRequests.get(message.id)?.(message);
+    pendingRequests.delete(message.id);
+  }
+});
+
+post({ type: 'ready' });
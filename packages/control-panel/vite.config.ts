@@ -1,40 +1,76 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { existsSync } from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Prefer the certificate managed by the system service (Settings > Security) over the dev one
+const serviceTlsDir = resolve(__dirname, '../system-service/data/tls');
+const sslDir = existsSync(resolve(serviceTlsDir, 'certificate.crt'))
+  ? serviceTlsDir
+  : resolve(__dirname, 'ssl');
+
+// While developing, Vite adds the React Refresh preamble to pages as an inline script,
+// which the plugin sandbox's Content-Security-Policy would otherwise block
+const allowSandboxPreambleInDev: Plugin = {
+  name: 'nestos-plugin-sandbox-dev-csp',
+  apply: 'serve',
+  transformIndexHtml: (html, { path }) =>
+    path === '/plugin-sandbox.html'
+      ? html.replace("script-src 'self'", "script-src 'self' 'unsafe-inline'")
+      : html
+};
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), allowSandboxPreambleInDev],
   server: {
     port: 8443,
     https: {
-      key: resolve(__dirname, 'ssl/private.key'),
-      cert: resolve(__dirname, 'ssl/certificate.crt')
+      key: resolve(sslDir, 'private.key'),
+      cert: resolve(sslDir, 'certificate.crt')
     },
     host: '0.0.0.0',
+    // Plugin config UIs load plugin-sandbox.html in a sandboxed iframe, whose opaque
+    // origin ("null") needs CORS to load the module scripts
+    cors: {
+      origin: [/^https?:\/\/(?:(?:[^:]+\.)?localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/, 'null']
+    },
+    // The Host header is passed through unchanged: the service trusts the Origin
+    // of pages served from the host name it was reached on, such as https://<LAN-ip>:8443
     proxy: {
       '/api': {
         target: 'http://localhost:3000',
-        changeOrigin: true,
+        xfwd: true,
       },
       '/health': {
         target: 'http://localhost:3000',
-        changeOrigin: true,
+        xfwd: true,
+      },
+      '/ws': {
+        target: 'ws://localhost:3000',
+        ws: true,
+        xfwd: true,
       },
     }
   },
   resolve: {
     alias: {
-      '@': resolve(__dirname, './src')
+      '@': resolve(__dirname, './src'),
+      // Used from source, so the control panel needs no build of the client first
+      '@nestos/api-client': resolve(__dirname, '../api-client/src/index.ts')
     }
   },
   build: {
     outDir: 'dist',
     sourcemap: true,
     rollupOptions: {
+      input: {
+        main: resolve(__dirname, 'index.html'),
+        pluginSandbox: resolve(__dirname, 'plugin-sandbox.html')
+      },
       output: {
         manualChunks: {
           'react-vendor': ['react', 'react-dom', 'react-router-dom'],
@@ -230,6 +230,17 @@ async function installNestOSComponents(arch: 'amd64' | 'arm64') {
       console.warn('Warning: control-panel not found, skipping...');
     }
 
+    // The system service runs unprivileged and reaches Docker through the docker group
+    await execa('chroot', [
+      chrootDir,
+      'useradd', '--system', '--no-create-home', '--shell', '/usr/sbin/nologin',
+      '--groups', 'docker', 'nestos'
+    ]);
+    await execa('chroot', [
+      chrootDir,
+      'chown', '-R', 'nestos:nestos', '/opt/nestos/system-service'
+    ]);
+
     // Copy systemd service files if they exist
     const servicesPath = path.join(__dirname, '../templates/services');
     if (await fs.pathExists(servicesPath)) {
@@ -239,6 +250,7 @@ async function installNestOSComponents(arch: 'amd64' | 'arm64') {
       await execa('chroot', [
         chrootDir,
         'systemctl', 'enable',
+        'nestos-helper.service',
         'nestos-system.service',
         'nestos-control-panel.service'
       ]);
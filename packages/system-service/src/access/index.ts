@@ -0,0 +1,173 @@
+import net from 'net';
+import os from 'os';
+import { FastifyInstance } from 'fastify';
+import {
+  AccessSettings,
+  loadAccessSettings,
+  LOOPBACK_ADDRESSES,
+  WILDCARD_ADDRESSES
+} from './settings.js';
+import { PermissionError, toErrorResponse } from '../errors/index.js';
+
+export type AddressScope = 'loopback' | 'lan' | 'internet';
+
+export interface ReachableAddress {
+  interface: string;
+  address: string;
+  family: 'IPv4' | 'IPv6';
+  scope: AddressScope;
+  // The server accepts connections on this address
+  listening: boolean;
+  // Clients on this interface's network are refused by the access policy
+  blocked: boolean;
+  url: string;
+}
+
+interface AccessPolicy {
+  settings: AccessSettings;
+  allow: net.BlockList;
+  deny: net.BlockList;
+}
+
+function toBlockList(networks: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const network of networks) {
+    const [address, prefix] = network.split('/');
+    list.addSubnet(address, Number(prefix), net.isIPv6(address) ? 'ipv6' : 'ipv4');
+  }
+  return list;
+}
+
+const loopbackNetworks = toBlockList(['127.0.0.0/8', '::1/128']);
+// Private, link-local and unique local ranges
+const lanNetworks = toBlockList([
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '169.254.0.0/16',
+  'fc00::/7',
+  'fe80::/10'
+]);
+
+let policy: AccessPolicy | null = null;
+
+// IPv4 clients of a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeAddress = (address: string) =>
+  address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').replace(/%.*$/, '');
+
+const contains = (list: net.BlockList, address: string) =>
+  list.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+export function getAddressScope(rawAddress: string): AddressScope {
+  const address = normalizeAddress(rawAddress);
+  if (contains(loopbackNetworks, address)) {
+    return 'loopback';
+  }
+  return contains(lanNetworks, address) ? 'lan' : 'internet';
+}
+
+// Takes effect for the next request, without a restart
+export function applyAccessSettings(settings: AccessSettings): void {
+  policy = { settings, allow: toBlockList(settings.allow), deny: toBlockList(settings.deny) };
+}
+
+async function getAccessPolicy(): Promise<AccessPolicy> {
+  if (!policy) {
+    applyAccessSettings(await loadAccessSettings());
+  }
+  return policy as AccessPolicy;
+}
+
+function isAllowedBy(current: AccessPolicy, rawAddress: string): boolean {
+  const address = normalizeAddress(rawAddress);
+  if (!net.isIP(address)) {
+    return false;
+  }
+  if (contains(loopbackNetworks, address)) {
+    return true;
+  }
+  if (contains(current.deny, address)) {
+    return false;
+  }
+  return (
+    current.settings.remoteAccess ||
+    contains(lanNetworks, address) ||
+    contains(current.allow, address)
+  );
+}
+
+export const isAddressAllowed = (settings: AccessSettings, address: string): boolean =>
+  isAllowedBy(
+    { settings, allow: toBlockList(settings.allow), deny: toBlockList(settings.deny) },
+    address
+  );
+
+/**
+ * Refuses clients the access policy does not allow, before anything else runs.
+ * The connection's own address is checked rather than X-Forwarded-For, which
+ * any client can set; behind a reverse proxy the proxy's address is checked.
+ */
+export function setupAccessControl(fastify: FastifyInstance): void {
+  fastify.addHook('onRequest', async (request, reply) => {
+    const address = request.socket.remoteAddress ?? '';
+    if (isAllowedBy(await getAccessPolicy(), address)) {
+      return;
+    }
+
+    return reply
+      .code(403)
+      .send(
+        toErrorResponse(new PermissionError(`Access from ${normalizeAddress(address)} is not allowed`))
+      );
+  });
+}
+
+// Addresses of this device's network interfaces
+function listInterfaceAddresses() {
+  return Object.entries(os.networkInterfaces()).flatMap(([name, addresses]) =>
+    (addresses ?? []).map((info) => ({ name, ...info }))
+  );
+}
+
+export const isBindableAddress = (address: string): boolean =>
+  WILDCARD_ADDRESSES.includes(address) ||
+  LOOPBACK_ADDRESSES.includes(address) ||
+  listInterfaceAddresses().some((info) => info.address === address);
+
+// Interface addresses can disappear (e.g. a new DHCP lease), so never fail to start over it
+export function resolveBindAddress(address: string): string {
+  if (isBindableAddress(address)) {
+    return address;
+  }
+  console.error(`Bind address ${address} is not assigned to this device, listening on 0.0.0.0`);
+  return '0.0.0.0';
+}
+
+// Where the API can be reached, given the address the server is bound to
+export async function getReachableAddresses(
+  boundAddress: string,
+  port: number,
+  protocol: 'http' | 'https'
+): Promise<ReachableAddress[]> {
+  const current = await getAccessPolicy();
+
+  return listInterfaceAddresses().map((info) => {
+    const family = info.family === 'IPv6' ? 'IPv6' : 'IPv4';
+    const listening =
+      boundAddress === info.address ||
+      boundAddress === '::' ||
+      (boundAddress === '0.0.0.0' && family === 'IPv4');
+    const scope = getAddressScope(info.address);
+    const host = family === 'IPv6' ? `[${info.address}]` : info.address;
+
+    return {
+      interface: info.name,
+      address: info.address,
+      family,
+      scope,
+      listening,
+      blocked: scope !== 'loopback' && !isAllowedBy(current, info.address),
+      url: `${protocol}://${host}:${port}`
+    };
+  });
+}
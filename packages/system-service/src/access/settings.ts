@@ -0,0 +1,57 @@
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+
+const settingsPath = () => path.join(getConfig().dataDir, 'access-settings.json');
+
+// Every IPv4 interface, every interface (dual stack), or only this device
+export const WILDCARD_ADDRESSES = ['0.0.0.0', '::'];
+export const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1'];
+
+// An address or network such as 192.168.1.0/24 or fd00::/8; a bare address is a single host
+export const cidrSchema = z
+  .string()
+  .trim()
+  .transform((value, context) => {
+    const [address, prefix, ...rest] = value.split('/');
+    const family = net.isIP(address);
+    const maxPrefix = family === 6 ? 128 : 32;
+    const bits = prefix === undefined ? maxPrefix : Number(prefix);
+
+    if (!family || rest.length > 0 || !Number.isInteger(bits) || bits < 0 || bits > maxPrefix) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${value} is not an IP address or network such as 192.168.1.0/24`
+      });
+      return z.NEVER;
+    }
+    return `${address.toLowerCase()}/${bits}`;
+  });
+
+export const accessSettingsSchema = z.object({
+  // Off: only this device, private (LAN) addresses and the allowed networks may connect
+  remoteAccess: z.boolean().default(true),
+  // Address the API listens on, applied on the next start
+  bindAddress: z.string().ip().default('0.0.0.0'),
+  // Reachable even while remote access is off, e.g. a VPN
+  allow: z.array(cidrSchema).max(100).default([]),
+  // Refused even on the LAN; this device itself is never refused
+  deny: z.array(cidrSchema).max(100).default([])
+});
+
+export type AccessSettings = z.infer<typeof accessSettingsSchema>;
+
+export async function loadAccessSettings(): Promise<AccessSettings> {
+  try {
+    return accessSettingsSchema.parse(JSON.parse(await fs.readFile(settingsPath(), 'utf-8')));
+  } catch {
+    return accessSettingsSchema.parse({});
+  }
+}
+
+export async function saveAccessSettings(settings: AccessSettings): Promise<void> {
+  await fs.mkdir(path.dirname(settingsPath()), { recursive: true });
+  await fs.writeFile(settingsPath(), JSON.stringify(settings, null, 2));
+}
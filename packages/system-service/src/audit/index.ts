@@ -0,0 +1,257 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { getConfig } from '../config.js';
+
+// One JSON object per line; entries are only ever appended. A full log moves to audit.log.1,
+// audit.log.1 to audit.log.2 and so on, and the oldest is dropped.
+const MAX_AUDIT_LOG_BYTES = 10 * 1024 * 1024;
+const ROTATED_AUDIT_LOGS = 4;
+
+const auditLogPath = (generation = 0) =>
+  path.join(getConfig().dataDir, generation ? `audit.log.${generation}` : 'audit.log');
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values must never reach the log
+const secretKeyPattern = new RegExp(
+  [
+    'pass(word)?', 'secret', 'token', 'api[-_]?key', 'private[-_]?key', 'credential',
+    'authorization', 'recovery', '^key$', '^code$', '^value$'
+  ].join('|'),
+  'i'
+);
+
+// Whole files, such as a stack's Compose file and .env, that can hold secrets anywhere in them
+const secretFileKeyPattern = /^(compose|env)$/i;
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: {
+    userId: string;
+    username: string;
+    apiToken: { id: string; name: string } | null;
+  } | null;
+  ip: string;
+  method: string;
+  route: string;
+  url: string;
+  params: unknown;
+  query: unknown;
+  body: unknown;
+  statusCode: number;
+  outcome: AuditOutcome;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  method?: string;
+  outcome?: AuditOutcome;
+  search?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  offset: number;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auditError: string | null;
+  }
+}
+
+/**
+ * Replaces values of secret-looking fields, including `NAME=value` strings
+ * such as container environment variables, with a placeholder. Files sent as
+ * strings are left out entirely.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+
+  if (typeof value === 'string') {
+    // Every line, so that none of several assignments slips through
+    return value.replace(/^([A-Za-z_][A-Za-z0-9_]*)=.*$/gm, (line, name: string) =>
+      secretKeyPattern.test(name) ? `${name}=${REDACTED}` : line
+    );
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        secretKeyPattern.test(key) || (secretFileKeyPattern.test(key) && typeof entry === 'string')
+          ? REDACTED
+          : redactSecrets(entry)
+      ])
+    );
+  }
+
+  return value;
+}
+
+const getOutcome = (statusCode: number): AuditOutcome => {
+  if (statusCode === 401 || statusCode === 403) {
+    return 'denied';
+  }
+  return statusCode >= 400 ? 'failure' : 'success';
+};
+
+async function rotateIfFull(): Promise<void> {
+  let size: number;
+  try {
+    ({ size } = await fs.stat(auditLogPath()));
+  } catch (error) {
+    if (isMissing(error)) {
+      return;
+    }
+    throw error;
+  }
+  if (size < MAX_AUDIT_LOG_BYTES) {
+    return;
+  }
+
+  await fs.rm(auditLogPath(ROTATED_AUDIT_LOGS), { force: true });
+  for (let generation = ROTATED_AUDIT_LOGS - 1; generation >= 0; generation--) {
+    await fs.rename(auditLogPath(generation), auditLogPath(generation + 1)).catch((error) => {
+      if (!isMissing(error)) {
+        throw error;
+      }
+    });
+  }
+}
+
+// Entries are written one after another so a rotation never runs in the middle of an append
+let lastAppend: Promise<unknown> = Promise.resolve();
+
+function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const append = lastAppend.then(async () => {
+    await fs.mkdir(path.dirname(auditLogPath()), { recursive: true });
+    await rotateIfFull();
+    await fs.appendFile(auditLogPath(), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+  });
+  lastAppend = append.catch(() => undefined);
+  return append;
+}
+
+function buildEntry(request: FastifyRequest, statusCode: number, durationMs: number): AuditEntry {
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    actor: request.user
+      ? {
+        userId: request.user.id,
+        username: request.user.username,
+        apiToken: request.apiToken
+          ? { id: request.apiToken.id, name: request.apiToken.name }
+          : null
+      }
+      : null,
+    // The connection's own address; X-Forwarded-For is whatever the client says
+    ip: request.socket.remoteAddress ?? '',
+    method: request.method,
+    route: request.routeOptions.url ?? request.url.split('?')[0],
+    url: request.url.split('?')[0],
+    params: redactSecrets(request.params ?? {}),
+    query: redactSecrets(request.query ?? {}),
+    body: redactSecrets(request.body ?? null),
+    statusCode,
+    outcome: getOutcome(statusCode),
+    error: request.auditError,
+    durationMs: Math.round(durationMs)
+  };
+}
+
+/**
+ * Records every request that can change state (anything but GET, HEAD and
+ * OPTIONS) once its response has been sent, including ones rejected by
+ * authentication.
+ */
+export function setupAuditLog(fastify: FastifyInstance): void {
+  fastify.decorateRequest('auditError', null);
+
+  fastify.addHook('onError', async (request, _reply, error) => {
+    request.auditError = error.message;
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    if (['GET', 'HEAD', 'OPTIONS'].includes(request.method)) {
+      return;
+    }
+
+    try {
+      await appendAuditEntry(buildEntry(request, reply.statusCode, reply.elapsedTime));
+    } catch (error) {
+      request.log.error({ err: error }, 'Failed to write audit log entry');
+    }
+  });
+
+  // Entries of the last requests are still written when the service shuts down
+  fastify.addHook('onClose', async () => {
+    await lastAppend;
+  });
+}
+
+/**
+ * Newest entries first. The logs are read one at a time, newest first, so at
+ * most one of them is held in memory.
+ */
+export async function queryAuditLog(
+  query: AuditQuery
+): Promise<{ total: number; entries: AuditEntry[] }> {
+  const search = query.search?.toLowerCase();
+  const entries: AuditEntry[] = [];
+  let total = 0;
+
+  for (let generation = 0; generation <= ROTATED_AUDIT_LOGS; generation++) {
+    let content: string;
+    try {
+      content = await fs.readFile(auditLogPath(generation), 'utf-8');
+    } catch (error) {
+      if (isMissing(error)) {
+        continue;
+      }
+      throw error;
+    }
+
+    for (const line of content.split('\n').reverse()) {
+      if (!line || (search && !line.toLowerCase().includes(search))) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      const timestamp = new Date(entry.timestamp);
+      if (
+        (query.actor && entry.actor?.username !== query.actor) ||
+        (query.method && entry.method !== query.method.toUpperCase()) ||
+        (query.outcome && entry.outcome !== query.outcome) ||
+        (query.since && timestamp < query.since) ||
+        (query.until && timestamp > query.until)
+      ) {
+        continue;
+      }
+
+      if (total >= query.offset && entries.length < query.limit) {
+        entries.push(entry);
+      }
+      total++;
+    }
+  }
+
+  return { total, entries };
+}
@@ -0,0 +1,176 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+
+const tokensPath = () => path.join(getConfig().dataDir, 'api-tokens.json');
+
+// Distinguishes API tokens from session tokens in the Authorization header
+export const API_TOKEN_PREFIX = 'nestos_';
+
+// How often last-used timestamps are flushed to disk per token
+const LAST_USED_PERSIST_INTERVAL_MS = 60 * 1000;
+
+export const scopeAreas = ['system', 'storage', 'docker', 'network', 'plugins', 'users'] as const;
+export const scopeAccess = ['read', 'write'] as const;
+
+export const scopes = scopeAreas.flatMap((area) =>
+  scopeAccess.map((access) => `${area}:${access}` as const)
+);
+
+export type ScopeArea = (typeof scopeAreas)[number];
+export type Scope = (typeof scopes)[number];
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Routes that must only be reachable from an interactive session, never a token
+    sessionOnly?: boolean;
+  }
+}
+
+const apiTokenSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  userId: z.string(),
+  scopes: z.array(z.enum(scopes as [Scope, ...Scope[]])),
+  tokenHash: z.string(),
+  // First characters of the token, shown in lists so tokens can be told apart
+  preview: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable()
+});
+
+// What the API shows of a token: everything but its hash
+export const publicApiTokenSchema = apiTokenSchema.omit({ tokenHash: true });
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+export type PublicApiToken = z.infer<typeof publicApiTokenSchema>;
+
+export const toPublicApiToken = ({ tokenHash: _tokenHash, ...token }: ApiToken): PublicApiToken =>
+  token;
+
+let tokens: ApiToken[] | null = null;
+const lastPersisted = new Map<string, number>();
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+async function getTokens(): Promise<ApiToken[]> {
+  if (!tokens) {
+    try {
+      tokens = z.array(apiTokenSchema).parse(JSON.parse(await fs.readFile(tokensPath(), 'utf-8')));
+    } catch {
+      tokens = [];
+    }
+  }
+  return tokens;
+}
+
+async function persistTokens(): Promise<void> {
+  await fs.mkdir(path.dirname(tokensPath()), { recursive: true });
+  await fs.writeFile(tokensPath(), JSON.stringify(await getTokens(), null, 2), { mode: 0o600 });
+}
+
+export async function listApiTokens(userId?: string): Promise<ApiToken[]> {
+  const current = await getTokens();
+  return userId ? current.filter((token) => token.userId === userId) : current;
+}
+
+export async function findApiToken(id: string): Promise<ApiToken | undefined> {
+  return (await getTokens()).find((token) => token.id === id);
+}
+
+// The plain token is only returned here; afterwards only its hash is kept
+export async function createApiToken(
+  userId: string,
+  name: string,
+  tokenScopes: Scope[],
+  expiresAt: Date | null
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiToken: ApiToken = {
+    id: randomUUID(),
+    name,
+    userId,
+    scopes: [...new Set(tokenScopes)],
+    tokenHash: hashToken(token),
+    preview: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresAt?.toISOString() ?? null,
+    lastUsedAt: null
+  };
+
+  (await getTokens()).push(apiToken);
+  await persistTokens();
+  return { token, apiToken };
+}
+
+export async function revokeApiToken(id: string): Promise<void> {
+  const current = await getTokens();
+  tokens = current.filter((token) => token.id !== id);
+  lastPersisted.delete(id);
+  await persistTokens();
+}
+
+export async function revokeUserApiTokens(userId: string): Promise<void> {
+  const current = await getTokens();
+  tokens = current.filter((token) => token.userId !== userId);
+  await persistTokens();
+}
+
+/**
+ * Looks up a presented token and records when it was used. Expired tokens are
+ * treated as unknown.
+ */
+export async function resolveApiToken(token: string): Promise<ApiToken | null> {
+  const tokenHash = hashToken(token);
+  const apiToken = (await getTokens()).find((candidate) => candidate.tokenHash === tokenHash);
+  if (!apiToken) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= now) {
+    return null;
+  }
+
+  apiToken.lastUsedAt = new Date(now).toISOString();
+  // Scripts may poll every few seconds, so avoid rewriting the file on each request
+  if (now - (lastPersisted.get(apiToken.id) ?? 0) >= LAST_USED_PERSIST_INTERVAL_MS) {
+    lastPersisted.set(apiToken.id, now);
+    await persistTokens();
+  }
+
+  return apiToken;
+}
+
+// Route prefixes that do not map one-to-one onto a scope area
+const areaAliases: Record<string, ScopeArea> = {
+  appearance: 'users',
+  auth: 'users'
+};
+
+/**
+ * The scope a request needs, derived from the route's first path segment
+ * under /api and the HTTP method. `/ws` streams system stats.
+ */
+export function requiredScope(method: string, url: string): Scope | null {
+  const segment = url === '/ws' ? 'system' : /^\/api\/([^/]+)/.exec(url)?.[1];
+  if (!segment) {
+    return null;
+  }
+
+  const area = areaAliases[segment] ?? segment;
+  if (!(scopeAreas as readonly string[]).includes(area)) {
+    return null;
+  }
+
+  const access = method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+  return `${area as ScopeArea}:${access}`;
+}
+
+// A write scope also grants reads in the same area
+export const hasScope = (granted: Scope[], required: Scope): boolean =>
+  granted.includes(required) ||
+  (required.endsWith(':read') && granted.includes(required.replace(/:read$/, ':write') as Scope));
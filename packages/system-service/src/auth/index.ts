@@ -0,0 +1,109 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  API_TOKEN_PREFIX,
+  ApiToken,
+  hasScope,
+  requiredScope,
+  resolveApiToken
+} from './apiTokens.js';
+import { getAttemptKeys, recordFailedAttempt, sendThrottled } from './rateLimit.js';
+import { hasRole, requiredRole } from './roles.js';
+import { resolveSession } from './sessions.js';
+import { findUserById, PublicUser, toPublicUser, User } from './users.js';
+import { AuthenticationError, PermissionError, toErrorResponse } from '../errors/index.js';
+
+export const SESSION_COOKIE = 'nestos_session';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    user: PublicUser | null;
+    // Set when the request authenticated with an API token rather than a session
+    apiToken: ApiToken | null;
+  }
+}
+
+// Routes that must stay reachable before a session exists
+const publicRoutes = new Set([
+  '/',
+  '/health',
+  '/api/auth/login',
+  '/api/auth/login/two-factor',
+  '/api/auth/setup',
+  '/api/openapi.json'
+]);
+
+// The API explorer and its assets, which only describe the API
+const DOCS_PREFIX = '/api/docs';
+
+const isPublicRoute = (url: string) =>
+  publicRoutes.has(url) || url === DOCS_PREFIX || url.startsWith(`${DOCS_PREFIX}/`);
+
+export function getRequestToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  return request.cookies[SESSION_COOKIE] || null;
+}
+
+export function setupAuthentication(fastify: FastifyInstance): void {
+  fastify.decorateRequest('user', null);
+  fastify.decorateRequest('apiToken', null);
+
+  // Runs for plain requests and for /ws upgrades alike, so an unauthenticated
+  // socket is answered with a 401 before the upgrade happens
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (request.method === 'OPTIONS' || isPublicRoute(request.routeOptions.url ?? '')) {
+      return;
+    }
+
+    const token = getRequestToken(request);
+    let user: User | undefined;
+    if (token?.startsWith(API_TOKEN_PREFIX)) {
+      // Guessing tokens counts against the same per-address limit as guessing passwords
+      const attemptKeys = getAttemptKeys(request.socket.remoteAddress ?? '');
+      const throttled = sendThrottled(reply, attemptKeys);
+      if (throttled) {
+        return throttled;
+      }
+
+      const apiToken = await resolveApiToken(token);
+      if (!apiToken) {
+        recordFailedAttempt(attemptKeys);
+      }
+      user = apiToken ? await findUserById(apiToken.userId) : undefined;
+      request.apiToken = apiToken;
+    } else {
+      const session = token ? await resolveSession(token) : null;
+      user = session ? await findUserById(session.userId) : undefined;
+    }
+
+    if (!user) {
+      return reply.code(401).send(toErrorResponse(new AuthenticationError()));
+    }
+
+    request.user = toPublicUser(user);
+
+    // Tokens act as their owner, so the owner's role still applies on top of the scopes
+    const required = requiredRole(request.method, request.routeOptions.config?.role);
+    if (!hasRole(user.role, required)) {
+      return reply
+        .code(403)
+        .send(toErrorResponse(new PermissionError(`This action requires the ${required} role`)));
+    }
+
+    if (request.apiToken) {
+      const scope = requiredScope(request.method, request.routeOptions.url ?? '');
+      if (request.routeOptions.config?.sessionOnly || !scope) {
+        return reply
+          .code(403)
+          .send(toErrorResponse(new PermissionError('This route is not available to API tokens')));
+      }
+      if (!hasScope(request.apiToken.scopes, scope)) {
+        return reply
+          .code(403)
+          .send(toErrorResponse(new PermissionError(`This API token is missing the ${scope} scope`)));
+      }
+    }
+  });
+}
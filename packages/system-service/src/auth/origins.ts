@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { PermissionError, toErrorResponse } from '../errors/index.js';
+
+const settingsPath = () => path.join(getConfig().dataDir, 'origin-settings.json');
+
+// Where the control panel is served on every host name the device answers to
+export const CONTROL_PANEL_PORT = 8443;
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export const originSchema = z
+  .string()
+  .trim()
+  .refine((value) => {
+    try {
+      const url = new URL(value);
+      return ['http:', 'https:'].includes(url.protocol) && url.origin === value.replace(/\/$/, '');
+    } catch {
+      return false;
+    }
+  }, 'Must be an origin such as https://nas.local:8443, without a path')
+  .transform((value) => new URL(value).origin);
+
+export const originSettingsSchema = z.object({
+  // Web apps other than the control panel that may call the API with the user's session
+  allowedOrigins: z.array(originSchema).max(50)
+});
+
+export type OriginSettings = z.infer<typeof originSettingsSchema>;
+
+let settings: OriginSettings | null = null;
+
+// Until origins are configured in Settings, corsOrigins from the config (or CORS_ORIGIN) provides them
+const defaultSettings = (): OriginSettings => ({
+  allowedOrigins: getConfig().corsOrigins
+    .filter((origin) => originSchema.safeParse(origin).success)
+    .map((origin) => new URL(origin).origin)
+});
+
+export async function loadOriginSettings(): Promise<OriginSettings> {
+  if (!settings) {
+    try {
+      settings = originSettingsSchema.parse(JSON.parse(await fs.readFile(settingsPath(), 'utf-8')));
+    } catch {
+      settings = defaultSettings();
+    }
+  }
+  return settings;
+}
+
+export async function saveOriginSettings(update: OriginSettings): Promise<void> {
+  settings = { allowedOrigins: [...new Set(update.allowedOrigins)] };
+  await fs.mkdir(path.dirname(settingsPath()), { recursive: true });
+  await fs.writeFile(settingsPath(), JSON.stringify(settings, null, 2));
+}
+
+// The address the browser used to reach the API, e.g. nas.local:3000
+const requestHost = (request: FastifyRequest): URL | null => {
+  try {
+    return new URL(`http://${request.hostname}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Origins trusted without configuration: the API's own, and the control panel
+ * on the same host name over HTTP or HTTPS.
+ */
+export function getBuiltInOrigins(request: FastifyRequest): string[] {
+  const host = requestHost(request);
+  if (!host) {
+    return [];
+  }
+  return [
+    `${request.protocol}://${host.host}`,
+    `http://${host.hostname}:${CONTROL_PANEL_PORT}`,
+    `https://${host.hostname}:${CONTROL_PANEL_PORT}`
+  ];
+}
+
+export async function isTrustedOrigin(request: FastifyRequest, origin: string): Promise<boolean> {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    // Includes "null", sent by sandboxed frames and privacy-sensitive redirects
+    return false;
+  }
+
+  // A proxy in front of the API may terminate TLS, so only host and port have to match
+  const host = requestHost(request);
+  if (host && (url.host === host.host || getBuiltInOrigins(request).includes(url.origin))) {
+    return true;
+  }
+  return (await loadOriginSettings()).allowedOrigins.includes(url.origin);
+}
+
+// The page a browser request came from. Browsers always send Origin on
+// cross-origin requests, so when neither header is set it is not a browser.
+function getRequestOrigin(request: FastifyRequest): string | null {
+  if (request.headers.origin) {
+    return request.headers.origin;
+  }
+  try {
+    return request.headers.referer ? new URL(request.headers.referer).origin : null;
+  } catch {
+    return 'null';
+  }
+}
+
+/**
+ * Rejects state-changing requests and WebSocket upgrades that a browser sends
+ * from an untrusted page. Session cookies are SameSite=strict, but other
+ * ports on the same host (such as plugin web UIs) still count as the same site.
+ * Requests authenticated with an API token carry no ambient credentials.
+ */
+export function setupCsrfProtection(fastify: FastifyInstance): void {
+  fastify.addHook('onRequest', async (request, reply) => {
+    const isUpgrade = request.headers.upgrade?.toLowerCase() === 'websocket';
+    if (SAFE_METHODS.has(request.method) && !isUpgrade) {
+      return;
+    }
+    if (request.headers.authorization?.startsWith('Bearer ')) {
+      return;
+    }
+
+    const origin = getRequestOrigin(request);
+    if (origin === null || (await isTrustedOrigin(request, origin))) {
+      return;
+    }
+
+    return reply.code(403).send(
+      toErrorResponse(
+        new PermissionError(
+          `Requests from ${origin} are not allowed. Add it to the trusted origins in Settings.`,
+          { origin }
+        )
+      )
+    );
+  });
+}
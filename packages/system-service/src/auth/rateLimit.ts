@@ -0,0 +1,207 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { ApiError, toErrorResponse } from '../errors/index.js';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Count 401/403 answers from this route as failed sign-in attempts
+    rateLimit?: boolean;
+  }
+  interface FastifyRequest {
+    attemptKeys: string[] | null;
+  }
+}
+
+export type AttemptKind = 'ip' | 'account';
+
+interface AttemptPolicy {
+  // Failures allowed before each further attempt has to wait
+  freeAttempts: number;
+  // Failures after which the address or account is locked out
+  lockoutAfter: number;
+}
+
+// Addresses can be shared by a whole household or office, so they get more leeway
+const policies: Record<AttemptKind, AttemptPolicy> = {
+  ip: { freeAttempts: 10, lockoutAfter: 30 },
+  account: { freeAttempts: 5, lockoutAfter: 10 }
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Counters for addresses and accounts that stop failing are dropped after this
+const FORGET_AFTER_MS = 60 * 60 * 1000;
+
+interface AttemptRecord {
+  kind: AttemptKind;
+  value: string;
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  locked: boolean;
+}
+
+export interface LoginLockout {
+  id: string;
+  kind: AttemptKind;
+  value: string;
+  failures: number;
+  lastFailureAt: string;
+  blockedUntil: string | null;
+  locked: boolean;
+}
+
+// Kept in memory only, like pending two-factor challenges
+const attempts = new Map<string, AttemptRecord>();
+
+const attemptKey = (kind: AttemptKind, value: string) => `${kind}:${value}`;
+
+function pruneAttempts(now: number): void {
+  for (const [key, record] of attempts) {
+    if (record.blockedUntil <= now && record.lastFailureAt + FORGET_AFTER_MS <= now) {
+      attempts.delete(key);
+    }
+  }
+}
+
+// Usernames are matched case-insensitively at login, so their counters are too
+export function getAttemptKeys(ip: string, account?: string | null): string[] {
+  const keys = [attemptKey('ip', ip)];
+  if (account) {
+    keys.push(attemptKey('account', account.toLowerCase()));
+  }
+  return keys;
+}
+
+export function getRetryAfterMs(keys: string[]): number {
+  const now = Date.now();
+  return Math.max(0, ...keys.map((key) => (attempts.get(key)?.blockedUntil ?? 0) - now));
+}
+
+/**
+ * Counts a failed attempt against every key. Past the free attempts each
+ * failure doubles the wait before the next try; past the lockout threshold the
+ * key is locked out until the lockout expires or an admin clears it.
+ */
+export function recordFailedAttempt(keys: string[]): void {
+  const now = Date.now();
+  pruneAttempts(now);
+
+  for (const key of keys) {
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator) as AttemptKind;
+    const record = attempts.get(key) ?? {
+      kind,
+      value: key.slice(separator + 1),
+      failures: 0,
+      lastFailureAt: now,
+      blockedUntil: 0,
+      locked: false
+    };
+    const policy = policies[kind];
+
+    record.failures += 1;
+    record.lastFailureAt = now;
+    if (record.failures >= policy.lockoutAfter) {
+      record.locked = true;
+      record.blockedUntil = now + LOCKOUT_MS;
+    } else if (record.failures > policy.freeAttempts) {
+      const delay = BASE_DELAY_MS * 2 ** (record.failures - policy.freeAttempts - 1);
+      record.blockedUntil = now + Math.min(delay, MAX_DELAY_MS);
+    }
+
+    attempts.set(key, record);
+  }
+}
+
+// A successful sign-in proves the account holder is present; the address keeps its count
+export function recordSuccessfulAttempt(keys: string[]): void {
+  for (const key of keys) {
+    if (key.startsWith('account:')) {
+      attempts.delete(key);
+    }
+  }
+}
+
+export function sendThrottled(reply: FastifyReply, keys: string[]): FastifyReply | undefined {
+  const retryAfterMs = getRetryAfterMs(keys);
+  if (retryAfterMs <= 0) {
+    return undefined;
+  }
+
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  const unit = seconds === 1 ? 'second' : 'seconds';
+  return reply
+    .code(429)
+    .header('Retry-After', String(seconds))
+    .send(
+      toErrorResponse(
+        new ApiError(429, 'RATE_LIMITED', `Too many failed attempts. Try again in ${seconds} ${unit}.`, {
+          retryAfterSeconds: seconds
+        })
+      )
+    );
+}
+
+export function listLoginLockouts(): LoginLockout[] {
+  const now = Date.now();
+  pruneAttempts(now);
+
+  return [...attempts.entries()]
+    .map(([id, record]) => ({
+      id,
+      kind: record.kind,
+      value: record.value,
+      failures: record.failures,
+      lastFailureAt: new Date(record.lastFailureAt).toISOString(),
+      blockedUntil: record.blockedUntil > now ? new Date(record.blockedUntil).toISOString() : null,
+      locked: record.locked && record.blockedUntil > now
+    }))
+    .sort((a, b) => b.lastFailureAt.localeCompare(a.lastFailureAt));
+}
+
+export function clearLoginLockout(id: string): boolean {
+  return attempts.delete(id);
+}
+
+export function clearAllLoginLockouts(): number {
+  const count = attempts.size;
+  attempts.clear();
+  return count;
+}
+
+/**
+ * Throttles routes marked with `config.rateLimit`, keyed by client address and,
+ * when known, the account being signed in to. API tokens are checked by the
+ * authentication hook with the same counters. The address is the connection's
+ * own, as X-Forwarded-For would let a client pick a fresh one for every guess.
+ */
+export function setupRateLimit(fastify: FastifyInstance): void {
+  fastify.decorateRequest('attemptKeys', null);
+
+  fastify.addHook('preHandler', async (request, reply) => {
+    if (!request.routeOptions.config?.rateLimit) {
+      return;
+    }
+
+    const body = request.body as { username?: unknown } | null;
+    const account = typeof body?.username === 'string'
+      ? body.username.trim()
+      : request.user?.username;
+
+    request.attemptKeys = getAttemptKeys(request.socket.remoteAddress ?? '', account);
+    return sendThrottled(reply, request.attemptKeys);
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    if (!request.attemptKeys || reply.statusCode === 429) {
+      return;
+    }
+
+    if (reply.statusCode === 401 || reply.statusCode === 403) {
+      recordFailedAttempt(request.attemptKeys);
+    } else if (reply.statusCode < 400) {
+      recordSuccessfulAttempt(request.attemptKeys);
+    }
+  });
+}
@@ -0,0 +1,18 @@
+export const roles = ['viewer', 'operator', 'admin'] as const;
+
+export type Role = (typeof roles)[number];
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Minimum role needed to call a route; see `requiredRole` for the default
+    role?: Role;
+  }
+}
+
+export const hasRole = (role: Role, required: Role): boolean =>
+  roles.indexOf(role) >= roles.indexOf(required);
+
+// Reads are open to viewers and anything that changes state needs an operator,
+// unless the route declares its own `config.role`
+export const requiredRole = (method: string, configured?: Role): Role =>
+  configured ?? (method === 'GET' || method === 'HEAD' ? 'viewer' : 'operator');
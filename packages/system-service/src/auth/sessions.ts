@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { getConfig } from '../config.js';
+
+const sessionsPath = () => path.join(getConfig().dataDir, 'sessions.json');
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface Session {
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Keyed by the SHA-256 of the token so a leaked sessions file cannot be replayed
+let sessions: Map<string, Session> | null = null;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+async function getSessions(): Promise<Map<string, Session>> {
+  if (!sessions) {
+    try {
+      const stored: Record<string, Session> = JSON.parse(await fs.readFile(sessionsPath(), 'utf-8'));
+      sessions = new Map(Object.entries(stored));
+    } catch {
+      sessions = new Map();
+    }
+  }
+  return sessions;
+}
+
+async function persistSessions(): Promise<void> {
+  const current = await getSessions();
+  const now = Date.now();
+  for (const [key, session] of current) {
+    if (session.expiresAt <= now) {
+      current.delete(key);
+    }
+  }
+
+  await fs.mkdir(path.dirname(sessionsPath()), { recursive: true });
+  await fs.writeFile(sessionsPath(), JSON.stringify(Object.fromEntries(current), null, 2), {
+    mode: 0o600
+  });
+}
+
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: number }> {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: Session = { userId, createdAt: now, expiresAt: now + SESSION_TTL_MS };
+
+  (await getSessions()).set(hashToken(token), session);
+  await persistSessions();
+
+  return { token, expiresAt: session.expiresAt };
+}
+
+export async function resolveSession(token: string): Promise<Session | null> {
+  const current = await getSessions();
+  const key = hashToken(token);
+  const session = current.get(key);
+
+  if (!session) {
+    return null;
+  }
+  if (session.expiresAt <= Date.now()) {
+    current.delete(key);
+    await persistSessions();
+    return null;
+  }
+  return session;
+}
+
+export async function destroySession(token: string): Promise<void> {
+  if ((await getSessions()).delete(hashToken(token))) {
+    await persistSessions();
+  }
+}
+
+// Sign a user out everywhere, optionally keeping the session making the request
+export async function destroyUserSessions(userId: string, exceptToken?: string): Promise<void> {
+  const current = await getSessions();
+  const keep = exceptToken ? hashToken(exceptToken) : null;
+  for (const [key, session] of current) {
+    if (session.userId === userId && key !== keep) {
+      current.delete(key);
+    }
+  }
+  await persistSessions();
+}
@@ -0,0 +1,90 @@
+import { randomBytes } from 'crypto';
+import { hashRecoveryCode, verifyTotp } from './totp.js';
+import { updateUser, User } from './users.js';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+interface LoginChallenge {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Issued after a correct password when the account has two-factor enabled.
+// Kept in memory only: a restart simply means signing in again.
+const challenges = new Map<string, LoginChallenge>();
+
+export function createLoginChallenge(userId: string): string {
+  const now = Date.now();
+  for (const [key, challenge] of challenges) {
+    if (challenge.expiresAt <= now) {
+      challenges.delete(key);
+    }
+  }
+
+  const token = randomBytes(32).toString('hex');
+  challenges.set(token, { userId, expiresAt: now + CHALLENGE_TTL_MS, attempts: 0 });
+  return token;
+}
+
+/**
+ * Returns the user id behind a pending challenge. Each lookup counts as an
+ * attempt; the challenge is dropped once it expires or runs out of attempts.
+ */
+export function resolveLoginChallenge(token: string): string | null {
+  const challenge = challenges.get(token);
+  if (!challenge) {
+    return null;
+  }
+
+  challenge.attempts += 1;
+  if (challenge.expiresAt <= Date.now() || challenge.attempts > MAX_CHALLENGE_ATTEMPTS) {
+    challenges.delete(token);
+    return null;
+  }
+
+  return challenge.userId;
+}
+
+export function completeLoginChallenge(token: string): void {
+  challenges.delete(token);
+}
+
+/**
+ * Accepts either a current TOTP code or one of the user's recovery codes.
+ * Used TOTP time steps and recovery codes are recorded so neither can be
+ * replayed.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  const { twoFactor } = user;
+  if (!twoFactor?.enabled) {
+    return false;
+  }
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    if (step <= twoFactor.lastUsedStep) {
+      return false;
+    }
+    await updateUser(user.id, (current) => ({
+      ...current,
+      twoFactor: current.twoFactor && { ...current.twoFactor, lastUsedStep: step }
+    }));
+    return true;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!twoFactor.recoveryCodes.includes(hash)) {
+    return false;
+  }
+
+  await updateUser(user.id, (current) => ({
+    ...current,
+    twoFactor: current.twoFactor && {
+      ...current.twoFactor,
+      recoveryCodes: current.twoFactor.recoveryCodes.filter((stored) => stored !== hash)
+    }
+  }));
+  return true;
+}
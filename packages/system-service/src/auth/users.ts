@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { hashPassword } from './passwords.js';
+import { Role, roles } from './roles.js';
+import { getConfig } from '../config.js';
+import { ConflictError, NotFoundError } from '../errors/index.js';
+
+const usersPath = () => path.join(getConfig().dataDir, 'users.json');
+
+// Single-user settings files written before accounts existed
+const legacyUserSettingsPath = () => path.join(getConfig().dataDir, 'user-settings.json');
+const legacyAppearancePath = () => path.join(getConfig().dataDir, 'appearance.json');
+
+export const appearancePreferencesSchema = z.object({
+  background: z.string().default('abstract-dark'),
+  useFrostedGlass: z.boolean().default(false)
+});
+
+export const launcherPreferencesSchema = z.object({
+  defaultView: z.enum(['launcher', 'dashboard']).default('launcher')
+});
+
+export const preferencesSchema = z.object({
+  appearance: appearancePreferencesSchema.default({}),
+  launcher: launcherPreferencesSchema.default({})
+});
+
+const twoFactorSchema = z.object({
+  enabled: z.boolean(),
+  // Base32 TOTP secret; kept while enrollment is pending so the first code can be checked
+  secret: z.string(),
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodes: z.array(z.string()).default([]),
+  // Time step of the last accepted code, so a code cannot be replayed
+  lastUsedStep: z.number().default(0)
+});
+
+const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  displayName: z.string().default(''),
+  // Accounts created before roles existed keep full access
+  role: z.enum(roles).default('admin'),
+  passwordHash: z.string(),
+  createdAt: z.string(),
+  preferences: preferencesSchema.default({}),
+  twoFactor: twoFactorSchema.nullable().default(null)
+});
+
+export type User = z.infer<typeof userSchema>;
+export type UserPreferences = z.infer<typeof preferencesSchema>;
+export type TwoFactor = z.infer<typeof twoFactorSchema>;
+
+// What the API shows of an account
+export const publicUserSchema = userSchema
+  .omit({ passwordHash: true, twoFactor: true })
+  .extend({ twoFactorEnabled: z.boolean() });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+export const toPublicUser = ({
+  passwordHash: _passwordHash,
+  twoFactor,
+  ...user
+}: User): PublicUser => ({ ...user, twoFactorEnabled: Boolean(twoFactor?.enabled) });
+
+/**
+ * Only a missing file means there are no accounts yet, which opens setup to
+ * anyone; a file that cannot be read or parsed fails every request instead.
+ */
+export async function loadUsers(): Promise<User[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(usersPath(), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const parsed = z.array(userSchema).safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new Error(
+      `${usersPath()} is not a valid accounts file: ${issue.path.join('.')}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+// Written to a temporary file first, so a crash cannot leave a truncated file behind
+async function saveUsers(users: User[]): Promise<void> {
+  await fs.mkdir(path.dirname(usersPath()), { recursive: true });
+  const tempPath = `${usersPath()}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(users, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, usersPath());
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Changes read and write the whole file, so they run one after another to not lose each other
+let lastChange: Promise<unknown> = Promise.resolve();
+
+function changeUsers<T>(change: () => Promise<T>): Promise<T> {
+  const result = lastChange.then(change);
+  lastChange = result.catch(() => undefined);
+  return result;
+}
+
+const readLegacyJson = async (file: string): Promise<Record<string, unknown>> => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+};
+
+export async function findUserById(id: string): Promise<User | undefined> {
+  const users = await loadUsers();
+  return users.find((user) => user.id === id);
+}
+
+export async function findUserByUsername(username: string): Promise<User | undefined> {
+  const users = await loadUsers();
+  return users.find((user) => user.username.toLowerCase() === username.toLowerCase());
+}
+
+// Adds an account to `users` and saves them; call from within changeUsers
+async function addUser(
+  users: User[],
+  username: string,
+  passwordHash: string,
+  displayName: string,
+  role: Role
+): Promise<User> {
+  if (users.some((user) => user.username.toLowerCase() === username.toLowerCase())) {
+    throw new ConflictError(`User ${username} already exists`);
+  }
+
+  // The first account inherits the name and appearance of the old single-user setup
+  let preferences: unknown = {};
+  let name = displayName;
+  if (users.length === 0) {
+    const legacySettings = await readLegacyJson(legacyUserSettingsPath());
+    const legacyAppearance = await readLegacyJson(legacyAppearancePath());
+    name = name || (typeof legacySettings.name === 'string' ? legacySettings.name : '');
+    preferences = { appearance: legacyAppearance };
+  }
+
+  const parsedPreferences = preferencesSchema.safeParse(preferences);
+  const user: User = {
+    id: randomUUID(),
+    username,
+    displayName: name,
+    // The first account always administers the box
+    role: users.length === 0 ? 'admin' : role,
+    passwordHash,
+    createdAt: new Date().toISOString(),
+    preferences: parsedPreferences.success ? parsedPreferences.data : preferencesSchema.parse({}),
+    twoFactor: null
+  };
+
+  await saveUsers([...users, user]);
+  return user;
+}
+
+export async function createUser(
+  username: string,
+  password: string,
+  displayName = '',
+  role: Role = 'viewer'
+): Promise<User> {
+  const passwordHash = await hashPassword(password);
+  return changeUsers(async () =>
+    addUser(await loadUsers(), username, passwordHash, displayName, role)
+  );
+}
+
+/**
+ * Creates the first account during setup. Checked in the same change that
+ * adds it, so two setups sent at once cannot both create an admin.
+ */
+export async function createFirstUser(
+  username: string,
+  password: string,
+  displayName = ''
+): Promise<User> {
+  const passwordHash = await hashPassword(password);
+  return changeUsers(async () => {
+    const users = await loadUsers();
+    if (users.length > 0) {
+      throw new ConflictError('Setup has already been completed');
+    }
+    return addUser(users, username, passwordHash, displayName, 'admin');
+  });
+}
+
+export async function updateUser(
+  id: string,
+  update: (user: User) => User | Promise<User>
+): Promise<User> {
+  return changeUsers(async () => {
+    const users = await loadUsers();
+    const index = users.findIndex((user) => user.id === id);
+    if (index === -1) {
+      throw new NotFoundError(`User ${id} not found`);
+    }
+
+    const updated = await update(users[index]);
+    if (!users.some((user) => (user.id === id ? updated : user).role === 'admin')) {
+      throw new ConflictError('At least one admin account is required');
+    }
+
+    const duplicate = users.some(
+      (user) => user.id !== id && user.username.toLowerCase() === updated.username.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ConflictError(`User ${updated.username} already exists`);
+    }
+
+    users[index] = updated;
+    await saveUsers(users);
+    return updated;
+  });
+}
+
+export async function setUserPassword(id: string, password: string): Promise<void> {
+  const passwordHash = await hashPassword(password);
+  await updateUser(id, (user) => ({ ...user, passwordHash }));
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  return changeUsers(async () => {
+    const users = await loadUsers();
+    if (!users.some((user) => user.id === id)) {
+      throw new NotFoundError(`User ${id} not found`);
+    }
+    if (!users.some((user) => user.id !== id && user.role === 'admin')) {
+      throw new ConflictError('At least one admin account is required');
+    }
+    await saveUsers(users.filter((user) => user.id !== id));
+  });
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// JSON file next to the service (or NESTOS_CONFIG); every setting is optional
+export const CONFIG_FILE = 'nestos.config.json';
+
+const DEFAULT_REPOSITORY_URL = 'https://raw.githubusercontent.com/moderniselife/nestos/main';
+
+// Relative paths are taken from the directory the service runs in
+const pathSchema = z
+  .string()
+  .min(1)
+  .transform((value) => path.resolve(process.cwd(), value));
+
+export const nestosConfigSchema = z
+  .object({
+    // Plain HTTP port; the HTTPS port is chosen in Settings
+    httpPort: z.coerce.number().int().min(1).max(65535).default(3000),
+    // Users, sessions, tokens, secrets, settings and the audit log
+    dataDir: pathSchema.default('data'),
+    // Installed plugins, one directory each
+    pluginsDir: pathSchema.default('plugins'),
+    // Defaults to <dataDir>/tls
+    tlsDir: pathSchema.optional(),
+    // Compose files of Docker stacks, one directory each; defaults to <dataDir>/stacks
+    stacksDir: pathSchema.optional(),
+    backupSettingsFile: pathSchema.default('backup-settings.json'),
+    dockerSocket: z.string().min(1).default('/var/run/docker.sock'),
+    helperSocket: z.string().min(1).default('/run/nestos/helper.sock'),
+    // Raw files of the NestOS repository, for update checks
+    repositoryUrl: z.string().url().default(DEFAULT_REPOSITORY_URL),
+    // Defaults to nestos-plugins/plugins.json in the repository
+    pluginCatalogUrl: z.string().url().optional(),
+    // Ed25519 public key (PEM) the plugin catalog must be signed with
+    pluginCatalogKey: pathSchema.default('keys/plugin-catalog.pub'),
+    // Trusted browser origins until some are saved in Settings
+    corsOrigins: z.array(z.string()).default([]),
+    // Terminal sessions without input are closed after this long; 0 keeps them open
+    terminalIdleMinutes: z.coerce.number().int().min(0).default(15)
+  })
+  .strict()
+  .transform((config) => ({
+    ...config,
+    tlsDir: config.tlsDir ?? path.join(config.dataDir, 'tls'),
+    stacksDir: config.stacksDir ?? path.join(config.dataDir, 'stacks'),
+    pluginCatalogUrl:
+      config.pluginCatalogUrl ?? `${config.repositoryUrl}/nestos-plugins/plugins.json`
+  }));
+
+export type NestosConfig = z.infer<typeof nestosConfigSchema>;
+
+// Passed to every route plugin when it is registered
+export interface RouteOptions {
+  config: NestosConfig;
+}
+
+// Environment variables override the file, which overrides the defaults
+const envOverrides: Record<string, keyof z.input<typeof nestosConfigSchema>> = {
+  NESTOS_HTTP_PORT: 'httpPort',
+  NESTOS_DATA_DIR: 'dataDir',
+  NESTOS_PLUGINS_DIR: 'pluginsDir',
+  NESTOS_TLS_DIR: 'tlsDir',
+  NESTOS_STACKS_DIR: 'stacksDir',
+  NESTOS_BACKUP_SETTINGS_FILE: 'backupSettingsFile',
+  NESTOS_DOCKER_SOCKET: 'dockerSocket',
+  NESTOS_HELPER_SOCKET: 'helperSocket',
+  NESTOS_REPOSITORY_URL: 'repositoryUrl',
+  NESTOS_PLUGIN_CATALOG_URL: 'pluginCatalogUrl',
+  NESTOS_PLUGIN_CATALOG_KEY: 'pluginCatalogKey',
+  CORS_ORIGIN: 'corsOrigins',
+  NESTOS_TERMINAL_IDLE_MINUTES: 'terminalIdleMinutes'
+};
+
+let config: NestosConfig | null = null;
+
+/**
+ * Reads the config file and environment overrides, validates them and makes
+ * the result available through `getConfig()`. Throws on invalid settings so
+ * the service does not start with a half-understood configuration.
+ */
+export function loadConfig(
+  file = process.env.NESTOS_CONFIG ?? path.join(process.cwd(), CONFIG_FILE)
+): NestosConfig {
+  let fromFile: Record<string, unknown> = {};
+  try {
+    fromFile = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Failed to read ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const fromEnv: Record<string, unknown> = {};
+  for (const [variable, key] of Object.entries(envOverrides)) {
+    const value = process.env[variable];
+    if (value) {
+      fromEnv[key] = key === 'corsOrigins' ? value.split(',').map((origin) => origin.trim()) : value;
+    }
+  }
+
+  const result = nestosConfigSchema.safeParse({ ...fromFile, ...fromEnv });
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Invalid configuration (${file} and NESTOS_* variables): ${problems.join('; ')}`);
+  }
+
+  config = result.data;
+  return config;
+}
+
+// Makes `value` what `getConfig()` returns, such as the config a server was created with
+export function setConfig(value: NestosConfig): void {
+  config = value;
+}
+
+// The loaded configuration; loads it on first use for code that runs outside the server
+export const getConfig = (): NestosConfig => config ?? loadConfig();
@@ -0,0 +1,695 @@
+import path from 'path';
+import yaml from 'yaml';
+import { z } from 'zod';
+import { ValidationError } from '../errors/index.js';
+
+// The part of the Compose file format stacks understand; anything else is reported as ignored
+
+export interface ComposeIssue {
+  path: string;
+  message: string;
+}
+
+const stringRecord = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+// `KEY=value` list entries or a mapping; `null` values are filled in from the stack's env
+const keyValuesSchema = (separator: string) =>
+  z.union([z.array(z.string()), stringRecord]).transform((value) => {
+    const entries: [string, string | null][] = Array.isArray(value)
+      ? value.map((entry) => {
+        const index = entry.indexOf(separator);
+        return index === -1 ? [entry, null] : [entry.slice(0, index), entry.slice(index + 1)];
+      })
+      : Object.entries(value).map(([key, entry]) => [key, entry === null ? null : String(entry)]);
+    return Object.fromEntries(entries) as Record<string, string | null>;
+  });
+
+// Splits a command given as one string the way a POSIX shell would split words
+function splitWords(command: string): string[] | null {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | '\'' | null = null;
+
+  for (let i = 0; i < command.length; i += 1) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        i += 1;
+        current += command[i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      i += 1;
+      current += command[i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(current);
+        current = '';
+        inWord = false;
+      }
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) {
+    return null;
+  }
+  if (inWord) {
+    words.push(current);
+  }
+  return words;
+}
+
+const commandSchema = z.union([z.string(), z.array(z.string())]).transform((value, ctx) => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  const words = splitWords(value);
+  if (!words) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unterminated quote' });
+    return z.NEVER;
+  }
+  return words;
+});
+
+const DURATION_UNITS: Record<string, number> = { h: 3600e9, m: 60e9, s: 1e9, ms: 1e6, us: 1e3 };
+
+// "1m30s" and the like, in nanoseconds as the Docker Engine takes them
+const durationSchema = z.string().transform((value, ctx) => {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(h|ms|m|s|us)/g)];
+  if (!parts.length || parts.map(([part]) => part).join('') !== value) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a duration: ${value}` });
+    return z.NEVER;
+  }
+  const nanoseconds = parts.reduce(
+    (total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS[unit],
+    0
+  );
+  return Math.round(nanoseconds);
+});
+
+export interface PortMapping {
+  target: number;
+  // Host port; Docker picks one when omitted
+  published: string | null;
+  protocol: 'tcp' | 'udp';
+  hostIp: string | null;
+}
+
+// [host IP:][host port[-end]:]container port[-end][/protocol]
+const SHORT_PORT = new RegExp(
+  '^(?:(\\d{1,3}(?:\\.\\d{1,3}){3}|\\[[^\\]]+\\]):)?'
+  + '(?:(\\d+(?:-\\d+)?)?:)?(\\d+(?:-\\d+)?)(?:/(tcp|udp))?$'
+);
+
+// Ranges are expanded into one mapping per port once the whole file has been checked,
+// so they are kept short, and so is the number of mappings in a whole file
+const MAX_PORT_RANGE = 1000;
+const MAX_PORT_MAPPINGS = 5000;
+
+const portNumberSchema = z.number().int().min(1).max(65535);
+
+interface PortRange {
+  start: number;
+  end: number;
+}
+
+// One entry of a service's ports, before ranges are expanded
+interface PortRule {
+  targets: PortRange;
+  published: PortRange | string | null;
+  protocol: 'tcp' | 'udp';
+  hostIp: string | null;
+}
+
+// "8000" or "8000-8010"; reports the problem and returns null when invalid
+function parseRange(value: string, ctx: z.RefinementCtx): PortRange | null {
+  const [start, end = start] = value.split('-').map(Number);
+  let problem: string | null = null;
+  if (!portNumberSchema.safeParse(start).success || !portNumberSchema.safeParse(end).success) {
+    problem = `Ports must be between 1 and 65535: ${value}`;
+  } else if (end < start) {
+    problem = `Port range ends before it starts: ${value}`;
+  } else if (end - start >= MAX_PORT_RANGE) {
+    problem = `Port ranges may hold at most ${MAX_PORT_RANGE} ports: ${value}`;
+  }
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    return null;
+  }
+  return { start, end };
+}
+
+const portCount = ({ targets }: PortRule) => targets.end - targets.start + 1;
+
+function expandPorts(rule: PortRule): PortMapping[] {
+  const { targets, published, protocol, hostIp } = rule;
+  return Array.from({ length: portCount(rule) }, (_, index) => ({
+    target: targets.start + index,
+    published: published && typeof published === 'object'
+      ? String(published.start + index)
+      : published,
+    protocol,
+    hostIp
+  }));
+}
+
+const portSchema = z
+  .union([
+    portNumberSchema,
+    z.string(),
+    z.object({
+      target: portNumberSchema,
+      published: z
+        .union([
+          portNumberSchema,
+          z.string().regex(/^\d+(?:-\d+)?$/, 'Must be a port or a range of ports')
+            .superRefine((value, ctx) => {
+              parseRange(value, ctx);
+            })
+        ])
+        .optional(),
+      protocol: z.enum(['tcp', 'udp']).default('tcp'),
+      host_ip: z.string().optional()
+    })
+  ])
+  .transform((value, ctx): PortRule => {
+    if (typeof value === 'number') {
+      return {
+        targets: { start: value, end: value },
+        published: null,
+        protocol: 'tcp',
+        hostIp: null
+      };
+    }
+    if (typeof value === 'object') {
+      // A published range goes to the single target port, so it stays one mapping
+      return {
+        targets: { start: value.target, end: value.target },
+        published: value.published === undefined ? null : String(value.published),
+        protocol: value.protocol,
+        hostIp: value.host_ip ?? null
+      };
+    }
+
+    const match = SHORT_PORT.exec(value);
+    if (!match) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a port mapping: ${value}` });
+      return z.NEVER;
+    }
+    const targets = parseRange(match[3], ctx);
+    if (!targets) {
+      return z.NEVER;
+    }
+    const published = match[2] ? parseRange(match[2], ctx) : undefined;
+    if (published === null) {
+      return z.NEVER;
+    }
+    if (published && published.end - published.start !== targets.end - targets.start) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Host and container port ranges differ in length: ${value}`
+      });
+      return z.NEVER;
+    }
+
+    return {
+      targets,
+      published: published ?? null,
+      protocol: (match[4] as 'tcp' | 'udp' | undefined) ?? 'tcp',
+      hostIp: match[1]?.replace(/^\[|\]$/g, '') ?? null
+    };
+  });
+
+export interface VolumeMount {
+  type: 'bind' | 'volume' | 'tmpfs';
+  // Host path for binds, the Compose file's volume key for volumes, none for anonymous ones
+  source: string | null;
+  target: string;
+  readOnly: boolean;
+}
+
+// Sources starting like a path are bind mounts; anything else names a volume
+const isHostPath = (source: string) => /^[./~]/.test(source);
+
+const volumeSchema = z
+  .union([
+    z.string(),
+    z.object({
+      type: z.enum(['bind', 'volume', 'tmpfs']),
+      source: z.string().optional(),
+      target: z.string(),
+      read_only: z.boolean().default(false)
+    })
+  ])
+  .transform((value, ctx): VolumeMount => {
+    if (typeof value === 'object') {
+      return {
+        type: value.type,
+        source: value.source ?? null,
+        target: value.target,
+        readOnly: value.read_only
+      };
+    }
+
+    const parts = value.split(':');
+    if (parts.length > 3 || parts.some((part) => !part)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a volume mount: ${value}` });
+      return z.NEVER;
+    }
+    if (parts.length === 1) {
+      return { type: 'volume', source: null, target: parts[0], readOnly: false };
+    }
+    const [source, target, mode = 'rw'] = parts;
+    return {
+      type: isHostPath(source) ? 'bind' : 'volume',
+      source,
+      target,
+      readOnly: mode.split(',').includes('ro')
+    };
+  });
+
+export interface DeviceMapping {
+  host: string;
+  container: string;
+  permissions: string;
+}
+
+const deviceSchema = z.string().transform((value, ctx): DeviceMapping => {
+  const [host, container = host, permissions = 'rwm', ...rest] = value.split(':');
+  if (!host || rest.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a device mapping: ${value}` });
+    return z.NEVER;
+  }
+  return { host, container, permissions };
+});
+
+export interface ServiceNetwork {
+  name: string;
+  aliases: string[];
+  ipv4Address: string | null;
+}
+
+const serviceNetworksSchema = z
+  .union([
+    z.array(z.string()),
+    z.record(z.object({
+      aliases: z.array(z.string()).default([]),
+      ipv4_address: z.string().optional()
+    }).nullable())
+  ])
+  .transform((value): ServiceNetwork[] => (Array.isArray(value)
+    ? value.map((name) => ({ name, aliases: [], ipv4Address: null }))
+    : Object.entries(value).map(([name, options]) => ({
+      name,
+      aliases: options?.aliases ?? [],
+      ipv4Address: options?.ipv4_address ?? null
+    }))));
+
+export type DependencyCondition =
+  | 'service_started'
+  | 'service_healthy'
+  | 'service_completed_successfully';
+
+export interface ServiceDependency {
+  service: string;
+  condition: DependencyCondition;
+}
+
+const dependsOnSchema = z
+  .union([
+    z.array(z.string()),
+    z.record(z.object({
+      condition: z
+        .enum(['service_started', 'service_healthy', 'service_completed_successfully'])
+        .default('service_started')
+    }))
+  ])
+  .transform((value): ServiceDependency[] => (Array.isArray(value)
+    ? value.map((service) => ({ service, condition: 'service_started' }))
+    : Object.entries(value).map(([service, { condition }]) => ({ service, condition }))));
+
+export interface Healthcheck {
+  // CMD, CMD-SHELL or NONE first, as Docker takes it
+  test: string[];
+  interval: number | null;
+  timeout: number | null;
+  retries: number | null;
+  startPeriod: number | null;
+}
+
+const healthcheckSchema = z
+  .object({
+    test: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+    interval: durationSchema.optional(),
+    timeout: durationSchema.optional(),
+    retries: z.number().int().min(0).optional(),
+    start_period: durationSchema.optional(),
+    disable: z.boolean().default(false)
+  })
+  .transform((value, ctx): Healthcheck => {
+    if (!value.disable && !value.test) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A healthcheck needs a test' });
+      return z.NEVER;
+    }
+    return {
+      test: value.disable || !value.test
+        ? ['NONE']
+        : typeof value.test === 'string' ? ['CMD-SHELL', value.test] : value.test,
+      interval: value.interval ?? null,
+      timeout: value.timeout ?? null,
+      retries: value.retries ?? null,
+      startPeriod: value.start_period ?? null
+    };
+  });
+
+export interface RestartPolicy {
+  name: '' | 'no' | 'always' | 'on-failure' | 'unless-stopped';
+  maximumRetryCount: number;
+}
+
+const restartSchema = z
+  .string()
+  .regex(/^(no|always|unless-stopped|on-failure(:\d+)?)$/, 'Use no, always, on-failure[:retries] or unless-stopped')
+  .transform((value): RestartPolicy => {
+    const [name, retries] = value.split(':');
+    return { name: name as RestartPolicy['name'], maximumRetryCount: retries ? Number(retries) : 0 };
+  });
+
+const serviceSchema = z.object({
+  image: z.string({ required_error: 'An image is required; building images is not supported' }),
+  container_name: z.string().optional(),
+  command: commandSchema.optional(),
+  entrypoint: commandSchema.optional(),
+  environment: keyValuesSchema('=').default({}),
+  ports: z.array(portSchema).default([]),
+  volumes: z.array(volumeSchema).default([]),
+  networks: serviceNetworksSchema.optional(),
+  network_mode: z.string().optional(),
+  devices: z.array(deviceSchema).default([]),
+  depends_on: dependsOnSchema.default([]),
+  healthcheck: healthcheckSchema.optional(),
+  restart: restartSchema.default('no'),
+  labels: keyValuesSchema('=').default({}),
+  hostname: z.string().optional(),
+  user: z.union([z.string(), z.number()]).transform(String).optional(),
+  working_dir: z.string().optional(),
+  privileged: z.boolean().default(false),
+  cap_add: z.array(z.string()).default([]),
+  cap_drop: z.array(z.string()).default([]),
+  extra_hosts: keyValuesSchema(':').default({}),
+  tty: z.boolean().default(false),
+  stdin_open: z.boolean().default(false)
+});
+
+const networkOptionsSchema = z.object({
+  name: z.string().optional(),
+  external: z.boolean().default(false),
+  driver: z.string().optional(),
+  driver_opts: z.record(z.string()).default({}),
+  internal: z.boolean().default(false),
+  attachable: z.boolean().default(false),
+  labels: keyValuesSchema('=').default({})
+});
+
+const networkSchema = networkOptionsSchema
+  .nullable()
+  .transform((value) => value ?? networkOptionsSchema.parse({}));
+
+const volumeOptionsSchema = z.object({
+  name: z.string().optional(),
+  external: z.boolean().default(false),
+  driver: z.string().optional(),
+  driver_opts: z.record(z.string()).default({}),
+  labels: keyValuesSchema('=').default({})
+});
+
+const volumeDefinitionSchema = volumeOptionsSchema
+  .nullable()
+  .transform((value) => value ?? volumeOptionsSchema.parse({}));
+
+const composeFileSchema = z.object({
+  services: z.record(serviceSchema).refine(
+    (services) => Object.keys(services).length > 0,
+    'Define at least one service'
+  ),
+  networks: z.record(networkSchema).default({}),
+  volumes: z.record(volumeDefinitionSchema).default({})
+});
+
+// The project name is the stack's; version is obsolete and x- keys are extensions
+const IGNORED_TOP_LEVEL_KEYS = ['name', 'version'];
+
+export type ComposeService = Omit<z.infer<typeof serviceSchema>, 'environment' | 'ports'> & {
+  name: string;
+  environment: Record<string, string>;
+  ports: PortMapping[];
+};
+export type ComposeNetwork = z.infer<typeof networkSchema>;
+export type ComposeVolume = z.infer<typeof volumeDefinitionSchema>;
+
+export interface ComposeProject {
+  // In the order they have to start in, dependencies first
+  services: ComposeService[];
+  networks: Record<string, ComposeNetwork>;
+  volumes: Record<string, ComposeVolume>;
+}
+
+export interface ParsedCompose {
+  project: ComposeProject;
+  // Settings that were ignored and variables that were not set
+  warnings: string[];
+}
+
+const NAME = '[A-Za-z_][A-Za-z0-9_]*';
+const VARIABLE = new RegExp(`\\$(?:\\$|\\{(${NAME})(?:(:?[-?])([^}]*))?\\}|(${NAME}))`, 'g');
+
+/**
+ * Fills in `${VAR}`, `${VAR:-default}`, `${VAR?message}` and `$VAR` from the
+ * stack's env. `$$` stands for a literal `$`, and `${secret:NAME}` references
+ * are left for deployment to resolve.
+ */
+function interpolate(
+  value: unknown,
+  env: Record<string, string>,
+  at: (string | number)[],
+  issues: ComposeIssue[],
+  warnings: Set<string>
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(VARIABLE, (_match, braced?: string, operator?: string, argument = '', bare?: string) => {
+      const name = braced ?? bare;
+      if (!name) {
+        return '$';
+      }
+      const current = env[name];
+      const missing = operator?.startsWith(':') ? !current : current === undefined;
+      if (missing && operator?.endsWith('-')) {
+        return argument;
+      }
+      if (missing && operator?.endsWith('?')) {
+        issues.push({ path: at.join('.'), message: argument || `Variable ${name} is required` });
+        return '';
+      }
+      if (current === undefined) {
+        warnings.add(`Variable ${name} is not set; using an empty string`);
+      }
+      return current ?? '';
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => interpolate(entry, env, [...at, index], issues, warnings));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      key,
+      interpolate(entry, env, [...at, key], issues, warnings)
+    ]));
+  }
+  return value;
+}
+
+function collectIgnoredKeys(raw: Record<string, unknown>, warnings: Set<string>): void {
+  for (const key of Object.keys(raw)) {
+    if (!(key in composeFileSchema.shape) && !IGNORED_TOP_LEVEL_KEYS.includes(key) && !key.startsWith('x-')) {
+      warnings.add(`Top-level ${key} is not supported and was ignored`);
+    }
+  }
+  const services = raw.services && typeof raw.services === 'object' ? raw.services : {};
+  for (const [name, service] of Object.entries(services)) {
+    for (const key of Object.keys(service && typeof service === 'object' ? service : {})) {
+      if (!(key in serviceSchema.shape) && !key.startsWith('x-')) {
+        warnings.add(`${name}: ${key} is not supported and was ignored`);
+      }
+    }
+  }
+}
+
+// Dependencies first; declaration order otherwise. Null when they form a cycle.
+function startOrder(services: ComposeService[]): ComposeService[] | null {
+  const ordered: ComposeService[] = [];
+  const placed = new Set<string>();
+  const remaining = [...services];
+
+  while (remaining.length) {
+    const index = remaining.findIndex((service) => serviceDependencies(service)
+      .every((dependency) => placed.has(dependency)));
+    if (index === -1) {
+      return null;
+    }
+    const [service] = remaining.splice(index, 1);
+    ordered.push(service);
+    placed.add(service.name);
+  }
+  return ordered;
+}
+
+// Services that have to exist first, including the one whose network a service shares
+export const serviceDependencies = (
+  service: Pick<ComposeService, 'depends_on' | 'network_mode'>
+): string[] => [
+  ...service.depends_on.map(({ service: name }) => name),
+  ...(service.network_mode?.startsWith('service:') ? [service.network_mode.slice(8)] : [])
+];
+
+function checkReferences(file: z.infer<typeof composeFileSchema>, issues: ComposeIssue[]): void {
+  const containerNames = new Set<string>();
+
+  for (const [name, service] of Object.entries(file.services)) {
+    const at = `services.${name}`;
+    for (const dependency of serviceDependencies(service)) {
+      if (!(dependency in file.services)) {
+        issues.push({ path: at, message: `Depends on undefined service ${dependency}` });
+      }
+    }
+    if (service.network_mode && service.networks) {
+      issues.push({ path: at, message: 'network_mode and networks cannot be used together' });
+    }
+    for (const network of service.networks ?? []) {
+      if (network.name !== 'default' && !(network.name in file.networks)) {
+        issues.push({ path: `${at}.networks`, message: `Network ${network.name} is not defined` });
+      }
+    }
+    for (const volume of service.volumes) {
+      if (volume.type === 'volume' && volume.source && !(volume.source in file.volumes)) {
+        issues.push({ path: `${at}.volumes`, message: `Volume ${volume.source} is not defined` });
+      }
+      if (volume.type === 'bind' && !volume.source) {
+        issues.push({ path: `${at}.volumes`, message: `Bind mount of ${volume.target} needs a source` });
+      }
+    }
+    if (service.container_name) {
+      if (containerNames.has(service.container_name)) {
+        issues.push({ path: `${at}.container_name`, message: `${service.container_name} is used twice` });
+      }
+      containerNames.add(service.container_name);
+    }
+  }
+}
+
+function completeService(
+  name: string,
+  service: z.infer<typeof serviceSchema>,
+  env: Record<string, string>,
+  workingDir: string
+): ComposeService {
+  // Variables without a value come from the stack's env, as Compose takes them from the shell
+  const environment = Object.fromEntries(Object.entries(service.environment).flatMap(
+    ([key, value]) => {
+      const filled = value ?? env[key];
+      return filled === undefined ? [] : [[key, filled]];
+    }
+  ));
+  const volumes = service.volumes.map((volume) => {
+    if (volume.type !== 'bind' || !volume.source) {
+      return volume;
+    }
+    const source = volume.source.replace(/^~(?=\/|$)/, process.env.HOME ?? '~');
+    return { ...volume, source: path.resolve(workingDir, source) };
+  });
+  return { ...service, name, environment, volumes, ports: service.ports.flatMap(expandPorts) };
+}
+
+/**
+ * Reads a Compose file, fills in variables from the stack's env and checks that
+ * services, networks and volumes refer to each other correctly. Bind mounts with
+ * relative paths are resolved against `workingDir`. Throws a `ValidationError`
+ * listing every problem found.
+ */
+export function parseComposeFile(
+  text: string,
+  env: Record<string, string>,
+  workingDir: string
+): ParsedCompose {
+  let raw: unknown;
+  try {
+    raw = yaml.parse(text);
+  } catch (error) {
+    throw new ValidationError(`Invalid YAML: ${(error as Error).message}`, {
+      issues: [{ path: '', message: (error as Error).message }]
+    });
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError('A Compose file has to be a mapping with services', {
+      issues: [{ path: '', message: 'Expected a mapping' }]
+    });
+  }
+
+  const issues: ComposeIssue[] = [];
+  const warnings = new Set<string>();
+  collectIgnoredKeys(raw as Record<string, unknown>, warnings);
+  const interpolated = interpolate(raw, env, [], issues, warnings);
+
+  const result = composeFileSchema.safeParse(interpolated);
+  if (!result.success) {
+    issues.push(...result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    })));
+  } else {
+    checkReferences(result.data, issues);
+  }
+
+  // Counted before anything is expanded
+  const publishedPorts = result.success
+    ? Object.values(result.data.services)
+      .reduce((total, service) => total + service.ports.reduce(
+        (count, rule) => count + portCount(rule), 0
+      ), 0)
+    : 0;
+  const tooManyPorts = publishedPorts > MAX_PORT_MAPPINGS;
+  if (tooManyPorts) {
+    issues.push({
+      path: 'services',
+      message: `A Compose file may publish at most ${MAX_PORT_MAPPINGS} ports`
+    });
+  }
+
+  const services = result.success && !tooManyPorts
+    ? startOrder(Object.entries(result.data.services).map(([name, service]) =>
+      completeService(name, service, env, workingDir)))
+    : null;
+  if (result.success && !tooManyPorts && !services) {
+    issues.push({ path: 'services', message: 'Services depend on each other in a cycle' });
+  }
+
+  if (issues.length || !result.success || !services) {
+    const [first] = issues;
+    throw new ValidationError(`${first.path ? `${first.path}: ` : ''}${first.message}`, { issues });
+  }
+
+  return {
+    project: { services, networks: result.data.networks, volumes: result.data.volumes },
+    warnings: [...warnings]
+  };
+}
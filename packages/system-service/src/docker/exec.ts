@@ -0,0 +1,48 @@
+import Docker from 'dockerode';
+import { z } from 'zod';
+import { TerminalConnection, terminalSizeSchema } from '../terminal/sessions.js';
+
+// Prefers bash where the image has it
+const DEFAULT_SHELL = ['/bin/sh', '-c', 'if command -v bash >/dev/null; then exec bash; else exec sh; fi'];
+
+export const execOptionsSchema = terminalSizeSchema.extend({
+  // Command to run instead of the container's shell
+  cmd: z.array(z.string()).min(1).optional(),
+  user: z.string().optional(),
+  workingDir: z.string().optional()
+});
+
+export type ExecOptions = z.infer<typeof execOptionsSchema>;
+
+/**
+ * Creates an exec instance with a TTY in a running container. The returned
+ * function starts it and attaches to its input and output.
+ */
+export async function createExecTerminal(
+  docker: Docker,
+  containerId: string,
+  { cmd, user, workingDir, cols, rows }: ExecOptions
+): Promise<() => Promise<TerminalConnection>> {
+  const exec = await docker.getContainer(containerId).exec({
+    Cmd: cmd ?? DEFAULT_SHELL,
+    User: user,
+    WorkingDir: workingDir,
+    Env: ['TERM=xterm-256color'],
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: true,
+    ConsoleSize: [rows, cols]
+  });
+
+  return async () => {
+    const stream = await exec.start({ hijack: true, stdin: true, Tty: true });
+    return {
+      stream,
+      resize: async (size) => {
+        await exec.resize({ h: size.rows, w: size.cols });
+      },
+      exitCode: async () => (await exec.inspect()).ExitCode
+    };
+  };
+}
@@ -0,0 +1,229 @@
+import { Readable } from 'stream';
+import vm from 'vm';
+import Docker from 'dockerode';
+import { z } from 'zod';
+import { UnprocessableError } from '../errors/index.js';
+
+export type LogStream = 'stdout' | 'stderr';
+
+export interface LogLine {
+  stream: LogStream;
+  // RFC 3339 time Docker recorded the line at
+  timestamp: string | null;
+  message: string;
+}
+
+// Booleans arrive as JSON over the socket and as strings in a query
+const flagSchema = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform((value) => value === 'true')
+]);
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const logOptionsSchema = z.object({
+  stdout: flagSchema.default(true),
+  stderr: flagSchema.default(true),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  // Lines from the end to start with; all of them when omitted
+  tail: z.coerce.number().int().positive().optional(),
+  // Case-insensitive regular expression a line's message must match
+  filter: z
+    .string()
+    .max(200)
+    .refine(isValidPattern, 'Not a valid regular expression')
+    .optional()
+});
+
+export type LogOptions = z.infer<typeof logOptionsSchema>;
+
+const streamTypes: Record<number, LogStream | undefined> = { 1: 'stdout', 2: 'stderr' };
+
+const HEADER_LENGTH = 8;
+const TIMESTAMP = /^(\d{4}-\d\d-\d\dT\S+) /;
+
+/**
+ * Splits Docker's log stream into lines. Without a TTY every frame starts with
+ * an 8-byte header naming the stream and the payload's length; a TTY's output
+ * is unframed and all of it counts as stdout. Frames and lines may be split
+ * across chunks, so partial ones are kept until the rest arrives.
+ */
+export class LogDemuxer {
+  private pending = Buffer.alloc(0);
+  private partialLines: Record<LogStream, string> = { stdout: '', stderr: '' };
+  private decoders = { stdout: new TextDecoder(), stderr: new TextDecoder() };
+
+  constructor(private readonly tty: boolean) {}
+
+  push(chunk: Buffer): LogLine[] {
+    if (this.tty) {
+      return this.append('stdout', chunk);
+    }
+
+    this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+    const lines: LogLine[] = [];
+    while (this.pending.length >= HEADER_LENGTH) {
+      const size = this.pending.readUInt32BE(4);
+      if (this.pending.length < HEADER_LENGTH + size) {
+        break;
+      }
+      const stream = streamTypes[this.pending[0]];
+      const payload = this.pending.subarray(HEADER_LENGTH, HEADER_LENGTH + size);
+      this.pending = this.pending.subarray(HEADER_LENGTH + size);
+      if (stream) {
+        lines.push(...this.append(stream, payload));
+      }
+    }
+    return lines;
+  }
+
+  // Lines still waiting for their newline when the stream ends
+  end(): LogLine[] {
+    return (['stdout', 'stderr'] as const).flatMap((stream) => {
+      const rest = this.partialLines[stream] + this.decoders[stream].decode();
+      this.partialLines[stream] = '';
+      return rest ? [toLogLine(stream, rest)] : [];
+    });
+  }
+
+  private append(stream: LogStream, payload: Buffer): LogLine[] {
+    const decoded = this.decoders[stream].decode(payload, { stream: true });
+    const text = this.partialLines[stream] + decoded;
+    const parts = text.split('\n');
+    this.partialLines[stream] = parts.pop() ?? '';
+    return parts.map((line) => toLogLine(stream, line.replace(/\r$/, '')));
+  }
+}
+
+function toLogLine(stream: LogStream, line: string): LogLine {
+  const timestamp = TIMESTAMP.exec(line)?.[1] ?? null;
+  return {
+    stream,
+    timestamp,
+    message: timestamp ? line.slice(timestamp.length + 1) : line
+  };
+}
+
+// Patterns are matched in their own context with a time limit per slice of lines, so one
+// that backtracks catastrophically fails the read instead of stalling the service
+const FILTER_TIMEOUT_MS = 250;
+const FILTER_SLICE_LINES = 500;
+const matchScript = new vm.Script('messages.map((message) => pattern.test(message))');
+
+function patternMatcher(filter: string): (messages: string[]) => boolean[] {
+  const context = vm.createContext({ pattern: new RegExp(filter, 'i'), messages: [] });
+
+  return (messages) => {
+    const results: boolean[] = [];
+    for (let start = 0; start < messages.length; start += FILTER_SLICE_LINES) {
+      context.messages = messages.slice(start, start + FILTER_SLICE_LINES);
+      try {
+        const matched = matchScript.runInContext(context, { timeout: FILTER_TIMEOUT_MS });
+        results.push(...(matched as boolean[]));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+          throw new UnprocessableError(
+            'The log filter takes too long to match; try a simpler pattern'
+          );
+        }
+        throw error;
+      }
+    }
+    return results;
+  };
+}
+
+// Docker takes whole seconds, so since and until are also applied to each line's own time
+export function logFilter({ since, until, filter }: LogOptions): (lines: LogLine[]) => LogLine[] {
+  const from = since ? Date.parse(since) : -Infinity;
+  const to = until ? Date.parse(until) : Infinity;
+  const match = filter ? patternMatcher(filter) : null;
+
+  return (lines) => {
+    const inTime = lines.filter((line) => {
+      const time = line.timestamp ? Date.parse(line.timestamp) : NaN;
+      return !(time < from || time > to);
+    });
+    if (!match) {
+      return inTime;
+    }
+    const matched = match(inTime.map((line) => line.message));
+    return inTime.filter((_line, index) => matched[index]);
+  };
+}
+
+export interface ContainerLogs {
+  // Container name without the leading slash
+  name: string;
+  lines: AsyncGenerator<LogLine[]>;
+}
+
+/**
+ * Reads a container's logs as batches of lines. With `follow` the batches keep
+ * coming until the container stops or `signal` aborts; otherwise they end with
+ * the last line written so far.
+ */
+export async function readContainerLogs(
+  docker: Docker,
+  containerId: string,
+  options: LogOptions,
+  { follow = false, signal }: { follow?: boolean; signal?: AbortSignal } = {}
+): Promise<ContainerLogs> {
+  const container = docker.getContainer(containerId);
+  const info = await container.inspect();
+
+  const dockerOptions = {
+    stdout: options.stdout,
+    stderr: options.stderr,
+    timestamps: true,
+    since: options.since ? Math.floor(Date.parse(options.since) / 1000) : undefined,
+    until: options.until ? Math.ceil(Date.parse(options.until) / 1000) : undefined,
+    tail: options.tail,
+    abortSignal: signal
+  };
+  const stream = follow
+    ? await container.logs({ ...dockerOptions, follow: true })
+    : Readable.from([await container.logs({ ...dockerOptions, follow: false })]);
+
+  const demuxer = new LogDemuxer(Boolean(info.Config.Tty));
+  const select = logFilter(options);
+
+  async function* lines(): AsyncGenerator<LogLine[]> {
+    try {
+      for await (const chunk of stream) {
+        const batch = select(demuxer.push(chunk as Buffer));
+        if (batch.length) {
+          yield batch;
+        }
+      }
+    } catch (error) {
+      // Aborting is how a follower stops listening
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+    const rest = select(demuxer.end());
+    if (rest.length) {
+      yield rest;
+    }
+  }
+
+  return { name: info.Name.replace(/^\//, ''), lines: lines() };
+}
+
+// One line per entry, the way `docker logs --timestamps` prints them plus the stream
+export async function* formatLogLines(lines: AsyncIterable<LogLine[]>): AsyncGenerator<string> {
+  for await (const batch of lines) {
+    yield batch
+      .map(({ timestamp, stream, message }) => `${timestamp ?? ''} ${stream} ${message}\n`)
+      .join('');
+  }
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import Docker from 'dockerode';
+import { z } from 'zod';
+import { UnprocessableError } from '../errors/index.js';
+
+export const layerProgressSchema = z.object({
+  id: z.string(),
+  // Docker's wording, such as "Downloading", "Extracting" or "Pull complete"
+  status: z.string(),
+  // Bytes of the current step, when Docker reports them
+  current: z.number().nullable(),
+  total: z.number().nullable()
+});
+
+export const pullJobSchema = z.object({
+  id: z.string(),
+  image: z.string(),
+  status: z.enum(['pulling', 'completed', 'failed', 'cancelled']),
+  layers: z.array(layerProgressSchema),
+  // Latest message that is not about a single layer, such as the digest
+  message: z.string().nullable(),
+  error: z.string().nullable(),
+  startedAt: z.string(),
+  finishedAt: z.string().nullable()
+});
+
+export type LayerProgress = z.infer<typeof layerProgressSchema>;
+export type PullJob = z.infer<typeof pullJobSchema>;
+
+// One line of Docker's pull output
+interface PullEvent {
+  id?: string;
+  status?: string;
+  progressDetail?: { current?: number; total?: number };
+  error?: string;
+}
+
+interface RunningPull {
+  job: PullJob;
+  controller: AbortController;
+  notifyTimer: NodeJS.Timeout | null;
+}
+
+// Finished pulls stay visible this long so a reconnecting client sees how they ended
+const KEEP_FINISHED_MS = 10 * 60 * 1000;
+// Docker reports progress many times a second; listeners hear of it at most this often
+const NOTIFY_INTERVAL_MS = 250;
+
+const pulls = new Map<string, RunningPull>();
+const updates = new EventEmitter();
+updates.setMaxListeners(0);
+
+const snapshot = (job: PullJob): PullJob => ({
+  ...job,
+  layers: job.layers.map((layer) => ({ ...layer }))
+});
+
+function notify(pull: RunningPull, immediately = false): void {
+  if (immediately) {
+    if (pull.notifyTimer) {
+      clearTimeout(pull.notifyTimer);
+      pull.notifyTimer = null;
+    }
+    updates.emit(pull.job.id, snapshot(pull.job));
+    return;
+  }
+
+  pull.notifyTimer ??= setTimeout(() => {
+    pull.notifyTimer = null;
+    updates.emit(pull.job.id, snapshot(pull.job));
+  }, NOTIFY_INTERVAL_MS);
+}
+
+function applyEvent(job: PullJob, event: PullEvent): void {
+  if (!event.status) {
+    return;
+  }
+  // "Pulling from library/nginx" carries the tag as its ID, not a layer
+  if (!event.id || event.status.startsWith('Pulling from')) {
+    job.message = event.status;
+    return;
+  }
+
+  let layer = job.layers.find(({ id }) => id === event.id);
+  if (!layer) {
+    layer = { id: event.id, status: event.status, current: null, total: null };
+    job.layers.push(layer);
+  }
+  layer.status = event.status;
+  layer.current = event.progressDetail?.current ?? null;
+  layer.total = event.progressDetail?.total ?? null;
+}
+
+function finish(pull: RunningPull, status: PullJob['status'], error: string | null = null): void {
+  if (pull.job.status !== 'pulling') {
+    return;
+  }
+  pull.job.status = status;
+  pull.job.error = error;
+  pull.job.finishedAt = new Date().toISOString();
+  notify(pull, true);
+}
+
+function pruneFinished(): void {
+  const cutoff = Date.now() - KEEP_FINISHED_MS;
+  for (const [id, { job }] of pulls) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+      pulls.delete(id);
+    }
+  }
+}
+
+/**
+ * Starts pulling an image in the background and returns its job right away.
+ * A pull of the same image that is still running is returned instead of
+ * starting another one.
+ */
+export function startImagePull(docker: Docker, image: string): PullJob {
+  pruneFinished();
+  for (const { job } of pulls.values()) {
+    if (job.image === image && job.status === 'pulling') {
+      return snapshot(job);
+    }
+  }
+
+  const pull: RunningPull = {
+    job: {
+      id: randomUUID(),
+      image,
+      status: 'pulling',
+      layers: [],
+      message: null,
+      error: null,
+      startedAt: new Date().toISOString(),
+      finishedAt: null
+    },
+    controller: new AbortController(),
+    notifyTimer: null
+  };
+  pulls.set(pull.job.id, pull);
+
+  const { signal } = pull.controller;
+  docker.pull(image, { abortSignal: signal })
+    .then((stream) => {
+      docker.modem.followProgress(
+        stream,
+        (error) => {
+          if (signal.aborted) {
+            finish(pull, 'cancelled');
+          } else {
+            finish(pull, error ? 'failed' : 'completed', error?.message ?? null);
+          }
+        },
+        (event: PullEvent) => {
+          // Registry errors arrive as a line of output rather than a failed request
+          if (event.error) {
+            finish(pull, 'failed', event.error);
+            return;
+          }
+          applyEvent(pull.job, event);
+          notify(pull);
+        }
+      );
+    })
+    .catch((error: Error) => {
+      finish(pull, signal.aborted ? 'cancelled' : 'failed', signal.aborted ? null : error.message);
+    });
+
+  return snapshot(pull.job);
+}
+
+// Pulls an image like `startImagePull` and resolves once it is there
+export function pullImage(docker: Docker, image: string): Promise<PullJob> {
+  const job = startImagePull(docker, image);
+  return new Promise((resolve, reject) => {
+    const settle = (current: PullJob) => {
+      if (current.status === 'completed') {
+        resolve(current);
+      } else if (current.status !== 'pulling') {
+        const reason = current.error ?? 'the pull was cancelled';
+        reject(new UnprocessableError(`Failed to pull ${image}: ${reason}`));
+      }
+    };
+    settle(job);
+    watchImagePull(job.id, settle);
+  });
+}
+
+// Newest first
+export function listImagePulls(): PullJob[] {
+  pruneFinished();
+  return [...pulls.values()]
+    .map(({ job }) => snapshot(job))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export function getImagePull(id: string): PullJob | null {
+  const pull = pulls.get(id);
+  return pull ? snapshot(pull.job) : null;
+}
+
+// Stops a running pull; layers already downloaded stay in Docker's cache
+export function cancelImagePull(id: string): PullJob | null {
+  const pull = pulls.get(id);
+  if (!pull) {
+    return null;
+  }
+  if (pull.job.status === 'pulling') {
+    pull.controller.abort();
+    finish(pull, 'cancelled');
+  }
+  return snapshot(pull.job);
+}
+
+/**
+ * Calls `listener` with the job whenever its progress changes, until it has
+ * finished. Returns a function that stops listening, or null for an unknown job.
+ */
+export function watchImagePull(
+  id: string,
+  listener: (job: PullJob) => void
+): (() => void) | null {
+  if (!pulls.has(id)) {
+    return null;
+  }
+
+  const onUpdate = (job: PullJob) => {
+    listener(job);
+    if (job.status !== 'pulling') {
+      updates.off(id, onUpdate);
+    }
+  };
+  updates.on(id, onUpdate);
+  return () => updates.off(id, onUpdate);
+}
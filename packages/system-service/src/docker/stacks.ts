@@ -0,0 +1,653 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import Docker from 'dockerode';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { ConflictError, NotFoundError, UnprocessableError } from '../errors/index.js';
+import { resolveSecretRefs } from '../secrets/index.js';
+import {
+  ComposeProject,
+  ComposeService,
+  parseComposeFile,
+  ParsedCompose
+} from './compose.js';
+import { pullImage } from './pulls.js';
+
+export const stackNameSchema = z
+  .string()
+  .max(63)
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use only lowercase letters, digits, _ and - in stack names');
+
+export const stackFilesSchema = z.object({
+  compose: z.string().max(1024 * 1024),
+  // KEY=value lines the Compose file's variables are filled in from
+  env: z.string().max(64 * 1024).default('')
+});
+
+export type StackFiles = z.infer<typeof stackFilesSchema>;
+
+export const stackServiceSchema = z.object({
+  name: z.string(),
+  containerId: z.string().nullable(),
+  // Docker's container state and status text, such as "running" and "Up 2 minutes (healthy)"
+  state: z.string().nullable(),
+  status: z.string().nullable()
+});
+
+export const stackSummarySchema = z.object({
+  name: z.string(),
+  status: z.enum(['running', 'partial', 'stopped', 'undeployed']),
+  services: z.array(stackServiceSchema),
+  updatedAt: z.string()
+});
+
+export const stackSchema = stackSummarySchema.merge(stackFilesSchema.required());
+
+export const serviceActionSchema = z.object({
+  service: z.string(),
+  action: z.enum(['created', 'recreated', 'started', 'unchanged', 'removed'])
+});
+
+export type StackSummary = z.infer<typeof stackSummarySchema>;
+export type ServiceAction = z.infer<typeof serviceActionSchema>;
+
+// The labels docker compose uses, so either can see and manage what the other created
+const LABELS = {
+  project: 'com.docker.compose.project',
+  service: 'com.docker.compose.service',
+  containerNumber: 'com.docker.compose.container-number',
+  oneoff: 'com.docker.compose.oneoff',
+  configHash: 'com.docker.compose.config-hash',
+  workingDir: 'com.docker.compose.project.working_dir',
+  configFiles: 'com.docker.compose.project.config_files',
+  network: 'com.docker.compose.network',
+  volume: 'com.docker.compose.volume'
+};
+
+const COMPOSE_FILE = 'compose.yaml';
+const ENV_FILE = '.env';
+
+// How long a service waits for a dependency to become healthy or finish
+const DEPENDENCY_TIMEOUT_MS = 5 * 60 * 1000;
+const DEPENDENCY_POLL_MS = 1000;
+
+const stackDir = (name: string) => path.join(getConfig().stacksDir, name);
+
+const isNotFound = (error: unknown) => (error as { statusCode?: number }).statusCode === 404;
+
+// Comments and blank lines are skipped; values may be quoted
+export function parseEnvFile(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const separator = trimmed.indexOf('=');
+    if (!trimmed || trimmed.startsWith('#') || separator < 1) {
+      continue;
+    }
+    const value = trimmed.slice(separator + 1).trim();
+    const quoted = /^(["']).*\1$/.test(value);
+    env[trimmed.slice(0, separator).trim()] = quoted ? value.slice(1, -1) : value;
+  }
+  return env;
+}
+
+export function validateStack(name: string, files: StackFiles): ParsedCompose {
+  return parseComposeFile(files.compose, parseEnvFile(files.env), stackDir(name));
+}
+
+async function readStackFiles(name: string): Promise<StackFiles> {
+  let compose: string;
+  try {
+    compose = await fs.readFile(path.join(stackDir(name), COMPOSE_FILE), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new NotFoundError('Stack not found', { stack: name });
+    }
+    throw error;
+  }
+  const env = await fs.readFile(path.join(stackDir(name), ENV_FILE), 'utf-8').catch(() => '');
+  return { compose, env };
+}
+
+async function listStackNames(): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getConfig().stacksDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const names: string[] = [];
+  for (const entry of entries.sort()) {
+    try {
+      await fs.access(path.join(stackDir(entry), COMPOSE_FILE));
+      names.push(entry);
+    } catch {
+      // Not a stack directory
+    }
+  }
+  return names;
+}
+
+// Operations on one stack run one at a time
+const busyStacks = new Set<string>();
+
+async function exclusively<T>(name: string, operation: () => Promise<T>): Promise<T> {
+  if (busyStacks.has(name)) {
+    throw new ConflictError(`Stack ${name} is busy with another operation`);
+  }
+  busyStacks.add(name);
+  try {
+    return await operation();
+  } finally {
+    busyStacks.delete(name);
+  }
+}
+
+const projectContainers = (docker: Docker, name: string) =>
+  docker.listContainers({ all: true, filters: { label: [`${LABELS.project}=${name}`] } });
+
+// Services in start order when the Compose file can be read; otherwise as deployed
+function summarize(
+  name: string,
+  serviceNames: string[],
+  containers: Docker.ContainerInfo[],
+  updatedAt: Date
+): StackSummary {
+  const deployed = containers.map((container) => container.Labels[LABELS.service]);
+  const services = [...new Set([...serviceNames, ...deployed])].map((service) => {
+    const container = containers.find((entry) => entry.Labels[LABELS.service] === service);
+    return {
+      name: service,
+      containerId: container?.Id ?? null,
+      state: container?.State ?? null,
+      status: container?.Status ?? null
+    };
+  });
+
+  const running = services.filter((service) => service.state === 'running').length;
+  let status: StackSummary['status'] = 'stopped';
+  if (!containers.length) {
+    status = 'undeployed';
+  } else if (running === services.length) {
+    status = 'running';
+  } else if (running) {
+    status = 'partial';
+  }
+  return { name, status, services, updatedAt: updatedAt.toISOString() };
+}
+
+async function readSummary(
+  name: string,
+  files: StackFiles,
+  containers: Docker.ContainerInfo[]
+): Promise<StackSummary> {
+  let serviceNames: string[] = [];
+  try {
+    serviceNames = validateStack(name, files).project.services.map((service) => service.name);
+  } catch {
+    // An invalid file still lists what is deployed
+  }
+  const { mtime } = await fs.stat(path.join(stackDir(name), COMPOSE_FILE));
+  return summarize(name, serviceNames, containers, mtime);
+}
+
+export async function listStacks(docker: Docker): Promise<StackSummary[]> {
+  const containers = await docker.listContainers({
+    all: true,
+    filters: { label: [LABELS.project] }
+  });
+  const stacks: StackSummary[] = [];
+  for (const name of await listStackNames()) {
+    const own = containers.filter((container) => container.Labels[LABELS.project] === name);
+    stacks.push(await readSummary(name, await readStackFiles(name), own));
+  }
+  return stacks;
+}
+
+export async function getStack(
+  docker: Docker,
+  name: string
+): Promise<StackSummary & Required<StackFiles>> {
+  const files = await readStackFiles(name);
+  return { ...(await readSummary(name, files, await projectContainers(docker, name))), ...files };
+}
+
+/**
+ * Writes a stack's Compose file and env after checking that they are valid.
+ * Creating fails when the stack exists; replacing fails when it does not.
+ * Running containers are left alone until the stack is deployed again.
+ */
+export async function saveStack(name: string, files: StackFiles, create: boolean): Promise<void> {
+  return exclusively(name, async () => {
+    const exists = await fs.access(path.join(stackDir(name), COMPOSE_FILE))
+      .then(() => true, () => false);
+    if (create && exists) {
+      throw new ConflictError(`Stack ${name} already exists`, { stack: name });
+    }
+    if (!create && !exists) {
+      throw new NotFoundError('Stack not found', { stack: name });
+    }
+
+    validateStack(name, files);
+    await fs.mkdir(stackDir(name), { recursive: true });
+    await fs.writeFile(path.join(stackDir(name), COMPOSE_FILE), files.compose);
+    // Variables may hold passwords
+    await fs.writeFile(path.join(stackDir(name), ENV_FILE), files.env, { mode: 0o600 });
+  });
+}
+
+const definedValues = (values: Record<string, string | null>) =>
+  Object.fromEntries(Object.entries(values).filter(
+    (entry): entry is [string, string] => entry[1] !== null
+  ));
+
+// Services that are not given networks or a network mode join the project's default network
+const usesDefaultNetwork = (service: ComposeService) =>
+  !service.network_mode && (!service.networks || service.networks.some(({ name }) => name === 'default'));
+
+/**
+ * Creates the project's networks and volumes that do not exist yet and checks
+ * that external ones do. Returns the Docker name of each by its Compose key.
+ */
+async function ensureResources(
+  docker: Docker,
+  name: string,
+  project: ComposeProject
+): Promise<{ networks: Map<string, string>; volumes: Map<string, string> }> {
+  const networks = new Map<string, string>();
+  const networkDefinitions = { ...project.networks };
+  if (project.services.some(usesDefaultNetwork)) {
+    networkDefinitions.default ??= {
+      external: false,
+      driver_opts: {},
+      internal: false,
+      attachable: false,
+      labels: {}
+    };
+  }
+
+  for (const [key, network] of Object.entries(networkDefinitions)) {
+    const dockerName = network.name ?? (network.external ? key : `${name}_${key}`);
+    networks.set(key, dockerName);
+    try {
+      await docker.getNetwork(dockerName).inspect();
+      continue;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    if (network.external) {
+      throw new UnprocessableError(`External network ${dockerName} does not exist`);
+    }
+    await docker.createNetwork({
+      Name: dockerName,
+      Driver: network.driver ?? 'bridge',
+      Options: network.driver_opts,
+      Internal: network.internal,
+      Attachable: network.attachable,
+      Labels: { ...definedValues(network.labels), [LABELS.project]: name, [LABELS.network]: key }
+    });
+  }
+
+  const volumes = new Map<string, string>();
+  for (const [key, volume] of Object.entries(project.volumes)) {
+    const dockerName = volume.name ?? (volume.external ? key : `${name}_${key}`);
+    volumes.set(key, dockerName);
+    try {
+      await docker.getVolume(dockerName).inspect();
+      continue;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    if (volume.external) {
+      throw new UnprocessableError(`External volume ${dockerName} does not exist`);
+    }
+    await docker.createVolume({
+      Name: dockerName,
+      Driver: volume.driver ?? 'local',
+      DriverOpts: volume.driver_opts,
+      Labels: { ...definedValues(volume.labels), [LABELS.project]: name, [LABELS.volume]: key }
+    });
+  }
+
+  return { networks, volumes };
+}
+
+interface DeployContext {
+  stack: string;
+  networks: Map<string, string>;
+  volumes: Map<string, string>;
+  // Containers already deployed in this run, by service
+  containerIds: Map<string, string>;
+}
+
+// Everything but the first network, which the container joins when it is created
+interface ContainerPlan {
+  options: Docker.ContainerCreateOptions;
+  extraNetworks: { name: string; config: Docker.EndpointSettings }[];
+}
+
+function planContainer(service: ComposeService, context: DeployContext): ContainerPlan {
+  const exposedPorts: Record<string, Record<string, never>> = {};
+  const portBindings: Docker.PortMap = {};
+  for (const port of service.ports) {
+    const key = `${port.target}/${port.protocol}`;
+    exposedPorts[key] = {};
+    // Without a published port Docker picks a free one, as Compose does
+    portBindings[key] = [
+      ...(portBindings[key] ?? []),
+      { HostIp: port.hostIp ?? '', HostPort: port.published ?? '' }
+    ];
+  }
+
+  const binds: string[] = [];
+  const anonymousVolumes: Record<string, Record<string, never>> = {};
+  const tmpfs: Record<string, string> = {};
+  for (const volume of service.volumes) {
+    const mode = volume.readOnly ? ':ro' : '';
+    if (volume.type === 'tmpfs') {
+      tmpfs[volume.target] = '';
+    } else if (volume.type === 'volume' && !volume.source) {
+      anonymousVolumes[volume.target] = {};
+    } else if (volume.type === 'volume') {
+      binds.push(`${context.volumes.get(volume.source ?? '')}:${volume.target}${mode}`);
+    } else {
+      binds.push(`${volume.source}:${volume.target}${mode}`);
+    }
+  }
+
+  const serviceNetworks = service.network_mode
+    ? []
+    : (service.networks ?? [{ name: 'default', aliases: [], ipv4Address: null }]);
+  const endpoints = serviceNetworks.map((network) => ({
+    name: context.networks.get(network.name) ?? network.name,
+    config: {
+      Aliases: [service.name, ...network.aliases],
+      ...(network.ipv4Address ? { IPAMConfig: { IPv4Address: network.ipv4Address } } : {})
+    }
+  }));
+  const [firstNetwork, ...extraNetworks] = endpoints;
+
+  let networkMode = firstNetwork?.name;
+  if (service.network_mode?.startsWith('service:')) {
+    networkMode = `container:${context.containerIds.get(service.network_mode.slice(8))}`;
+  } else if (service.network_mode) {
+    networkMode = service.network_mode;
+  }
+
+  const { healthcheck } = service;
+  const options: Docker.ContainerCreateOptions = {
+    name: service.container_name ?? `${context.stack}-${service.name}-1`,
+    Image: service.image,
+    Cmd: service.command,
+    Entrypoint: service.entrypoint,
+    Env: Object.entries(service.environment).map(([key, value]) => `${key}=${value}`),
+    Hostname: service.hostname,
+    User: service.user,
+    WorkingDir: service.working_dir,
+    Tty: service.tty,
+    OpenStdin: service.stdin_open,
+    ExposedPorts: exposedPorts,
+    Volumes: anonymousVolumes,
+    Labels: {
+      ...definedValues(service.labels),
+      [LABELS.project]: context.stack,
+      [LABELS.service]: service.name,
+      [LABELS.containerNumber]: '1',
+      [LABELS.oneoff]: 'False',
+      [LABELS.workingDir]: stackDir(context.stack),
+      [LABELS.configFiles]: path.join(stackDir(context.stack), COMPOSE_FILE)
+    },
+    Healthcheck: healthcheck
+      ? {
+        Test: healthcheck.test,
+        Interval: healthcheck.interval ?? undefined,
+        Timeout: healthcheck.timeout ?? undefined,
+        Retries: healthcheck.retries ?? undefined,
+        StartPeriod: healthcheck.startPeriod ?? undefined
+      }
+      : undefined,
+    HostConfig: {
+      Binds: binds,
+      Tmpfs: tmpfs,
+      PortBindings: portBindings,
+      NetworkMode: networkMode,
+      RestartPolicy: {
+        Name: service.restart.name,
+        MaximumRetryCount: service.restart.maximumRetryCount
+      },
+      Privileged: service.privileged,
+      CapAdd: service.cap_add,
+      CapDrop: service.cap_drop,
+      ExtraHosts: Object.entries(definedValues(service.extra_hosts))
+        .map(([host, address]) => `${host}:${address}`),
+      Devices: service.devices.map((device) => ({
+        PathOnHost: device.host,
+        PathInContainer: device.container,
+        CgroupPermissions: device.permissions
+      }))
+    },
+    NetworkingConfig: firstNetwork
+      ? { EndpointsConfig: { [firstNetwork.name]: firstNetwork.config } }
+      : undefined
+  };
+
+  return { options, extraNetworks };
+}
+
+async function removeContainer(docker: Docker, id: string): Promise<void> {
+  const container = docker.getContainer(id);
+  try {
+    await container.stop();
+  } catch (error) {
+    // 304: the container was not running
+    if ((error as { statusCode?: number }).statusCode !== 304) {
+      throw error;
+    }
+  }
+  await container.remove({ force: true });
+}
+
+// Waits for depends_on conditions other than service_started
+async function waitForDependencies(
+  docker: Docker,
+  service: ComposeService,
+  context: DeployContext
+): Promise<void> {
+  for (const { service: dependency, condition } of service.depends_on) {
+    const id = context.containerIds.get(dependency);
+    if (condition === 'service_started' || !id) {
+      continue;
+    }
+
+    const deadline = Date.now() + DEPENDENCY_TIMEOUT_MS;
+    for (;;) {
+      const { State: state } = await docker.getContainer(id).inspect();
+      if (condition === 'service_healthy') {
+        if (!state.Health) {
+          throw new UnprocessableError(
+            `${service.name} waits for ${dependency} to be healthy, but it has no healthcheck`
+          );
+        }
+        if (state.Health.Status === 'healthy') {
+          break;
+        }
+        if (state.Health.Status === 'unhealthy') {
+          throw new UnprocessableError(`${dependency} is unhealthy`);
+        }
+      } else if (state.Status === 'exited') {
+        if (state.ExitCode === 0) {
+          break;
+        }
+        throw new UnprocessableError(`${dependency} exited with code ${state.ExitCode}`);
+      }
+
+      if (Date.now() > deadline) {
+        throw new UnprocessableError(`Timed out waiting for ${dependency}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, DEPENDENCY_POLL_MS));
+    }
+  }
+}
+
+async function imageId(docker: Docker, image: string, pull: boolean): Promise<string> {
+  if (!pull) {
+    try {
+      return (await docker.getImage(image).inspect()).Id;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+  await pullImage(docker, image);
+  return (await docker.getImage(image).inspect()).Id;
+}
+
+// Resolves `${secret:NAME}` references in every string of a container's settings
+async function resolveSecretsIn<T>(value: T): Promise<T> {
+  if (typeof value === 'string') {
+    return (await resolveSecretRefs(value)) as T;
+  }
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map(resolveSecretsIn))) as T;
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, entry]) => [key, await resolveSecretsIn(entry)])
+    );
+    return Object.fromEntries(entries) as T;
+  }
+  return value;
+}
+
+/**
+ * Brings the stack's containers in line with its Compose file, starting
+ * services after the ones they depend on. Containers whose settings or image
+ * changed are recreated, stopped ones are started, and containers of services
+ * no longer in the file are removed. With `pull` every image is pulled again
+ * first; otherwise only missing ones are.
+ */
+export async function deployStack(
+  docker: Docker,
+  name: string,
+  { pull = false }: { pull?: boolean } = {}
+): Promise<ServiceAction[]> {
+  return exclusively(name, async () => {
+    const { project } = validateStack(name, await readStackFiles(name));
+    const context: DeployContext = {
+      stack: name,
+      ...(await ensureResources(docker, name, project)),
+      containerIds: new Map()
+    };
+    const existing = await projectContainers(docker, name);
+    const actions: ServiceAction[] = [];
+
+    for (const service of project.services) {
+      await waitForDependencies(docker, service, context);
+      const { options: planned, extraNetworks } = planContainer(service, context);
+      // Secrets are resolved only now so they never reach the stack's files. The hash covers
+      // their values, so a container is recreated after a secret it uses changes.
+      const options = await resolveSecretsIn(planned);
+      const configHash = createHash('sha256')
+        .update(JSON.stringify({ options, image: await imageId(docker, service.image, pull) }))
+        .digest('hex');
+      options.Labels = { ...options.Labels, [LABELS.configHash]: configHash };
+
+      const current = existing.find(
+        (container) => container.Labels[LABELS.service] === service.name
+      );
+      if (current?.Labels[LABELS.configHash] === configHash) {
+        context.containerIds.set(service.name, current.Id);
+        if (current.State === 'running') {
+          actions.push({ service: service.name, action: 'unchanged' });
+        } else {
+          await docker.getContainer(current.Id).start();
+          actions.push({ service: service.name, action: 'started' });
+        }
+        continue;
+      }
+
+      if (current) {
+        await removeContainer(docker, current.Id);
+      }
+      const container = await docker.createContainer(options);
+      for (const network of extraNetworks) {
+        await docker.getNetwork(network.name).connect({
+          Container: container.id,
+          EndpointConfig: network.config
+        });
+      }
+      await container.start();
+      context.containerIds.set(service.name, container.id);
+      actions.push({ service: service.name, action: current ? 'recreated' : 'created' });
+    }
+
+    const serviceNames = new Set(project.services.map((service) => service.name));
+    for (const orphan of existing) {
+      if (!serviceNames.has(orphan.Labels[LABELS.service])) {
+        await removeContainer(docker, orphan.Id);
+        actions.push({ service: orphan.Labels[LABELS.service], action: 'removed' });
+      }
+    }
+    return actions;
+  });
+}
+
+// Stops the stack's containers, dependents before the services they depend on
+export async function stopStack(docker: Docker, name: string): Promise<void> {
+  return exclusively(name, async () => {
+    const files = await readStackFiles(name);
+    let order: string[] = [];
+    try {
+      order = validateStack(name, files).project.services.map((service) => service.name);
+    } catch {
+      // Stop them in any order
+    }
+
+    const position = (container: Docker.ContainerInfo) =>
+      order.indexOf(container.Labels[LABELS.service]);
+    const containers = (await projectContainers(docker, name))
+      .filter((container) => container.State === 'running')
+      .sort((a, b) => position(b) - position(a));
+    for (const container of containers) {
+      await docker.getContainer(container.Id).stop();
+    }
+  });
+}
+
+/**
+ * Removes the stack's containers and the networks it created, then its files.
+ * Its named volumes, and the data in them, are only removed when asked to.
+ */
+export async function removeStack(
+  docker: Docker,
+  name: string,
+  { removeVolumes = false }: { removeVolumes?: boolean } = {}
+): Promise<void> {
+  return exclusively(name, async () => {
+    await readStackFiles(name);
+    const filters = { label: [`${LABELS.project}=${name}`] };
+
+    for (const container of await projectContainers(docker, name)) {
+      await removeContainer(docker, container.Id);
+    }
+    for (const network of await docker.listNetworks({ filters })) {
+      await docker.getNetwork(network.Id).remove();
+    }
+    if (removeVolumes) {
+      for (const volume of (await docker.listVolumes({ filters })).Volumes ?? []) {
+        await docker.getVolume(volume.Name).remove();
+      }
+    }
+    await fs.rm(stackDir(name), { recursive: true, force: true });
+  });
+}
@@ -0,0 +1,207 @@
+import { STATUS_CODES } from 'http';
+import { FastifyError, FastifyInstance } from 'fastify';
+import { z, ZodError } from 'zod';
+import { CommandError } from '../utils/executor.js';
+
+// Stable, machine-readable reasons; the message is meant for people
+export const errorCodes = [
+  'VALIDATION_FAILED',
+  'UNAUTHENTICATED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'UNPROCESSABLE',
+  'RATE_LIMITED',
+  'HOST_TOOL_FAILED',
+  'HOST_TOOL_TIMEOUT',
+  'UNSUPPORTED',
+  'INTERNAL_ERROR'
+] as const;
+
+export type ErrorCode = (typeof errorCodes)[number];
+
+// Body of every error response
+export const errorResponseSchema = z
+  .object({
+    statusCode: z.number().int(),
+    error: z.string(),
+    code: z.enum(errorCodes),
+    message: z.string(),
+    details: z.unknown().optional()
+  })
+  .describe('Error');
+
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+export class ApiError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(400, 'VALIDATION_FAILED', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(message = 'Authentication required') {
+    super(401, 'UNAUTHENTICATED', message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class PermissionError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(403, 'FORBIDDEN', message, details);
+    this.name = 'PermissionError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(404, 'NOT_FOUND', message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(409, 'CONFLICT', message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+// The request was understood but cannot be carried out, e.g. an unverified plugin
+export class UnprocessableError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(422, 'UNPROCESSABLE', message, details);
+    this.name = 'UnprocessableError';
+  }
+}
+
+export interface HostToolFailure {
+  tool: string;
+  exitCode: number | null;
+  stderr: string;
+  timedOut: boolean;
+}
+
+// A host tool such as mdadm or mkfs failed or did not finish in time
+export class HostToolError extends ApiError {
+  constructor(message: string, details: HostToolFailure) {
+    super(
+      details.timedOut ? 504 : 500,
+      details.timedOut ? 'HOST_TOOL_TIMEOUT' : 'HOST_TOOL_FAILED',
+      message,
+      details
+    );
+    this.name = 'HostToolError';
+  }
+}
+
+const codesByStatus: Record<number, ErrorCode> = {
+  400: 'VALIDATION_FAILED',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'UNPROCESSABLE',
+  429: 'RATE_LIMITED',
+  501: 'UNSUPPORTED'
+};
+
+export const errorCodeForStatus = (statusCode: number): ErrorCode =>
+  codesByStatus[statusCode] ?? (statusCode < 500 ? 'VALIDATION_FAILED' : 'INTERNAL_ERROR');
+
+// Enough of stderr to explain a failure without flooding the UI
+const MAX_STDERR_LENGTH = 2000;
+
+const describeIssues = (error: ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+/**
+ * Turns anything a route can throw into an `ApiError`: zod parse failures,
+ * host tool failures, Docker Engine errors and Fastify's own errors keep their
+ * meaning; anything else is an internal error. `statusCode` is the status a
+ * route set with `reply.code()` before throwing a plain `Error`.
+ */
+export function toApiError(error: unknown, statusCode?: number): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    const issues = describeIssues(error);
+    const [first] = issues;
+    const message = first
+      ? `${first.path ? `${first.path}: ` : ''}${first.message}`
+      : 'Invalid request';
+    return new ValidationError(message, { issues });
+  }
+
+  if (error instanceof CommandError) {
+    return new HostToolError(error.message, {
+      tool: error.tool,
+      exitCode: error.exitCode,
+      stderr: error.stderr.trim().slice(-MAX_STDERR_LENGTH),
+      timedOut: error.timedOut
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const { statusCode: ownStatus, validation, json } = (error ?? {}) as Partial<FastifyError> & {
+    json?: { message?: string };
+  };
+
+  if (validation) {
+    return new ValidationError(message, { issues: validation });
+  }
+
+  // Docker Engine errors carry the daemon's status and message; 304 means nothing had to change
+  if (typeof ownStatus === 'number' && ownStatus >= 300) {
+    const status = ownStatus === 304 ? 409 : ownStatus;
+    return new ApiError(status, errorCodeForStatus(status), json?.message ?? message);
+  }
+
+  if (statusCode && statusCode >= 400) {
+    return new ApiError(statusCode, errorCodeForStatus(statusCode), message);
+  }
+
+  return new ApiError(500, 'INTERNAL_ERROR', message);
+}
+
+// Keeps the status, code and details of what went wrong while saying what was being attempted
+export function withContext(error: unknown, context: string): ApiError {
+  const apiError = toApiError(error);
+  apiError.message = `${context}: ${apiError.message}`;
+  return apiError;
+}
+
+export const toErrorResponse = (error: ApiError): ErrorResponse => ({
+  statusCode: error.statusCode,
+  error: STATUS_CODES[error.statusCode] ?? 'Error',
+  code: error.code,
+  message: error.message,
+  ...(error.details === undefined ? {} : { details: error.details })
+});
+
+// Every error leaves the API as an `ErrorResponse` with a matching status code
+export function setupErrorHandler(fastify: FastifyInstance): void {
+  fastify.setErrorHandler(async (error, request, reply) => {
+    const apiError = toApiError(error, reply.statusCode);
+    if (apiError.statusCode >= 500) {
+      request.log.error({ err: error }, apiError.message);
+    }
+
+    return reply.code(apiError.statusCode).send(toErrorResponse(apiError));
+  });
+}
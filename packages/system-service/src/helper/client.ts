@@ -0,0 +1,74 @@
+import { existsSync } from 'fs';
+import net from 'net';
+import { hasRootPrivileges } from '../utils/checkPrivileges.js';
+import { CommandError, CommandResult } from '../utils/executor.js';
+import { runHelperOperation } from './operations.js';
+import { getHelperSocketPath, HelperRequest, HelperResponse } from './protocol.js';
+
+// The helper enforces per-command timeouts; this only guards against it hanging
+const HELPER_RESPONSE_TIMEOUT_MS = 35 * 60 * 1000;
+
+export const isHelperAvailable = (): boolean => existsSync(getHelperSocketPath());
+
+function callHelper(request: HelperRequest): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(getHelperSocketPath());
+    let buffer = '';
+
+    socket.setTimeout(HELPER_RESPONSE_TIMEOUT_MS, () => {
+      socket.destroy(new Error('The privileged helper did not respond'));
+    });
+
+    socket.on('connect', () => {
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+    });
+
+    socket.on('error', (error) => {
+      reject(new CommandError(`Privileged helper unavailable: ${error.message}`, request.op, null));
+    });
+
+    socket.on('end', () => {
+      let response: HelperResponse;
+      try {
+        response = JSON.parse(buffer);
+      } catch {
+        reject(new CommandError('Invalid response from the privileged helper', request.op, null));
+        return;
+      }
+
+      if (response.ok) {
+        resolve(response.result);
+        return;
+      }
+
+      const { message, exitCode, stdout, stderr, timedOut } = response.error;
+      reject(new CommandError(message, request.op, exitCode, stdout, stderr, timedOut));
+    });
+  });
+}
+
+/**
+ * Performs one of the root-only operations in the helper protocol. Goes through
+ * the helper socket when the helper is running, and falls back to running the
+ * operation in-process when this service itself already has root privileges
+ * (development, or inside a container).
+ */
+export async function runPrivileged(request: HelperRequest): Promise<CommandResult> {
+  if (isHelperAvailable()) {
+    return callHelper(request);
+  }
+
+  if (hasRootPrivileges()) {
+    return runHelperOperation(request);
+  }
+
+  throw new CommandError(
+    `The privileged helper is not running (expected at ${getHelperSocketPath()})`,
+    request.op,
+    null
+  );
+}
@@ -0,0 +1,107 @@
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { checkPrivileges } from '../utils/checkPrivileges.js';
+import { CommandError } from '../utils/executor.js';
+import { runHelperOperation } from './operations.js';
+import {
+  getHelperSocketPath,
+  helperRequestSchema,
+  HelperResponse,
+  MAX_REQUEST_BYTES
+} from './protocol.js';
+
+// Entry point of the privileged helper. It runs as root next to the unprivileged
+// web service and accepts one JSON request per connection on a Unix socket.
+checkPrivileges();
+
+const socketPath = getHelperSocketPath();
+
+async function handleRequest(line: string): Promise<HelperResponse> {
+  let request;
+  try {
+    request = helperRequestSchema.parse(JSON.parse(line));
+  } catch (error) {
+    return {
+      ok: false,
+      error: {
+        message: `Invalid helper request: ${error}`,
+        exitCode: null,
+        stdout: '',
+        stderr: '',
+        timedOut: false
+      }
+    };
+  }
+
+  console.log(`Helper: ${request.op}`);
+  try {
+    return { ok: true, result: await runHelperOperation(request) };
+  } catch (error) {
+    const commandError = error instanceof CommandError ? error : null;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Helper: ${request.op} failed: ${message}`);
+    return {
+      ok: false,
+      error: {
+        message,
+        exitCode: commandError?.exitCode ?? null,
+        stdout: commandError?.stdout ?? '',
+        stderr: commandError?.stderr ?? '',
+        timedOut: commandError?.timedOut ?? false
+      }
+    };
+  }
+}
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let handled = false;
+
+  socket.on('data', async (chunk) => {
+    if (handled) {
+      return;
+    }
+
+    buffer += chunk.toString();
+    if (buffer.length > MAX_REQUEST_BYTES) {
+      socket.destroy();
+      return;
+    }
+
+    const newline = buffer.indexOf('\n');
+    if (newline === -1) {
+      return;
+    }
+
+    handled = true;
+    const response = await handleRequest(buffer.slice(0, newline));
+    socket.end(JSON.stringify(response));
+  });
+
+  socket.on('error', (error) => {
+    console.error('Helper connection error:', error.message);
+  });
+});
+
+// A socket left behind by a previous run would make listen() fail
+await fs.mkdir(path.dirname(socketPath), { recursive: true });
+await fs.rm(socketPath, { force: true });
+
+server.listen(socketPath, async () => {
+  // Owner and group only; the service unit runs the helper with the web service's group.
+  // Started through sudo during development, hand the socket to the invoking user's group.
+  if (process.env.SUDO_GID) {
+    await fs.chown(socketPath, 0, Number(process.env.SUDO_GID));
+  }
+  await fs.chmod(socketPath, 0o660);
+  console.log(`Privileged helper listening on ${socketPath}`);
+});
+
+const signals = ['SIGTERM', 'SIGINT'] as const;
+for (const signal of signals) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, shutting down...`);
+    server.close(() => process.exit(0));
+  });
+}
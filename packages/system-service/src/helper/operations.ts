@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CommandError, CommandResult, runCommand } from '../utils/executor.js';
+import { HelperRequest } from './protocol.js';
+
+// Formatting, assembling arrays, upgrading packages and backing up can take a while
+const LONG_OPERATION_TIMEOUT_MS = 30 * 60 * 1000;
+
+type NetworkRequest = Extract<HelperRequest, { op: 'network.configure' }>;
+
+// One file per interface in /etc/network/interfaces.d, applied with ifdown and ifup
+async function configureInterface(request: NetworkRequest): Promise<CommandResult> {
+  const { iface } = request;
+  let content = `auto ${iface}\n`;
+  if (request.dhcp) {
+    content += `iface ${iface} inet dhcp\n`;
+  } else if (request.address) {
+    content += `iface ${iface} inet static\n`;
+    content += `  address ${request.address}\n`;
+    if (request.netmask) {
+      content += `  netmask ${request.netmask}\n`;
+    }
+    if (request.gateway) {
+      content += `  gateway ${request.gateway}\n`;
+    }
+  }
+
+  await fs.writeFile(path.join('/etc/network/interfaces.d', iface), content);
+  await runCommand('ifdown', [iface]);
+  return runCommand('ifup', [iface]);
+}
+
+/**
+ * Archives the NestOS installation, /etc/nestos and the NestOS unit files into
+ * `file`, then deletes the oldest archives in its directory beyond `retention`.
+ */
+async function createBackup(file: string, retention: number): Promise<CommandResult> {
+  const location = path.dirname(file);
+  await fs.mkdir(location, { recursive: true });
+
+  // NestOS root directory (two levels up from the service's working directory)
+  const nestosRoot = path.resolve(process.cwd(), '../../');
+
+  // System configuration that exists on this install; tar gets no shell to expand globs
+  const unitFiles = await fs.readdir('/etc/systemd/system')
+    .then((files) => files.filter((name) => /^nestos.*\.service$/.test(name)))
+    .catch(() => [] as string[]);
+  const hasEtcConfig = await fs.access('/etc/nestos').then(() => true).catch(() => false);
+
+  const result = await runCommand('tar', [
+    '-czf', file,
+    ...['node_modules', '.git', 'dist', '*.log', '*.tar.gz', 'coverage', '.env']
+      .map((pattern) => `--exclude=**/${pattern}`),
+    '-C', nestosRoot, '.',
+    ...(hasEtcConfig ? ['-C', '/etc', 'nestos'] : []),
+    ...(unitFiles.length > 0 ? ['-C', '/etc/systemd/system', ...unitFiles] : [])
+  ], { timeoutMs: LONG_OPERATION_TIMEOUT_MS, allowNonZeroExit: true });
+
+  // Exit code 1 only means some files changed while they were being read
+  if (result.exitCode > 1) {
+    throw new CommandError(
+      `tar exited with code ${result.exitCode}: ${result.stderr.trim()}`,
+      'tar',
+      result.exitCode,
+      result.stdout,
+      result.stderr
+    );
+  }
+
+  const backups = (await fs.readdir(location))
+    .filter((name) => /^nestos-backup-.*\.tar\.gz$/.test(name))
+    .sort();
+  for (const name of backups.slice(0, Math.max(0, backups.length - retention))) {
+    await fs.unlink(path.join(location, name));
+  }
+
+  return result;
+}
+
+/**
+ * Carries out a validated helper request. Only ever called with root
+ * privileges, either inside the helper daemon or by a service that already
+ * runs as root.
+ */
+export async function runHelperOperation(request: HelperRequest): Promise<CommandResult> {
+  switch (request.op) {
+    case 'mkfs':
+      return runCommand(`mkfs.${request.filesystem}`, [request.device], {
+        timeoutMs: LONG_OPERATION_TIMEOUT_MS
+      });
+    case 'mdadm.create':
+      return runCommand('mdadm', [
+        '--create',
+        `/dev/md/${request.name}`,
+        `--level=${request.level}`,
+        `--raid-devices=${request.devices.length}`,
+        ...request.devices
+      ], { timeoutMs: LONG_OPERATION_TIMEOUT_MS });
+    case 'mdadm.stop':
+      return runCommand('mdadm', ['--stop', `/dev/md/${request.name}`]);
+    case 'mdadm.remove':
+      return runCommand('mdadm', ['--remove', `/dev/md/${request.name}`]);
+    case 'mount':
+      return runCommand('mount', [request.device, request.mountPoint]);
+    case 'umount':
+      return runCommand('umount', [request.device]);
+    case 'hostname':
+      return runCommand('hostnamectl', ['set-hostname', request.hostname]);
+    case 'timezone':
+      return runCommand('timedatectl', ['set-timezone', request.timezone]);
+    case 'power':
+      return runCommand('shutdown', [request.action === 'reboot' ? '-r' : '-h', 'now']);
+    case 'apt.update':
+      return runCommand('apt-get', ['update'], { timeoutMs: LONG_OPERATION_TIMEOUT_MS });
+    case 'apt.upgrade':
+      return runCommand('apt-get', ['upgrade', '-y'], {
+        timeoutMs: LONG_OPERATION_TIMEOUT_MS,
+        env: { DEBIAN_FRONTEND: 'noninteractive' }
+      });
+    case 'service.restart':
+      // Queued rather than awaited, since the unit may be the service that asked
+      return runCommand('systemctl', ['restart', '--no-block', `${request.unit}.service`]);
+    case 'network.configure':
+      return configureInterface(request);
+    case 'backup.create':
+      return createBackup(request.file, request.retention);
+  }
+}
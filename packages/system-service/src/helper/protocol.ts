@@ -0,0 +1,109 @@
+import path from 'path';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import type { CommandResult } from '../utils/executor.js';
+
+// The helper creates this socket (helperSocket in the config); only root and the nestos group may connect to it
+export const getHelperSocketPath = (): string => getConfig().helperSocket;
+
+// Requests are a single JSON line and never need to be large
+export const MAX_REQUEST_BYTES = 64 * 1024;
+
+// Volumes are mounted and backups written only below these directories
+export const STORAGE_ROOTS = ['/mnt', '/media'] as const;
+
+// Normalised, so `/dev//sda` and `/dev/./sda` reach the tools as `/dev/sda`
+export const devicePathSchema = z.string()
+  .regex(/^\/dev\/[\w./-]+$/, 'Devices must be paths under /dev')
+  .refine((value) => !value.split('/').includes('..'), 'Device paths must not contain ..')
+  .transform((value) => path.posix.normalize(value));
+
+export const arrayNameSchema = z.string().regex(/^\w[\w.-]*$/, 'Invalid volume name');
+
+// Resolved before the check, so `..` cannot lead out of the storage roots
+export const storagePathSchema = z.string()
+  .regex(/^\/[^\0]*$/, 'Must be an absolute path')
+  .transform((value) => path.posix.resolve(value))
+  .refine(
+    (value) => STORAGE_ROOTS.some((root) => value.startsWith(`${root}/`)),
+    `Must be a directory under ${STORAGE_ROOTS.join(' or ')}`
+  );
+
+export const mountPointSchema = storagePathSchema;
+
+// Archives are only ever written under this name, so pruning old ones cannot touch other files
+export const backupFileSchema = storagePathSchema.refine(
+  (value) => /^nestos-backup-[\w-]+\.tar\.gz$/.test(path.posix.basename(value)),
+  'Backups must be named nestos-backup-<time>.tar.gz'
+);
+
+// Interface names become a file name and command arguments
+export const interfaceNameSchema = z.string().regex(/^\w[\w.:-]*$/, 'Invalid interface name');
+
+// Addresses are written into the interfaces file, one per line
+export const addressSchema = z.string().regex(/^[\w.:/]+$/, 'Invalid address');
+
+export const hostnameSchema = z.string().regex(
+  /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/,
+  'Hostnames may only contain letters, digits and hyphens'
+);
+
+export const timezoneSchema = z.string().regex(/^[A-Za-z][\w+/-]*$/, 'Invalid timezone');
+
+export const helperFilesystems = ['ext4', 'xfs', 'btrfs'] as const;
+
+// Units the service may restart after updating itself
+export const nestosUnits = ['nestos-system', 'nestos-control-panel'] as const;
+
+// Everything the unprivileged service may ask the helper to do
+export const helperRequestSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('mkfs'),
+    filesystem: z.enum(helperFilesystems),
+    device: devicePathSchema
+  }),
+  z.object({
+    op: z.literal('mdadm.create'),
+    name: arrayNameSchema,
+    level: z.enum(['0', '1', '5', '6', '10']),
+    devices: z.array(devicePathSchema).min(1)
+  }),
+  z.object({ op: z.literal('mdadm.stop'), name: arrayNameSchema }),
+  z.object({ op: z.literal('mdadm.remove'), name: arrayNameSchema }),
+  z.object({ op: z.literal('mount'), device: devicePathSchema, mountPoint: mountPointSchema }),
+  z.object({ op: z.literal('umount'), device: devicePathSchema }),
+  z.object({ op: z.literal('hostname'), hostname: hostnameSchema }),
+  z.object({ op: z.literal('timezone'), timezone: timezoneSchema }),
+  z.object({ op: z.literal('power'), action: z.enum(['reboot', 'poweroff']) }),
+  z.object({ op: z.literal('apt.update') }),
+  z.object({ op: z.literal('apt.upgrade') }),
+  z.object({ op: z.literal('service.restart'), unit: z.enum(nestosUnits) }),
+  z.object({
+    op: z.literal('network.configure'),
+    iface: interfaceNameSchema,
+    dhcp: z.boolean(),
+    address: addressSchema.optional(),
+    netmask: addressSchema.optional(),
+    gateway: addressSchema.optional()
+  }),
+  z.object({
+    op: z.literal('backup.create'),
+    file: backupFileSchema,
+    // Older archives beyond this many are deleted afterwards
+    retention: z.number().int().min(1).max(365)
+  })
+]);
+
+export type HelperRequest = z.infer<typeof helperRequestSchema>;
+
+export interface HelperError {
+  message: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export type HelperResponse =
+  | { ok: true; result: CommandResult }
+  | { ok: false; error: HelperError };
@@ -1,78 +1,52 @@
-import Fastify from 'fastify';
-import cors from '@fastify/cors';
-import websocket from '@fastify/websocket';
-import { systemRoutes } from './routes/system.js';
-import { storageRoutes } from './routes/storage.js';
-import { dockerRoutes } from './routes/docker.js';
-import { networkRoutes } from './routes/network.js';
-import { pluginRoutes } from './routes/plugins.js';
-import { setupWebSocketHandlers } from './websocket/index.js';
-import appearanceRoutes from './routes/appearance.js';
-
-const fastify = Fastify({
-  logger: true,
-  trustProxy: true
-});
-
-// Register plugins
-await fastify.register(cors, {
-  origin: true,
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+import { resolveBindAddress } from './access/index.js';
+import { loadAccessSettings } from './access/settings.js';
+import { ensureCertificate } from './tls/certificates.js';
+import { startHttpListener } from './tls/index.js';
+import { loadTlsSettings } from './tls/settings.js';
+import { loadConfig } from './config.js';
+import { createServer } from './server.js';
+import { startScheduledJobs } from './maintenance/index.js';
+
+// nestos.config.json and NESTOS_* overrides; invalid settings stop the service here
+const config = loadConfig();
+
+// A certificate is generated on first boot so HTTPS can be switched on at any time
+const tlsSettings = await loadTlsSettings();
+const certificate = await ensureCertificate().catch((error) => {
+  console.error('Failed to prepare TLS certificate, HTTPS is unavailable:', error);
+  return null;
 });
+const httpsOptions = tlsSettings.enabled && certificate ? certificate : null;
+const bindAddress = resolveBindAddress((await loadAccessSettings()).bindAddress);
 
-await fastify.register(websocket, {
-  options: { maxPayload: 1048576 } // 1MB max payload
-});
-
-// Root route
-fastify.get('/', async () => {
-  return {
-    status: 'ok',
-    version: '0.1.0',
-    services: {
-      system: '/api/system',
-      storage: '/api/storage',
-      docker: '/api/docker',
-      network: '/api/network',
-      plugins: '/api/plugins',
-      appearance: '/api/appearance',
-      websocket: '/ws'
-    }
-  };
-});
-
-// Register route handlers
-await fastify.register(systemRoutes, { prefix: '/api/system' });
-await fastify.register(storageRoutes, { prefix: '/api/storage' });
-await fastify.register(dockerRoutes, { prefix: '/api/docker' });
-await fastify.register(networkRoutes, { prefix: '/api/network' });
-await fastify.register(pluginRoutes, { prefix: '/api/plugins' });
-await fastify.register(appearanceRoutes, { prefix: '/api/appearance' })
-
-// Setup WebSocket handlers for real-time updates
-setupWebSocketHandlers(fastify);
-
-// Health check route
-fastify.get('/health', async () => {
-  return { status: 'ok' };
-});
+const fastify = await createServer(config, { https: httpsOptions });
 
 // Start the server
 try {
-  await fastify.listen({ port: 3000, host: '0.0.0.0' });
-  console.log('System service running on port 3000');
+  if (httpsOptions) {
+    await fastify.listen({ port: tlsSettings.port, host: bindAddress });
+    startHttpListener(fastify, tlsSettings, config.httpPort, bindAddress);
+    console.log(
+      `System service running on ${bindAddress} port ${tlsSettings.port} (HTTPS) and ${config.httpPort}`
+    );
+  } else {
+    await fastify.listen({ port: config.httpPort, host: bindAddress });
+    console.log(`System service running on ${bindAddress} port ${config.httpPort}`);
+  }
 } catch (err) {
   fastify.log.error(err);
   process.exit(1);
 }
 
+// Automatic updates and backups, as configured in Settings
+const stopScheduledJobs = startScheduledJobs(fastify.log);
+
 // Handle graceful shutdown
 const signals = ['SIGTERM', 'SIGINT'] as const;
 for (const signal of signals) {
   process.on(signal, async () => {
     console.log(`Received ${signal}, shutting down...`);
+    stopScheduledJobs();
     await fastify.close();
     process.exit(0);
   });
@@ -0,0 +1,120 @@
+import path from 'path';
+import { FastifyBaseLogger } from 'fastify';
+import { runPrivileged } from '../helper/client.js';
+import { runCommand } from '../utils/executor.js';
+import { ApiError } from '../errors/index.js';
+import { BackupSettings, loadBackupSettings, loadUpdateSettings } from './settings.js';
+
+const SOFTWARE_UPDATE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Earlier versions scheduled these in the service user's crontab, where they could not work
+const LEGACY_CRON_JOBS = ['git pull', 'backup.sh'];
+
+/**
+ * Writes a backup into the configured location through the privileged
+ * helper, which also prunes backups older than the retention. Returns the
+ * backup's path.
+ */
+export async function createBackup(settings: BackupSettings): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = path.join(settings.location, `nestos-backup-${timestamp}.tar.gz`);
+
+  await runPrivileged({ op: 'backup.create', file, retention: settings.retention });
+  return file;
+}
+
+// Installs pending operating system package updates
+export async function installSystemUpdates(): Promise<void> {
+  const { platform } = process;
+  if (platform === 'darwin') {
+    await runCommand('softwareupdate', ['-i', '-a'], {
+      privileged: true,
+      timeoutMs: SOFTWARE_UPDATE_TIMEOUT_MS
+    });
+  } else if (platform === 'linux') {
+    await runPrivileged({ op: 'apt.update' });
+    await runPrivileged({ op: 'apt.upgrade' });
+  } else {
+    throw new ApiError(501, 'UNSUPPORTED', `Unsupported platform: ${platform}`);
+  }
+}
+
+async function removeLegacyCronJobs(log: FastifyBaseLogger) {
+  let crontab: string;
+  try {
+    ({ stdout: crontab } = await runCommand('crontab', ['-l']));
+  } catch {
+    // No crontab exists
+    return;
+  }
+
+  const lines = crontab.split('\n');
+  const kept = lines.filter((line) => !LEGACY_CRON_JOBS.some((job) => line.includes(job)));
+  if (kept.length === lines.length) {
+    return;
+  }
+
+  try {
+    await runCommand('crontab', ['-'], { input: `${kept.join('\n').trim()}\n` });
+    log.info('Removed automatic update and backup entries from the crontab');
+  } catch (error) {
+    log.warn({ err: error }, 'Failed to remove old automatic update and backup crontab entries');
+  }
+}
+
+// Automatic updates run every hour or at midnight, automatic backups at midnight
+async function runScheduledJobs(log: FastifyBaseLogger, at: Date) {
+  const midnight = at.getHours() === 0;
+
+  const updates = await loadUpdateSettings();
+  if (updates.autoUpdate && (updates.schedule === 'hourly' || midnight)) {
+    try {
+      await installSystemUpdates();
+      log.info('Installed automatic system updates');
+    } catch (error) {
+      log.error({ err: error }, 'Automatic system update failed');
+    }
+  }
+
+  const backups = await loadBackupSettings();
+  if (backups.enabled && midnight) {
+    try {
+      log.info({ file: await createBackup(backups) }, 'Created automatic backup');
+    } catch (error) {
+      log.error({ err: error }, 'Automatic backup failed');
+    }
+  }
+}
+
+/**
+ * Runs automatic updates and backups, as configured in Settings, at the top
+ * of every hour for as long as the service runs. Jobs still running at the
+ * next hour make that hour's run skip. Returns a function that stops the
+ * schedule.
+ */
+export function startScheduledJobs(log: FastifyBaseLogger): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const scheduleNext = () => {
+    if (stopped) {
+      return;
+    }
+
+    const at = new Date();
+    at.setMinutes(60, 0, 0);
+
+    timer = setTimeout(() => {
+      void runScheduledJobs(log, at).finally(scheduleNext);
+    }, at.getTime() - Date.now());
+    timer.unref();
+  };
+
+  void removeLegacyCronJobs(log);
+  scheduleNext();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { storagePathSchema } from '../helper/protocol.js';
+
+const updateSettingsPath = () => path.join(getConfig().dataDir, 'update-settings.json');
+
+// Operating system packages only; NestOS itself is updated from Settings by an admin
+export const updateSettingsSchema = z.object({
+  autoUpdate: z.boolean(),
+  schedule: z.enum(['hourly', 'daily']).nullable()
+});
+
+export const backupSettingsSchema = z.object({
+  enabled: z.boolean(),
+  // The privileged helper writes backups, and only below the storage roots
+  location: storagePathSchema,
+  retention: z.number().int().min(1).max(365)
+});
+
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+export type BackupSettings = z.infer<typeof backupSettingsSchema>;
+
+const DEFAULT_UPDATE_SETTINGS: UpdateSettings = { autoUpdate: false, schedule: null };
+
+const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  enabled: false,
+  location: '/mnt/backups',
+  retention: 30
+};
+
+export async function loadUpdateSettings(): Promise<UpdateSettings> {
+  try {
+    return updateSettingsSchema.parse(
+      JSON.parse(await fs.readFile(updateSettingsPath(), 'utf-8'))
+    );
+  } catch {
+    return DEFAULT_UPDATE_SETTINGS;
+  }
+}
+
+export async function saveUpdateSettings(settings: UpdateSettings): Promise<void> {
+  await fs.mkdir(path.dirname(updateSettingsPath()), { recursive: true });
+  await fs.writeFile(updateSettingsPath(), JSON.stringify(settings, null, 2));
+}
+
+// Missing or unreadable settings fall back to the defaults, with backups off
+export async function loadBackupSettings(): Promise<BackupSettings> {
+  try {
+    return backupSettingsSchema.parse(
+      JSON.parse(await fs.readFile(getConfig().backupSettingsFile, 'utf-8'))
+    );
+  } catch {
+    return DEFAULT_BACKUP_SETTINGS;
+  }
+}
+
+export async function saveBackupSettings(settings: BackupSettings): Promise<void> {
+  const file = getConfig().backupSettingsFile;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(settings, null, 2));
+}
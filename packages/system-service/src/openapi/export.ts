@@ -0,0 +1,21 @@
+import fs from 'fs/promises';
+import { loadConfig } from '../config.js';
+import { createServer } from '../server.js';
+
+// Writes the OpenAPI document the routes describe, without starting the service.
+//
+//   npm run openapi -w @nestos/system-service -- <openapi.json>
+//
+// @nestos/api-client generates its types from the result.
+const [outputPath] = process.argv.slice(2);
+if (!outputPath) {
+  console.error('Usage: export-openapi <openapi.json>');
+  process.exit(1);
+}
+
+const fastify = await createServer(loadConfig(), { https: null, logger: false });
+await fastify.ready();
+
+await fs.writeFile(outputPath, `${JSON.stringify(fastify.swagger(), null, 2)}\n`);
+await fastify.close();
+console.log(`Wrote ${outputPath}`);
@@ -0,0 +1,83 @@
+import { FastifyInstance } from 'fastify';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+import {
+  jsonSchemaTransform,
+  serializerCompiler,
+  validatorCompiler
+} from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SESSION_COOKIE } from '../auth/index.js';
+import { errorResponseSchema } from '../errors/index.js';
+
+export const OPENAPI_ROUTE = '/api/openapi.json';
+export const DOCS_ROUTE = '/api/docs';
+
+const errorSchema = zodToJsonSchema(errorResponseSchema, {
+  target: 'openApi3',
+  $refStrategy: 'none'
+});
+
+// Shared by every route rather than repeated in each
+const errorResponse = {
+  description: 'Error',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+};
+
+/**
+ * Schema for a record another library owns, such as Docker's: the listed
+ * fields are documented and everything else passes through. Typed as `T` so
+ * handlers can return the library's types as they are.
+ */
+export const externalRecord = <T>(shape: z.ZodRawShape): z.ZodType<T> =>
+  z.object(shape).passthrough() as unknown as z.ZodType<T>;
+
+// Every documented route can fail with the uniform error body. A plugin's root route
+// answers with and without the trailing slash; it is documented without it.
+const transform: typeof jsonSchemaTransform = (route) => {
+  const { schema, url: routeUrl } = jsonSchemaTransform(route);
+  const url = routeUrl.length > 1 ? routeUrl.replace(/\/$/, '') : routeUrl;
+  if (schema.hide) {
+    return { schema, url };
+  }
+  return {
+    schema: { ...schema, response: { ...schema.response, default: errorResponse } },
+    url
+  };
+};
+
+/**
+ * Validates requests and responses against the routes' zod schemas and
+ * publishes them as an OpenAPI 3 document, browsable at /api/docs. Must run
+ * before any route is registered.
+ */
+export async function setupOpenApi(fastify: FastifyInstance, version: string): Promise<void> {
+  fastify.setValidatorCompiler(validatorCompiler);
+  fastify.setSerializerCompiler(serializerCompiler);
+
+  await fastify.register(swagger, {
+    openapi: {
+      openapi: '3.0.3',
+      info: {
+        title: 'NestOS System Service',
+        description:
+          'Manages storage, Docker, networking, plugins and system settings of a NestOS device.',
+        version
+      },
+      components: {
+        schemas: { Error: errorSchema },
+        securitySchemes: {
+          session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE },
+          apiToken: { type: 'http', scheme: 'bearer', description: 'nestos_… API token' }
+        }
+      },
+      security: [{ session: [] }, { apiToken: [] }]
+    },
+    transform
+  });
+
+  await fastify.register(swaggerUi, { routePrefix: DOCS_ROUTE });
+
+  fastify.get(OPENAPI_ROUTE, { schema: { hide: true } }, async () => fastify.swagger());
+}
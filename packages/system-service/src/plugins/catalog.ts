@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import axios from 'axios';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { runCommand } from '../utils/executor.js';
+import { UnprocessableError } from '../errors/index.js';
+
+// pluginCatalogUrl and pluginCatalogKey in the config
+const catalogUrl = () => getConfig().pluginCatalogUrl;
+
+// Ed25519 public key (PEM) the catalog signature must verify against
+const trustedKeyPath = () => getConfig().pluginCatalogKey;
+
+const CLONE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Also the directory name under plugins/
+export const pluginIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Invalid plugin ID');
+
+export const catalogEntrySchema = z
+  .object({
+    id: pluginIdSchema,
+    name: z.string(),
+    description: z.string().optional(),
+    // Only https, so git never runs a local transport or helper on the catalog's behalf
+    repository: z.string().url().startsWith('https://'),
+    // Full commit hash the plugin is installed from
+    commit: z
+      .string()
+      .regex(/^[0-9a-f]{40}$/)
+      .optional(),
+    // See computePluginChecksum
+    sha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/)
+      .optional(),
+    // Shown in the control panel's plugin list and launcher
+    version: z.string().optional(),
+    author: z.string().optional(),
+    icon: z.string().optional(),
+    category: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    url: z.string().optional()
+  })
+  .passthrough();
+
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>;
+export type PinnedCatalogEntry = CatalogEntry & { commit: string; sha256: string };
+
+export interface PluginCatalog {
+  plugins: CatalogEntry[];
+  // Why the catalog could not be trusted, if it could not
+  signatureError: string | null;
+}
+
+export class PluginVerificationError extends UnprocessableError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PluginVerificationError';
+  }
+}
+
+export function parsePluginCatalog(content: string): CatalogEntry[] {
+  return z.array(catalogEntrySchema).parse(JSON.parse(content));
+}
+
+async function loadTrustedKey(): Promise<KeyObject | null> {
+  try {
+    return createPublicKey(await fs.readFile(trustedKeyPath(), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// The signature is a detached Ed25519 signature over the exact bytes of plugins.json, base64
+export async function verifyCatalogSignature(
+  content: string,
+  signature: string | null
+): Promise<string | null> {
+  const key = await loadTrustedKey();
+  if (!key) {
+    return `No trusted plugin catalog key is installed at ${trustedKeyPath()}`;
+  }
+  if (!signature) {
+    return 'The plugin catalog is not signed';
+  }
+
+  const valid = verify(
+    null,
+    Buffer.from(content, 'utf-8'),
+    key,
+    Buffer.from(signature.trim(), 'base64')
+  );
+  return valid ? null : 'The plugin catalog signature does not match the trusted key';
+}
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await axios.get(url, {
+    responseType: 'text',
+    // Keep the exact bytes that were signed
+    transformResponse: (data) => data,
+    headers: {
+      'Cache-Control': 'no-cache',
+      'Pragma': 'no-cache'
+    }
+  });
+  return response.data;
+};
+
+export async function fetchPluginCatalog(): Promise<PluginCatalog> {
+  const timestamp = Date.now();
+  const content = await fetchText(`${catalogUrl()}?t=${timestamp}`);
+  const signature = await fetchText(`${catalogUrl()}.sig?t=${timestamp}`).catch((error) => {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  });
+
+  return {
+    plugins: parsePluginCatalog(content),
+    signatureError: await verifyCatalogSignature(content, signature)
+  };
+}
+
+export const isPinned = (entry: CatalogEntry): entry is PinnedCatalogEntry =>
+  !!entry.commit && !!entry.sha256;
+
+/**
+ * Finds a plugin in the catalog, which must be signed by the trusted key and
+ * pin the plugin to a commit and checksum. Returns null for unknown plugins and
+ * throws a `PluginVerificationError` for anything that cannot be trusted.
+ */
+export async function getVerifiedCatalogEntry(id: string): Promise<PinnedCatalogEntry | null> {
+  const { plugins, signatureError } = await fetchPluginCatalog();
+  if (signatureError) {
+    throw new PluginVerificationError(signatureError);
+  }
+
+  const entry = plugins.find((plugin) => plugin.id === id);
+  if (!entry) {
+    return null;
+  }
+  if (!isPinned(entry)) {
+    throw new PluginVerificationError(
+      `The plugin catalog does not pin ${entry.name} to a commit and checksum`
+    );
+  }
+  return entry;
+}
+
+/**
+ * SHA-256 over every file of a commit, as checked out in `dir`: one
+ * `<mode> <path>\0<sha256 of the content>\n` line per file, sorted by path.
+ * Symlinks hash their target and submodules their commit.
+ */
+export async function computePluginChecksum(dir: string, commit: string): Promise<string> {
+  const { stdout } = await runCommand('git', ['-C', dir, 'ls-tree', '-r', '-z', commit]);
+
+  const entries = stdout
+    .split('\0')
+    .filter(Boolean)
+    .map((line) => {
+      const tab = line.indexOf('\t');
+      const [mode, , object] = line.slice(0, tab).split(' ');
+      return { mode, object, file: line.slice(tab + 1) };
+    })
+    .sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0));
+
+  const hash = createHash('sha256');
+  for (const { mode, object, file } of entries) {
+    const filePath = path.join(dir, file);
+    let content: Buffer;
+    if (mode === '160000') {
+      content = Buffer.from(object);
+    } else if (mode === '120000') {
+      content = Buffer.from(await fs.readlink(filePath));
+    } else {
+      content = await fs.readFile(filePath);
+    }
+    hash.update(`${mode} ${file}\0${createHash('sha256').update(content).digest('hex')}\n`);
+  }
+  return hash.digest('hex');
+}
+
+// Clones a repository, checks out one commit (HEAD by default) and returns its full hash
+export async function checkoutCommit(
+  repository: string,
+  dir: string,
+  commit?: string
+): Promise<string> {
+  await runCommand('git', ['clone', '--quiet', '--no-checkout', '--', repository, dir], {
+    timeoutMs: CLONE_TIMEOUT_MS
+  });
+  await runCommand('git', ['-C', dir, 'checkout', '--quiet', '--detach', commit ?? 'HEAD']);
+
+  const { stdout } = await runCommand('git', ['-C', dir, 'rev-parse', 'HEAD']);
+  return stdout.trim();
+}
+
+/**
+ * Clones a pinned plugin into `dir` and checks that the checkout matches the
+ * catalog. Throws a `PluginVerificationError` (after removing `dir`) if not.
+ */
+export async function checkoutPinnedPlugin(entry: PinnedCatalogEntry, dir: string): Promise<void> {
+  let head: string;
+  try {
+    head = await checkoutCommit(entry.repository, dir, entry.commit);
+  } catch (error) {
+    await fs.rm(dir, { recursive: true, force: true });
+    throw new PluginVerificationError(
+      `Could not check out ${entry.name} at commit ${entry.commit}: ${error}`
+    );
+  }
+
+  const checksum = head === entry.commit ? await computePluginChecksum(dir, head) : null;
+  if (checksum !== entry.sha256) {
+    await fs.rm(dir, { recursive: true, force: true });
+    throw new PluginVerificationError(
+      `${entry.name} does not match the checksum in the plugin catalog`
+    );
+  }
+}
@@ -0,0 +1,342 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import {
+  findSecretRefs,
+  getSecretValue,
+  hasSecretRef,
+  isSensitiveName,
+  SECRET_MASK,
+  secretRef,
+  setSecret
+} from '../secrets/index.js';
+import { ValidationError } from '../errors/index.js';
+
+// Optional file in a plugin's repository describing its settings declaratively.
+// The control panel renders a form from it instead of running the plugin's ui/config.tsx.
+export const CONFIG_SCHEMA_FILE = 'config.schema.json';
+
+export type PluginConfig = Record<string, unknown>;
+
+// Settings end up as NAME=value lines in the plugin's .env file
+const settingNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid setting name');
+const settingValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const fieldBase = {
+  title: z.string().optional(),
+  description: z.string().optional(),
+  // Only shown, validated and saved while each listed setting has (one of) the given value(s)
+  visibleWhen: z
+    .record(settingNameSchema, z.union([settingValueSchema, z.array(settingValueSchema)]))
+    .optional()
+};
+
+const stringFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal('string'),
+  default: z.string().optional(),
+  enum: z.array(z.string()).nonempty().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+  pattern: z
+    .string()
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Invalid pattern')
+    .optional(),
+  // Rendered as a password field and never sent back to the browser
+  secret: z.boolean().optional()
+});
+
+const numberFieldSchema = z.object({
+  ...fieldBase,
+  type: z.enum(['number', 'integer']),
+  default: z.number().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional()
+});
+
+const booleanFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal('boolean'),
+  default: z.boolean().optional()
+});
+
+const configFieldSchema = z.union([stringFieldSchema, numberFieldSchema, booleanFieldSchema]);
+
+export const pluginConfigSchemaSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  type: z.literal('object').default('object'),
+  properties: z.record(settingNameSchema, configFieldSchema),
+  required: z.array(settingNameSchema).default([])
+});
+
+// Settings as submitted or stored; values are checked against config.schema.json where one exists
+export const pluginConfigValuesSchema = z.record(z.unknown());
+
+export type ConfigField = z.infer<typeof configFieldSchema>;
+export type PluginConfigSchema = z.infer<typeof pluginConfigSchemaSchema>;
+
+export interface ConfigFieldError {
+  field: string;
+  message: string;
+}
+
+export function parsePluginConfigSchema(raw: unknown): PluginConfigSchema {
+  const result = pluginConfigSchemaSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid ${CONFIG_SCHEMA_FILE}: ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+export async function loadPluginConfigSchema(
+  pluginDir: string
+): Promise<PluginConfigSchema | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(pluginDir, CONFIG_SCHEMA_FILE), 'utf-8');
+  } catch {
+    return null;
+  }
+  return parsePluginConfigSchema(JSON.parse(content));
+}
+
+export async function loadPluginConfig(pluginDir: string): Promise<PluginConfig> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(pluginDir, 'config.json'), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Writes the plugin's config.json and the .env file its docker-compose.yml reads.
+ * Values must not contain line breaks, which would add lines to the .env file.
+ */
+export async function savePluginConfig(pluginDir: string, config: PluginConfig): Promise<void> {
+  for (const [key, value] of Object.entries(config)) {
+    if (!settingNameSchema.safeParse(key).success) {
+      throw new ValidationError(`Invalid setting name: ${key}`);
+    }
+    if (/[\r\n]/.test(String(value))) {
+      throw new ValidationError(`${key} must not contain line breaks`);
+    }
+  }
+
+  await fs.mkdir(pluginDir, { recursive: true });
+  await fs.writeFile(path.join(pluginDir, 'config.json'), JSON.stringify(config, null, 2));
+  const envContent = Object.entries(config)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+  await fs.writeFile(path.join(pluginDir, '.env'), envContent);
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+export function isFieldVisible(field: ConfigField, config: PluginConfig): boolean {
+  return Object.entries(field.visibleWhen ?? {}).every(([name, expected]) =>
+    (Array.isArray(expected) ? expected : [expected]).some((value) => config[name] === value)
+  );
+}
+
+// Stored configs and .env files hold strings, so numbers and booleans are accepted in that form too
+function coerceValue(field: ConfigField, value: unknown): unknown {
+  if (field.type === 'boolean' && typeof value === 'string') {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if ((field.type === 'number' || field.type === 'integer') && typeof value === 'string') {
+    return value.trim() === '' ? value : Number(value);
+  }
+  return value;
+}
+
+function checkValue(field: ConfigField, value: unknown): string | null {
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return 'must be a whole number';
+      }
+      if (field.minimum !== undefined && value < field.minimum) {
+        return `must be at least ${field.minimum}`;
+      }
+      if (field.maximum !== undefined && value > field.maximum) {
+        return `must be at most ${field.maximum}`;
+      }
+      return null;
+    case 'string':
+      if (typeof value !== 'string') {
+        return 'must be text';
+      }
+      if (/[\r\n]/.test(value)) {
+        return 'must not contain line breaks';
+      }
+      if (field.enum && !field.enum.includes(value)) {
+        return `must be one of ${field.enum.join(', ')}`;
+      }
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        return `must be at least ${field.minLength} characters`;
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return `must be at most ${field.maxLength} characters`;
+      }
+      if (field.pattern && !new RegExp(field.pattern).test(value)) {
+        return 'has an invalid format';
+      }
+      return null;
+  }
+}
+
+/**
+ * Validates submitted settings against a plugin's schema. Defaults fill in
+ * missing settings, secrets left empty keep their stored value, and hidden
+ * settings are dropped. Returns the config to save, or the problems found.
+ */
+export function validatePluginConfig(
+  schema: PluginConfigSchema,
+  input: PluginConfig,
+  stored: PluginConfig = {}
+): { config: PluginConfig; errors: ConfigFieldError[] } {
+  const errors: ConfigFieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+      errors.push({ field: key, message: `Unknown setting ${key}` });
+    }
+  }
+
+  // Resolve every value first so visibility conditions see the submitted config
+  const values: PluginConfig = {};
+  for (const [key, field] of Object.entries(schema.properties)) {
+    let value = input[key];
+    if (isEmpty(value) && field.type === 'string' && field.secret) {
+      value = stored[key];
+    }
+    values[key] = isEmpty(value) ? field.default : coerceValue(field, value);
+  }
+
+  const config: PluginConfig = {};
+  for (const [key, field] of Object.entries(schema.properties)) {
+    if (!isFieldVisible(field, values)) {
+      continue;
+    }
+
+    const label = field.title ?? key;
+    const value = values[key];
+    if (isEmpty(value)) {
+      if (schema.required.includes(key)) {
+        errors.push({ field: key, message: `${label} is required` });
+      }
+      continue;
+    }
+
+    // References are checked against the secrets store when the config is saved
+    const problem = typeof value === 'string' && hasSecretRef(value)
+      ? null
+      : checkValue(field, value);
+    if (problem) {
+      errors.push({ field: key, message: `${label} ${problem}` });
+      continue;
+    }
+    config[key] = value;
+  }
+
+  return { config, errors };
+}
+
+// What routes throw when submitted settings do not pass validatePluginConfig
+export const invalidConfigurationError = (errors: ConfigFieldError[]): ValidationError =>
+  new ValidationError(`Invalid configuration: ${errors.map((e) => e.message).join('; ')}`, {
+    issues: errors.map(({ field, message }) => ({ path: field, message }))
+  });
+
+/**
+ * Moves plaintext secrets into the secrets store as `plugin.<id>.<SETTING>` and
+ * leaves a `${secret:…}` reference in their place, so config.json and .env never
+ * hold them. Without a schema, settings with secret-looking names are moved.
+ * Throws a `SecretNotFoundError` when a setting references a missing secret.
+ */
+export async function moveSecretsToStore(
+  pluginId: string,
+  config: PluginConfig,
+  schema: PluginConfigSchema | null
+): Promise<PluginConfig> {
+  const result: PluginConfig = { ...config };
+
+  for (const [key, value] of Object.entries(config)) {
+    if (typeof value !== 'string' || value === '') {
+      continue;
+    }
+
+    if (hasSecretRef(value)) {
+      for (const name of findSecretRefs(value)) {
+        await getSecretValue(name);
+      }
+      continue;
+    }
+
+    const field = schema?.properties[key];
+    const isSecret = schema ? field?.type === 'string' && field.secret : isSensitiveName(key);
+    if (isSecret) {
+      const name = `plugin.${pluginId}.${key}`;
+      await setSecret(name, value, `${pluginId}: ${field?.title ?? key}`);
+      result[key] = secretRef(name);
+    }
+  }
+
+  return result;
+}
+
+// Secret settings are never returned by the API once stored
+export function redactSecrets(schema: PluginConfigSchema, config: PluginConfig): PluginConfig {
+  return Object.fromEntries(
+    Object.entries(config).filter(([key]) => {
+      const field = schema.properties[key];
+      return !(field?.type === 'string' && field.secret);
+    })
+  );
+}
+
+/**
+ * For plugins without a schema: settings with secret-looking names that still
+ * hold a plain value, as saved before the secrets store existed, are masked.
+ */
+export function maskPlainSecrets(config: PluginConfig): PluginConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [
+      key,
+      isSensitiveName(key) && typeof value === 'string' && value !== '' && !hasSecretRef(value)
+        ? SECRET_MASK
+        : value
+    ])
+  );
+}
+
+// Masked values sent back unchanged keep what is stored
+export function restoreMaskedSecrets(config: PluginConfig, stored: PluginConfig): PluginConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [
+      key,
+      value === SECRET_MASK && key in stored ? stored[key] : value
+    ])
+  );
+}
+
+export function listStoredSecrets(schema: PluginConfigSchema, config: PluginConfig): string[] {
+  return Object.entries(schema.properties)
+    .filter(([key, field]) => field.type === 'string' && field.secret && !isEmpty(config[key]))
+    .map(([key]) => key);
+}
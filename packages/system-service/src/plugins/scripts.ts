@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { hasSecretRef, resolveSecretRefs } from '../secrets/index.js';
+import { CommandResult, runScript } from '../utils/executor.js';
+import { loadPluginConfig } from './config.js';
+
+export type PluginScript = 'install.sh' | 'uninstall.sh' | 'start.sh' | 'apply-config.sh';
+
+// Installing pulls images, which can take a while on a slow connection
+const PLUGIN_SCRIPT_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * The plugin's settings that refer to secrets, with the secrets filled in.
+ * `docker compose` prefers the environment over .env, so scripts that run it
+ * get the values while config.json and .env keep holding references.
+ */
+async function resolvedSecretSettings(pluginDir: string): Promise<Record<string, string>> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(await loadPluginConfig(pluginDir))) {
+    if (typeof value === 'string' && hasSecretRef(value)) {
+      env[key] = await resolveSecretRefs(value);
+    }
+  }
+  return env;
+}
+
+/**
+ * Runs one of a plugin's scripts in the plugin's directory as the service's own
+ * user, which reaches Docker through the docker group. Resolves with null when
+ * the plugin has no such script and rejects with a `CommandError` when it fails.
+ */
+export async function runPluginScript(
+  pluginDir: string,
+  script: PluginScript
+): Promise<CommandResult | null> {
+  const scriptPath = path.join(pluginDir, script);
+  const exists = await fs.access(scriptPath).then(() => true).catch(() => false);
+  if (!exists) {
+    return null;
+  }
+
+  return runScript(scriptPath, {
+    cwd: pluginDir,
+    env: await resolvedSecretSettings(pluginDir),
+    timeoutMs: PLUGIN_SCRIPT_TIMEOUT_MS
+  });
+}
@@ -0,0 +1,46 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createPrivateKey, sign } from 'crypto';
+import {
+  checkoutCommit,
+  computePluginChecksum,
+  parsePluginCatalog,
+  verifyCatalogSignature
+} from './catalog.js';
+
+// Pins every plugin in a catalog to a commit and checksum and signs the result.
+// Plugins without a commit are pinned to their repository's current HEAD.
+//
+//   npm run sign:plugins -w @nestos/system-service -- <plugins.json> <private-key.pem>
+//
+// Writes the updated catalog and <plugins.json>.sig next to it.
+const [catalogPath, keyPath] = process.argv.slice(2);
+if (!catalogPath || !keyPath) {
+  console.error('Usage: sign-catalog <plugins.json> <private-key.pem>');
+  process.exit(1);
+}
+
+const key = createPrivateKey(await fs.readFile(keyPath, 'utf-8'));
+const plugins = parsePluginCatalog(await fs.readFile(catalogPath, 'utf-8'));
+const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-catalog-'));
+
+try {
+  for (const plugin of plugins) {
+    const dir = path.join(workDir, plugin.id);
+    const commit = await checkoutCommit(plugin.repository, dir, plugin.commit);
+    plugin.commit = commit;
+    plugin.sha256 = await computePluginChecksum(dir, commit);
+    console.log(`${plugin.id}: ${commit} ${plugin.sha256}`);
+  }
+} finally {
+  await fs.rm(workDir, { recursive: true, force: true });
+}
+
+const content = `${JSON.stringify(plugins, null, 2)}\n`;
+const signature = sign(null, Buffer.from(content, 'utf-8'), key).toString('base64');
+await fs.writeFile(catalogPath, content);
+await fs.writeFile(`${catalogPath}.sig`, `${signature}\n`);
+
+const problem = await verifyCatalogSignature(content, signature);
+console.log(problem ? `Signed, but this service would not accept it: ${problem}` : 'Signed');
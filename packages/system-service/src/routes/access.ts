@@ -0,0 +1,95 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  applyAccessSettings,
+  getReachableAddresses,
+  isAddressAllowed,
+  isBindableAddress
+} from '../access/index.js';
+import { accessSettingsSchema, loadAccessSettings, saveAccessSettings } from '../access/settings.js';
+import { isServingHttps } from '../tls/index.js';
+import { RouteOptions } from '../config.js';
+import { ValidationError } from '../errors/index.js';
+
+const settingsUpdateSchema = accessSettingsSchema.partial();
+
+const reachableAddressSchema = z.object({
+  interface: z.string(),
+  address: z.string(),
+  family: z.enum(['IPv4', 'IPv6']),
+  scope: z.enum(['loopback', 'lan', 'internet']),
+  listening: z.boolean(),
+  blocked: z.boolean(),
+  url: z.string()
+});
+
+const accessOverviewSchema = z.object({
+  settings: accessSettingsSchema,
+  active: z.object({
+    bindAddress: z.string(),
+    port: z.number(),
+    interfaces: z.array(reachableAddressSchema)
+  }),
+  clientAddress: z.string().nullable()
+});
+
+export const accessRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Remote access'];
+
+  // Settings as stored, where the running server listens and who is asking
+  fastify.get('/', {
+    schema: {
+      summary: 'Get the remote access policy and where the API is reachable',
+      tags,
+      response: { 200: accessOverviewSchema }
+    }
+  }, async (request) => {
+    const settings = await loadAccessSettings();
+    const address = fastify.server.address();
+    const boundAddress = address && typeof address === 'object' ? address.address : '0.0.0.0';
+    const port = address && typeof address === 'object' ? address.port : 0;
+
+    return {
+      settings,
+      active: {
+        bindAddress: boundAddress,
+        port,
+        interfaces: await getReachableAddresses(
+          boundAddress,
+          port,
+          isServingHttps(fastify) ? 'https' : 'http'
+        )
+      },
+      clientAddress: request.socket.remoteAddress ?? null
+    };
+  });
+
+  // Allow and deny lists apply at once; a new bind address on the next start
+  fastify.put('/settings', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Update the remote access policy',
+      tags,
+      body: settingsUpdateSchema,
+      response: {
+        200: z.object({ settings: accessSettingsSchema, restartRequired: z.boolean() })
+      }
+    }
+  }, async (request) => {
+    const update = request.body;
+    const settings = { ...(await loadAccessSettings()), ...update };
+
+    if (!isBindableAddress(settings.bindAddress)) {
+      throw new ValidationError(`${settings.bindAddress} is not an address of this device`);
+    }
+
+    const clientAddress = request.socket.remoteAddress ?? '';
+    if (!isAddressAllowed(settings, clientAddress)) {
+      throw new ValidationError(`These settings would block your own address (${clientAddress})`);
+    }
+
+    await saveAccessSettings(settings);
+    applyAccessSettings(settings);
+    return { settings, restartRequired: update.bindAddress !== undefined };
+  });
+};
@@ -1,57 +1,56 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyRequest } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import fs from 'fs/promises';
-import path from 'path';
+import { appearancePreferencesSchema, findUserById, updateUser } from '../auth/users.js';
+import { RouteOptions } from '../config.js';
+import { NotFoundError } from '../errors/index.js';
 
-const appearanceSettingsPath = path.join(process.cwd(), 'data', 'appearance.json');
-
-const AppearanceSchema = z.object({
-    background: z.string().default('abstract-dark'),
-    useFrostedGlass: z.boolean().default(false)
-});
-
-type AppearanceSettings = z.infer<typeof AppearanceSchema>;
-
-const appearanceRoutes: FastifyPluginAsync = async (fastify) => {
-    // Ensure settings file exists
-    try {
-        await fs.access(appearanceSettingsPath);
-    } catch {
-        await fs.mkdir(path.dirname(appearanceSettingsPath), { recursive: true });
-        await fs.writeFile(appearanceSettingsPath, JSON.stringify({ background: 'abstract-dark', useFrostedGlass: false }));
+// Appearance is stored per user alongside the rest of their preferences
+const getCurrentUser = async (request: FastifyRequest) => {
+    const user = request.user ? await findUserById(request.user.id) : undefined;
+    if (!user) {
+        throw new NotFoundError('User not found');
     }
+    return user;
+};
+
+const appearanceRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+    const tags = ['Appearance'];
 
-    // Get appearance settings
-    fastify.get('/appearance', async () => {
-        try {
-            const data = await fs.readFile(appearanceSettingsPath, 'utf-8');
-            return AppearanceSchema.parse(JSON.parse(data));
-        } catch (error) {
-            const defaultSettings: AppearanceSettings = { background: 'abstract-dark', useFrostedGlass: false };
-            await fs.writeFile(appearanceSettingsPath, JSON.stringify(defaultSettings));
-            return defaultSettings;
+    // Get appearance settings for the signed-in user
+    fastify.get('/appearance', {
+        schema: {
+            summary: 'Get the signed-in user\'s appearance settings',
+            tags,
+            response: { 200: appearancePreferencesSchema }
         }
+    }, async (request) => {
+        const user = await getCurrentUser(request);
+        return user.preferences.appearance;
     });
 
-    // Update appearance settings
+    // Update appearance settings for the signed-in user
     fastify.post('/appearance', {
+        config: { role: 'viewer' },
         schema: {
-            body: {
-                type: 'object',
-                required: ['background', 'useFrostedGlass'],
-                properties: {
-                    background: { type: 'string' },
-                    useFrostedGlass: { type: 'boolean' }
-                }
-            }
+            summary: 'Update the signed-in user\'s appearance settings',
+            tags,
+            body: z.object({
+                background: z.string(),
+                useFrostedGlass: z.boolean()
+            }),
+            response: { 200: z.object({ success: z.boolean() }) }
         },
         handler: async (request) => {
-            const settings = AppearanceSchema.parse(request.body);
-            await fs.mkdir(path.join(process.cwd(), 'data'), { recursive: true });
-            await fs.writeFile(appearanceSettingsPath, JSON.stringify(settings, null, 2));
+            const settings = request.body;
+            const user = await getCurrentUser(request);
+            await updateUser(user.id, (current) => ({
+                ...current,
+                preferences: { ...current.preferences, appearance: settings }
+            }));
             return { success: true };
         },
     });
 };
 
-export default appearanceRoutes;
\ No newline at end of file
+export default appearanceRoutes;
@@ -0,0 +1,53 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { queryAuditLog } from '../audit/index.js';
+import { RouteOptions } from '../config.js';
+
+const auditQuerySchema = z.object({
+  actor: z.string().optional(),
+  method: z.string().optional(),
+  outcome: z.enum(['success', 'failure', 'denied']).optional(),
+  search: z.string().optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const auditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  actor: z.object({
+    userId: z.string(),
+    username: z.string(),
+    apiToken: z.object({ id: z.string(), name: z.string() }).nullable()
+  }).nullable(),
+  ip: z.string(),
+  method: z.string(),
+  route: z.string(),
+  url: z.string(),
+  params: z.unknown(),
+  query: z.unknown(),
+  body: z.unknown(),
+  statusCode: z.number(),
+  outcome: z.enum(['success', 'failure', 'denied']),
+  error: z.string().nullable(),
+  durationMs: z.number()
+});
+
+export const auditRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  // Search the audit log of state-changing requests, newest first; not open to API tokens
+  fastify.get('/', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Search the audit log',
+      tags: ['Audit'],
+      querystring: auditQuerySchema,
+      response: {
+        200: z.object({ total: z.number(), entries: z.array(auditEntrySchema) })
+      }
+    }
+  }, async (request) => {
+    return queryAuditLog(request.query);
+  });
+};
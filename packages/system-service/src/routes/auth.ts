@@ -0,0 +1,335 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { getRequestToken, SESSION_COOKIE } from '../auth/index.js';
+import { verifyPassword } from '../auth/passwords.js';
+import { createSession, destroySession } from '../auth/sessions.js';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getTotpUri,
+  hashRecoveryCode,
+  verifyTotp
+} from '../auth/totp.js';
+import {
+  completeLoginChallenge,
+  createLoginChallenge,
+  resolveLoginChallenge,
+  verifySecondFactor
+} from '../auth/twoFactor.js';
+import {
+  createFirstUser,
+  findUserById,
+  findUserByUsername,
+  loadUsers,
+  publicUserSchema,
+  toPublicUser,
+  updateUser,
+  User
+} from '../auth/users.js';
+import { RouteOptions } from '../config.js';
+import { AuthenticationError, ConflictError, PermissionError, ValidationError } from '../errors/index.js';
+
+const credentialsSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1)
+});
+
+const setupSchema = z.object({
+  username: z.string().trim().min(1).max(64),
+  password: z.string().min(8),
+  displayName: z.string().trim().max(64).optional()
+});
+
+const secondFactorSchema = z.object({
+  challenge: z.string().min(1),
+  code: z.string().trim().min(1)
+});
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1)
+});
+
+const passwordSchema = z.object({
+  password: z.string().min(1)
+});
+
+const sessionSchema = z.object({
+  user: publicUserSchema,
+  // Also set as the session cookie
+  token: z.string(),
+  expiresAt: z.number().describe('Milliseconds since the epoch')
+});
+
+const challengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  // Exchanged for a session at /api/auth/login/two-factor
+  challenge: z.string()
+});
+
+const recoveryCodesSchema = z.object({ recoveryCodes: z.array(z.string()) });
+
+const getCurrentUser = async (request: FastifyRequest): Promise<User> => {
+  const user = request.user ? await findUserById(request.user.id) : undefined;
+  if (!user) {
+    throw new AuthenticationError('Authentication required');
+  }
+  return user;
+};
+
+const requirePassword = async (user: User, password: string) => {
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    throw new PermissionError('Password is incorrect');
+  }
+};
+
+const startSession = async (request: FastifyRequest, reply: FastifyReply, user: User) => {
+  const { token, expiresAt } = await createSession(user.id);
+
+  reply.setCookie(SESSION_COOKIE, token, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.protocol === 'https',
+    expires: new Date(expiresAt)
+  });
+
+  return { user: toPublicUser(user), token, expiresAt };
+};
+
+export const authRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Authentication'];
+
+  // Tell the control panel whether the first account still has to be created
+  fastify.get('/setup', {
+    schema: {
+      summary: 'Check whether the first account still has to be created',
+      tags,
+      security: [],
+      response: { 200: z.object({ setupRequired: z.boolean() }) }
+    }
+  }, async () => {
+    const users = await loadUsers();
+    return { setupRequired: users.length === 0 };
+  });
+
+  // Create the initial account; only allowed while no users exist
+  fastify.post('/setup', {
+    schema: {
+      summary: 'Create the first (admin) account and sign in',
+      tags,
+      security: [],
+      body: setupSchema,
+      response: { 200: sessionSchema }
+    }
+  }, async (request, reply) => {
+    const { username, password, displayName } = request.body;
+    const user = await createFirstUser(username, password, displayName);
+    return startSession(request, reply, user);
+  });
+
+  fastify.post('/login', {
+    config: { rateLimit: true },
+    schema: {
+      summary: 'Sign in with a username and password',
+      description: 'Accounts with two-factor authentication get a challenge instead of a session.',
+      tags,
+      security: [],
+      body: credentialsSchema,
+      response: { 200: z.union([sessionSchema, challengeSchema]) }
+    }
+  }, async (request, reply) => {
+    const { username, password } = request.body;
+
+    const user = await findUserByUsername(username);
+    const valid = user ? await verifyPassword(password, user.passwordHash) : false;
+
+    if (!user || !valid) {
+      throw new AuthenticationError('Invalid username or password');
+    }
+
+    // Accounts with two-factor enabled get a short-lived challenge instead of a session
+    if (user.twoFactor?.enabled) {
+      return { twoFactorRequired: true as const, challenge: createLoginChallenge(user.id) };
+    }
+
+    return startSession(request, reply, user);
+  });
+
+  // Second login step: exchange a challenge and an authenticator or recovery code for a session
+  fastify.post('/login/two-factor', {
+    config: { rateLimit: true },
+    schema: {
+      summary: 'Finish signing in with an authenticator or recovery code',
+      tags,
+      security: [],
+      body: secondFactorSchema,
+      response: { 200: sessionSchema }
+    }
+  }, async (request, reply) => {
+    const { challenge, code } = request.body;
+
+    const userId = resolveLoginChallenge(challenge);
+    if (!userId) {
+      throw new AuthenticationError('Sign-in expired, please enter your password again');
+    }
+
+    const user = await findUserById(userId);
+    if (!user || !(await verifySecondFactor(user, code))) {
+      throw new AuthenticationError('Invalid authentication code');
+    }
+
+    completeLoginChallenge(challenge);
+    return startSession(request, reply, user);
+  });
+
+  fastify.post('/logout', {
+    config: { role: 'viewer' },
+    schema: {
+      summary: 'End the current session',
+      tags,
+      response: { 200: z.object({ status: z.literal('logged_out') }) }
+    }
+  }, async (request, reply) => {
+    const token = getRequestToken(request);
+    if (token) {
+      await destroySession(token);
+    }
+
+    reply.clearCookie(SESSION_COOKIE, { path: '/' });
+    return { status: 'logged_out' as const };
+  });
+
+  // Return the account behind the current session
+  fastify.get('/session', {
+    schema: {
+      summary: 'Get the signed-in account',
+      tags,
+      response: { 200: z.object({ user: publicUserSchema.nullable() }) }
+    }
+  }, async (request) => {
+    return { user: request.user };
+  });
+
+  fastify.get('/two-factor', {
+    schema: {
+      summary: 'Get the two-factor status of the signed-in account',
+      tags,
+      response: {
+        200: z.object({ enabled: z.boolean(), recoveryCodesRemaining: z.number() })
+      }
+    }
+  }, async (request) => {
+    const user = await getCurrentUser(request);
+    return {
+      enabled: Boolean(user.twoFactor?.enabled),
+      recoveryCodesRemaining: user.twoFactor?.enabled ? user.twoFactor.recoveryCodes.length : 0
+    };
+  });
+
+  // Start enrollment: generate a secret the user scans into their authenticator app
+  fastify.post('/two-factor/setup', {
+    config: { role: 'viewer', sessionOnly: true },
+    schema: {
+      summary: 'Start two-factor enrollment',
+      tags,
+      response: { 200: z.object({ secret: z.string(), uri: z.string() }) }
+    }
+  }, async (request) => {
+    const user = await getCurrentUser(request);
+    if (user.twoFactor?.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await updateUser(user.id, (current) => ({
+      ...current,
+      twoFactor: { enabled: false, secret, recoveryCodes: [], lastUsedStep: 0 }
+    }));
+
+    return { secret, uri: getTotpUri(secret, user.username) };
+  });
+
+  // Finish enrollment by proving the authenticator produces valid codes
+  fastify.post('/two-factor/enable', {
+    config: { role: 'viewer', sessionOnly: true },
+    schema: {
+      summary: 'Finish two-factor enrollment',
+      tags,
+      body: codeSchema,
+      response: { 200: recoveryCodesSchema }
+    }
+  }, async (request) => {
+    const { code } = request.body;
+    const user = await getCurrentUser(request);
+
+    if (!user.twoFactor || user.twoFactor.enabled) {
+      throw new ConflictError('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(user.twoFactor.secret, code);
+    if (step === null) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await updateUser(user.id, (current) => ({
+      ...current,
+      twoFactor: {
+        enabled: true,
+        secret: user.twoFactor?.secret ?? '',
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        lastUsedStep: step
+      }
+    }));
+
+    return { recoveryCodes };
+  });
+
+  // Replace the recovery codes, invalidating any the user still has
+  fastify.post('/two-factor/recovery-codes', {
+    config: { role: 'viewer', sessionOnly: true, rateLimit: true },
+    schema: {
+      summary: 'Replace the recovery codes',
+      tags,
+      body: passwordSchema,
+      response: { 200: recoveryCodesSchema }
+    }
+  }, async (request) => {
+    const { password } = request.body;
+    const user = await getCurrentUser(request);
+    await requirePassword(user, password);
+
+    if (!user.twoFactor?.enabled) {
+      throw new ConflictError('Two-factor authentication is not enabled');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await updateUser(user.id, (current) => ({
+      ...current,
+      twoFactor: current.twoFactor && {
+        ...current.twoFactor,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      }
+    }));
+
+    return { recoveryCodes };
+  });
+
+  fastify.post('/two-factor/disable', {
+    config: { role: 'viewer', sessionOnly: true, rateLimit: true },
+    schema: {
+      summary: 'Turn off two-factor authentication',
+      tags,
+      body: passwordSchema,
+      response: { 200: z.object({ status: z.literal('disabled') }) }
+    }
+  }, async (request) => {
+    const { password } = request.body;
+    const user = await getCurrentUser(request);
+    await requirePassword(user, password);
+
+    await updateUser(user.id, (current) => ({ ...current, twoFactor: null }));
+    return { status: 'disabled' as const };
+  });
+};
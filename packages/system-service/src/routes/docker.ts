@@ -1,25 +1,76 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import Docker from 'dockerode';
 import { existsSync } from 'fs';
+import { Readable } from 'stream';
+import { RouteOptions } from '../config.js';
+import {
+  findSecretRefs,
+  isSensitiveName,
+  resolveSecretRefs,
+  SECRET_MASK
+} from '../secrets/index.js';
+import { NotFoundError, ValidationError, withContext } from '../errors/index.js';
+import { externalRecord } from '../openapi/index.js';
+import { formatLogLines, logOptionsSchema, readContainerLogs } from '../docker/logs.js';
+import { createExecTerminal, execOptionsSchema } from '../docker/exec.js';
+import { registerTerminalSession } from '../terminal/sessions.js';
+import {
+  cancelImagePull,
+  getImagePull,
+  listImagePulls,
+  pullJobSchema,
+  startImagePull
+} from '../docker/pulls.js';
+
+const tags = ['Docker'];
 
-const docker = new Docker({
-  socketPath: '/var/run/docker.sock',
-  // Use the host's Docker daemon
-  host: undefined,
-  port: undefined
+// Stats response schema
+const statsResponseSchema = z.object({
+  stats: z.array(z.object({
+    name: z.string(),
+    cpu: z.string(),
+    memory: z.string(),
+    network: z.string(),
+    disk: z.string()
+  }))
 });
 
-// Stats response schema
-// const statsResponseSchema = z.object({
-//   stats: z.array(z.object({
-//     name: z.string(),
-//     cpu: z.string(),
-//     memory: z.string(),
-//     network: z.string(),
-//     disk: z.string()
-//   }))
-// });
+const containerParamsSchema = z.object({ id: z.string() });
+
+const containerSummarySchema = externalRecord<Docker.ContainerInfo>({
+  Id: z.string(),
+  Names: z.array(z.string()),
+  Image: z.string(),
+  Command: z.string(),
+  State: z.string(),
+  Status: z.string(),
+  Ports: z.array(z.object({
+    IP: z.string().optional(),
+    PrivatePort: z.number(),
+    PublicPort: z.number().optional(),
+    Type: z.string()
+  })),
+  Labels: z.record(z.string())
+}).describe('ContainerSummary');
+
+const containerInspectSchema = externalRecord<Docker.ContainerInspectInfo>({
+  Id: z.string(),
+  Name: z.string(),
+  Created: z.string(),
+  State: z.record(z.unknown()),
+  // Env values from secrets are shown as their `${secret:NAME}` reference or masked
+  Config: z.record(z.unknown()),
+  HostConfig: z.record(z.unknown()),
+  NetworkSettings: z.record(z.unknown())
+}).describe('ContainerInspect');
+
+const imageSummarySchema = externalRecord<Docker.ImageInfo>({
+  Id: z.string(),
+  RepoTags: z.array(z.string()).nullable(),
+  Created: z.number(),
+  Size: z.number()
+}).describe('ImageSummary');
 
 function resolveVolumePath(path: string): string {
   // Check if we're running inside a container by checking /.dockerenv
@@ -95,32 +146,13 @@ const containerSchema = z.object({
 });
 
 // Add Docker stats route
-const plugin: FastifyPluginAsync = async (fastify) => {
+const plugin: FastifyPluginAsyncZod<{ docker: Docker }> = async (fastify, { docker }) => {
   // Get Docker stats
   fastify.get('/stats', {
     schema: {
-      response: {
-        200: {
-          type: 'object',
-          properties: {
-            stats: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string' },
-                  cpu: { type: 'string' },
-                  memory: { type: 'string' },
-                  network: { type: 'string' },
-                  disk: { type: 'string' }
-                },
-                required: ['name', 'cpu', 'memory', 'network', 'disk']
-              }
-            }
-          },
-          required: ['stats']
-        }
-      }
+      summary: 'Get resource usage of running containers',
+      tags,
+      response: { 200: statsResponseSchema }
     }
   }, async () => {
     try {
@@ -145,8 +177,7 @@ const plugin: FastifyPluginAsync = async (fastify) => {
 
       return { stats };
     } catch (error) {
-      console.error('Error fetching Docker stats:', error);
-      throw new Error('Failed to fetch Docker stats');
+      throw withContext(error, 'Failed to fetch Docker stats');
     }
   });
 
@@ -218,6 +249,89 @@ const plugin: FastifyPluginAsync = async (fastify) => {
   }
 };
 
+type ContainerRequest = z.infer<typeof containerSchema>;
+
+// Maps env vars created from `${secret:NAME}` references to those references (JSON)
+const SECRET_ENV_LABEL = 'nestos.secret-env';
+
+function getSecretEnv(labels: Record<string, string> | undefined): Record<string, string> {
+  try {
+    return JSON.parse(labels?.[SECRET_ENV_LABEL] ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Hides secrets in a container's environment: values that came from secret
+ * references are shown as the reference, other secret-looking values as a mask.
+ */
+function maskContainerEnv(info: Docker.ContainerInspectInfo): Docker.ContainerInspectInfo {
+  const secretEnv = getSecretEnv(info.Config.Labels);
+  const env = (info.Config.Env ?? []).map((entry) => {
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      return entry;
+    }
+
+    const name = entry.slice(0, separator);
+    if (secretEnv[name]) {
+      return `${name}=${secretEnv[name]}`;
+    }
+    return isSensitiveName(name) ? `${name}=${SECRET_MASK}` : entry;
+  });
+
+  return { ...info, Config: { ...info.Config, Env: env } };
+}
+
+async function buildContainerOptions(
+  request: ContainerRequest
+): Promise<Docker.ContainerCreateOptions> {
+  const { image, name, ports, volumes, env, restart, labels, ...otherOptions } = request;
+
+  const portBindings: Docker.PortMap = {};
+  const exposedPorts: Record<string, Record<string, never>> = {};
+
+  ports?.forEach(({ container, host, protocol }) => {
+    const portStr = `${container}/${protocol}`;
+    exposedPorts[portStr] = {};
+    portBindings[portStr] = [{ HostPort: host.toString() }];
+  });
+
+  // Transform volume paths to absolute paths
+  const binds = volumes?.map(v => `${resolveVolumePath(v.host)}:${v.container}:${v.mode}`);
+
+  // Docker gets the secret values; the label keeps the references for display and editing
+  const containerEnv: string[] = [];
+  const secretEnv: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env ?? {})) {
+    if (findSecretRefs(value).length > 0) {
+      secretEnv[key] = value;
+    }
+    containerEnv.push(`${key}=${await resolveSecretRefs(value)}`);
+  }
+
+  const containerLabels = { ...labels };
+  delete containerLabels[SECRET_ENV_LABEL];
+  if (Object.keys(secretEnv).length > 0) {
+    containerLabels[SECRET_ENV_LABEL] = JSON.stringify(secretEnv);
+  }
+
+  return {
+    Image: image,
+    name,
+    ExposedPorts: exposedPorts,
+    Labels: containerLabels,
+    HostConfig: {
+      PortBindings: portBindings,
+      Binds: binds,
+      RestartPolicy: restart ? { Name: restart } : undefined,
+      ...otherOptions
+    },
+    Env: env ? containerEnv : undefined
+  };
+}
+
 const containerQuerySchema = z.object({
   all: z
     .string()
@@ -226,22 +340,48 @@ const containerQuerySchema = z.object({
     .pipe(z.boolean().optional().default(false))
 });
 
-export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
+export const dockerRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify, { config }) => {
+  const docker = new Docker({
+    socketPath: config.dockerSocket,
+    // Use the host's Docker daemon
+    host: undefined,
+    port: undefined
+  });
+
   // Register the stats plugin
-  await fastify.register(plugin);
+  await fastify.register(plugin, { docker });
 
   // List containers
-  fastify.get('/containers', async (request) => {
-    const { all } = containerQuerySchema.parse(request.query);
+  fastify.get('/containers', {
+    schema: {
+      summary: 'List containers',
+      tags,
+      querystring: containerQuerySchema,
+      response: { 200: z.array(containerSummarySchema) }
+    }
+  }, async (request) => {
+    const { all } = request.query;
     const containers = await docker.listContainers({ all });
     return containers;
   });
 
   // Get container details
-  fastify.get('/containers/:id', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
+  fastify.get('/containers/:id', {
+    schema: {
+      summary: 'Get a container with its current resource usage',
+      tags,
+      params: containerParamsSchema,
+      response: {
+        200: externalRecord<Docker.ContainerInspectInfo & { stats: Docker.ContainerStats }>({
+          Id: z.string(),
+          Name: z.string(),
+          Config: z.record(z.unknown()),
+          stats: z.record(z.unknown())
+        })
+      }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
     const [info, stats] = await Promise.all([
@@ -250,7 +390,7 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
     ]);
 
     return {
-      ...info,
+      ...maskContainerEnv(info),
       stats
     };
   });
@@ -285,126 +425,226 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
   //   return container.inspect();
   // });
 
-  fastify.post('/containers', async (request) => {
-    const { image, name, ports, volumes, env, restart, ...otherOptions } = containerSchema.parse(request.body);
+  // Containers can be created privileged or with host devices, so creation is admin-only
+  fastify.post('/containers', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Create and start a container',
+      description: 'Env values may contain `${secret:NAME}` references, resolved when the container is created.',
+      tags,
+      body: containerSchema,
+      response: { 200: containerInspectSchema }
+    }
+  }, async (request) => {
+    const options = await buildContainerOptions(request.body);
 
-    const portBindings: Docker.PortMap = {};
-    const exposedPorts: Record<string, Record<string, never>> = {};
+    const container = await docker.createContainer(options);
+    await container.start();
+    return maskContainerEnv(await container.inspect());
+  });
 
-    ports?.forEach(({ container, host, protocol }) => {
-      const portStr = `${container}/${protocol}`;
-      exposedPorts[portStr] = {};
-      portBindings[portStr] = [{ HostPort: host.toString() }];
-    });
+  // Replace a container with one created from new settings. Env values still
+  // masked by the inspect endpoint keep the old container's values.
+  fastify.post('/containers/:id/recreate', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Replace a container with one created from new settings',
+      description: `Env values left as ${SECRET_MASK} keep the old container's values.`,
+      tags,
+      params: containerParamsSchema,
+      body: containerSchema,
+      response: { 200: containerInspectSchema }
+    }
+  }, async (request) => {
+    const { id } = request.params;
+    const containerRequest = request.body;
+
+    const oldContainer = docker.getContainer(id);
+    const oldEnv = new Map(
+      ((await oldContainer.inspect()).Config.Env ?? []).map((entry) => {
+        const separator = entry.indexOf('=');
+        return [entry.slice(0, separator), entry.slice(separator + 1)] as const;
+      })
+    );
+
+    const env = { ...containerRequest.env };
+    for (const [key, value] of Object.entries(env)) {
+      if (value !== SECRET_MASK) {
+        continue;
+      }
+      const oldValue = oldEnv.get(key);
+      if (oldValue === undefined) {
+        throw new ValidationError(`Enter a value for ${key}`, { field: `env.${key}` });
+      }
+      env[key] = oldValue;
+    }
 
-    // Transform volume paths to absolute paths
-    const binds = volumes?.map(v => `${resolveVolumePath(v.host)}:${v.container}:${v.mode}`);
-
-    const container = await docker.createContainer({
-      Image: image,
-      name,
-      ExposedPorts: exposedPorts,
-      HostConfig: {
-        PortBindings: portBindings,
-        Binds: binds,
-        RestartPolicy: restart ? { Name: restart } : undefined,
-        ...otherOptions
-      },
-      Env: env ? Object.entries(env).map(([key, value]) => `${key}=${value}`) : undefined
-    });
+    const options = await buildContainerOptions({ ...containerRequest, env });
+
+    try {
+      await oldContainer.stop();
+    } catch (error) {
+      // 304: the container was not running
+      if ((error as { statusCode?: number }).statusCode !== 304) {
+        throw error;
+      }
+    }
+    await oldContainer.remove({ force: true });
 
+    const container = await docker.createContainer(options);
     await container.start();
-    return container.inspect();
+    return maskContainerEnv(await container.inspect());
   });
 
   // Start container
-  fastify.post('/containers/:id/start', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
+  fastify.post('/containers/:id/start', {
+    schema: {
+      summary: 'Start a container',
+      tags,
+      params: containerParamsSchema,
+      response: { 200: z.object({ status: z.literal('started') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
     await container.start();
-    return { status: 'started' };
+    return { status: 'started' as const };
   });
 
   // Stop container
-  fastify.post('/containers/:id/stop', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
+  fastify.post('/containers/:id/stop', {
+    schema: {
+      summary: 'Stop a container',
+      tags,
+      params: containerParamsSchema,
+      response: { 200: z.object({ status: z.literal('stopped') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
     await container.stop();
-    return { status: 'stopped' };
+    return { status: 'stopped' as const };
   });
 
   // Remove container
-  fastify.delete('/containers/:id', async (request) => {
-    const { id } = z.object({
-      id: z.string(),
-      force: z
-        .string()
-        .optional()
-        .transform((val) => val === 'true')
-        .pipe(z.boolean().optional().default(false))
-    }).parse(request.params);
+  fastify.delete('/containers/:id', {
+    schema: {
+      summary: 'Remove a stopped container',
+      tags,
+      params: containerParamsSchema,
+      response: { 200: z.object({ status: z.literal('removed') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
     await container.remove({ force: false });
-    return { status: 'removed' };
+    return { status: 'removed' as const };
   });
 
   // List images
-  fastify.get('/images', async () => {
+  fastify.get('/images', {
+    schema: {
+      summary: 'List images',
+      tags,
+      response: { 200: z.array(imageSummarySchema) }
+    }
+  }, async () => {
     const images = await docker.listImages();
     return images;
   });
 
   // Pull image
-  fastify.post('/images/pull', async (request) => {
-    const { image } = z.object({
-      image: z.string()
-    }).parse(request.body);
-
-    await new Promise((resolve, reject) => {
-      docker.pull(image, (err: Error | null, stream: NodeJS.ReadableStream) => {
-        if (err) {
-          reject(err);
-          return;
-        }
+  fastify.post('/images/pull', {
+    schema: {
+      summary: 'Pull an image',
+      description: 'Starts the pull in the background and answers with its job right away. '
+        + 'Follow its progress over /ws with `follow_image_pull`.',
+      tags,
+      body: z.object({ image: z.string().min(1) }),
+      response: { 202: pullJobSchema }
+    }
+  }, async (request, reply) => {
+    reply.code(202);
+    return startImagePull(docker, request.body.image);
+  });
 
-        docker.modem.followProgress(stream, (err: Error | null, output: unknown) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          resolve(output);
-        });
-      });
-    });
+  fastify.get('/images/pulls', {
+    schema: {
+      summary: 'List running and recently finished image pulls',
+      tags,
+      response: { 200: z.array(pullJobSchema) }
+    }
+  }, async () => {
+    return listImagePulls();
+  });
 
-    return { status: 'pulled', image };
+  fastify.get('/images/pulls/:id', {
+    schema: {
+      summary: 'Get an image pull',
+      tags,
+      params: z.object({ id: z.string() }),
+      response: { 200: pullJobSchema }
+    }
+  }, async (request) => {
+    const job = getImagePull(request.params.id);
+    if (!job) {
+      throw new NotFoundError('Image pull not found');
+    }
+    return job;
+  });
+
+  fastify.delete('/images/pulls/:id', {
+    schema: {
+      summary: 'Cancel an image pull',
+      description: 'Layers that were already downloaded stay in Docker\'s cache.',
+      tags,
+      params: z.object({ id: z.string() }),
+      response: { 200: pullJobSchema }
+    }
+  }, async (request) => {
+    const job = cancelImagePull(request.params.id);
+    if (!job) {
+      throw new NotFoundError('Image pull not found');
+    }
+    return job;
   });
 
   // Remove image
-  fastify.delete('/images/:id', async (request) => {
-    const { id } = z.object({
-      id: z.string(),
-      force: z
-        .string()
-        .optional()
-        .transform((val) => val === 'true')
-        .pipe(z.boolean().optional().default(false))
-    }).parse(request.params);
+  fastify.delete('/images/:id', {
+    schema: {
+      summary: 'Remove an unused image',
+      tags,
+      params: z.object({ id: z.string() }),
+      response: { 200: z.object({ status: z.literal('removed') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const image = docker.getImage(id);
     await image.remove({ force: false });
-    return { status: 'removed' };
+    return { status: 'removed' as const };
   });
 
   // Get Docker system information
-  fastify.get('/system', async () => {
+  fastify.get('/system', {
+    schema: {
+      summary: 'Get Docker daemon information, version and disk usage',
+      tags,
+      response: {
+        200: z.object({
+          info: externalRecord<Record<string, unknown>>({}),
+          version: externalRecord<Docker.DockerVersion>({
+            Version: z.string(),
+            ApiVersion: z.string()
+          }),
+          diskUsage: externalRecord<Record<string, unknown>>({})
+        })
+      }
+    }
+  }, async () => {
     const [info, version, df] = await Promise.all([
       docker.info(),
       docker.version(),
@@ -418,16 +658,32 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
   // Add to existing docker routes
-  fastify.get('/images/search', async (request) => {
-    const { term, registry } = z.object({
-      term: z.string(),
-      registry: z.enum(['docker', 'github'])
-    }).parse(request.query);
+  fastify.get('/images/search', {
+    schema: {
+      summary: 'Search Docker Hub or the GitHub Container Registry',
+      tags,
+      querystring: z.object({
+        term: z.string(),
+        registry: z.enum(['docker', 'github'])
+      }),
+      response: {
+        200: z.array(z.object({
+          name: z.string(),
+          description: z.string().nullable(),
+          stars: z.number()
+        }))
+      }
+    }
+  }, async (request) => {
+    const { term, registry } = request.query;
 
     if (registry === 'docker') {
       const response = await fetch(`https://hub.docker.com/v2/search/repositories?query=${encodeURIComponent(term)}`);
       const data = await response.json();
-      return (data as { results: Array<{ repo_name: string; short_description: string; star_count: number }> }).results.map((result) => ({
+      const { results } = data as {
+        results: Array<{ repo_name: string; short_description: string; star_count: number }>;
+      };
+      return results.map((result) => ({
         name: result.repo_name,
         description: result.short_description,
         stars: result.star_count
@@ -440,7 +696,10 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
         }
       });
       const data = await response.json();
-      return (data as { items: Array<{ full_name: string; description: string; stargazers_count: number }> }).items.map((item) => ({
+      const { items } = data as {
+        items: Array<{ full_name: string; description: string | null; stargazers_count: number }>;
+      };
+      return items.map((item) => ({
         name: `ghcr.io/${item.full_name}`,
         description: item.description,
         stars: item.stargazers_count
@@ -448,29 +707,36 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
   // Add restart container endpoint
-  fastify.post('/containers/:id/restart', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
+  fastify.post('/containers/:id/restart', {
+    schema: {
+      summary: 'Restart a container',
+      tags,
+      params: containerParamsSchema,
+      response: { 200: z.object({ status: z.literal('restarted') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
     await container.restart();
-    return { status: 'restarted' };
+    return { status: 'restarted' as const };
   });
 
   // Add logs endpoint
-  fastify.get('/containers/:id/logs', async (request) => {
-    const { id } = z.object({
-      id: z.string(),
-      tail: z.string().optional().default('100')
-    }).parse(request.params);
-
-    let tail = 100;
-
-    const query = request.query as { tail?: string };
-    if (query.tail) {
-      tail = parseInt(query.tail);
+  fastify.get('/containers/:id/logs', {
+    schema: {
+      summary: 'Get the last lines of a container\'s logs',
+      description: 'Responds with Docker\'s raw log stream: each line is prefixed with an 8-byte '
+        + 'header naming the stream and the line\'s length.',
+      tags,
+      params: containerParamsSchema,
+      querystring: z.object({
+        tail: z.coerce.number().int().positive().default(100)
+      })
     }
+  }, async (request) => {
+    const { id } = request.params;
+    const { tail } = request.query;
 
     const container = docker.getContainer(id);
     const logs = await container.logs({
@@ -483,49 +749,97 @@ export const dockerRoutes: FastifyPluginAsync = async (fastify) => {
     return logs;
   });
 
+  // A shell runs anything inside the container, so like the host terminal it is admin-only
+  // and needs a signed-in session
+  fastify.post('/containers/:id/exec', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Open a shell in a running container',
+      description: 'Creates an exec instance with a TTY and answers with a terminal session ID. '
+        + 'Attach to it within a minute over /ws with `terminal_attach`.',
+      tags,
+      params: containerParamsSchema,
+      body: execOptionsSchema,
+      response: { 200: z.object({ sessionId: z.string() }) }
+    }
+  }, async (request) => {
+    const open = await createExecTerminal(docker, request.params.id, request.body);
+    return { sessionId: registerTerminalSession(request.user?.id ?? '', open) };
+  });
+
+  // Full logs as a file; following them live happens over /ws
+  fastify.get('/containers/:id/logs/download', {
+    schema: {
+      summary: 'Download a container\'s logs',
+      description: 'Responds with a text file of one line per log entry: its time, the stream '
+        + 'and the message.',
+      tags,
+      params: containerParamsSchema,
+      querystring: logOptionsSchema
+    }
+  }, async (request, reply) => {
+    const { name, lines } = await readContainerLogs(docker, request.params.id, request.query);
+    const date = new Date().toISOString().slice(0, 10);
+
+    reply
+      .header('Content-Type', 'text/plain; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${name}-${date}.log"`);
+    return Readable.from(formatLogLines(lines));
+  });
+
   // Add container inspect endpoint
-  fastify.get('/containers/:id/inspect', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
+  fastify.get('/containers/:id/inspect', {
+    schema: {
+      summary: 'Inspect a container',
+      tags,
+      params: containerParamsSchema,
+      response: { 200: containerInspectSchema }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     const container = docker.getContainer(id);
-    const info = await container.inspect();
-    return info;
+    return maskContainerEnv(await container.inspect());
   });
 
   // Add container update endpoint
-  fastify.put('/containers/:id/update', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
-
-    const updateSchema = z.object({
-      memory: z.number().optional(),
-      cpu_shares: z.number().optional(),
-      restart_policy: z.string().optional(),
-      network_mode: z.string().optional(),
-      privileged: z.boolean().optional(),
-    });
+  fastify.put('/containers/:id/update', {
+    schema: {
+      summary: 'Change a container\'s resource limits',
+      tags,
+      params: containerParamsSchema,
+      body: z.object({
+        memory: z.number().optional(),
+        cpu_shares: z.number().optional(),
+        restart_policy: z.string().optional(),
+        network_mode: z.string().optional(),
+        privileged: z.boolean().optional(),
+      }),
+      response: { 200: z.object({ status: z.literal('updated') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
-    const updateData = updateSchema.parse(request.body);
     const container = docker.getContainer(id);
-    await container.update(updateData);
-    return { status: 'updated' };
+    await container.update(request.body);
+    return { status: 'updated' as const };
   });
 
   // Add container rename endpoint
-  fastify.post('/containers/:id/rename', async (request) => {
-    const { id } = z.object({
-      id: z.string()
-    }).parse(request.params);
-
-    const { name } = z.object({
-      name: z.string()
-    }).parse(request.body);
+  fastify.post('/containers/:id/rename', {
+    schema: {
+      summary: 'Rename a container',
+      tags,
+      params: containerParamsSchema,
+      body: z.object({ name: z.string() }),
+      response: { 200: z.object({ status: z.literal('renamed') }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
+    const { name } = request.body;
 
     const container = docker.getContainer(id);
     await container.rename({ name });
-    return { status: 'renamed' };
+    return { status: 'renamed' as const };
   });
-};
\ No newline at end of file
+};
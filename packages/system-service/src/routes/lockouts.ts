@@ -0,0 +1,64 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  clearAllLoginLockouts,
+  clearLoginLockout,
+  listLoginLockouts
+} from '../auth/rateLimit.js';
+import { RouteOptions } from '../config.js';
+import { NotFoundError } from '../errors/index.js';
+
+const lockoutSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['ip', 'account']),
+  value: z.string(),
+  failures: z.number(),
+  lastFailureAt: z.string(),
+  blockedUntil: z.string().nullable(),
+  locked: z.boolean()
+});
+
+export const lockoutRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Sign-in lockouts'];
+
+  // Addresses and accounts with recent failed sign-in attempts, including active lockouts
+  fastify.get('/', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'List failed sign-in attempts and lockouts',
+      tags,
+      response: { 200: z.array(lockoutSchema) }
+    }
+  }, async () => {
+    return listLoginLockouts();
+  });
+
+  fastify.delete('/', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Clear all lockouts',
+      tags,
+      response: { 200: z.object({ status: z.literal('cleared'), count: z.number() }) }
+    }
+  }, async () => {
+    return { status: 'cleared' as const, count: clearAllLoginLockouts() };
+  });
+
+  // `:id` is `ip:<address>` or `account:<username>`
+  fastify.delete('/:id', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Clear the lockout of an address or account',
+      tags,
+      params: z.object({ id: z.string().describe('ip:<address> or account:<username>') }),
+      response: { 200: z.object({ status: z.literal('cleared'), id: z.string() }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
+
+    if (!clearLoginLockout(id)) {
+      throw new NotFoundError(`No failed attempts recorded for ${id}`);
+    }
+    return { status: 'cleared' as const, id };
+  });
+};
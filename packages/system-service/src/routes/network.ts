@@ -1,42 +1,74 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import si from 'systeminformation';
+import { runPrivileged } from '../helper/client.js';
+import { addressSchema, interfaceNameSchema } from '../helper/protocol.js';
+import { runCommand } from '../utils/executor.js';
+import { RouteOptions } from '../config.js';
+import { withContext } from '../errors/index.js';
 
-const execAsync = promisify(exec);
+const networkTestResponseSchema = z.object({
+  ping: z.object({
+    host: z.string(),
+    latency: z.number(),
+    packetLoss: z.number()
+  }),
+  speedtest: z.object({
+    download: z.number().describe('Mbit/s'),
+    upload: z.number().describe('Mbit/s'),
+    latency: z.number()
+  }).optional()
+});
 
-const networkTestResponseSchema = {
-  type: 'object',
-  properties: {
-    ping: {
-      type: 'object',
-      properties: {
-        host: { type: 'string' },
-        latency: { type: 'number' },
-        packetLoss: { type: 'number' }
-      },
-      required: ['host', 'latency', 'packetLoss']
-    },
-    speedtest: {
-      type: 'object',
-      properties: {
-        download: { type: 'number' },
-        upload: { type: 'number' },
-        latency: { type: 'number' }
-      },
-      required: ['download', 'upload', 'latency']
-    }
-  },
-  required: ['ping']
-};
+const networkInterfaceSchema = z.object({
+  iface: z.string(),
+  ifaceName: z.string(),
+  ip4: z.string(),
+  ip6: z.string(),
+  mac: z.string(),
+  internal: z.boolean(),
+  virtual: z.boolean(),
+  operstate: z.string(),
+  type: z.string(),
+  duplex: z.string(),
+  speed: z.number().nullable(),
+  dhcp: z.boolean(),
+  default: z.boolean(),
+  gateway: z.string().optional()
+});
+
+const networkConnectionSchema = z.object({
+  protocol: z.string(),
+  localAddress: z.string(),
+  localPort: z.string(),
+  peerAddress: z.string(),
+  peerPort: z.string(),
+  state: z.string(),
+  // Unknown for sockets of processes the service cannot see
+  pid: z.number().nullish(),
+  process: z.string().nullish()
+});
+
+// Per-second rates are null until a previous sample exists
+const networkStatsSchema = z.object({
+  iface: z.string(),
+  operstate: z.string(),
+  rx_bytes: z.number(),
+  rx_dropped: z.number(),
+  rx_errors: z.number(),
+  tx_bytes: z.number(),
+  tx_dropped: z.number(),
+  tx_errors: z.number(),
+  rx_sec: z.number().nullable(),
+  tx_sec: z.number().nullable()
+});
 
 const interfaceSchema = z.object({
   iface: z.string(),
-  ip4: z.string().optional(),
-  ip6: z.string().optional(),
-  gateway: z.string().optional(),
-  netmask: z.string().optional(),
+  ip4: addressSchema.optional(),
+  ip6: addressSchema.optional(),
+  gateway: addressSchema.optional(),
+  netmask: addressSchema.optional(),
   dhcp: z.boolean().optional()
 });
 
@@ -52,10 +84,15 @@ function analyzePingOutput(output: string) {
   };
 }
 
-export const networkRoutes: FastifyPluginAsync = async (fastify) => {
-  // Network test endpoint
+export const networkRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Network'];
+
+  // Network test endpoint (read-only diagnostic, so viewers may run it)
   fastify.post('/test', {
+    config: { role: 'viewer' },
     schema: {
+      summary: 'Measure latency, packet loss and throughput',
+      tags,
       response: {
         200: networkTestResponseSchema
       }
@@ -63,7 +100,7 @@ export const networkRoutes: FastifyPluginAsync = async (fastify) => {
   }, async () => {
     try {
       // Basic ping test to Google DNS
-      const { stdout: pingOutput } = await execAsync('ping -c 5 8.8.8.8');
+      const { stdout: pingOutput } = await runCommand('ping', ['-c', '5', '8.8.8.8']);
       const pingStats = analyzePingOutput(pingOutput);
 
       // Custom speedtest implementation using smaller test sizes
@@ -147,13 +184,18 @@ export const networkRoutes: FastifyPluginAsync = async (fastify) => {
         }
       };
     } catch (error) {
-      console.error('Network test error:', error);
-      throw new Error('Failed to run network test');
+      throw withContext(error, 'Failed to run network test');
     }
   });
 
   // Get network interfaces
-  fastify.get('/interfaces', async () => {
+  fastify.get('/interfaces', {
+    schema: {
+      summary: 'List network interfaces',
+      tags,
+      response: { 200: z.object({ interfaces: z.array(networkInterfaceSchema) }) }
+    }
+  }, async () => {
     try {
       const [interfaces, defaultGateway, defaultInterface] = await Promise.all([
         si.networkInterfaces(),
@@ -181,77 +223,89 @@ export const networkRoutes: FastifyPluginAsync = async (fastify) => {
 
       return { interfaces: formattedInterfaces };
     } catch (error) {
-      throw new Error(`Failed to get network interfaces: ${error}`);
+      throw withContext(error, 'Failed to get network interfaces');
     }
   });
 
   // Configure interface
-  fastify.post('/interfaces/:iface', async (request) => {
-    const { iface } = z.object({
-      iface: z.string()
-    }).parse(request.params);
-
-    const config = interfaceSchema.parse(request.body);
+  fastify.post('/interfaces/:iface', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Configure an interface with DHCP or a static address',
+      tags,
+      params: z.object({ iface: interfaceNameSchema }),
+      body: interfaceSchema,
+      response: { 200: z.object({ status: z.literal('configured'), iface: z.string() }) }
+    }
+  }, async (request) => {
+    const { iface } = request.params;
+    const config = request.body;
 
     try {
-      // Generate network configuration
-      let configContent = `auto ${iface}\n`;
+      // The helper writes /etc/network/interfaces.d/<iface> and restarts the interface
+      await runPrivileged({
+        op: 'network.configure',
+        iface,
+        dhcp: config.dhcp ?? false,
+        address: config.ip4,
+        netmask: config.netmask,
+        gateway: config.gateway
+      });
 
-      if (config.dhcp) {
-        configContent += `iface ${iface} inet dhcp\n`;
-      } else if (config.ip4) {
-        configContent += `iface ${iface} inet static\n`;
-        configContent += `  address ${config.ip4}\n`;
-        if (config.netmask) {
-          configContent += `  netmask ${config.netmask}\n`;
-        }
-        if (config.gateway) {
-          configContent += `  gateway ${config.gateway}\n`;
-        }
-      }
-
-      // Write configuration
-      await execAsync(`echo '${configContent}' > /etc/network/interfaces.d/${iface}`);
-
-      // Apply configuration
-      await execAsync(`ifdown ${iface} && ifup ${iface}`);
-
-      return { status: 'configured', iface };
+      return { status: 'configured' as const, iface };
     } catch (error) {
-      throw new Error(`Failed to configure interface: ${error}`);
+      throw withContext(error, 'Failed to configure interface');
     }
   });
 
   // Get network connections
-  fastify.get('/connections', async () => {
+  fastify.get('/connections', {
+    schema: {
+      summary: 'List open network connections',
+      tags,
+      response: { 200: z.object({ connections: z.array(networkConnectionSchema) }) }
+    }
+  }, async () => {
     try {
       const connections = await si.networkConnections();
       return { connections };
     } catch (error) {
-      throw new Error(`Failed to get network connections: ${error}`);
+      throw withContext(error, 'Failed to get network connections');
     }
   });
 
   // Scan network
-  fastify.post('/scan', async () => {
+  fastify.post('/scan', {
+    schema: {
+      summary: 'Scan the local network for hosts',
+      tags,
+      response: { 200: z.object({ status: z.literal('completed'), results: z.string() }) }
+    }
+  }, async () => {
     try {
-      const { stdout } = await execAsync('nmap -sn 192.168.1.0/24');
+      const { stdout } = await runCommand('nmap', ['-sn', '192.168.1.0/24'], { timeoutMs: 5 * 60 * 1000 });
       return {
-        status: 'completed',
+        status: 'completed' as const,
         results: stdout
       };
     } catch (error) {
-      throw new Error(`Failed to scan network: ${error}`);
+      throw withContext(error, 'Failed to scan network');
     }
   });
 
   // Get network statistics
-  fastify.get('/stats', async () => {
+  fastify.get('/stats', {
+    schema: {
+      summary: 'Get traffic statistics per interface',
+      tags,
+      response: { 200: z.object({ stats: z.array(networkStatsSchema) }) }
+    }
+  }, async () => {
     try {
       const stats = await si.networkStats();
       return { stats };
     } catch (error) {
-      throw new Error(`Failed to get network statistics: ${error}`);
+      throw withContext(error, 'Failed to get network statistics');
     }
   });
 };
\ No newline at end of file
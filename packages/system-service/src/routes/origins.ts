@@ -0,0 +1,49 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  getBuiltInOrigins,
+  loadOriginSettings,
+  originSettingsSchema,
+  saveOriginSettings
+} from '../auth/origins.js';
+import { RouteOptions } from '../config.js';
+
+const originsResponseSchema = z.object({
+  allowedOrigins: z.array(z.string()),
+  builtInOrigins: z.array(z.string())
+});
+
+// Web apps allowed to call the API from the browser with the user's session (CORS and CSRF)
+export const originRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Trusted origins'];
+
+  fastify.get('/', {
+    schema: {
+      summary: 'List the origins trusted to use the API from a browser',
+      tags,
+      response: { 200: originsResponseSchema }
+    }
+  }, async (request) => {
+    return {
+      ...(await loadOriginSettings()),
+      // Always trusted; shown so the list does not have to repeat them
+      builtInOrigins: getBuiltInOrigins(request)
+    };
+  });
+
+  fastify.put('/', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Replace the trusted origins',
+      tags,
+      body: originSettingsSchema,
+      response: { 200: originsResponseSchema }
+    }
+  }, async (request) => {
+    await saveOriginSettings(request.body);
+    return {
+      ...(await loadOriginSettings()),
+      builtInOrigins: getBuiltInOrigins(request)
+    };
+  });
+};
@@ -1,169 +1,244 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
 import fs from 'fs/promises';
 import path from 'path';
-import { runPrivilegedCommand } from '@/utils/runPrivilegedCommand.js';
 import Docker from 'dockerode';
 import axios from 'axios';
+import {
+    CONFIG_SCHEMA_FILE,
+    invalidConfigurationError,
+    loadPluginConfig,
+    loadPluginConfigSchema,
+    listStoredSecrets,
+    maskPlainSecrets,
+    moveSecretsToStore,
+    parsePluginConfigSchema,
+    PluginConfigSchema,
+    pluginConfigSchemaSchema,
+    pluginConfigValuesSchema,
+    redactSecrets,
+    restoreMaskedSecrets,
+    savePluginConfig,
+    validatePluginConfig
+} from '../plugins/config.js';
+import { getVerifiedCatalogEntry, pluginIdSchema } from '../plugins/catalog.js';
+import { runPluginScript } from '../plugins/scripts.js';
+import { NotFoundError, withContext } from '../errors/index.js';
+import { RouteOptions } from '../config.js';
 
-const docker = new Docker({
-    socketPath: '/var/run/docker.sock'
-});
+const pluginParamsSchema = z.object({ id: pluginIdSchema });
 
-const getRemoteConfig = async (repository: string): Promise<string | null> => {
-    try {
-        const [, owner, repo] = repository.match(/github\.com\/([^/]+)\/([^/]+)/) || [];
-        if (!owner || !repo) { return null; }
-
-        const branches = ['main', 'master', 'develop'];
-
-        for (const branch of branches) {
-            try {
-                const timestamp = Date.now();
-                const response = await axios.get(
-                    `https://raw.githubusercontent.com/${owner}/${repo}/refs/heads/${branch}/ui/config.tsx?t=${timestamp}`,
-                    {
-                        headers: {
-                            'Cache-Control': 'no-cache',
-                            'Pragma': 'no-cache'
-                        }
-                    }
-                );
-
-                return response.data;
-
-            } catch (e) {
-                if ((e as unknown as { response: { status: number } }).response?.status === 404) {
-                    continue;
-                } else {
-                    throw e;
-                }
-            }
-        }
+const statusSchema = z.object({ status: z.literal('success') });
 
-        return null;
+// Fetches a file from a plugin's GitHub repository at the commit the catalog pins
+const getRemoteFile = async (
+    repository: string,
+    commit: string,
+    file: string
+): Promise<string | null> => {
+    const [, owner, repo] = repository.match(/github\.com\/([^/]+)\/([^/]+)/) || [];
+    if (!owner || !repo) { return null; }
+
+    try {
+        const response = await axios.get(
+            `https://raw.githubusercontent.com/${owner}/${repo}/${commit}/${file}`,
+            // Keep JSON files as text; callers parse what they fetch
+            { responseType: 'text' }
+        );
+        return response.data;
     } catch {
         return null;
     }
 };
 
-export const pluginRoutes: FastifyPluginAsync = async (fastify) => {
-    // Modify the requires-config endpoint
-    fastify.get('/:id/requires-config', async (request) => {
-        const { id } = request.params as { id: string };
+export const pluginRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify, opts) => {
+    const { pluginsDir } = opts.config;
+    const docker = new Docker({
+        socketPath: opts.config.dockerSocket
+    });
+    const tags = ['Plugins'];
+
+    // Whether a plugin needs configuring before or after install, and how
+    fastify.get('/:id/requires-config', {
+        schema: {
+            summary: 'Check whether a plugin has settings and how to render them',
+            tags,
+            params: pluginParamsSchema,
+            response: {
+                200: z.object({
+                    requiresConfig: z.boolean(),
+                    // Source of the plugin's ui/config.tsx, without imports and exports
+                    configComponent: z.string().optional(),
+                    // Preferred over configComponent when a plugin ships both
+                    configSchema: pluginConfigSchemaSchema.nullable()
+                })
+            }
+        }
+    }, async (request) => {
+        const { id } = request.params;
 
         try {
             // First check if plugin is already installed
-            const configPath = path.join(process.cwd(), 'plugins', id, 'ui', 'config.tsx');
+            const pluginDir = path.join(pluginsDir, id);
+            const configPath = path.join(pluginDir, 'ui', 'config.tsx');
             const localConfigExists = await fs.access(configPath).then(() => true).catch(() => false);
+            let configSchema: PluginConfigSchema | null =
+                await loadPluginConfigSchema(pluginDir);
 
-            let configComponent;
+            let configComponent: string | undefined;
             if (localConfigExists) {
                 const configCode = await fs.readFile(configPath, 'utf-8');
                 configComponent = configCode
                     .replace(/import[^;]+;/g, '')
                     .replace(/export\s+default\s+/g, '')
                     .trim();
-            } else {
-                // If not installed, check remote repository
-                const pluginsResponse = await axios.get(
-                    'https://raw.githubusercontent.com/moderniselife/nestos/main/nestos-plugins/plugins.json'
-                );
-                const plugin = pluginsResponse.data.find((p: any) => p.id === id);
-
+            } else if (!configSchema) {
+                // If not installed, check the version of the plugin that would be installed
+                const plugin = await getVerifiedCatalogEntry(id);
                 if (!plugin) {
-                    throw new Error('Plugin not found');
+                    throw new NotFoundError('Plugin not found', { plugin: id });
                 }
 
-                const remoteConfig = await getRemoteConfig(plugin.repository);
+                const [remoteConfig, remoteSchema] = await Promise.all([
+                    getRemoteFile(plugin.repository, plugin.commit, 'ui/config.tsx'),
+                    getRemoteFile(plugin.repository, plugin.commit, CONFIG_SCHEMA_FILE)
+                ]);
                 if (remoteConfig) {
                     configComponent = remoteConfig
                         .replace(/import[^;]+;/g, '')
                         .replace(/export\s+default\s+/g, '')
                         .trim();
                 }
+                if (remoteSchema) {
+                    configSchema = parsePluginConfigSchema(JSON.parse(remoteSchema));
+                }
             }
 
             return {
-                requiresConfig: !!configComponent,
-                configComponent
+                requiresConfig: !!configComponent || !!configSchema,
+                configComponent,
+                configSchema
             };
         } catch (error) {
-            throw new Error(`Failed to check plugin configuration: ${error}`);
+            throw withContext(error, 'Failed to check plugin configuration');
         }
     });
 
+    // Schema, current values and which secrets are set, for plugins with a config.schema.json
+    fastify.get('/:id/config-schema', {
+        schema: {
+            summary: 'Get a plugin\'s settings schema and current values',
+            description: 'Secret values are never returned; storedSecrets names those that are set.',
+            tags,
+            params: pluginParamsSchema,
+            response: {
+                200: z.object({
+                    schema: pluginConfigSchemaSchema,
+                    config: pluginConfigValuesSchema,
+                    storedSecrets: z.array(z.string())
+                })
+            }
+        }
+    }, async (request) => {
+        const { id } = request.params;
+        const pluginDir = path.join(pluginsDir, id);
+
+        const schema = await loadPluginConfigSchema(pluginDir);
+        if (!schema) {
+            throw new NotFoundError(`Plugin ${id} has no ${CONFIG_SCHEMA_FILE}`, { plugin: id });
+        }
+
+        const config = await loadPluginConfig(pluginDir);
+        return {
+            schema,
+            config: redactSecrets(schema, config),
+            storedSecrets: listStoredSecrets(schema, config)
+        };
+    });
+
     // Get plugin configuration
-    fastify.get('/:id/config', async (request) => {
-        const { id } = request.params as { id: string };
-        const configPath = path.join(process.cwd(), 'plugins', id, 'config.json');
+    fastify.get('/:id/config', {
+        schema: {
+            summary: 'Get a plugin\'s settings',
+            description: 'Secret settings are left out. Without a schema, plain values of settings '
+                + 'with secret-looking names are returned as `********`; saving that back keeps them.',
+            tags,
+            params: pluginParamsSchema,
+            response: { 200: pluginConfigValuesSchema }
+        }
+    }, async (request) => {
+        const { id } = request.params;
+        const pluginDir = path.join(pluginsDir, id);
+        const configPath = path.join(pluginDir, 'config.json');
 
         try {
             const configExists = await fs.access(configPath).then(() => true).catch(() => false);
             if (!configExists) {
                 return {};
             }
-            const config = await fs.readFile(configPath, 'utf-8');
-            return JSON.parse(config);
+            const config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+            const schema = await loadPluginConfigSchema(pluginDir);
+            return schema ? redactSecrets(schema, config) : maskPlainSecrets(config);
         } catch (error) {
-            throw new Error(`Failed to read plugin configuration: ${error}`);
+            throw withContext(error, 'Failed to read plugin configuration');
         }
     });
 
     // Save plugin configuration
     fastify.post('/:id/config', {
+        // Applying configuration runs the plugin's apply script
+        config: { role: 'admin' },
         schema: {
-            params: {
-                type: 'object',
-                properties: {
-                    id: { type: 'string' }
-                },
-                required: ['id']
-            },
-            body: {
-                type: 'object',
-                additionalProperties: true // Allow any properties in config
-            }
+            summary: 'Save and apply a plugin\'s settings',
+            tags,
+            params: pluginParamsSchema,
+            body: pluginConfigValuesSchema,
+            response: { 200: statusSchema }
         }
     }, async (request) => {
-        const { id } = request.params as { id: string };
-        const configPath = path.join(process.cwd(), 'plugins', id, 'config.json');
-        const configDir = path.dirname(configPath);
+        const { id } = request.params;
+        const pluginDir = path.join(pluginsDir, id);
+        let config = request.body;
 
-        try {
-            // Ensure config directory exists
-            await fs.mkdir(configDir, { recursive: true });
+        // Plugins with a config.schema.json only get settings that pass it
+        const schema = await loadPluginConfigSchema(pluginDir);
+        if (schema) {
+            const { config: validConfig, errors } =
+                validatePluginConfig(schema, config, await loadPluginConfig(pluginDir));
+            if (errors.length > 0) {
+                throw invalidConfigurationError(errors);
+            }
+            config = validConfig;
+        } else {
+            config = restoreMaskedSecrets(config, await loadPluginConfig(pluginDir));
+        }
 
-            // Save configuration
-            await fs.writeFile(configPath, JSON.stringify(request.body, null, 2));
+        // Secrets go to the secrets store; config.json and .env only hold references
+        config = await moveSecretsToStore(id, config, schema);
+
+        try {
+            // Save configuration to config.json and .env
+            await savePluginConfig(pluginDir, config);
 
             // Apply configuration if plugin has a script
-            const applyScript = path.join(process.cwd(), 'plugins', id, 'apply-config.sh');
-            try {
-                await fs.access(applyScript);
-                await runPrivilegedCommand(`bash ${applyScript}`);
-            } catch {
-                // No apply script, skip
-            }
+            await runPluginScript(pluginDir, 'apply-config.sh');
 
-            return { status: 'success' };
+            return { status: 'success' as const };
         } catch (error) {
-            throw new Error(`Failed to save plugin configuration: ${error}`);
+            throw withContext(error, 'Failed to save plugin configuration');
         }
     });
 
-    // Add schema validation for restart endpoint
+    // Restart the plugin's container
     fastify.post('/:id/restart', {
         schema: {
-            params: {
-                type: 'object',
-                properties: {
-                    id: { type: 'string' }
-                },
-                required: ['id']
-            }
+            summary: 'Restart a plugin\'s container',
+            tags,
+            params: pluginParamsSchema,
+            response: { 200: statusSchema }
         }
     }, async (request) => {
-        const { id } = request.params as { id: string };
+        const { id } = request.params;
 
         try {
             // Get all containers
@@ -173,47 +248,39 @@ export const pluginRoutes: FastifyPluginAsync = async (fastify) => {
             );
 
             if (!containerInfo) {
-                throw new Error(`Container for plugin ${id} not found`);
+                throw new NotFoundError(`Container for plugin ${id} not found`, { plugin: id });
             }
 
             // Get container instance and restart it
             const container = docker.getContainer(containerInfo.Id);
             await container.restart();
 
-            return { status: 'success' };
+            return { status: 'success' as const };
         } catch (error) {
-            throw new Error(`Failed to restart plugin: ${error}`);
+            throw withContext(error, 'Failed to restart plugin');
         }
     });
 
     // Start plugin endpoint
     fastify.post('/:id/start', {
         schema: {
-            params: {
-                type: 'object',
-                properties: {
-                    id: { type: 'string' }
-                },
-                required: ['id']
-            }
+            summary: 'Run a plugin\'s start script',
+            tags,
+            params: pluginParamsSchema,
+            response: { 200: statusSchema }
         }
     }, async (request) => {
-        const { id } = request.params as { id: string };
-        const startScript = path.join(process.cwd(), 'plugins', id, 'start.sh');
+        const { id } = request.params;
 
         try {
-            // Check if start script exists
-            const scriptExists = await fs.access(startScript).then(() => true).catch(() => false);
-            if (!scriptExists) {
-                throw new Error(`Start script not found for plugin ${id}`);
+            const result = await runPluginScript(path.join(pluginsDir, id), 'start.sh');
+            if (!result) {
+                throw new NotFoundError(`Start script not found for plugin ${id}`, { plugin: id });
             }
 
-            // Execute start script
-            await runPrivilegedCommand(`bash ${startScript}`);
-
-            return { status: 'success' };
+            return { status: 'success' as const };
         } catch (error) {
-            throw new Error(`Failed to start plugin: ${error}`);
+            throw withContext(error, 'Failed to start plugin');
         }
     });
 };
\ No newline at end of file
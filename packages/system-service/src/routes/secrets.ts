@@ -0,0 +1,64 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  deleteSecret,
+  listSecrets,
+  secretInfoSchema,
+  secretNameSchema,
+  setSecret
+} from '../secrets/index.js';
+import { RouteOptions } from '../config.js';
+import { NotFoundError } from '../errors/index.js';
+
+const setSecretSchema = z.object({
+  value: z.string().min(1),
+  description: z.string().max(200).optional()
+});
+
+// Secret values can be written and referenced as ${secret:NAME}, but never read back
+export const secretRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Secrets'];
+
+  fastify.get('/', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'List stored secrets without their values',
+      tags,
+      response: { 200: z.array(secretInfoSchema) }
+    }
+  }, async () => {
+    return listSecrets();
+  });
+
+  fastify.put('/:name', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Create or replace a secret',
+      tags,
+      params: z.object({ name: secretNameSchema }),
+      body: setSecretSchema,
+      response: { 200: secretInfoSchema }
+    }
+  }, async (request) => {
+    const { name } = request.params;
+    const { value, description } = request.body;
+    return setSecret(name, value, description);
+  });
+
+  fastify.delete('/:name', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Delete a secret',
+      tags,
+      params: z.object({ name: z.string() }),
+      response: { 200: z.object({ status: z.literal('deleted'), name: z.string() }) }
+    }
+  }, async (request) => {
+    const { name } = request.params;
+
+    if (!(await deleteSecret(name))) {
+      throw new NotFoundError(`Secret ${name} does not exist`);
+    }
+    return { status: 'deleted' as const, name };
+  });
+};
@@ -0,0 +1,188 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import Docker from 'dockerode';
+import { RouteOptions } from '../config.js';
+import { ValidationError } from '../errors/index.js';
+import {
+  deployStack,
+  getStack,
+  listStacks,
+  removeStack,
+  saveStack,
+  serviceActionSchema,
+  stackFilesSchema,
+  stackNameSchema,
+  stackSchema,
+  stackSummarySchema,
+  stopStack,
+  validateStack
+} from '../docker/stacks.js';
+
+const stackParamsSchema = z.object({ name: stackNameSchema });
+
+const validationResultSchema = z.object({
+  valid: z.boolean(),
+  errors: z.array(z.object({ path: z.string(), message: z.string() })),
+  // Settings that were ignored and variables that were not set
+  warnings: z.array(z.string()),
+  // In the order they start in
+  services: z.array(z.string())
+});
+
+const removeQuerySchema = z.object({
+  removeVolumes: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true')
+});
+
+const deployResultSchema = z.object({ services: z.array(serviceActionSchema) });
+
+/**
+ * Docker Compose projects kept as a Compose file and env per stack. Changing
+ * what runs on the host is admin-only like creating containers; stopping is
+ * open to operators like stopping a container. The files themselves can hold
+ * passwords, so only admins, who can change them anyway, may read them.
+ */
+export const stackRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify, opts) => {
+  const docker = new Docker({ socketPath: opts.config.dockerSocket });
+  const tags = ['Docker stacks'];
+
+  fastify.get('/', {
+    schema: {
+      summary: 'List stacks with the state of their services',
+      tags,
+      response: { 200: z.array(stackSummarySchema) }
+    }
+  }, async () => {
+    return listStacks(docker);
+  });
+
+  fastify.get('/:name', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Get a stack with its Compose file and env',
+      tags,
+      params: stackParamsSchema,
+      response: { 200: stackSchema }
+    }
+  }, async (request) => {
+    return getStack(docker, request.params.name);
+  });
+
+  fastify.post('/', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Create a stack',
+      description: 'Saves the Compose file and env without deploying them. Env values and any '
+        + 'string in the Compose file may contain `${secret:NAME}` references, resolved on '
+        + 'deployment. Containers are recreated when a secret they use changes.',
+      tags,
+      body: stackFilesSchema.extend({ name: stackNameSchema }),
+      response: { 200: stackSchema }
+    }
+  }, async (request) => {
+    const { name, ...files } = request.body;
+    await saveStack(name, files, true);
+    return getStack(docker, name);
+  });
+
+  fastify.put('/:name', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Replace a stack\'s Compose file and env',
+      description: 'Running containers keep their settings until the stack is deployed again.',
+      tags,
+      params: stackParamsSchema,
+      body: stackFilesSchema,
+      response: { 200: stackSchema }
+    }
+  }, async (request) => {
+    await saveStack(request.params.name, request.body, false);
+    return getStack(docker, request.params.name);
+  });
+
+  // Checking a file changes nothing, so anyone who can see stacks may do it
+  fastify.post('/validate', {
+    config: { role: 'viewer' },
+    schema: {
+      summary: 'Check a Compose file',
+      tags,
+      body: stackFilesSchema.extend({ name: stackNameSchema.default('stack') }),
+      response: { 200: validationResultSchema }
+    }
+  }, async (request) => {
+    const { name, ...files } = request.body;
+    try {
+      const { project, warnings } = validateStack(name, files);
+      return {
+        valid: true,
+        errors: [],
+        warnings,
+        services: project.services.map((service) => service.name)
+      };
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      const { issues } = error.details as { issues: { path: string; message: string }[] };
+      return { valid: false, errors: issues, warnings: [], services: [] };
+    }
+  });
+
+  fastify.post('/:name/deploy', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Deploy a stack',
+      description: 'Creates its networks and volumes, pulls missing images and starts services '
+        + 'after the ones they depend on. Containers whose settings changed are recreated and '
+        + 'containers of removed services are removed.',
+      tags,
+      params: stackParamsSchema,
+      response: { 200: deployResultSchema }
+    }
+  }, async (request) => {
+    return { services: await deployStack(docker, request.params.name) };
+  });
+
+  fastify.post('/:name/update', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Pull a stack\'s images again and redeploy it',
+      description: 'Containers whose image changed are recreated.',
+      tags,
+      params: stackParamsSchema,
+      response: { 200: deployResultSchema }
+    }
+  }, async (request) => {
+    return { services: await deployStack(docker, request.params.name, { pull: true }) };
+  });
+
+  fastify.post('/:name/stop', {
+    schema: {
+      summary: 'Stop a stack\'s containers',
+      tags,
+      params: stackParamsSchema,
+      response: { 200: z.object({ status: z.literal('stopped') }) }
+    }
+  }, async (request) => {
+    await stopStack(docker, request.params.name);
+    return { status: 'stopped' as const };
+  });
+
+  fastify.delete('/:name', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Delete a stack',
+      description: 'Removes its containers, the networks it created and its files. Named volumes '
+        + 'are kept unless `removeVolumes` is true.',
+      tags,
+      params: stackParamsSchema,
+      querystring: removeQuerySchema,
+      response: { 200: z.object({ status: z.literal('removed') }) }
+    }
+  }, async (request) => {
+    await removeStack(docker, request.params.name, request.query);
+    return { status: 'removed' as const };
+  });
+};
@@ -1,64 +1,101 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import fs from 'fs/promises';
 import si from 'systeminformation';
+import { runPrivileged } from '../helper/client.js';
+import {
+  arrayNameSchema,
+  devicePathSchema,
+  helperFilesystems,
+  mountPointSchema
+} from '../helper/protocol.js';
+import { runCommand } from '../utils/executor.js';
+import { RouteOptions } from '../config.js';
+import { ValidationError, withContext } from '../errors/index.js';
+
+const raidArraySchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  devices: z.array(z.string())
+});
 
-const execAsync = promisify(exec);
-
-interface RaidArray {
-  name: string;
-  type: string;
-  devices: string[];
-}
+const mountSchema = z.object({
+  device: z.string(),
+  mountPoint: z.string(),
+  type: z.string()
+});
 
-interface MountPoint {
-  device: string;
-  mountPoint: string;
-  type: string;
-}
+type RaidArray = z.infer<typeof raidArraySchema>;
+type MountPoint = z.infer<typeof mountSchema>;
+
+const healthStatusSchema = z.enum(['healthy', 'warning', 'critical']);
+
+const healthResponseSchema = z.object({
+  overall: healthStatusSchema,
+  devices: z.array(z.object({
+    name: z.string(),
+    status: healthStatusSchema,
+    smart: z.object({
+      health: z.string(),
+      temperature: z.number().optional(),
+      powerOnHours: z.number().optional(),
+      reallocatedSectors: z.number().optional()
+    }).nullable(),
+    issues: z.array(z.string())
+  }))
+});
 
-// Validation schemas
-const healthResponseSchema = {
-  type: 'object',
-  properties: {
-    overall: { type: 'string', enum: ['healthy', 'warning', 'critical'] },
-    devices: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          name: { type: 'string' },
-          status: { type: 'string', enum: ['healthy', 'warning', 'critical'] },
-          smart: {
-            type: 'object',
-            properties: {
-              health: { type: 'string' },
-              temperature: { type: 'number' },
-              powerOnHours: { type: 'number' },
-              reallocatedSectors: { type: 'number' }
-            }
-          },
-          issues: {
-            type: 'array',
-            items: { type: 'string' }
-          }
-        },
-        required: ['name', 'status', 'issues']
-      }
-    }
-  },
-  required: ['overall', 'devices']
-}
+// A block device as reported by systeminformation, with SMART, disk and filesystem details
+const storageDeviceSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  mount: z.string(),
+  size: z.number(),
+  model: z.string(),
+  serial: z.string(),
+  removable: z.boolean(),
+  smart: z.object({ health: z.string(), attributes: z.string() }).nullable(),
+  layout: z.object({
+    vendor: z.string(),
+    type: z.string(),
+    size: z.number(),
+    interfaceType: z.string(),
+    temperature: z.number().nullable(),
+    serialNum: z.string(),
+    firmwareRevision: z.string()
+  }).nullable(),
+  filesystem: z.object({
+    size: z.number(),
+    used: z.number(),
+    available: z.number(),
+    use: z.number()
+  }).nullable(),
+  bus: z.string().optional(),
+  path: z.string().optional(),
+  // Reported by systeminformation on Linux
+  fsType: z.string().optional(),
+  label: z.string().optional(),
+  device: z.string().optional(),
+  protocol: z.string().optional()
+}).passthrough();
+
+// Device names end up as command arguments, so none may look like an option
+const deviceNameSchema = z.string().regex(/^(\/dev\/)?\w[\w./-]*$/, 'Invalid device name');
 
 const volumeSchema = z.object({
-  name: z.string(),
+  name: arrayNameSchema,
   type: z.enum(['single', 'raid0', 'raid1', 'raid5', 'raid6', 'raid10']),
-  devices: z.array(z.string()),
-  mountPoint: z.string().optional(),
+  devices: z.array(devicePathSchema).min(1),
+  mountPoint: mountPointSchema.optional(),
   filesystem: z.enum(['ext4', 'xfs', 'btrfs', 'zfs']).optional()
 });
 
+// ZFS pools are created with zpool rather than by formatting a device
+const isHelperFilesystem = (
+  filesystem: string
+): filesystem is typeof helperFilesystems[number] =>
+  (helperFilesystems as readonly string[]).includes(filesystem);
+
 function parseSmartOutput(stdout: string) {
   const temperature = stdout.match(/Temperature_Celsius.*?(\d+)/)?.[1];
   const powerOnHours = stdout.match(/Power_On_Hours.*?(\d+)/)?.[1];
@@ -71,10 +108,14 @@ function parseSmartOutput(stdout: string) {
   };
 }
 
-export const storageRoutes: FastifyPluginAsync = async (fastify) => {
+export const storageRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Storage'];
+
   // Get storage health status
   fastify.get('/health', {
     schema: {
+      summary: 'Check the SMART health of every disk',
+      tags,
       response: {
         200: healthResponseSchema
       }
@@ -88,7 +129,7 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
         let status: 'healthy' | 'warning' | 'critical' = 'healthy';
 
         try {
-          const { stdout } = await execAsync(`smartctl -H -A /dev/${device.name}`);
+          const { stdout } = await runCommand('smartctl', ['-H', '-A', `/dev/${device.name}`]);
           const health = stdout.includes('PASSED') ? 'PASSED' : 'FAILED';
           const smartInfo = parseSmartOutput(stdout);
 
@@ -125,7 +166,8 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
       }));
 
       // Determine overall system status
-      const overall = devices.some(d => d.status === 'critical') ? 'critical' :
+      const overall: z.infer<typeof healthStatusSchema> =
+        devices.some(d => d.status === 'critical') ? 'critical' :
         devices.some(d => d.status === 'warning') ? 'warning' : 'healthy';
 
       return {
@@ -133,12 +175,18 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
         devices
       };
     } catch (error) {
-      throw new Error(`Failed to check storage health: ${error}`);
+      throw withContext(error, 'Failed to check storage health');
     }
   });
 
   // Get all storage devices
-  fastify.get('/devices', async () => {
+  fastify.get('/devices', {
+    schema: {
+      summary: 'List block devices',
+      tags,
+      response: { 200: z.object({ devices: z.array(storageDeviceSchema) }) }
+    }
+  }, async () => {
     try {
       const [blockDevices, diskLayout, fsSize] = await Promise.all([
         si.blockDevices(),
@@ -165,7 +213,7 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
           // Get SMART data if available
           let smart = null;
           try {
-            const { stdout } = await execAsync(`smartctl -H -A ${device.name}`);
+            const { stdout } = await runCommand('smartctl', ['-H', '-A', device.name]);
             smart = {
               health: stdout.includes('PASSED') ? 'PASSED' : 'FAILED',
               attributes: stdout
@@ -177,7 +225,11 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
           // Get additional device information
           let additional = {};
           try {
-            const { stdout: udevInfo } = await execAsync(`udevadm info --query=all --name=${device.name}`);
+            const { stdout: udevInfo } = await runCommand('udevadm', [
+              'info',
+              '--query=all',
+              `--name=${device.name}`
+            ]);
             additional = {
               bus: udevInfo.match(/ID_BUS=(.*)/)?.[1],
               path: udevInfo.match(/ID_PATH=(.*)/)?.[1],
@@ -212,21 +264,40 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
 
       return { devices: enhancedDevices };
     } catch (error) {
-      throw new Error(`Failed to get storage devices: ${error}`);
+      throw withContext(error, 'Failed to get storage devices');
     }
   });
 
   // Create volume
-  fastify.post('/volumes', async (request) => {
-    const config = volumeSchema.parse(request.body);
+  fastify.post('/volumes', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Create a volume on one disk or a RAID array',
+      tags,
+      body: volumeSchema,
+      response: { 200: z.object({ status: z.literal('created'), name: z.string() }) }
+    }
+  }, async (request) => {
+    const config = request.body;
+    const filesystem = config.filesystem || 'ext4';
+
+    if (!isHelperFilesystem(filesystem)) {
+      throw new ValidationError(`Creating ${filesystem} volumes is not supported`, {
+        issues: [{ path: 'filesystem', message: `Supported: ${helperFilesystems.join(', ')}` }]
+      });
+    }
 
     try {
       switch (config.type) {
         case 'single': {
           // Format single disk
-          await execAsync(`mkfs.${config.filesystem || 'ext4'} ${config.devices[0]}`);
+          await runPrivileged({ op: 'mkfs', filesystem, device: config.devices[0] });
           if (config.mountPoint) {
-            await execAsync(`mount ${config.devices[0]} ${config.mountPoint}`);
+            await runPrivileged({
+              op: 'mount',
+              device: config.devices[0],
+              mountPoint: config.mountPoint
+            });
           }
           break;
         }
@@ -236,35 +307,47 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
         case 'raid6':
         case 'raid10': {
           // Create RAID array
-          const level = config.type.replace('raid', '');
-          await execAsync(
-            `mdadm --create /dev/md/${config.name} --level=${level} --raid-devices=${config.devices.length} ${config.devices.join(' ')}`
-          );
+          const level = config.type.replace('raid', '') as '0' | '1' | '5' | '6' | '10';
+          const device = `/dev/md/${config.name}`;
+          await runPrivileged({
+            op: 'mdadm.create',
+            name: config.name,
+            level,
+            devices: config.devices
+          });
           if (config.filesystem) {
-            await execAsync(`mkfs.${config.filesystem} /dev/md/${config.name}`);
+            await runPrivileged({ op: 'mkfs', filesystem, device });
           }
           if (config.mountPoint) {
-            await execAsync(`mount /dev/md/${config.name} ${config.mountPoint}`);
+            await runPrivileged({ op: 'mount', device, mountPoint: config.mountPoint });
           }
           break;
         }
       }
 
-      return { status: 'created', name: config.name };
+      return { status: 'created' as const, name: config.name };
     } catch (error) {
-      throw new Error(`Failed to create volume: ${error}`);
+      throw withContext(error, 'Failed to create volume');
     }
   });
 
   // Get volume information
-  fastify.get('/volumes', async () => {
+  fastify.get('/volumes', {
+    schema: {
+      summary: 'List RAID arrays and mounts',
+      tags,
+      response: {
+        200: z.object({ raids: z.array(raidArraySchema), mounts: z.array(mountSchema) })
+      }
+    }
+  }, async () => {
     try {
       let raids: RaidArray[] = [];
       let mounts: MountPoint[] = [];
 
       // Try to get RAID information if available
       try {
-        const { stdout: mdstat } = await execAsync('cat /proc/mdstat');
+        const mdstat = await fs.readFile('/proc/mdstat', 'utf-8');
         raids = mdstat
           .split('\n')
           .filter(line => line.includes(' : '))
@@ -284,7 +367,7 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Try to get mount information
       try {
-        const { stdout: mountInfo } = await execAsync('mount');
+        const { stdout: mountInfo } = await runCommand('mount');
         mounts = mountInfo
           .split('\n')
           .filter(Boolean)
@@ -311,37 +394,48 @@ export const storageRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // Delete volume
-  fastify.delete('/volumes/:name', async (request) => {
-    const { name } = z.object({
-      name: z.string()
-    }).parse(request.params);
+  fastify.delete('/volumes/:name', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Stop and remove a RAID array',
+      tags,
+      params: z.object({ name: arrayNameSchema }),
+      response: { 200: z.object({ status: z.literal('deleted'), name: z.string() }) }
+    }
+  }, async (request) => {
+    const { name } = request.params;
 
     try {
       // Unmount first if mounted
       try {
-        await execAsync(`umount /dev/md/${name}`);
+        await runPrivileged({ op: 'umount', device: `/dev/md/${name}` });
       } catch (error) {
         // Might not be mounted
       }
 
       // Stop and remove the array
-      await execAsync(`mdadm --stop /dev/md/${name}`);
-      await execAsync(`mdadm --remove /dev/md/${name}`);
+      await runPrivileged({ op: 'mdadm.stop', name });
+      await runPrivileged({ op: 'mdadm.remove', name });
 
-      return { status: 'deleted', name };
+      return { status: 'deleted' as const, name };
     } catch (error) {
-      throw new Error(`Failed to delete volume: ${error}`);
+      throw withContext(error, 'Failed to delete volume');
     }
   });
 
   // Get SMART information
-  fastify.get('/smart/:device', async (request) => {
-    const { device } = z.object({
-      device: z.string()
-    }).parse(request.params);
+  fastify.get('/smart/:device', {
+    schema: {
+      summary: 'Get the full SMART report of a device',
+      tags,
+      params: z.object({ device: deviceNameSchema }),
+      response: { 200: z.object({ data: z.string().nullable() }) }
+    }
+  }, async (request) => {
+    const { device } = request.params;
 
     try {
-      const { stdout } = await execAsync(`smartctl -a ${device}`);
+      const { stdout } = await runCommand('smartctl', ['-a', device]);
       return { data: stdout };
     } catch (error) {
       // Return null if SMART data is not available
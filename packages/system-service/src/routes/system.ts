@@ -1,310 +1,143 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import si from 'systeminformation';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
-import yaml from 'yaml';
-import Docker from 'dockerode';
-const docker = new Docker({
-  socketPath: '/var/run/docker.sock'
-});
-
-const executeDockerCommand = async (command: string, pluginId: string, pluginDir: string): Promise<void> => {
-  // Common Docker command patterns
-  const pullMatch = command.match(/docker\s+pull\s+([^\s]+)/);
-  const runMatch = command.match(/docker\s+run\s+(.*)/);
-  const composeMatch = command.match(/docker[\s-]compose\s+(up|down|restart|stop)\s*(.*)/);
-
-  if (pullMatch) {
-    const image = pullMatch[1];
-    await new Promise((resolve, reject) => {
-      docker.pull(image, (err: Error | null, stream: NodeJS.ReadableStream) => {
-        if (err) { reject(err); }
-        docker.modem.followProgress(stream, (err: Error | null) => {
-          if (err) { reject(err); }
-          resolve(undefined);
-        });
-      });
-    });
-  } else if (runMatch) {
-    const args = runMatch[1];
-    const nameMatch = args.match(/--name\s+([^\s]+)/);
-    const imageMatch = args.match(/([^\s]+)$/);
-
-    if (nameMatch && imageMatch) {
-      const containerConfig: Docker.ContainerCreateOptions = {
-        Image: imageMatch[1],
-        name: nameMatch[1],
-      };
-
-      const container = await docker.createContainer(containerConfig);
-      await container.start();
+import { runPrivileged } from '../helper/client.js';
+import { hostnameSchema, timezoneSchema } from '../helper/protocol.js';
+import {
+  invalidConfigurationError,
+  loadPluginConfigSchema,
+  moveSecretsToStore,
+  pluginConfigSchemaSchema,
+  pluginConfigValuesSchema,
+  savePluginConfig,
+  validatePluginConfig
+} from '../plugins/config.js';
+import {
+  catalogEntrySchema,
+  checkoutPinnedPlugin,
+  fetchPluginCatalog,
+  getVerifiedCatalogEntry,
+  isPinned,
+  pluginIdSchema
+} from '../plugins/catalog.js';
+import { runPluginScript } from '../plugins/scripts.js';
+import { runCommand } from '../utils/executor.js';
+import { createBackup, installSystemUpdates } from '../maintenance/index.js';
+import {
+  backupSettingsSchema,
+  loadBackupSettings,
+  loadUpdateSettings,
+  saveBackupSettings,
+  saveUpdateSettings,
+  updateSettingsSchema
+} from '../maintenance/settings.js';
+import { RouteOptions } from '../config.js';
+import {
+  ApiError,
+  NotFoundError,
+  ValidationError,
+  withContext
+} from '../errors/index.js';
+
+const DISK_TEST_BYTES = 1024 * 1024 * 1024;
+
+const secondsSince = (start: bigint) => Number(process.hrtime.bigint() - start) / 1e9;
+
+// Writes a test file, flushed to disk, and reads it back sequentially; speeds in GB/s
+async function measureDiskThroughput(file: string) {
+  const block = Buffer.alloc(1024 * 1024, 1);
+  const gigabytes = DISK_TEST_BYTES / 1024 ** 3;
+
+  const writer = await fs.open(file, 'w');
+  let start = process.hrtime.bigint();
+  try {
+    for (let written = 0; written < DISK_TEST_BYTES; written += block.length) {
+      await writer.write(block);
     }
-  } else if (composeMatch) {
-    const [, action] = composeMatch;
-
-    // Read docker-compose.yml
-    const composeFile = await fs.readFile(path.join(pluginDir, 'docker-compose.yml'), 'utf-8');
-    const composeConfig = yaml.parse(composeFile);
+    await writer.sync();
+  } finally {
+    await writer.close();
+  }
+  const writeSpeed = gigabytes / secondsSince(start);
 
-    let envVars: { [key: string]: string } = {};
-    try {
-      const envFile = await fs.readFile(path.join(pluginDir, '.env'), 'utf-8');
-      envVars = envFile.split('\n').reduce((acc: any, line) => {
-        const [key, value] = line.split('=');
-        if (key && value) { acc[key.trim()] = value.trim(); }
-        return acc;
-      }, {});
-
-      // Read and merge config.json if it exists
-      const configPath = path.join(process.cwd(), 'plugins', pluginId, 'config.json');
-      try {
-        const configContent = await fs.readFile(configPath, 'utf-8');
-        const config = JSON.parse(configContent);
-        // Merge config into envVars, config takes precedence
-        envVars = { ...envVars, ...config };
-      } catch (error) {
-        // config.json doesn't exist or can't be read, continue with just .env vars
-      }
-    } catch (error) {
-      // .env file doesn't exist or can't be read
+  const reader = await fs.open(file, 'r');
+  start = process.hrtime.bigint();
+  try {
+    while ((await reader.read(block, 0, block.length, null)).bytesRead > 0) {
+      // Reading is all that is measured
     }
+  } finally {
+    await reader.close();
+  }
+  const readSpeed = gigabytes / secondsSince(start);
 
-    console.log('Env Vars: ', envVars);
-
-    // Get existing containers
-    const containers = await docker.listContainers({ all: true });
-    const projectName = pluginId;  // Use pluginId as project name for better identification
-
-    switch (action) {
-      case 'up':
-        // Create and start containers for each service
-        for (const [serviceName, serviceConfig] of Object.entries(composeConfig.services)) {
-          const config = serviceConfig as any;
-          const containerName = `${projectName}_${serviceName}`;
-
-          // Check if container already exists
-          const existingContainer = containers.find(c =>
-            c.Names.includes(`/${containerName}`)
-          );
-
-          if (existingContainer) {
-            const container = docker.getContainer(existingContainer.Id);
-            if (existingContainer.State !== 'running') {
-              await container.start();
-            }
-            continue;
-          }
-
-          // Process environment variables with defaults
-          const processEnvValue = (value: string): string => {
-            const matches = value.match(/\${([^}]+)}/g);
-            if (!matches) { return value; }
-
-            return matches.reduce((acc, match) => {
-              const envVar = match.slice(2, -1);
-              const [varName, defaultValue] = envVar.split(':-');
-              const envValue = envVars[varName] || defaultValue || '';
-              return acc.replace(match, envValue);
-            }, value);
-          };
-
-          // Process environment array
-          const envArray = config.environment?.map((env: string) => {
-            if (typeof env === 'string') {
-              const [key, value] = env.split('=');
-              return `${key}=${processEnvValue(value)}`;
-            }
-            return env;
-          }) || [];
-
-          // Process ports with environment variables
-          const portBindings: any = {};
-          if (config.ports) {
-            config.ports.forEach((p: string) => {
-              const portMapping = processEnvValue(p);
-              const [host, container] = portMapping.replace(/['"]/g, '').split(':');
-              const containerPort = `${container}/tcp`;
-              portBindings[containerPort] = [{ HostPort: host }];
-            });
-          }
-
-          // Process volumes with environment variables
-          const volumeBindings = config.volumes?.map((v: string) => {
-            const volumeMapping = processEnvValue(v);
-            const [host, container] = volumeMapping.split(':');
-            return `${path.resolve(pluginDir, host)}:${container}`;
-          }) || [];
-
-          const containerConfig: Docker.ContainerCreateOptions = {
-            Image: config.image,
-            name: containerName,
-            Env: envArray,
-            HostConfig: {
-              Binds: volumeBindings,
-              PortBindings: portBindings,
-              RestartPolicy: { Name: config.restart || 'no' }
-            }
-          };
-
-          // Pull image if needed
-          await new Promise((resolve, reject) => {
-            docker.pull(config.image, (err: Error | null, stream: NodeJS.ReadableStream) => {
-              if (err) { reject(err); }
-              docker.modem.followProgress(stream, (err: Error | null) => {
-                if (err) { reject(err); }
-                resolve(undefined);
-              });
-            });
-          });
+  return { readSpeed, writeSpeed };
+}
 
-          // Create and start container
-          const container = await docker.createContainer(containerConfig);
-          await container.start();
-        }
-        break;
-
-      case 'down':
-      case 'stop':
-        // Stop and optionally remove containers
-        for (const container of containers) {
-          if (container.Labels['com.docker.compose.project'] === projectName) {
-            const containerObj = docker.getContainer(container.Id);
-            await containerObj.stop();
-            if (action === 'down') {
-              await containerObj.remove();
-            }
-          }
-        }
-        break;
-
-      case 'restart':
-        // Restart containers
-        for (const container of containers) {
-          if (container.Labels['com.docker.compose.project'] === projectName) {
-            const containerObj = docker.getContainer(container.Id);
-            await containerObj.restart();
-          }
-        }
-        break;
+// Random 4 KiB reads from the test file for two seconds, as reads per second
+async function measureRandomReads(file: string): Promise<number> {
+  const block = Buffer.alloc(4096);
+  const blocks = DISK_TEST_BYTES / block.length;
+  const reader = await fs.open(file, 'r');
+  const start = process.hrtime.bigint();
+  let reads = 0;
+  try {
+    while (secondsSince(start) < 2) {
+      const position = Math.floor(Math.random() * blocks) * block.length;
+      await reader.read(block, 0, block.length, position);
+      reads += 1;
     }
+  } finally {
+    await reader.close();
   }
-};
-
-interface UpdateSettings {
-  autoUpdate: boolean;
-  schedule: 'hourly' | 'daily' | null;
+  return Math.round(reads / secondsSince(start));
 }
 
-const updateSettingsSchema = z.object({
-  autoUpdate: z.boolean(),
-  schedule: z.enum(['hourly', 'daily']).nullable()
-});
+// Package upgrades and rebuilds can run for a long time
+const LONG_COMMAND_TIMEOUT_MS = 30 * 60 * 1000;
 
-const userSettingsSchema = z.object({
-  name: z.string().min(1)
+// Hostnames and timezones are passed to platform tools as arguments
+const systemSettingsBodySchema = z.object({
+  hostname: hostnameSchema,
+  timezone: timezoneSchema
 });
 
-// interface BackupSettings {
-//   enabled: boolean;
-//   location: string;
-//   retention: number;
-// }
-
-const backupSettingsSchema = z.object({
-  enabled: z.boolean(),
-  location: z.string(),
-  retention: z.number().min(1).max(365)
+const logsSchema = z.object({ logs: z.string() });
+
+const performanceTestSchema = z.object({
+  cpu: z.object({
+    singleCore: z.number(),
+    multiCore: z.number(),
+    loadAverage: z.array(z.number())
+  }),
+  memory: z.object({
+    readSpeed: z.number(),
+    writeSpeed: z.number(),
+    latency: z.number()
+  }),
+  disk: z.object({
+    readSpeed: z.number(),
+    writeSpeed: z.number(),
+    iops: z.number()
+  })
 });
 
+const updateApplySchema = z.object({
+  target: z.enum(['system', 'nestos', 'all'])
+});
 
-const execAsync = promisify(exec);
-
-const logsSchema = {
-  response: {
-    200: {
-      type: 'object',
-      properties: {
-        logs: { type: 'string' }
-      },
-      required: ['logs']
-    }
-  }
-};
-
-const performanceTestSchema = {
-  response: {
-    200: {
-      type: 'object',
-      properties: {
-        cpu: {
-          type: 'object',
-          properties: {
-            singleCore: { type: 'number' },
-            multiCore: { type: 'number' },
-            loadAverage: {
-              type: 'array',
-              items: { type: 'number' }
-            }
-          },
-          required: ['singleCore', 'multiCore', 'loadAverage']
-        },
-        memory: {
-          type: 'object',
-          properties: {
-            readSpeed: { type: 'number' },
-            writeSpeed: { type: 'number' },
-            latency: { type: 'number' }
-          },
-          required: ['readSpeed', 'writeSpeed', 'latency']
-        },
-        disk: {
-          type: 'object',
-          properties: {
-            readSpeed: { type: 'number' },
-            writeSpeed: { type: 'number' },
-            iops: { type: 'number' }
-          },
-          required: ['readSpeed', 'writeSpeed', 'iops']
-        },
-        nestos: {
-          type: 'object',
-          properties: {
-            version: { type: 'string' },
-            build: { type: 'string' },
-            commit: { type: 'string' },
-            branch: { type: 'string' },
-            docker: { type: 'string' },
-            dockerCompose: { type: 'string' }
-          },
-        }
-      },
-      required: ['cpu', 'memory', 'disk']
-    }
-  }
-};
-
-const updateApplySchema = {
-  body: {
-    type: 'object',
-    properties: {
-      target: { type: 'string', enum: ['system', 'nestos', 'all'] }
-    },
-    required: ['target']
-  },
-  response: {
-    200: {
-      type: 'object',
-      properties: {
-        status: { type: 'string' },
-        message: { type: 'string' }
-      }
-    }
-  }
-};
+const updateStatusSchema = z.object({
+  updateAvailable: z.boolean(),
+  currentVersion: z.string(),
+  latestVersion: z.string(),
+  updateDetails: z.array(z.object({
+    hash: z.string(),
+    message: z.string().optional()
+  })).nullable()
+});
 
 const systemInfoSchema = z.object({
   detailed: z
@@ -314,25 +147,77 @@ const systemInfoSchema = z.object({
     .pipe(z.boolean().optional().default(false))
 });
 
-const systemSettingsSchema = {
-  body: {
-    type: 'object',
-    properties: {
-      hostname: { type: 'string' },
-      timezone: { type: 'string' }
-    },
-    required: ['hostname', 'timezone']
-  },
-  response: {
-    200: {
-      type: 'object',
-      properties: {
-        status: { type: 'string' },
-        message: { type: 'string' }
-      }
-    }
-  }
-};
+const systemInfoResponseSchema = z.object({
+  hostname: z.string(),
+  platform: z.string(),
+  distro: z.string(),
+  release: z.string(),
+  arch: z.string(),
+  timezone: z.string(),
+  uptime: z.number(),
+  cpu: z.object({
+    manufacturer: z.string(),
+    brand: z.string(),
+    cores: z.number(),
+    physicalCores: z.number()
+  }),
+  memory: z.object({
+    total: z.number(),
+    free: z.number(),
+    used: z.number(),
+    active: z.number(),
+    available: z.number()
+  }),
+  nestos: z.object({
+    version: z.string(),
+    build: z.string(),
+    commit: z.string(),
+    branch: z.string(),
+    docker: z.string(),
+    dockerCompose: z.string()
+  }),
+  // The rest is only included with ?detailed=true
+  system: z.object({
+    manufacturer: z.string(),
+    model: z.string(),
+    serial: z.string()
+  }).optional(),
+  load: z.object({
+    avgLoad: z.number(),
+    currentLoad: z.number(),
+    cpuLoad: z.array(z.number())
+  }).optional(),
+  services: z.array(z.object({
+    name: z.string(),
+    running: z.boolean(),
+    startmode: z.string()
+  })).optional(),
+  docker: z.object({
+    containers: z.object({
+      total: z.number(),
+      running: z.number(),
+      paused: z.number(),
+      stopped: z.number()
+    }),
+    images: z.number()
+  }).optional()
+});
+
+const statusMessageSchema = z.object({
+  status: z.literal('success'),
+  message: z.string()
+});
+
+const pluginParamsSchema = z.object({ id: pluginIdSchema });
+
+// Catalog entries as the plugin store lists them
+const pluginListingSchema = catalogEntrySchema.extend({
+  installed: z.boolean(),
+  // Why the plugin cannot be installed, if it cannot
+  verificationError: z.string().optional(),
+  configComponent: z.string().optional(),
+  configSchema: pluginConfigSchemaSchema.optional()
+});
 
 // const pluginsSchema = {
 //   response: {
@@ -361,32 +246,19 @@ const systemSettingsSchema = {
 // };
 
 
-// Add near the top with other imports and helpers
-const runPrivilegedCommand = async (command: string): Promise<{ stdout: string; stderr: string }> => {
-  // Check if running in container or as root
-  const isRoot = process.getuid?.() === 0;
-  const inContainer = fs.access('/.dockerenv').then(() => true).catch(() => false);
+export const systemRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify, opts) => {
+  const tags = ['System'];
 
-  if (isRoot || await inContainer) {
-    // In container or root, run directly
-    return execAsync(command);
-  }
-
-  // Check for SUDO_PASSWORD environment variable
-  const sudoPass = process.env.SUDO_PASSWORD;
-  if (sudoPass) {
-    // Use sudo with password from env
-    return execAsync(`echo "${sudoPass}" | sudo -S ${command}`);
-  }
-
-  // Try without password (if sudo NOPASSWD is configured)
-  return execAsync(`sudo ${command}`);
-};
-
-export const systemRoutes: FastifyPluginAsync = async (fastify) => {
   // Get system information
-  fastify.get('/info', async (request) => {
-    const { detailed } = systemInfoSchema.parse(request.query);
+  fastify.get('/info', {
+    schema: {
+      summary: 'Get hardware, OS and NestOS version information',
+      tags,
+      querystring: systemInfoSchema,
+      response: { 200: systemInfoResponseSchema }
+    }
+  }, async (request) => {
+    const { detailed } = request.query;
 
     const [cpu, mem, os, system] = await Promise.all([
       si.cpu(),
@@ -404,8 +276,8 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
       const getGitInfo = async () => {
         try {
           const [commitHash, branch] = await Promise.all([
-            execAsync('git rev-parse HEAD').then(res => res.stdout.trim()),
-            execAsync('git rev-parse --abbrev-ref HEAD').then(res => res.stdout.trim())
+            runCommand('git', ['rev-parse', 'HEAD']).then(res => res.stdout.trim()),
+            runCommand('git', ['rev-parse', '--abbrev-ref', 'HEAD']).then(res => res.stdout.trim())
           ]);
           return { commitHash, branch };
         } catch (error) {
@@ -417,11 +289,11 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
       // Get docker versions
       const getDockerInfo = async () => {
         try {
-          const dockerVersion = await execAsync('docker --version')
+          const dockerVersion = await runCommand('docker', ['--version'])
             .then(res => res.stdout.match(/Docker version ([0-9.]+)/)?.[1] || '')
             .catch(() => '');
 
-          const dockerComposeVersion = await execAsync('docker compose version')
+          const dockerComposeVersion = await runCommand('docker', ['compose', 'version'])
             .then(res => res.stdout.match(/Docker Compose version ([0-9.]+)/)?.[1] || '')
             .catch(() => '');
 
@@ -478,6 +350,7 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
       distro: os.distro,
       release: os.release,
       arch: os.arch,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       uptime: systemUptime,
       cpu: {
         manufacturer: cpu.manufacturer,
@@ -536,17 +409,21 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get system logs
   fastify.get('/logs', {
-    schema: logsSchema
+    schema: {
+      summary: 'Get the last 1000 lines of the system log',
+      tags,
+      response: { 200: logsSchema }
+    }
   }, async () => {
     try {
       // Try journalctl first (Linux)
       try {
-        const { stdout } = await execAsync('journalctl -n 1000 --no-pager');
+        const { stdout } = await runCommand('journalctl', ['-n', '1000', '--no-pager']);
         return { logs: stdout };
       } catch {
         // Fall back to system.log (macOS)
         try {
-          const { stdout } = await execAsync('tail -n 1000 /var/log/system.log');
+          const { stdout } = await runCommand('tail', ['-n', '1000', '/var/log/system.log']);
           return { logs: stdout };
         } catch {
           // If both fail, return empty logs
@@ -554,12 +431,19 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         }
       }
     } catch (error) {
-      throw new Error(`Failed to get system logs: ${error}`);
+      throw withContext(error, 'Failed to get system logs');
     }
   });
 
-  // Performance test
-  fastify.post('/performance', { schema: performanceTestSchema }, async () => {
+  // Performance test (read-only diagnostic, so viewers may run it)
+  fastify.post('/performance', {
+    config: { role: 'viewer' },
+    schema: {
+      summary: 'Benchmark CPU, memory and disk',
+      tags,
+      response: { 200: performanceTestSchema }
+    }
+  }, async () => {
     try {
       // CPU Performance Test
       const cpuTest = await Promise.all([
@@ -623,119 +507,27 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         })
       ]);
 
-      // Disk Performance Test
-      const { stdout: osType } = await execAsync('uname');
-      const isLinux = osType.trim() === 'Linux';
-      const hasFio = await execAsync('which fio').catch(() => ({ stdout: '' }));
-
-      let diskResults: { readSpeed: number; writeSpeed: number; iops: number };
-
-      if (isLinux && hasFio.stdout.trim()) {
-        // Linux with fio
-        const diskTest = await Promise.all([
-          execAsync('dd if=/dev/zero of=/tmp/testfile bs=1M count=1000 conv=fdatasync'),
-          execAsync('dd if=/tmp/testfile of=/dev/null bs=1M count=1000'),
-          execAsync('fio --name=randread --ioengine=libaio --direct=1 --bs=4k --iodepth=32 --size=1G --rw=randread --runtime=10 --filename=/tmp/testfile --output-format=json')
+      // Disk Performance Test, in GB/s like the memory test; fio measures IOPS when installed
+      const testFile = '/tmp/testfile';
+      const { readSpeed, writeSpeed } = await measureDiskThroughput(testFile);
+      const hasFio = process.platform === 'linux'
+        && await runCommand('fio', ['--version']).then(() => true).catch(() => false);
+
+      let iops: number;
+      if (hasFio) {
+        const { stdout } = await runCommand('fio', [
+          '--name=randread', '--ioengine=libaio', '--direct=1', '--bs=4k', '--iodepth=32',
+          '--size=1G', '--rw=randread', '--runtime=10', `--filename=${testFile}`,
+          '--output-format=json'
         ]);
-
-        diskResults = {
-          readSpeed: parseFloat(diskTest[1].stdout.match(/([0-9.]+) GB\/s/)?.[1] || '0') * 1024,
-          writeSpeed: parseFloat(diskTest[0].stdout.match(/([0-9.]+) GB\/s/)?.[1] || '0') * 1024,
-          iops: JSON.parse(diskTest[2].stdout).jobs[0].read.iops
-        };
+        ({ iops } = JSON.parse(stdout).jobs[0].read);
       } else {
-        // macOS or Linux without fio
-        console.log('Running macOS disk tests...');
-
-        // Helper function to parse dd output
-        const parseSpeed = (output: string): number => {
-          console.log('Raw output:', output);
-
-          // Try to match bytes/sec from parentheses
-          const bytesPerSecMatch = output.match(/\((\d+)\s+bytes\/sec\)/);
-          if (bytesPerSecMatch) {
-            const bytesPerSec = parseInt(bytesPerSecMatch[1], 10);
-            const gbPerSec = bytesPerSec / (1024 * 1024 * 1024);
-            console.log('Parsed speed from bytes/sec:', { bytesPerSec, gbPerSec });
-            return gbPerSec;
-          }
-
-          // Try to match bytes and time
-          const bytesMatch = output.match(/(\d+)\s+bytes\s+transferred\s+in\s+([\d.]+)\s+secs/);
-          if (bytesMatch) {
-            const bytes = parseInt(bytesMatch[1], 10);
-            const seconds = parseFloat(bytesMatch[2]);
-            const gbPerSec = (bytes / (1024 * 1024 * 1024)) / seconds;
-            console.log('Parsed speed from bytes and time:', { bytes, seconds, gbPerSec });
-            return gbPerSec;
-          }
-
-          console.log('Could not parse speed from output');
-          return 0;
-        };
-
-        // Helper function to run dd command
-        const runDdTest = async (cmd: string): Promise<string> => {
-          try {
-            const { stdout, stderr } = await execAsync(`/bin/dd ${cmd} 2>&1`);
-            return stderr || stdout;
-          } catch (error) {
-            // On macOS, dd outputs to stderr even on success
-            if (error && typeof error === 'object' && ('stderr' in error || 'stdout' in error)) {
-              const execError = error as { stderr?: string; stdout?: string };
-              return execError.stderr || execError.stdout || '';
-            }
-            return '';
-          }
-        };
-
-        // Create test file
-        await runDdTest('if=/dev/zero of=/tmp/testfile bs=1m count=1024');
-
-        // Run write tests
-        const writeResults = [];
-        for (let i = 0; i < 3; i++) {
-          console.log(`Running write test ${i + 1}...`);
-          const output = await runDdTest('if=/dev/zero of=/tmp/testfile bs=1m count=1024');
-          const speed = parseSpeed(output);
-          console.log(`Write test ${i + 1} speed:`, speed);
-          writeResults.push(speed);
-        }
-
-        // Run read tests
-        const readResults = [];
-        for (let i = 0; i < 3; i++) {
-          console.log(`Running read test ${i + 1}...`);
-          const output = await runDdTest('if=/tmp/testfile of=/dev/null bs=1m count=1024');
-          const speed = parseSpeed(output);
-          console.log(`Read test ${i + 1} speed:`, speed);
-          readResults.push(speed);
-        }
-
-        // Run IOPS tests
-        const iopsResults = [];
-        for (let i = 0; i < 5; i++) {
-          console.log(`Running IOPS test ${i + 1}...`);
-          const output = await runDdTest('if=/tmp/testfile of=/dev/null bs=4k count=1000');
-          const speed = parseSpeed(output);
-          console.log(`IOPS test ${i + 1} speed:`, speed);
-          const iops = Math.round((speed * 1024 * 1024) / 4); // Convert GB/s to 4K IOPS
-          console.log(`IOPS test ${i + 1} IOPS:`, iops);
-          iopsResults.push(iops);
-        }
-
-        // Calculate average speeds
-        const writeSpeed = writeResults.reduce((a, b) => a + b, 0) / writeResults.length;
-        const readSpeed = readResults.reduce((a, b) => a + b, 0) / readResults.length;
-        const iops = Math.round(iopsResults.reduce((a, b) => a + b, 0) / iopsResults.length);
-
-        console.log('Final results:', { writeSpeed, readSpeed, iops });
-
-        diskResults = { writeSpeed, readSpeed, iops };
+        iops = await measureRandomReads(testFile);
       }
+      const diskResults = { readSpeed, writeSpeed, iops };
 
       // Clean up test files
-      await execAsync('rm -f /tmp/testfile /tmp/test');
+      await Promise.all(['/tmp/testfile', '/tmp/test'].map(file => fs.rm(file, { force: true })));
 
       return {
         cpu: {
@@ -751,27 +543,41 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         disk: diskResults
       };
     } catch (error) {
-      throw new Error(`Performance test failed: ${error}`);
+      throw withContext(error, 'Performance test failed');
     }
   });
 
   // Reboot system
-  fastify.post('/reboot', async () => {
+  fastify.post('/reboot', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Reboot the device',
+      tags,
+      response: { 200: z.object({ status: z.literal('rebooting') }) }
+    }
+  }, async () => {
     try {
-      await execAsync('shutdown -r now');
-      return { status: 'rebooting' };
+      await runPrivileged({ op: 'power', action: 'reboot' });
+      return { status: 'rebooting' as const };
     } catch (error) {
-      throw new Error(`Failed to initiate reboot: ${error}`);
+      throw withContext(error, 'Failed to initiate reboot');
     }
   });
 
   // Shutdown system
-  fastify.post('/shutdown', async () => {
+  fastify.post('/shutdown', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Shut the device down',
+      tags,
+      response: { 200: z.object({ status: z.literal('shutting_down') }) }
+    }
+  }, async () => {
     try {
-      await execAsync('shutdown -h now');
-      return { status: 'shutting_down' };
+      await runPrivileged({ op: 'power', action: 'poweroff' });
+      return { status: 'shutting_down' as const };
     } catch (error) {
-      throw new Error(`Failed to initiate shutdown: ${error}`);
+      throw withContext(error, 'Failed to initiate shutdown');
     }
   });
 
@@ -783,14 +589,19 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
       const currentVersion = localPackageJson.version;
 
       // Fetch remote package.json
-      const remotePackageJson = await axios.get('https://raw.githubusercontent.com/moderniselife/nestos/refs/heads/main/package.json')
+      const remotePackageJson = await axios.get(`${opts.config.repositoryUrl}/package.json`)
         .then(res => res.data);
       const latestVersion = remotePackageJson.version;
 
       // Get commit details if there's an update
       let updateDetails = null;
       if (currentVersion !== latestVersion) {
-        const { stdout: commitLog } = await execAsync('git fetch origin main && git log --pretty=format:"%h - %s" HEAD..origin/main');
+        await runCommand('git', ['fetch', 'origin', 'main']);
+        const { stdout: commitLog } = await runCommand('git', [
+          'log',
+          '--pretty=format:%h - %s',
+          'HEAD..origin/main'
+        ]);
         updateDetails = commitLog.split('\n').map(line => {
           const [hash, message] = line.split(' - ');
           return { hash, message };
@@ -804,7 +615,7 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         updateDetails
       };
     } catch (error) {
-      throw new Error(`Failed to check for updates: ${error}`);
+      throw withContext(error, 'Failed to check for updates');
     }
   };
 
@@ -814,7 +625,7 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
 
       if (platform === 'darwin') {
         // macOS code remains the same
-        const { stdout: updateCheck } = await execAsync('softwareupdate -l');
+        const { stdout: updateCheck } = await runCommand('softwareupdate', ['-l'], { timeoutMs: LONG_COMMAND_TIMEOUT_MS });
         const hasUpdates = !updateCheck.includes('No new software available');
 
         return {
@@ -828,7 +639,7 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         };
       } else if (platform === 'linux') {
         // Get current system version
-        const { stdout: osRelease } = await execAsync('cat /etc/os-release');
+        const osRelease = await fs.readFile('/etc/os-release', 'utf-8');
         const currentVersion = osRelease
           .split('\n')
           .find(line => line.startsWith('VERSION_ID='))
@@ -836,8 +647,8 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
           .replace(/"/g, '') || '';
 
         // Get available updates
-        await execAsync('apt-get update');
-        const { stdout: upgradeCheck } = await execAsync('apt-get upgrade -s');
+        await runPrivileged({ op: 'apt.update' });
+        const { stdout: upgradeCheck } = await runCommand('apt-get', ['upgrade', '-s']);
 
         // Parse upgrade information
         const updates = upgradeCheck
@@ -870,14 +681,20 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         };
       }
 
-      throw new Error(`Unsupported platform: ${platform}`);
+      throw new ApiError(501, 'UNSUPPORTED', `Unsupported platform: ${platform}`);
     } catch (error) {
-      throw new Error(`Failed to check for system updates: ${error}`);
+      throw withContext(error, 'Failed to check for system updates');
     }
   };
 
   // Check for System and NestOS updates
-  fastify.get('/updates/check', async () => {
+  fastify.get('/updates/check', {
+    schema: {
+      summary: 'Check for operating system and NestOS updates',
+      tags: ['Updates'],
+      response: { 200: z.object({ system: updateStatusSchema, nestos: updateStatusSchema }) }
+    }
+  }, async () => {
     try {
       // Check for system updates
       const systemUpdates = await checkSystemUpdates();
@@ -901,111 +718,96 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
 
       return response;
     } catch (error) {
-      throw new Error(`Failed to check for updates: ${error}`);
+      throw withContext(error, 'Failed to check for updates');
     }
   });
 
   // Update system or NestOS
-  fastify.post('/updates/apply', { schema: updateApplySchema }, async (request) => {
+  fastify.post('/updates/apply', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Install operating system or NestOS updates',
+      description: 'Responds once the update has finished; NestOS updates restart the service.',
+      tags: ['Updates'],
+      body: updateApplySchema,
+      response: { 200: z.object({ status: z.literal('updated'), message: z.string() }) }
+    }
+  }, async (request) => {
     try {
-      const { target } = request.body as { target: 'system' | 'nestos' | 'all' };
+      const { target } = request.body;
 
       if (target === 'system' || target === 'all') {
-        const { platform } = process;
-        if (platform === 'darwin') {
-          await execAsync('softwareupdate -i -a');
-        } else if (platform === 'linux') {
-          await execAsync('apt-get update');
-          await execAsync('DEBIAN_FRONTEND=noninteractive apt-get upgrade -y');
-        } else {
-          throw new Error(`Unsupported platform: ${platform}`);
-        }
+        await installSystemUpdates();
       }
 
       if (target === 'nestos' || target === 'all') {
         // Pull latest changes
-        await execAsync('git pull origin main');
+        await runCommand('git', ['pull', 'origin', 'main'], { timeoutMs: LONG_COMMAND_TIMEOUT_MS });
         // Rebuild
-        await execAsync('npm run build');
+        await runCommand('npm', ['run', 'build'], { timeoutMs: LONG_COMMAND_TIMEOUT_MS });
         // Restart services
-        await execAsync('systemctl restart nestos.service');
+        await runPrivileged({ op: 'service.restart', unit: 'nestos-system' });
       }
 
       return {
-        status: 'updated',
+        status: 'updated' as const,
         message: `Successfully updated ${target === 'all' ? 'system and NestOS' : target}`
       };
     } catch (error) {
-      throw new Error(`Update failed: ${error}`);
+      throw withContext(error, 'Update failed');
     }
   });
 
   // Get update settings
-  fastify.get('/updates/settings', async () => {
+  fastify.get('/updates/settings', {
+    schema: {
+      summary: 'Get the automatic update schedule',
+      description: 'Automatic updates install operating system packages, never NestOS itself.',
+      tags: ['Updates'],
+      response: { 200: updateSettingsSchema }
+    }
+  }, async () => {
     try {
-      const settings: UpdateSettings = {
-        autoUpdate: false,
-        schedule: null
-      };
-
-      // Try to read existing settings
-      try {
-        const { stdout } = await execAsync('crontab -l');
-        const hourlyMatch = stdout.match(/0 \* \* \* \* cd .* && git pull/);
-        const dailyMatch = stdout.match(/0 0 \* \* \* cd .* && git pull/);
-
-        if (hourlyMatch || dailyMatch) {
-          settings.autoUpdate = true;
-          settings.schedule = hourlyMatch ? 'hourly' : 'daily';
-        }
-      } catch {
-        // No crontab exists yet
-      }
-
-      return settings;
+      return await loadUpdateSettings();
     } catch (error) {
-      throw new Error(`Failed to get update settings: ${error}`);
+      throw withContext(error, 'Failed to get update settings');
     }
   });
 
   // Update settings
-  fastify.post('/updates/settings', async (request) => {
-    const body = updateSettingsSchema.parse(request.body);
+  fastify.post('/updates/settings', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Set the automatic update schedule',
+      description: 'Automatic updates install operating system packages, never NestOS itself.',
+      tags: ['Updates'],
+      body: updateSettingsSchema,
+      response: { 200: z.object({ status: z.literal('success') }) }
+    }
+  }, async (request) => {
+    const { autoUpdate, schedule } = request.body;
 
     try {
-      // Read existing crontab
-      let currentCrontab = '';
-      try {
-        const { stdout } = await execAsync('crontab -l');
-        currentCrontab = stdout;
-      } catch {
-        // No crontab exists yet
-      }
-
-      // Remove any existing auto-update entries
-      currentCrontab = currentCrontab
-        .split('\n')
-        .filter(line => !line.includes('git pull'))
-        .join('\n');
-
-      if (body.autoUpdate) {
-        // Add new auto-update entry based on schedule
-        const schedule = body.schedule || 'hourly';
-        const cronExpression = schedule === 'hourly' ? '0 * * * *' : '0 0 * * *';
-        currentCrontab += `\n${cronExpression} cd ${process.cwd()} && git pull origin main && npm run build && systemctl restart nestos.service`;
-      }
-
-      // Write new crontab
-      await execAsync(`echo "${currentCrontab.trim()}" | crontab -`);
+      // Picked up by the service's own hourly schedule
+      await saveUpdateSettings({
+        autoUpdate,
+        schedule: autoUpdate ? schedule ?? 'hourly' : null
+      });
 
-      return { status: 'success' };
+      return { status: 'success' as const };
     } catch (error) {
-      throw new Error(`Failed to update settings: ${error}`);
+      throw withContext(error, 'Failed to update settings');
     }
   });
 
   // Get available timezones
-  fastify.get('/timezones', async () => {
+  fastify.get('/timezones', {
+    schema: {
+      summary: 'List the timezones the device can be set to',
+      tags,
+      response: { 200: z.array(z.string()) }
+    }
+  }, async () => {
     try {
       // Use Intl API to get all timezone names
       const timezones = Intl.supportedValuesOf('timeZone');
@@ -1030,24 +832,35 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // Update system settings
-  fastify.post('/settings', { schema: systemSettingsSchema }, async (request) => {
+  fastify.post('/settings', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Set the hostname and timezone',
+      description: 'Responds with status partial, naming what failed, if only one of them could be set.',
+      tags,
+      body: systemSettingsBodySchema,
+      response: {
+        200: z.object({ status: z.enum(['success', 'partial']), message: z.string() })
+      }
+    }
+  }, async (request) => {
+    const { hostname, timezone } = request.body;
+
     try {
-      const { hostname, timezone } = request.body as { hostname: string; timezone: string };
       const { platform } = process;
       const errors: string[] = [];
 
       // Update hostname
       try {
         if (platform === 'win32') {
-          // Windows uses PowerShell directly
-          await execAsync(`powershell -Command "Rename-Computer -NewName '${hostname}' -Force"`);
+          // Renaming needs PowerShell, which the service may not run
+          throw new Error('Changing the hostname is not supported on Windows');
+        } else if (platform === 'darwin') {
+          for (const key of ['HostName', 'LocalHostName', 'ComputerName']) {
+            await runCommand('scutil', ['--set', key, hostname], { privileged: true });
+          }
         } else {
-          // Use runPrivilegedCommand for Unix-like systems
-          await runPrivilegedCommand(
-            platform === 'darwin'
-              ? `scutil --set HostName ${hostname} && scutil --set LocalHostName ${hostname} && scutil --set ComputerName ${hostname}`
-              : `hostnamectl set-hostname ${hostname}`
-          );
+          await runPrivileged({ op: 'hostname', hostname });
         }
       } catch (err) {
         errors.push(`Hostname update failed: ${err}`);
@@ -1057,14 +870,11 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
       try {
         if (platform === 'win32') {
           // Windows uses tzutil directly
-          await execAsync(`tzutil /s "${timezone}"`);
+          await runCommand('tzutil', ['/s', timezone]);
+        } else if (platform === 'darwin') {
+          await runCommand('systemsetup', ['-settimezone', timezone], { privileged: true });
         } else {
-          // Use runPrivilegedCommand for Unix-like systems
-          await runPrivilegedCommand(
-            platform === 'darwin'
-              ? `systemsetup -settimezone ${timezone}`
-              : `timedatectl set-timezone ${timezone}`
-          );
+          await runPrivileged({ op: 'timezone', timezone });
         }
       } catch (err) {
         errors.push(`Timezone update failed: ${err}`);
@@ -1072,146 +882,104 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
 
       if (errors.length > 0) {
         return {
-          status: 'partial',
+          status: 'partial' as const,
           message: `Some settings failed to update: ${errors.join('; ')}`
         };
       }
 
       return {
-        status: 'success',
+        status: 'success' as const,
         message: 'System settings updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update system settings: ${error}`);
+      throw withContext(error, 'Failed to update system settings');
     }
   });
 
-  // Add these routes before the final export
   // Get backup settings
-  fastify.get('/backup/settings', async () => {
+  fastify.get('/backup/settings', {
+    schema: {
+      summary: 'Get the backup schedule',
+      tags: ['Backups'],
+      response: { 200: backupSettingsSchema }
+    }
+  }, async () => {
     try {
-      const settingsPath = path.join(process.cwd(), 'backup-settings.json');
-      try {
-        const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
-        return backupSettingsSchema.parse(settings);
-      } catch {
-        // Return default settings if file doesn't exist
-        return {
-          enabled: false,
-          location: '/mnt/backups',
-          retention: 30
-        };
-      }
+      return await loadBackupSettings();
     } catch (error) {
-      throw new Error(`Failed to get backup settings: ${error}`);
+      throw withContext(error, 'Failed to get backup settings');
     }
   });
 
   // Update backup settings
-  fastify.post('/backup/settings', async (request) => {
+  fastify.post('/backup/settings', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Set the backup schedule and location',
+      description: 'Enabled, the service creates a backup every night at midnight.',
+      tags: ['Backups'],
+      body: backupSettingsSchema,
+      response: { 200: statusMessageSchema }
+    }
+  }, async (request) => {
     try {
-      const settings = backupSettingsSchema.parse(request.body);
-      const settingsPath = path.join(process.cwd(), 'backup-settings.json');
-
-      // Create backup directory if it doesn't exist
-      await runPrivilegedCommand(`mkdir -p ${settings.location}`);
-
-      // Save settings
-      await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2));
-
-      // Update cron job if automatic backups are enabled
-      let currentCrontab = '';
-      try {
-        const { stdout } = await execAsync('crontab -l');
-        currentCrontab = stdout;
-      } catch {
-        // No crontab exists yet
-      }
-
-      // Remove existing backup entries
-      currentCrontab = currentCrontab
-        .split('\n')
-        .filter(line => !line.includes('backup.sh'))
-        .join('\n');
-
-      if (settings.enabled) {
-        // Add daily backup job at midnight
-        currentCrontab += `\n0 0 * * * ${process.cwd()}/scripts/backup.sh ${settings.location} ${settings.retention}`;
-      }
-
-      // Write new crontab
-      await execAsync(`echo "${currentCrontab.trim()}" | crontab -`);
-
-      return { status: 'success', message: 'Backup settings updated successfully' };
+      await saveBackupSettings(request.body);
+      return { status: 'success' as const, message: 'Backup settings updated successfully' };
     } catch (error) {
-      throw new Error(`Failed to update backup settings: ${error}`);
+      throw withContext(error, 'Failed to update backup settings');
     }
   });
 
   // Trigger manual backup
-  fastify.post('/backup/run', async () => {
+  fastify.post('/backup/run', {
+    schema: {
+      summary: 'Back up NestOS and its configuration now',
+      tags: ['Backups'],
+      response: { 200: statusMessageSchema.extend({ file: z.string() }) }
+    }
+  }, async () => {
     try {
-      const settingsPath = path.join(process.cwd(), 'backup-settings.json');
-      const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
-
-      // Create backup filename with timestamp
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const backupFile = path.join(settings.location, `nestos-backup-${timestamp}.tar.gz`);
-
-      // Create backup directory if it doesn't exist
-      await runPrivilegedCommand(`mkdir -p ${settings.location}`);
-
-      // Get NestOS root directory (two levels up from current directory)
-      const nestosRoot = path.resolve(process.cwd(), '../../');
-
-      // Create backup with important system files and configurations
-      await runPrivilegedCommand(`tar -czf ${backupFile} \
-        --exclude='**/node_modules' \
-        --exclude='**/.git' \
-        --exclude='**/dist' \
-        --exclude='**/*.log' \
-        --exclude='**/*.tar.gz' \
-        --exclude='**/coverage' \
-        --exclude='**/.env' \
-        -C ${nestosRoot} . \
-        -C /etc nestos \
-        -C /etc/systemd/system nestos*.service \
-        2>/dev/null || true`);
-
-      // Clean up old backups
-      const { stdout: files } = await execAsync(`find ${settings.location} -name "nestos-backup-*.tar.gz" -type f`);
-      const backupFiles = files.split('\n').filter(Boolean);
-
-      if (backupFiles.length > settings.retention) {
-        const filesToDelete = backupFiles
-          .sort()
-          .slice(0, backupFiles.length - settings.retention);
-
-        for (const file of filesToDelete) {
-          await fs.unlink(file);
-        }
-      }
+      // The helper reads files the service cannot, creates the directory and prunes old backups
+      const file = await createBackup(await loadBackupSettings());
 
       return {
-        status: 'success',
+        status: 'success' as const,
         message: 'System backup completed successfully',
-        file: backupFile
+        file
       };
     } catch (error) {
-      throw new Error(`Backup failed: ${error}`);
+      throw withContext(error, 'Backup failed');
     }
   });
 
-  fastify.get('/plugins', async () => {
+  fastify.get('/plugins', {
+    schema: {
+      summary: 'List the plugins in the plugin catalog',
+      tags: ['Plugins'],
+      response: { 200: z.array(pluginListingSchema) }
+    }
+  }, async () => {
     try {
-      const response = await axios.get(`https://raw.githubusercontent.com/moderniselife/nestos/main/nestos-plugins/plugins.json?t=${new Date().getTime()}`);
-      const plugins = response.data;
+      const { plugins, signatureError } = await fetchPluginCatalog();
 
       for (const plugin of plugins) {
+        // Only verified plugins can be installed; the reason is shown otherwise
+        plugin.verificationError = signatureError ?? (isPinned(plugin)
+          ? undefined
+          : 'Not pinned to a commit and checksum in the plugin catalog');
+
         try {
-          const configPath = path.join(process.cwd(), 'plugins', plugin.id, 'ui', 'config.tsx');
+          const pluginDir = path.join(opts.config.pluginsDir, plugin.id);
+          const configPath = path.join(pluginDir, 'ui', 'config.tsx');
           const configExists = await fs.access(configPath).then(() => true).catch(() => false);
 
+          // Plugins with a config.schema.json are configured through a generated form
+          const configSchema = await loadPluginConfigSchema(pluginDir).catch((error) => {
+            console.error(`Ignoring config schema of plugin ${plugin.id}:`, error);
+            return null;
+          });
+          plugin.configSchema = configSchema ?? undefined;
+
           if (configExists) {
             plugin.installed = true;
             const configCode = await fs.readFile(configPath, 'utf-8');
@@ -1222,7 +990,7 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
               .trim();
             plugin.configComponent = componentCode;
           } else {
-            plugin.installed = false;
+            plugin.installed = !!configSchema;
             plugin.configComponent = undefined;
           }
         } catch {
@@ -1231,52 +999,64 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         }
       }
 
-      return plugins;
+      // The loop above sets installed on every entry
+      return plugins as z.infer<typeof pluginListingSchema>[];
     } catch (error) {
-      throw new Error(`Failed to fetch plugins: ${error}`);
+      throw withContext(error, 'Failed to fetch plugins');
     }
   });
 
-  fastify.post('/plugins/:id/install', async (request, reply) => {
-    const { id } = request.params as { id: string };
-    const { config } = request.body as { config?: Record<string, any> };
-    const pluginsDir = path.join(process.cwd(), 'plugins');
+  fastify.post('/plugins/:id/install', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Install a plugin from the signed catalog',
+      description: 'Plugins with settings must be installed with their config.',
+      tags: ['Plugins'],
+      params: pluginParamsSchema,
+      body: z.object({ config: pluginConfigValuesSchema.optional() }),
+      response: { 200: statusMessageSchema }
+    }
+  }, async (request) => {
+    const { id } = request.params;
+    const { config } = request.body;
+    const { pluginsDir } = opts.config;
     await fs.mkdir(pluginsDir, { recursive: true });
     const pluginDir = path.join(pluginsDir, id);
 
     try {
-      // Fetch plugin info and config component
-      const response = await axios.get('https://raw.githubusercontent.com/moderniselife/nestos/main/nestos-plugins/plugins.json');
-      const plugin = response.data.find((p: any) => p.id === id);
-
+      // The signed catalog pins each plugin to a commit and checksum; install
+      // scripts run with Docker access, so nothing that fails verification is installed
+      const plugin = await getVerifiedCatalogEntry(id);
       if (!plugin) {
-        reply.code(404);
-        throw new Error('Plugin not found');
+        throw new NotFoundError('Plugin not found', { plugin: id });
       }
-
-      // Clone plugin repository
-      await execAsync(`git clone ${plugin.repository} ${path.join(pluginsDir, id)}`);
+      await checkoutPinnedPlugin(plugin, pluginDir);
 
       // Check if plugin requires configuration
       const configPath = path.join(pluginDir, 'ui', 'config.tsx');
-      const requiresConfig = await fs.access(configPath).then(() => true).catch(() => false);
+      const configSchema = await loadPluginConfigSchema(pluginDir);
+      const requiresConfig =
+        !!configSchema || (await fs.access(configPath).then(() => true).catch(() => false));
 
       if (requiresConfig && !config) {
-        // Remove cloned repository if no config provided
-        await fs.rm(pluginDir, { recursive: true, force: true });
-        reply.code(400);
-        throw new Error('Plugin requires configuration');
+        // The cloned repository is removed below
+        throw new ValidationError('Plugin requires configuration', { plugin: id });
       }
 
-      // If config is provided, save it
+      // If config is provided, save it to config.json and .env
       if (config) {
-        const configJsonPath = path.join(pluginDir, 'config.json');
-        await fs.writeFile(configJsonPath, JSON.stringify(config, null, 2));
-        // Create .env file from config
-        const envContent = Object.entries(config)
-          .map(([key, value]) => `${key}=${value}`)
-          .join('\n');
-        await fs.writeFile(path.join(pluginDir, '.env'), envContent);
+        let pluginConfig = config;
+        if (configSchema) {
+          const { config: validConfig, errors } = validatePluginConfig(configSchema, config);
+          if (errors.length > 0) {
+            throw invalidConfigurationError(errors);
+          }
+          pluginConfig = validConfig;
+        }
+
+        // Secrets go to the secrets store; config.json and .env only hold references
+        pluginConfig = await moveSecretsToStore(id, pluginConfig, configSchema);
+        await savePluginConfig(pluginDir, pluginConfig);
       }
 
       // Read and store the configuration component
@@ -1287,123 +1067,47 @@ export const systemRoutes: FastifyPluginAsync = async (fastify) => {
         console.log('No configuration component found for plugin:', id);
       }
 
-      // Run install script if it exists
-      const installScript = path.join(pluginsDir, id, 'install.sh');
-      try {
-        await fs.access(installScript);
-
-        // Read the install script
-        const scriptContent = await fs.readFile(installScript, 'utf-8');
-
-        // Process the script content
-        const lines = scriptContent.split('\n');
-        let isInHeredoc = false;
-        let heredocMarker = '';
-        let currentCommand = '';
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim();
-
-          // Skip empty lines and comments
-          if (!line || line.startsWith('#')) { continue; }
-
-          if (isInHeredoc) {
-            // Check if this line ends the heredoc
-            if (line === heredocMarker) {
-              isInHeredoc = false;
-              await runPrivilegedCommand(currentCommand);
-              currentCommand = '';
-            } else {
-              currentCommand += `${line}\n`;
-            }
-          } else {
-            // Check for heredoc start
-            const heredocMatch = line.match(/<<\s*(\w+)\s*$/);
-            if (heredocMatch) {
-              isInHeredoc = true;
-              heredocMarker = heredocMatch[1];
-              currentCommand = `${line}\n`;
-            } else if (line.includes('docker')) {
-              console.log('Executing Docker command:', { line, id, pluginDir })
-              await executeDockerCommand(line, id, pluginDir);
-            } else {
-              await runPrivilegedCommand(line);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Install script error:', error);
-        // Continue with installation even if script fails
-      }
+      // A failing install script fails the installation, which removes the plugin again
+      await runPluginScript(pluginDir, 'install.sh');
 
-      return { status: 'success', message: 'Plugin installed successfully' };
+      return { status: 'success' as const, message: 'Plugin installed successfully' };
     } catch (error) {
       // Cleanup on failure
       await fs.rm(pluginDir, { recursive: true, force: true }).catch(() => { });
-      throw new Error(`Failed to install plugin: ${error}`);
+      throw withContext(error, 'Failed to install plugin');
     }
   });
 
-  fastify.delete('/plugins/:id', async (request, reply) => {
-    const { id } = request.params as { id: string };
+  fastify.delete('/plugins/:id', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Uninstall a plugin',
+      tags: ['Plugins'],
+      params: pluginParamsSchema,
+      response: { 200: statusMessageSchema }
+    }
+  }, async (request) => {
+    const { id } = request.params;
 
     try {
-      const pluginDir = path.join(process.cwd(), 'plugins', id);
+      const pluginDir = path.join(opts.config.pluginsDir, id);
 
       // Check if plugin exists
       try {
         await fs.access(pluginDir);
       } catch {
-        reply.code(404);
-        throw new Error('Plugin not installed');
+        throw new NotFoundError('Plugin not installed', { plugin: id });
       }
 
-      // Run uninstall script if it exists
-      const uninstallScript = path.join(pluginDir, 'uninstall.sh');
-      try {
-        await fs.access(uninstallScript);
-        await runPrivilegedCommand(`bash ${uninstallScript}`);
-      } catch {
-        // No uninstall script, skip
-      }
+      // The directory stays when the uninstall script fails, so it can be run again
+      await runPluginScript(pluginDir, 'uninstall.sh');
 
       // Remove plugin directory
       await fs.rm(pluginDir, { recursive: true, force: true });
 
-      return { status: 'success', message: 'Plugin uninstalled successfully' };
-    } catch (error) {
-      throw new Error(`Failed to uninstall plugin: ${error}`);
-    }
-  });
-
-  fastify.get('/user/name', async () => {
-    try {
-      const settingsPath = path.join(process.cwd(), 'data', 'user-settings.json');
-      try {
-        const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'));
-        return { name: settings.name };
-      } catch {
-        return { name: null };
-      }
-    } catch (error) {
-      throw new Error(`Failed to get user name: ${error}`);
-    }
-  });
-
-  fastify.post('/user/name', async (request) => {
-    try {
-      const { name } = userSettingsSchema.parse(request.body);
-      const settingsPath = path.join(process.cwd(), 'data', 'user-settings.json');
-
-      // Create data directory if it doesn't exist
-      await fs.mkdir(path.join(process.cwd(), 'data'), { recursive: true });
-
-      // Save settings
-      await fs.writeFile(settingsPath, JSON.stringify({ name }, null, 2));
-
-      return { status: 'success', message: 'User name updated successfully' };
+      return { status: 'success' as const, message: 'Plugin uninstalled successfully' };
     } catch (error) {
-      throw new Error(`Failed to update user name: ${error}`);
+      throw withContext(error, 'Failed to uninstall plugin');
     }
   });
 };
\ No newline at end of file
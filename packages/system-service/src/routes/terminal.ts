@@ -0,0 +1,26 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { RouteOptions } from '../config.js';
+import { createHostTerminal, hostTerminalOptionsSchema } from '../terminal/host.js';
+import { registerTerminalSession } from '../terminal/sessions.js';
+
+// A shell on the host itself; creating one is audited like any other change
+export const terminalRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Terminal'];
+
+  fastify.post('/', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Open a shell on the host',
+      description: 'Answers with a terminal session ID for a login shell running as the '
+        + 'service\'s user. Attach to it within a minute over /ws with `terminal_attach`.',
+      tags,
+      body: hostTerminalOptionsSchema,
+      response: { 200: z.object({ sessionId: z.string() }) }
+    }
+  }, async (request) => {
+    return {
+      sessionId: registerTerminalSession(request.user?.id ?? '', createHostTerminal(request.body))
+    };
+  });
+};
@@ -0,0 +1,158 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { RouteOptions } from '../config.js';
+import {
+  generateSelfSignedCertificate,
+  getCaCertificate,
+  getCertificateInfo,
+  installCertificate
+} from '../tls/certificates.js';
+import { isServingHttps, reloadCertificate } from '../tls/index.js';
+import { loadTlsSettings, saveTlsSettings, tlsSettingsSchema } from '../tls/settings.js';
+import { NotFoundError, ValidationError, withContext } from '../errors/index.js';
+
+const settingsUpdateSchema = (httpPort: number) =>
+  tlsSettingsSchema
+    .pick({ enabled: true, port: true, redirectHttp: true })
+    .partial()
+    .refine((settings) => settings.port !== httpPort, {
+      message: `Port ${httpPort} is reserved for plain HTTP`,
+      path: ['port']
+    });
+
+const certificateUploadSchema = z.object({
+  certificate: z.string().min(1),
+  privateKey: z.string().min(1)
+});
+
+const certificateInfoSchema = z.object({
+  subject: z.string(),
+  issuer: z.string(),
+  subjectAltNames: z.array(z.string()),
+  validFrom: z.string(),
+  validTo: z.string(),
+  fingerprint: z.string(),
+  expired: z.boolean()
+});
+
+const certificateChangeSchema = z.object({
+  certificate: certificateInfoSchema.nullable(),
+  // The running HTTPS server picked up the new certificate without a restart
+  applied: z.boolean()
+});
+
+// Like other security settings, the certificate and key only change from a signed-in session
+export const tlsRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify, { config }) => {
+  const tags = ['TLS'];
+
+  // Settings as stored, the certificate on disk and what the running server actually uses
+  fastify.get('/', {
+    schema: {
+      summary: 'Get HTTPS settings and the current certificate',
+      tags,
+      response: {
+        200: z.object({
+          settings: tlsSettingsSchema,
+          certificate: certificateInfoSchema.nullable(),
+          active: z.object({
+            https: z.boolean(),
+            httpPort: z.number(),
+            httpsPort: z.number().nullable()
+          })
+        })
+      }
+    }
+  }, async () => {
+    const settings = await loadTlsSettings();
+    const https = isServingHttps(fastify);
+    const address = fastify.server.address();
+    return {
+      settings,
+      certificate: await getCertificateInfo(),
+      active: {
+        https,
+        httpPort: config.httpPort,
+        httpsPort: https && address && typeof address === 'object' ? address.port : null
+      }
+    };
+  });
+
+  // Takes effect the next time the system service starts
+  fastify.put('/settings', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Update HTTPS settings',
+      tags,
+      body: settingsUpdateSchema(config.httpPort),
+      response: {
+        200: z.object({ settings: tlsSettingsSchema, restartRequired: z.boolean() })
+      }
+    }
+  }, async (request) => {
+    const update = request.body;
+    const settings = { ...(await loadTlsSettings()), ...update };
+    await saveTlsSettings(settings);
+    return { settings, restartRequired: true };
+  });
+
+  // Replace the served certificate with an uploaded PEM certificate (and chain) and key
+  fastify.post('/certificate', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Install an uploaded certificate and private key',
+      tags,
+      body: certificateUploadSchema,
+      response: { 200: certificateChangeSchema }
+    }
+  }, async (request) => {
+    const { certificate, privateKey } = request.body;
+
+    let info;
+    try {
+      info = await installCertificate(certificate, privateKey);
+    } catch (error) {
+      throw new ValidationError(`Failed to install certificate: ${(error as Error).message}`);
+    }
+
+    await saveTlsSettings({ ...(await loadTlsSettings()), certificateSource: 'uploaded' });
+    return { certificate: info, applied: await reloadCertificate(fastify) };
+  });
+
+  // Go back to a certificate issued by the local CA
+  fastify.post('/certificate/self-signed', {
+    config: { role: 'admin', sessionOnly: true },
+    schema: {
+      summary: 'Go back to a certificate issued by the local CA',
+      tags,
+      response: { 200: certificateChangeSchema }
+    }
+  }, async () => {
+    try {
+      await generateSelfSignedCertificate();
+    } catch (error) {
+      throw withContext(error, 'Failed to generate certificate');
+    }
+
+    await saveTlsSettings({ ...(await loadTlsSettings()), certificateSource: 'self-signed' });
+    return { certificate: await getCertificateInfo(), applied: await reloadCertificate(fastify) };
+  });
+
+  // The local CA certificate, for importing into browsers and operating systems
+  fastify.get('/ca.crt', {
+    schema: {
+      summary: 'Download the local CA certificate (PEM)',
+      tags,
+      response: { 200: z.string() }
+    }
+  }, async (_request, reply) => {
+    const ca = await getCaCertificate();
+    if (!ca) {
+      throw new NotFoundError('No local certificate authority has been generated');
+    }
+
+    reply
+      .header('Content-Type', 'application/x-pem-file')
+      .header('Content-Disposition', 'attachment; filename="nestos-ca.crt"');
+    return ca;
+  });
+};
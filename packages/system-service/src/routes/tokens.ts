@@ -0,0 +1,111 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createApiToken,
+  findApiToken,
+  listApiTokens,
+  publicApiTokenSchema,
+  revokeApiToken,
+  Scope,
+  scopeAreas,
+  scopes,
+  toPublicApiToken
+} from '../auth/apiTokens.js';
+import { loadUsers } from '../auth/users.js';
+import { RouteOptions } from '../config.js';
+import { NotFoundError } from '../errors/index.js';
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(scopes as [Scope, ...Scope[]])).min(1),
+  expiresInDays: z.number().int().min(1).max(3650).nullable().default(null)
+});
+
+const listQuerySchema = z.object({
+  all: z.enum(['true', 'false']).default('false')
+});
+
+// Tokens are managed from a signed-in session only, so a leaked token cannot mint new ones
+export const tokenRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['API tokens'];
+
+  fastify.get('/scopes', {
+    config: { sessionOnly: true },
+    schema: {
+      summary: 'List the scopes a token can be given',
+      tags,
+      response: {
+        200: z.object({ scopes: z.array(z.string()), areas: z.array(z.string()) })
+      }
+    }
+  }, async () => {
+    return { scopes, areas: [...scopeAreas] };
+  });
+
+  // Your own tokens; admins can ask for every user's with ?all=true
+  fastify.get('/', {
+    config: { sessionOnly: true },
+    schema: {
+      summary: 'List API tokens',
+      tags,
+      querystring: listQuerySchema,
+      response: {
+        200: z.array(publicApiTokenSchema.extend({ owner: z.string().nullable() }))
+      }
+    }
+  }, async (request) => {
+    const { all } = request.query;
+    const showAll = all === 'true' && request.user?.role === 'admin';
+
+    const tokens = await listApiTokens(showAll ? undefined : request.user?.id);
+    const usernames = new Map((await loadUsers()).map((user) => [user.id, user.username]));
+
+    return tokens.map((token) => ({
+      ...toPublicApiToken(token),
+      owner: usernames.get(token.userId) ?? null
+    }));
+  });
+
+  // Any user may create tokens for themselves; a token never exceeds its owner's role
+  fastify.post('/', {
+    config: { role: 'viewer', sessionOnly: true },
+    schema: {
+      summary: 'Create an API token',
+      description: 'The token itself is only returned here.',
+      tags,
+      body: createTokenSchema,
+      response: { 200: z.object({ token: z.string(), apiToken: publicApiTokenSchema }) }
+    }
+  }, async (request) => {
+    const { name, scopes: tokenScopes, expiresInDays } = request.body;
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86400000) : null;
+
+    const { token, apiToken } = await createApiToken(
+      request.user?.id ?? '',
+      name,
+      tokenScopes,
+      expiresAt
+    );
+    return { token, apiToken: toPublicApiToken(apiToken) };
+  });
+
+  fastify.delete('/:id', {
+    config: { role: 'viewer', sessionOnly: true },
+    schema: {
+      summary: 'Revoke an API token',
+      tags,
+      params: z.object({ id: z.string() }),
+      response: { 200: z.object({ status: z.literal('revoked'), id: z.string() }) }
+    }
+  }, async (request) => {
+    const { id } = request.params;
+
+    const token = await findApiToken(id);
+    if (!token || (token.userId !== request.user?.id && request.user?.role !== 'admin')) {
+      throw new NotFoundError(`API token ${id} not found`);
+    }
+
+    await revokeApiToken(id);
+    return { status: 'revoked' as const, id };
+  });
+};
@@ -0,0 +1,262 @@
+import { FastifyRequest } from 'fastify';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { revokeUserApiTokens } from '../auth/apiTokens.js';
+import { getRequestToken } from '../auth/index.js';
+import { verifyPassword } from '../auth/passwords.js';
+import { hasRole, roles } from '../auth/roles.js';
+import { destroyUserSessions } from '../auth/sessions.js';
+import {
+  appearancePreferencesSchema,
+  createUser,
+  deleteUser,
+  findUserById,
+  launcherPreferencesSchema,
+  loadUsers,
+  preferencesSchema,
+  publicUserSchema,
+  setUserPassword,
+  toPublicUser,
+  updateUser
+} from '../auth/users.js';
+import { RouteOptions } from '../config.js';
+import { NotFoundError, PermissionError, ValidationError, withContext } from '../errors/index.js';
+
+const createUserSchema = z.object({
+  username: z.string().trim().min(1).max(64),
+  password: z.string().min(8),
+  displayName: z.string().trim().max(64).optional(),
+  role: z.enum(roles).default('viewer')
+});
+
+const updateUserSchema = z.object({
+  username: z.string().trim().min(1).max(64).optional(),
+  displayName: z.string().trim().max(64).optional(),
+  role: z.enum(roles).optional()
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(8)
+});
+
+const preferencesUpdateSchema = z.object({
+  appearance: appearancePreferencesSchema.partial().optional(),
+  launcher: launcherPreferencesSchema.partial().optional()
+});
+
+const userParamsSchema = z.object({
+  id: z.string().describe('User ID, or me for the signed-in account')
+});
+
+const isAdmin = (request: FastifyRequest) => hasRole(request.user?.role ?? 'viewer', 'admin');
+
+// An API token with users:write must not be a way to full access, so only sessions grant admin
+const assertMayGrantAdmin = (request: FastifyRequest) => {
+  if (request.apiToken) {
+    throw new PermissionError('Only a signed-in session can grant the admin role');
+  }
+};
+
+// Resolve `:id`, where `me` refers to the signed-in account. Everyone may manage
+// their own account; touching anyone else's requires an admin.
+const getTargetUser = async (request: FastifyRequest) => {
+  const { id } = userParamsSchema.parse(request.params);
+  const user = await findUserById(id === 'me' ? request.user?.id ?? '' : id);
+
+  if (user && user.id !== request.user?.id && !isAdmin(request)) {
+    throw new PermissionError('Only admins can manage other accounts');
+  }
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user;
+};
+
+export const userRoutes: FastifyPluginAsyncZod<RouteOptions> = async (fastify) => {
+  const tags = ['Users'];
+
+  // List accounts
+  fastify.get('/', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'List accounts',
+      tags,
+      response: { 200: z.array(publicUserSchema) }
+    }
+  }, async () => {
+    const users = await loadUsers();
+    return users.map(toPublicUser);
+  });
+
+  // Create an account
+  fastify.post('/', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Create an account',
+      tags,
+      body: createUserSchema,
+      response: { 200: publicUserSchema }
+    }
+  }, async (request) => {
+    const { username, password, displayName, role } = request.body;
+    if (role === 'admin') {
+      assertMayGrantAdmin(request);
+    }
+
+    try {
+      const user = await createUser(username, password, displayName, role);
+      return toPublicUser(user);
+    } catch (error) {
+      throw withContext(error, 'Failed to create user');
+    }
+  });
+
+  // Get a single account
+  fastify.get('/:id', {
+    schema: {
+      summary: 'Get an account',
+      tags,
+      params: userParamsSchema,
+      response: { 200: publicUserSchema }
+    }
+  }, async (request) => {
+    const user = await getTargetUser(request);
+    return toPublicUser(user);
+  });
+
+  // Update username, display name or role
+  fastify.put('/:id', {
+    config: { role: 'viewer' },
+    schema: {
+      summary: 'Change the username, display name or role of an account',
+      tags,
+      params: userParamsSchema,
+      body: updateUserSchema,
+      response: { 200: publicUserSchema }
+    }
+  }, async (request) => {
+    const target = await getTargetUser(request);
+    const changes = request.body;
+
+    if (changes.role && changes.role !== target.role && !isAdmin(request)) {
+      throw new PermissionError('Only admins can change roles');
+    }
+    if (changes.role === 'admin' && target.role !== 'admin') {
+      assertMayGrantAdmin(request);
+    }
+
+    try {
+      const user = await updateUser(target.id, (user) => ({ ...user, ...changes }));
+      return toPublicUser(user);
+    } catch (error) {
+      throw withContext(error, 'Failed to update user');
+    }
+  });
+
+  // Delete an account and sign it out everywhere
+  fastify.delete('/:id', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Delete an account',
+      tags,
+      params: userParamsSchema,
+      response: { 200: z.object({ status: z.literal('deleted'), id: z.string() }) }
+    }
+  }, async (request) => {
+    const target = await getTargetUser(request);
+
+    if (target.id === request.user?.id) {
+      throw new ValidationError('You cannot delete the account you are signed in with');
+    }
+
+    try {
+      await deleteUser(target.id);
+    } catch (error) {
+      throw withContext(error, 'Failed to delete user');
+    }
+    await destroyUserSessions(target.id);
+    await revokeUserApiTokens(target.id);
+    return { status: 'deleted' as const, id: target.id };
+  });
+
+  // Change password; changing your own requires the current one
+  fastify.post('/:id/password', {
+    config: { role: 'viewer', sessionOnly: true, rateLimit: true },
+    schema: {
+      summary: 'Change the password of an account',
+      description: 'Changing your own password requires the current one.',
+      tags,
+      params: userParamsSchema,
+      body: changePasswordSchema,
+      response: { 200: z.object({ status: z.literal('success'), message: z.string() }) }
+    }
+  }, async (request) => {
+    const target = await getTargetUser(request);
+    const { currentPassword, newPassword } = request.body;
+    const isSelf = target.id === request.user?.id;
+
+    if (isSelf && !(await verifyPassword(currentPassword ?? '', target.passwordHash))) {
+      throw new PermissionError('Current password is incorrect');
+    }
+
+    await setUserPassword(target.id, newPassword);
+    // Other sessions for this account are no longer trusted
+    const keepToken = isSelf ? getRequestToken(request) ?? undefined : undefined;
+    await destroyUserSessions(target.id, keepToken);
+
+    return { status: 'success' as const, message: 'Password updated successfully' };
+  });
+
+  // Turn off two-factor for a user who lost their authenticator and recovery codes
+  fastify.delete('/:id/two-factor', {
+    config: { role: 'admin' },
+    schema: {
+      summary: 'Turn off two-factor authentication for an account',
+      tags,
+      params: userParamsSchema,
+      response: { 200: publicUserSchema }
+    }
+  }, async (request) => {
+    const target = await getTargetUser(request);
+    const user = await updateUser(target.id, (user) => ({ ...user, twoFactor: null }));
+    return toPublicUser(user);
+  });
+
+  // Get per-user appearance and launcher preferences
+  fastify.get('/:id/preferences', {
+    schema: {
+      summary: 'Get the preferences of an account',
+      tags,
+      params: userParamsSchema,
+      response: { 200: preferencesSchema }
+    }
+  }, async (request) => {
+    const user = await getTargetUser(request);
+    return user.preferences;
+  });
+
+  // Merge per-user preferences
+  fastify.put('/:id/preferences', {
+    config: { role: 'viewer' },
+    schema: {
+      summary: 'Update the preferences of an account',
+      tags,
+      params: userParamsSchema,
+      body: preferencesUpdateSchema,
+      response: { 200: preferencesSchema }
+    }
+  }, async (request) => {
+    const target = await getTargetUser(request);
+    const { appearance, launcher } = request.body;
+
+    const user = await updateUser(target.id, (user) => ({
+      ...user,
+      preferences: {
+        appearance: { ...user.preferences.appearance, ...appearance },
+        launcher: { ...user.preferences.launcher, ...launcher }
+      }
+    }));
+    return user.preferences;
+  });
+};
@@ -0,0 +1,197 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { ValidationError } from '../errors/index.js';
+
+const secretsPath = () => path.join(getConfig().dataDir, 'secrets.json');
+// Generated on first use unless NESTOS_SECRETS_KEY (32 bytes, base64) is set
+const keyPath = () => path.join(getConfig().dataDir, 'secrets.key');
+
+const CIPHER = 'aes-256-gcm';
+
+// Shown instead of secret-looking values the API will not return
+export const SECRET_MASK = '********';
+
+export const secretNameSchema = z
+  .string()
+  .max(128)
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/, 'Use only letters, digits, _ . and - in secret names');
+
+// `${secret:NAME}` can stand in for, or be part of, a plugin setting or container env value
+const secretRefPattern = /\$\{secret:([A-Za-z0-9][A-Za-z0-9_.-]*)\}/g;
+
+export const secretRef = (name: string): string => `\${secret:${name}}`;
+
+export const findSecretRefs = (value: string): string[] =>
+  [...value.matchAll(secretRefPattern)].map((match) => match[1]);
+
+export const hasSecretRef = (value: string): boolean => findSecretRefs(value).length > 0;
+
+// Environment variable names whose values are treated as secrets when shown
+const sensitiveNamePattern = /pass(word|wd)?|secret|token|api_?key|private_?key|credential/i;
+
+export const isSensitiveName = (name: string): boolean => sensitiveNamePattern.test(name);
+
+// Raised when a ${secret:NAME} reference names a secret that is not in the store
+export class SecretNotFoundError extends ValidationError {
+  constructor(readonly secretName: string) {
+    super(`Secret ${secretName} does not exist`, { secret: secretName });
+    this.name = 'SecretNotFoundError';
+  }
+}
+
+const storedSecretSchema = z.object({
+  name: secretNameSchema,
+  description: z.string(),
+  // AES-256-GCM with the secret's name as additional data, all base64
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+// What the API shows of a secret: everything but the value
+export const secretInfoSchema = storedSecretSchema.omit({ iv: true, tag: true, data: true });
+
+type StoredSecret = z.infer<typeof storedSecretSchema>;
+export type SecretInfo = z.infer<typeof secretInfoSchema>;
+
+let secrets: StoredSecret[] | null = null;
+let encryptionKey: Buffer | null = null;
+
+const toSecretInfo = ({ iv: _iv, tag: _tag, data: _data, ...info }: StoredSecret): SecretInfo =>
+  info;
+
+async function getEncryptionKey(): Promise<Buffer> {
+  if (encryptionKey) {
+    return encryptionKey;
+  }
+
+  if (process.env.NESTOS_SECRETS_KEY) {
+    const key = Buffer.from(process.env.NESTOS_SECRETS_KEY, 'base64');
+    if (key.length !== 32) {
+      throw new Error('NESTOS_SECRETS_KEY must be 32 bytes encoded as base64');
+    }
+    encryptionKey = key;
+    return key;
+  }
+
+  try {
+    await fs.mkdir(path.dirname(keyPath()), { recursive: true });
+    // Never overwrite an existing key; everything encrypted with it would be lost
+    await fs.writeFile(keyPath(), randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+  encryptionKey = Buffer.from((await fs.readFile(keyPath(), 'utf-8')).trim(), 'base64');
+  return encryptionKey;
+}
+
+async function getSecrets(): Promise<StoredSecret[]> {
+  if (!secrets) {
+    try {
+      const content = await fs.readFile(secretsPath(), 'utf-8');
+      secrets = z.array(storedSecretSchema).parse(JSON.parse(content));
+    } catch {
+      secrets = [];
+    }
+  }
+  return secrets;
+}
+
+async function persistSecrets(): Promise<void> {
+  await fs.mkdir(path.dirname(secretsPath()), { recursive: true });
+  await fs.writeFile(secretsPath(), JSON.stringify(await getSecrets(), null, 2), { mode: 0o600 });
+}
+
+export async function listSecrets(): Promise<SecretInfo[]> {
+  return (await getSecrets()).map(toSecretInfo).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function setSecret(
+  name: string,
+  value: string,
+  description?: string
+): Promise<SecretInfo> {
+  const key = await getEncryptionKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+  const current = await getSecrets();
+  const existing = current.find((secret) => secret.name === name);
+  const now = new Date().toISOString();
+  const secret: StoredSecret = {
+    name,
+    description: description ?? existing?.description ?? '',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  secrets = [...current.filter((candidate) => candidate.name !== name), secret];
+  await persistSecrets();
+  return toSecretInfo(secret);
+}
+
+export async function deleteSecret(name: string): Promise<boolean> {
+  const current = await getSecrets();
+  secrets = current.filter((secret) => secret.name !== name);
+  if (secrets.length === current.length) {
+    return false;
+  }
+  await persistSecrets();
+  return true;
+}
+
+export async function getSecretValue(name: string): Promise<string> {
+  const secret = (await getSecrets()).find((candidate) => candidate.name === name);
+  if (!secret) {
+    throw new SecretNotFoundError(name);
+  }
+
+  const key = await getEncryptionKey();
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(secret.data, 'base64')),
+    decipher.final()
+  ]).toString('utf-8');
+}
+
+/**
+ * Replaces every `${secret:NAME}` in a value with the decrypted secret. Only
+ * call this right before the value is handed to Docker or a plugin; never
+ * return the result from the API.
+ */
+export async function resolveSecretRefs(value: string): Promise<string> {
+  const names = [...new Set(findSecretRefs(value))];
+  if (names.length === 0) {
+    return value;
+  }
+
+  const resolved = new Map<string, string>();
+  for (const name of names) {
+    resolved.set(name, await getSecretValue(name));
+  }
+  return value.replace(secretRefPattern, (_match, name: string) => resolved.get(name) ?? '');
+}
+
+export async function resolveSecretRefsIn(
+  values: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    result[key] = typeof value === 'string' ? await resolveSecretRefs(value) : value;
+  }
+  return result;
+}
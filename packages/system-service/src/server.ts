@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import cors from '@fastify/cors';
+import cookie from '@fastify/cookie';
+import websocket from '@fastify/websocket';
+import { systemRoutes } from './routes/system.js';
+import { storageRoutes } from './routes/storage.js';
+import { dockerRoutes } from './routes/docker.js';
+import { stackRoutes } from './routes/stacks.js';
+import { networkRoutes } from './routes/network.js';
+import { pluginRoutes } from './routes/plugins.js';
+import { setupWebSocketHandlers } from './websocket/index.js';
+import appearanceRoutes from './routes/appearance.js';
+import { authRoutes } from './routes/auth.js';
+import { userRoutes } from './routes/users.js';
+import { tokenRoutes } from './routes/tokens.js';
+import { lockoutRoutes } from './routes/lockouts.js';
+import { setupAuthentication } from './auth/index.js';
+import { setupRateLimit } from './auth/rateLimit.js';
+import { tlsRoutes } from './routes/tls.js';
+import { auditRoutes } from './routes/audit.js';
+import { secretRoutes } from './routes/secrets.js';
+import { originRoutes } from './routes/origins.js';
+import { accessRoutes } from './routes/access.js';
+import { terminalRoutes } from './routes/terminal.js';
+import { setupAuditLog } from './audit/index.js';
+import { isTrustedOrigin, setupCsrfProtection } from './auth/origins.js';
+import { setupAccessControl } from './access/index.js';
+import { setupErrorHandler } from './errors/index.js';
+import { DOCS_ROUTE, OPENAPI_ROUTE, setupOpenApi } from './openapi/index.js';
+import { NestosConfig, setConfig } from './config.js';
+import { CertificatePair } from './tls/certificates.js';
+
+export interface ServerOptions {
+  // Certificate to serve HTTPS with, or null for plain HTTP
+  https: CertificatePair | null;
+  logger?: boolean;
+}
+
+/**
+ * Creates the service with every hook, plugin and route registered, ready
+ * to listen. Also used to export the OpenAPI document without serving it.
+ */
+export async function createServer(
+  config: NestosConfig,
+  { https, logger = true }: ServerOptions
+): Promise<FastifyInstance> {
+  const { version } = JSON.parse(
+    await fs.readFile(new URL('../package.json', import.meta.url), 'utf-8')
+  ) as { version: string };
+
+  // Users, sessions, secrets and the other stores find their files through getConfig()
+  setConfig(config);
+
+  const fastify = Fastify({
+    logger,
+    trustProxy: true,
+    https
+  });
+
+  // Errors leave the API as { statusCode, error, code, message, details }
+  setupErrorHandler(fastify);
+
+  // Refuse clients outside the allowed networks before anything else runs
+  setupAccessControl(fastify);
+
+  // Register plugins. Only the control panel and origins trusted in Settings get CORS headers.
+  await fastify.register(cors, {
+    delegator: async (request: FastifyRequest) => ({
+      origin: request.headers.origin
+        ? await isTrustedOrigin(request, request.headers.origin)
+        : false,
+      credentials: true,
+      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization']
+    })
+  });
+
+  await fastify.register(cookie);
+
+  await fastify.register(websocket, {
+    options: { maxPayload: 1048576 } // 1MB max payload
+  });
+
+  // Refuse state-changing requests and sockets opened from untrusted pages
+  setupCsrfProtection(fastify);
+
+  // Require a valid session on every route except login/setup and health checks
+  setupAuthentication(fastify);
+
+  // Back off and lock out repeated failed sign-ins and API token guesses
+  setupRateLimit(fastify);
+
+  // Record who changed what for every non-GET request
+  setupAuditLog(fastify);
+
+  // Routes validate against their zod schemas, which also make up /api/openapi.json
+  await setupOpenApi(fastify, version);
+
+  // Root route: where to find the API and its description
+  fastify.get('/', {
+    schema: {
+      summary: 'Service overview',
+      tags: ['Service'],
+      security: [],
+      response: {
+        200: z.object({
+          status: z.literal('ok'),
+          version: z.string(),
+          openapi: z.string(),
+          docs: z.string(),
+          services: z.record(z.string())
+        })
+      }
+    }
+  }, async () => {
+    return {
+      status: 'ok' as const,
+      version,
+      openapi: OPENAPI_ROUTE,
+      docs: DOCS_ROUTE,
+      services: {
+        auth: '/api/auth',
+        users: '/api/users',
+        tokens: '/api/tokens',
+        lockouts: '/api/auth/lockouts',
+        system: '/api/system',
+        storage: '/api/storage',
+        docker: '/api/docker',
+        network: '/api/network',
+        plugins: '/api/plugins',
+        appearance: '/api/appearance',
+        tls: '/api/system/tls',
+        audit: '/api/system/audit',
+        secrets: '/api/system/secrets',
+        origins: '/api/system/origins',
+        access: '/api/system/access',
+        websocket: '/ws'
+      }
+    };
+  });
+
+  // Register route handlers
+  await fastify.register(authRoutes, { prefix: '/api/auth', config });
+  await fastify.register(lockoutRoutes, { prefix: '/api/auth/lockouts', config });
+  await fastify.register(userRoutes, { prefix: '/api/users', config });
+  await fastify.register(tokenRoutes, { prefix: '/api/tokens', config });
+  await fastify.register(systemRoutes, { prefix: '/api/system', config });
+  await fastify.register(tlsRoutes, { prefix: '/api/system/tls', config });
+  await fastify.register(auditRoutes, { prefix: '/api/system/audit', config });
+  await fastify.register(secretRoutes, { prefix: '/api/system/secrets', config });
+  await fastify.register(originRoutes, { prefix: '/api/system/origins', config });
+  await fastify.register(accessRoutes, { prefix: '/api/system/access', config });
+  await fastify.register(terminalRoutes, { prefix: '/api/system/terminal', config });
+  await fastify.register(storageRoutes, { prefix: '/api/storage', config });
+  await fastify.register(dockerRoutes, { prefix: '/api/docker', config });
+  await fastify.register(stackRoutes, { prefix: '/api/docker/stacks', config });
+  await fastify.register(networkRoutes, { prefix: '/api/network', config });
+  await fastify.register(pluginRoutes, { prefix: '/api/plugins', config });
+  await fastify.register(appearanceRoutes, { prefix: '/api/appearance', config });
+
+  // Setup WebSocket handlers for real-time updates
+  setupWebSocketHandlers(fastify, config);
+
+  // Health check route
+  fastify.get('/health', {
+    schema: {
+      summary: 'Health check',
+      tags: ['Service'],
+      security: [],
+      response: { 200: z.object({ status: z.literal('ok') }) }
+    }
+  }, async () => {
+    return { status: 'ok' as const };
+  });
+
+  return fastify;
+}
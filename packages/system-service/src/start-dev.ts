@@ -1,7 +1,10 @@
-import { checkPrivileges } from './utils/checkPrivileges.js';
+import { isHelperAvailable } from './helper/client.js';
+import { hasRootPrivileges } from './utils/checkPrivileges.js';
 
-// Check for root privileges before starting
-checkPrivileges();
+// Storage, power, hostname and package operations go through the privileged helper
+if (!hasRootPrivileges() && !isHelperAvailable()) {
+  console.warn('\x1b[33mThe privileged helper is not running; start it with `npm run dev:helper`.\x1b[0m');
+}
 
 // Import and start the application
-import('./index.js');
\ No newline at end of file
+import('./index.js');
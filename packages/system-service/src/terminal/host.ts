@@ -0,0 +1,96 @@
+import os from 'os';
+import { Duplex } from 'stream';
+import { spawn } from 'node-pty';
+import { z } from 'zod';
+import { TerminalConnection, terminalSizeSchema } from './sessions.js';
+
+export const hostTerminalOptionsSchema = terminalSizeSchema.extend({
+  // Defaults to the service user's home directory
+  cwd: z.string().optional()
+});
+
+export type HostTerminalOptions = z.infer<typeof hostTerminalOptionsSchema>;
+
+// The login shell of the user the service runs as
+const defaultShell = () => process.env.SHELL || '/bin/bash';
+
+const DEFAULT_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+/**
+ * Only what a login shell needs. The service's own environment holds settings
+ * and keys such as NESTOS_SECRETS_KEY that must not reach the shell.
+ */
+function shellEnvironment(): Record<string, string> {
+  const { username, homedir } = os.userInfo();
+  return {
+    HOME: homedir,
+    USER: username,
+    LOGNAME: username,
+    SHELL: defaultShell(),
+    PATH: process.env.PATH || DEFAULT_PATH,
+    LANG: process.env.LANG || 'C.UTF-8',
+    TERM: 'xterm-256color'
+  };
+}
+
+/**
+ * Returns a function that starts a login shell on the host in a PTY. The shell
+ * runs as the user the service runs as, so it can do what the service can.
+ */
+export function createHostTerminal({
+  cwd,
+  cols,
+  rows
+}: HostTerminalOptions): () => Promise<TerminalConnection> {
+  return async () => {
+    const pty = spawn(defaultShell(), ['-l'], {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd: cwd ?? os.homedir(),
+      env: shellEnvironment()
+    });
+
+    let exitCode: number | null = null;
+    let exited = false;
+    const kill = () => {
+      if (!exited) {
+        pty.kill();
+      }
+    };
+
+    // Adapts the PTY to the stream the /ws relay reads from and writes to
+    const stream = new Duplex({
+      read() {},
+      write(chunk: Buffer, _encoding, callback) {
+        pty.write(chunk.toString());
+        callback();
+      },
+      final(callback) {
+        kill();
+        callback();
+      },
+      destroy(error, callback) {
+        kill();
+        callback(error);
+      }
+    });
+
+    pty.onData((data) => stream.push(data));
+    pty.onExit((event) => {
+      exited = true;
+      ({ exitCode } = event);
+      stream.push(null);
+    });
+
+    return {
+      stream,
+      resize: async (size) => {
+        if (!exited) {
+          pty.resize(size.cols, size.rows);
+        }
+      },
+      exitCode: async () => exitCode
+    };
+  };
+}
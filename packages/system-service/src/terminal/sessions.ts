@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { Duplex } from 'stream';
+import { z } from 'zod';
+
+// Size of the browser's terminal in character cells
+export const terminalSizeSchema = z.object({
+  cols: z.number().int().min(1).max(1000).default(80),
+  rows: z.number().int().min(1).max(1000).default(24)
+});
+
+export type TerminalSize = z.infer<typeof terminalSizeSchema>;
+
+// A running process with a TTY, wired to a browser terminal over /ws
+export interface TerminalConnection {
+  // The TTY's output; ends when the process exits
+  stream: Duplex;
+  resize(size: TerminalSize): Promise<void>;
+  exitCode(): Promise<number | null>;
+}
+
+interface PendingSession {
+  userId: string;
+  expires: number;
+  open: () => Promise<TerminalConnection>;
+}
+
+// Creating a session is an audited, role-checked request; the socket only attaches to it
+const ATTACH_WITHIN_MS = 60 * 1000;
+
+const pendingSessions = new Map<string, PendingSession>();
+
+/**
+ * Registers a terminal the given user may attach to over /ws within a minute.
+ * `open` starts the process once the browser attaches.
+ */
+export function registerTerminalSession(
+  userId: string,
+  open: () => Promise<TerminalConnection>
+): string {
+  const now = Date.now();
+  for (const [id, session] of pendingSessions) {
+    if (session.expires < now) {
+      pendingSessions.delete(id);
+    }
+  }
+
+  const id = randomUUID();
+  pendingSessions.set(id, { userId, expires: now + ATTACH_WITHIN_MS, open });
+  return id;
+}
+
+// A session can be attached once, and only by the user who created it
+export function claimTerminalSession(
+  id: string,
+  userId: string
+): (() => Promise<TerminalConnection>) | null {
+  const session = pendingSessions.get(id);
+  if (!session || session.userId !== userId || session.expires < Date.now()) {
+    return null;
+  }
+
+  pendingSessions.delete(id);
+  return session.open;
+}
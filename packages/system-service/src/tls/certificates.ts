@@ -0,0 +1,209 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createPrivateKey, randomBytes, X509Certificate } from 'crypto';
+import { getConfig } from '../config.js';
+import { runCommand } from '../utils/executor.js';
+
+// Packaged installs point tlsDir at /etc/nestos/ssl so the control panel server can share the files
+const tlsDir = () => getConfig().tlsDir;
+
+export interface TlsPaths {
+  caCertificate: string;
+  caKey: string;
+  certificate: string;
+  privateKey: string;
+}
+
+export const tlsPaths = (): TlsPaths => ({
+  caCertificate: path.join(tlsDir(), 'ca.crt'),
+  caKey: path.join(tlsDir(), 'ca.key'),
+  certificate: path.join(tlsDir(), 'certificate.crt'),
+  privateKey: path.join(tlsDir(), 'private.key')
+});
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  subjectAltNames: string[];
+  validFrom: string;
+  validTo: string;
+  fingerprint: string;
+  expired: boolean;
+}
+
+export interface CertificatePair {
+  cert: string;
+  key: string;
+}
+
+const exists = async (file: string): Promise<boolean> => {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const openssl = (args: string[]) => runCommand('openssl', args);
+
+// Names and addresses the box is likely to be reached by on the local network
+function getSubjectAltNames(): string[] {
+  const hostname = os.hostname();
+  const names = new Set([`DNS:${hostname}`, `DNS:${hostname}.local`, 'DNS:localhost']);
+
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (!address.address.startsWith('fe80:')) {
+        names.add(`IP:${address.address}`);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+async function generateCertificateAuthority(): Promise<void> {
+  await openssl([
+    'req', '-x509', '-new', '-newkey', 'rsa:2048', '-nodes', '-sha256',
+    '-days', '3650',
+    '-subj', `/O=NestOS/CN=NestOS Local CA (${os.hostname()})`,
+    '-addext', 'basicConstraints=critical,CA:TRUE',
+    '-addext', 'keyUsage=critical,keyCertSign,cRLSign',
+    '-keyout', tlsPaths().caKey,
+    '-out', tlsPaths().caCertificate
+  ]);
+  await fs.chmod(tlsPaths().caKey, 0o600);
+}
+
+/**
+ * Issues a server certificate from the local CA, creating the CA first if
+ * needed. Browsers trust it once the CA certificate has been imported.
+ */
+export async function generateSelfSignedCertificate(): Promise<void> {
+  await fs.mkdir(tlsDir(), { recursive: true });
+  if (!(await exists(tlsPaths().caCertificate)) || !(await exists(tlsPaths().caKey))) {
+    await generateCertificateAuthority();
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-tls-'));
+  try {
+    const csrPath = path.join(workDir, 'server.csr');
+    const keyPath = path.join(workDir, 'server.key');
+    const certPath = path.join(workDir, 'server.crt');
+    const extensionsPath = path.join(workDir, 'server.ext');
+
+    await fs.writeFile(extensionsPath, [
+      'basicConstraints=CA:FALSE',
+      'keyUsage=critical,digitalSignature,keyEncipherment',
+      'extendedKeyUsage=serverAuth',
+      `subjectAltName=${getSubjectAltNames().join(',')}`
+    ].join('\n'));
+
+    await openssl([
+      'req', '-new', '-newkey', 'rsa:2048', '-nodes', '-sha256',
+      '-subj', `/O=NestOS/CN=${os.hostname()}`,
+      '-keyout', keyPath,
+      '-out', csrPath
+    ]);
+    // Browsers reject server certificates valid for longer than 825 days
+    await openssl([
+      'x509', '-req', '-sha256', '-days', '825',
+      '-in', csrPath,
+      '-CA', tlsPaths().caCertificate,
+      '-CAkey', tlsPaths().caKey,
+      '-set_serial', `0x${randomBytes(16).toString('hex')}`,
+      '-extfile', extensionsPath,
+      '-out', certPath
+    ]);
+
+    await installCertificate(await fs.readFile(certPath, 'utf-8'), await fs.readFile(keyPath, 'utf-8'));
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Checks that a PEM certificate (optionally followed by its chain) and key
+ * belong together and are still valid, then makes them the served pair.
+ */
+export async function installCertificate(cert: string, key: string): Promise<CertificateInfo> {
+  let certificate: X509Certificate;
+  try {
+    certificate = new X509Certificate(cert);
+  } catch {
+    throw new Error('The certificate is not a valid PEM encoded X.509 certificate');
+  }
+
+  let privateKey;
+  try {
+    privateKey = createPrivateKey(key);
+  } catch {
+    throw new Error('The private key is not a valid unencrypted PEM private key');
+  }
+
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new Error('The private key does not match the certificate');
+  }
+  if (new Date(certificate.validTo) < new Date()) {
+    throw new Error(`The certificate expired on ${certificate.validTo}`);
+  }
+
+  await fs.mkdir(tlsDir(), { recursive: true });
+  await fs.writeFile(tlsPaths().privateKey, key, { mode: 0o600 });
+  await fs.writeFile(tlsPaths().certificate, cert, { mode: 0o644 });
+
+  return describeCertificate(certificate);
+}
+
+function describeCertificate(certificate: X509Certificate): CertificateInfo {
+  return {
+    subject: certificate.subject,
+    issuer: certificate.issuer,
+    subjectAltNames: certificate.subjectAltName?.split(', ') ?? [],
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+    fingerprint: certificate.fingerprint256,
+    expired: new Date(certificate.validTo) < new Date()
+  };
+}
+
+export async function loadCertificate(): Promise<CertificatePair | null> {
+  try {
+    return {
+      cert: await fs.readFile(tlsPaths().certificate, 'utf-8'),
+      key: await fs.readFile(tlsPaths().privateKey, 'utf-8')
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function getCertificateInfo(): Promise<CertificateInfo | null> {
+  const pair = await loadCertificate();
+  return pair ? describeCertificate(new X509Certificate(pair.cert)) : null;
+}
+
+export async function getCaCertificate(): Promise<string | null> {
+  try {
+    return await fs.readFile(tlsPaths().caCertificate, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// Called on every start so a fresh install has a certificate before HTTPS is switched on
+export async function ensureCertificate(): Promise<CertificatePair> {
+  const existing = await loadCertificate();
+  if (existing) {
+    return existing;
+  }
+
+  await generateSelfSignedCertificate();
+  const generated = await loadCertificate();
+  if (!generated) {
+    throw new Error('Failed to generate a self-signed certificate');
+  }
+  return generated;
+}
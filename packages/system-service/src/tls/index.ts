@@ -0,0 +1,60 @@
+import http from 'http';
+import { Server as HttpsServer } from 'https';
+import { FastifyInstance } from 'fastify';
+import { loadCertificate } from './certificates.js';
+import { TlsSettings } from './settings.js';
+
+const loopbackAddresses = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+/**
+ * While HTTPS is enabled the main server listens on the TLS port and this
+ * plain listener keeps the HTTP port (3000 by default) alive. Local clients such as the control
+ * panel dev proxy are always served directly; remote clients are redirected
+ * to HTTPS when that option is on.
+ */
+export function startHttpListener(
+  fastify: FastifyInstance,
+  settings: TlsSettings,
+  port: number,
+  host: string
+): http.Server {
+  const server = http.createServer((request, response) => {
+    const isLocal = loopbackAddresses.has(request.socket.remoteAddress ?? '');
+
+    if (settings.redirectHttp && !isLocal && request.url !== '/health') {
+      const host = (request.headers.host ?? 'localhost').replace(/:\d+$/, '');
+      response.writeHead(308, { Location: `https://${host}:${settings.port}${request.url ?? '/'}` });
+      response.end();
+      return;
+    }
+
+    fastify.routing(request, response);
+  });
+
+  // Hand WebSocket upgrades to the main server so /ws keeps working on plain HTTP
+  server.on('upgrade', (request, socket, head) => {
+    if (settings.redirectHttp && !loopbackAddresses.has(request.socket.remoteAddress ?? '')) {
+      socket.destroy();
+      return;
+    }
+    fastify.server.emit('upgrade', request, socket, head);
+  });
+
+  server.listen(port, host);
+  return server;
+}
+
+export const isServingHttps = (fastify: FastifyInstance): boolean =>
+  (fastify.server as unknown) instanceof HttpsServer;
+
+// Swap the served certificate without dropping connections or restarting
+export async function reloadCertificate(fastify: FastifyInstance): Promise<boolean> {
+  const server = fastify.server as unknown;
+  const pair = await loadCertificate();
+  if (!(server instanceof HttpsServer) || !pair) {
+    return false;
+  }
+
+  server.setSecureContext(pair);
+  return true;
+}
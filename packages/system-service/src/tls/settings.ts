@@ -0,0 +1,29 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+
+const settingsPath = () => path.join(getConfig().dataDir, 'tls-settings.json');
+
+export const tlsSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  port: z.number().int().min(1).max(65535).default(3443),
+  // Send remote plain-HTTP clients to the HTTPS port instead of serving them
+  redirectHttp: z.boolean().default(false),
+  certificateSource: z.enum(['self-signed', 'uploaded']).default('self-signed')
+});
+
+export type TlsSettings = z.infer<typeof tlsSettingsSchema>;
+
+export async function loadTlsSettings(): Promise<TlsSettings> {
+  try {
+    return tlsSettingsSchema.parse(JSON.parse(await fs.readFile(settingsPath(), 'utf-8')));
+  } catch {
+    return tlsSettingsSchema.parse({});
+  }
+}
+
+export async function saveTlsSettings(settings: TlsSettings): Promise<void> {
+  await fs.mkdir(path.dirname(settingsPath()), { recursive: true });
+  await fs.writeFile(settingsPath(), JSON.stringify(settings, null, 2));
+}
@@ -1,12 +1,13 @@
 import { existsSync } from 'fs';
 
-export const checkPrivileges = (): void => {
-    const isRoot = process.getuid?.() === 0;
-    const inContainer = existsSync('/.dockerenv');
+export const hasRootPrivileges = (): boolean =>
+    process.getuid?.() === 0 || existsSync('/.dockerenv');
 
-    if (!isRoot && !inContainer) {
-        console.error('\x1b[31mError: NestOS requires root privileges or must be run in a Docker container.\x1b[0m');
-        console.error('\x1b[33mPlease run with sudo or use docker-compose.\x1b[0m');
+// Only the privileged helper needs root; the web service runs as an ordinary user
+export const checkPrivileges = (): void => {
+    if (!hasRootPrivileges()) {
+        console.error('\x1b[31mError: The NestOS helper requires root privileges or must be run in a Docker container.\x1b[0m');
+        console.error('\x1b[33mPlease run it with sudo or use docker-compose.\x1b[0m');
         process.exit(1);
     }
-};
\ No newline at end of file
+};
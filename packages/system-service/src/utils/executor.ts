@@ -0,0 +1,228 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { hasRootPrivileges } from './checkPrivileges.js';
+
+// The only host binaries the service may run. Commands are always spawned
+// without a shell, so arguments are passed through verbatim; no shell or
+// interpreter is listed, since it would run anything. Scripts go through `runScript`.
+export const hostTools = [
+    'apt-get',
+    'crontab',
+    'docker',
+    'fio',
+    'git',
+    'hostnamectl',
+    'ifdown',
+    'ifup',
+    'journalctl',
+    'mdadm',
+    'mkfs.btrfs',
+    'mkfs.ext4',
+    'mkfs.xfs',
+    'mount',
+    'nmap',
+    'npm',
+    'openssl',
+    'ping',
+    'scutil',
+    'shutdown',
+    'smartctl',
+    'softwareupdate',
+    'systemctl',
+    'systemsetup',
+    'tail',
+    'tar',
+    'timedatectl',
+    'tzutil',
+    'udevadm',
+    'umount'
+] as const;
+
+export type HostTool = typeof hostTools[number];
+
+export interface CommandOptions {
+    // Killed once this elapses; defaults to one minute
+    timeoutMs?: number;
+    // Written to stdin, which is closed afterwards
+    input?: string;
+    cwd?: string;
+    // Merged over the service's own environment
+    env?: Record<string, string>;
+    // Run through sudo unless the service already runs as root or in a container
+    privileged?: boolean;
+    // Resolve with the exit code instead of rejecting when it is not zero
+    allowNonZeroExit?: boolean;
+}
+
+export interface CommandResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const KILL_GRACE_MS = 5 * 1000;
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+export class CommandError extends Error {
+    constructor(
+        message: string,
+        readonly tool: string,
+        readonly exitCode: number | null,
+        readonly stdout = '',
+        readonly stderr = '',
+        readonly timedOut = false
+    ) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+export const isHostTool = (tool: string): tool is HostTool =>
+    (hostTools as readonly string[]).includes(tool);
+
+// Resolve the binary, argv and stdin actually spawned, elevating through sudo when asked to
+function prepareCommand(tool: HostTool, args: string[], options: CommandOptions) {
+    if (!options.privileged || hasRootPrivileges()) {
+        return { binary: tool as string, argv: args, input: options.input };
+    }
+
+    const sudoPassword = process.env.SUDO_PASSWORD;
+    if (sudoPassword) {
+        return {
+            binary: 'sudo',
+            argv: ['-S', '-p', '', '--', tool, ...args],
+            input: `${sudoPassword}\n${options.input ?? ''}`
+        };
+    }
+
+    // Relies on a NOPASSWD sudoers entry
+    return { binary: 'sudo', argv: ['-n', '--', tool, ...args], input: options.input };
+}
+
+/**
+ * Runs an allow-listed host tool with an argument vector and collects its exit
+ * code, stdout and stderr separately. Rejects with a `CommandError` when the
+ * tool is not allowed, cannot be started, times out or exits with a non-zero code.
+ */
+export function runCommand(
+    tool: HostTool,
+    args: string[] = [],
+    options: CommandOptions = {}
+): Promise<CommandResult> {
+    if (!isHostTool(tool)) {
+        return Promise.reject(new CommandError(`Command not allowed: ${tool}`, tool, null));
+    }
+
+    const { binary, argv, input } = prepareCommand(tool, args, options);
+    return spawnCommand(tool, binary, argv, { ...options, input });
+}
+
+/**
+ * Runs a shell script file with bash as the service's own user, never through
+ * sudo. Plugin scripts run this way; fails like `runCommand`.
+ */
+export function runScript(
+    scriptPath: string,
+    options: Omit<CommandOptions, 'privileged'> = {}
+): Promise<CommandResult> {
+    return spawnCommand(path.basename(scriptPath), '/bin/bash', [scriptPath], options);
+}
+
+function spawnCommand(
+    tool: string,
+    binary: string,
+    argv: string[],
+    options: CommandOptions
+): Promise<CommandResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const { input } = options;
+
+    return new Promise((resolve, reject) => {
+        const child = spawn(binary, argv, {
+            cwd: options.cwd,
+            env: options.env ? { ...process.env, ...options.env } : process.env,
+            shell: false,
+            stdio: ['pipe', 'pipe', 'pipe']
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let outputBytes = 0;
+        let failure: CommandError | null = null;
+        let settled = false;
+
+        const stop = (error: CommandError) => {
+            failure ??= error;
+            child.kill('SIGTERM');
+            setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS).unref();
+        };
+
+        const timer = setTimeout(() => {
+            stop(new CommandError(
+                `${tool} timed out after ${timeoutMs}ms`, tool, null, stdout, stderr, true
+            ));
+        }, timeoutMs);
+
+        const collect = (chunk: Buffer, stream: 'stdout' | 'stderr') => {
+            outputBytes += chunk.length;
+            if (outputBytes > MAX_OUTPUT_BYTES) {
+                stop(new CommandError(`${tool} produced too much output`, tool, null, stdout, stderr));
+                return;
+            }
+            if (stream === 'stdout') {
+                stdout += chunk.toString();
+            } else {
+                stderr += chunk.toString();
+            }
+        };
+
+        child.stdout.on('data', (chunk: Buffer) => collect(chunk, 'stdout'));
+        child.stderr.on('data', (chunk: Buffer) => collect(chunk, 'stderr'));
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            clearTimeout(timer);
+            if (settled) {
+                return;
+            }
+            settled = true;
+            reject(new CommandError(
+                error.code === 'ENOENT' ? `${binary} is not installed` : error.message,
+                tool,
+                null
+            ));
+        });
+
+        child.on('close', (code) => {
+            clearTimeout(timer);
+            if (settled) {
+                return;
+            }
+            settled = true;
+
+            if (failure) {
+                reject(failure);
+                return;
+            }
+
+            const exitCode = code ?? -1;
+            if (exitCode !== 0 && !options.allowNonZeroExit) {
+                const output = stderr.trim() || stdout.trim();
+                reject(new CommandError(
+                    `${tool} exited with code ${exitCode}${output ? `: ${output}` : ''}`,
+                    tool,
+                    exitCode,
+                    stdout,
+                    stderr
+                ));
+                return;
+            }
+
+            resolve({ exitCode, stdout, stderr });
+        });
+
+        // A tool that exits without reading stdin must not crash the service
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(input);
+    });
+}
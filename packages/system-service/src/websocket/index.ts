@@ -2,8 +2,17 @@ import { FastifyInstance } from 'fastify';
 import WebSocket from 'ws';
 import si from 'systeminformation';
 import Docker from 'dockerode';
-
-const docker = new Docker({ socketPath: '/var/run/docker.sock' });
+import { z } from 'zod';
+import { NestosConfig } from '../config.js';
+import { hasScope } from '../auth/apiTokens.js';
+import { logOptionsSchema, readContainerLogs } from '../docker/logs.js';
+import { getImagePull, watchImagePull } from '../docker/pulls.js';
+import { NotFoundError, PermissionError, toApiError, toErrorResponse } from '../errors/index.js';
+import {
+  claimTerminalSession,
+  TerminalConnection,
+  terminalSizeSchema
+} from '../terminal/sessions.js';
 
 interface BlockDevice {
   name: string;
@@ -75,10 +84,210 @@ interface SystemMetrics {
   };
 }
 
-export function setupWebSocketHandlers(fastify: FastifyInstance): void {
-  fastify.get('/ws', { websocket: true }, (connection) => {
+const logRequestSchema = logOptionsSchema.extend({ containerId: z.string() });
+
+const terminalInputSchema = z.object({ sessionId: z.string(), data: z.string() });
+const terminalResizeSchema = terminalSizeSchema.extend({ sessionId: z.string() });
+
+interface AttachedTerminal {
+  connection: TerminalConnection;
+  // Restarts the idle timeout after input or a resize; output alone, as from `top`, does not
+  touch: () => void;
+}
+
+export function setupWebSocketHandlers(fastify: FastifyInstance, config: NestosConfig): void {
+  const docker = new Docker({ socketPath: config.dockerSocket });
+  const terminalIdleMs = config.terminalIdleMinutes * 60 * 1000;
+
+  fastify.get('/ws', { websocket: true, schema: { hide: true } }, (connection, request) => {
     const { socket } = connection;
     let metricsInterval: NodeJS.Timeout | null = null;
+    // Containers whose logs this connection follows
+    const logFollowers = new Map<string, AbortController>();
+    // Terminal sessions attached to this connection
+    const terminals = new Map<string, AttachedTerminal>();
+    // Image pulls this connection follows, with the function that stops following
+    const pullFollowers = new Map<string, () => void>();
+
+    const sendLogError = (containerId: unknown, error: unknown) => {
+      socket.send(JSON.stringify({
+        type: 'container_logs_error',
+        data: { containerId, error: toErrorResponse(toApiError(error)) }
+      }));
+    };
+
+    /**
+     * Sends a container's logs as `container_logs` batches of lines, then
+     * `container_logs_end`. Following replaces an earlier follower of the same
+     * container and ends when the container stops or the client unfollows.
+     */
+    const streamLogs = async (data: unknown, follow: boolean) => {
+      const containerId = (data as { containerId?: unknown } | null)?.containerId;
+      const controller = new AbortController();
+      try {
+        // The socket itself only needs system:read, but logs are Docker data
+        if (request.apiToken && !hasScope(request.apiToken.scopes, 'docker:read')) {
+          throw new PermissionError('This API token is missing the docker:read scope');
+        }
+        const options = logRequestSchema.parse(data);
+        if (follow) {
+          logFollowers.get(options.containerId)?.abort();
+          logFollowers.set(options.containerId, controller);
+        }
+
+        const { lines } = await readContainerLogs(docker, options.containerId, {
+          ...options,
+          // Without a follower the old default of the last 100 lines applies
+          tail: options.tail ?? (follow ? undefined : 100)
+        }, { follow, signal: controller.signal });
+        for await (const batch of lines) {
+          socket.send(JSON.stringify({
+            type: 'container_logs',
+            data: { containerId: options.containerId, lines: batch }
+          }));
+        }
+        if (!controller.signal.aborted) {
+          socket.send(JSON.stringify({
+            type: 'container_logs_end',
+            data: { containerId: options.containerId }
+          }));
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          sendLogError(containerId, error);
+        }
+      } finally {
+        if (typeof containerId === 'string' && logFollowers.get(containerId) === controller) {
+          logFollowers.delete(containerId);
+        }
+      }
+    };
+
+    /**
+     * Sends an image pull's job as `image_pull_progress` now and whenever its
+     * layers progress, until it has completed, failed or been cancelled.
+     */
+    const followImagePull = (data: unknown) => {
+      const jobId = (data as { jobId?: unknown } | null)?.jobId;
+      const send = (job: unknown) => {
+        socket.send(JSON.stringify({ type: 'image_pull_progress', data: { jobId, job } }));
+      };
+      try {
+        if (request.apiToken && !hasScope(request.apiToken.scopes, 'docker:read')) {
+          throw new PermissionError('This API token is missing the docker:read scope');
+        }
+        const job = typeof jobId === 'string' ? getImagePull(jobId) : null;
+        if (typeof jobId !== 'string' || !job) {
+          throw new NotFoundError('Image pull not found');
+        }
+
+        pullFollowers.get(jobId)?.();
+        pullFollowers.delete(jobId);
+        send(job);
+        if (job.status !== 'pulling') {
+          return;
+        }
+        const unwatch = watchImagePull(jobId, (update) => {
+          send(update);
+          if (update.status !== 'pulling') {
+            pullFollowers.delete(jobId);
+          }
+        });
+        if (unwatch) {
+          pullFollowers.set(jobId, unwatch);
+        }
+      } catch (error) {
+        socket.send(JSON.stringify({
+          type: 'image_pull_error',
+          data: { jobId, error: toErrorResponse(toApiError(error)) }
+        }));
+      }
+    };
+
+    const sendTerminalError = (sessionId: unknown, error: unknown) => {
+      socket.send(JSON.stringify({
+        type: 'terminal_error',
+        data: { sessionId, error: toErrorResponse(toApiError(error)) }
+      }));
+    };
+
+    /**
+     * Starts a terminal session created through the API and relays it: its
+     * output as `terminal_output`, then `terminal_exit` with the exit code.
+     * `terminal_input` and `terminal_resize` go the other way. Sessions
+     * without either for `terminalIdleMinutes` are closed.
+     */
+    const attachTerminal = async (data: unknown) => {
+      const sessionId = (data as { sessionId?: unknown } | null)?.sessionId;
+      try {
+        const open = typeof sessionId === 'string'
+          ? claimTerminalSession(sessionId, request.user?.id ?? '')
+          : null;
+        if (typeof sessionId !== 'string' || !open) {
+          throw new NotFoundError('No terminal session with this ID is waiting to be attached');
+        }
+
+        const terminal = await open();
+
+        let idleTimer: NodeJS.Timeout | undefined;
+        const touch = () => {
+          clearTimeout(idleTimer);
+          if (terminalIdleMs) {
+            idleTimer = setTimeout(() => {
+              socket.send(JSON.stringify({
+                type: 'terminal_output',
+                data: {
+                  sessionId,
+                  data: `\r\n[Closed after ${config.terminalIdleMinutes} minutes without activity]\r\n`
+                }
+              }));
+              terminal.stream.destroy();
+            }, terminalIdleMs);
+          }
+        };
+        terminals.set(sessionId, { connection: terminal, touch });
+        touch();
+
+        const decoder = new TextDecoder();
+        terminal.stream.on('data', (chunk: Buffer) => {
+          socket.send(JSON.stringify({
+            type: 'terminal_output',
+            data: { sessionId, data: decoder.decode(chunk, { stream: true }) }
+          }));
+        });
+
+        let exited = false;
+        const exit = async () => {
+          if (exited) {
+            return;
+          }
+          exited = true;
+          clearTimeout(idleTimer);
+          terminals.delete(sessionId);
+          const exitCode = await terminal.exitCode().catch(() => null);
+          socket.send(JSON.stringify({ type: 'terminal_exit', data: { sessionId, exitCode } }));
+        };
+        terminal.stream.on('end', exit);
+        terminal.stream.on('close', exit);
+        terminal.stream.on('error', (error) => sendTerminalError(sessionId, error));
+      } catch (error) {
+        sendTerminalError(sessionId, error);
+      }
+    };
+
+    const resizeTerminal = async (data: unknown) => {
+      const size = terminalResizeSchema.safeParse(data);
+      if (!size.success) {
+        return;
+      }
+      const terminal = terminals.get(size.data.sessionId);
+      terminal?.touch();
+      try {
+        await terminal?.connection.resize(size.data);
+      } catch (error) {
+        sendTerminalError(size.data.sessionId, error);
+      }
+    };
 
     const sendMetrics = async (ws: WebSocket) => {
       try {
@@ -171,29 +380,49 @@ export function setupWebSocketHandlers(fastify: FastifyInstance): void {
             break;
 
           case 'get_container_logs':
-            try {
-              const container = docker.getContainer(data.containerId);
-              const logs = await container.logs({
-                stdout: true,
-                stderr: true,
-                tail: 100,
-                follow: false
-              });
-              
-              socket.send(JSON.stringify({
-                type: 'container_logs',
-                data: {
-                  containerId: data.containerId,
-                  logs: logs.toString()
-                }
-              }));
-            } catch (error) {
-              socket.send(JSON.stringify({
-                type: 'error',
-                data: `Failed to get container logs: ${error}`
-              }));
+            streamLogs(data, false);
+            break;
+
+          case 'follow_container_logs':
+            streamLogs(data, true);
+            break;
+
+          case 'unfollow_container_logs':
+            logFollowers.get(data?.containerId)?.abort();
+            logFollowers.delete(data?.containerId);
+            break;
+
+          case 'follow_image_pull':
+            followImagePull(data);
+            break;
+
+          case 'unfollow_image_pull':
+            pullFollowers.get(data?.jobId)?.();
+            pullFollowers.delete(data?.jobId);
+            break;
+
+          case 'terminal_attach':
+            attachTerminal(data);
+            break;
+
+          case 'terminal_input': {
+            const input = terminalInputSchema.safeParse(data);
+            const terminal = input.success ? terminals.get(input.data.sessionId) : undefined;
+            if (input.success && terminal) {
+              terminal.touch();
+              terminal.connection.stream.write(input.data.data);
             }
             break;
+          }
+
+          case 'terminal_resize':
+            resizeTerminal(data);
+            break;
+
+          // Ends the session's input, which makes a shell exit
+          case 'terminal_close':
+            terminals.get(data?.sessionId)?.connection.stream.end();
+            break;
 
           default:
             socket.send(JSON.stringify({
@@ -215,6 +444,19 @@ export function setupWebSocketHandlers(fastify: FastifyInstance): void {
         clearTimeout(metricsInterval);
         metricsInterval = null;
       }
+      for (const controller of logFollowers.values()) {
+        controller.abort();
+      }
+      logFollowers.clear();
+      for (const unwatch of pullFollowers.values()) {
+        unwatch();
+      }
+      pullFollowers.clear();
+      // Nobody is left to type into them
+      for (const terminal of terminals.values()) {
+        terminal.connection.stream.destroy();
+      }
+      terminals.clear();
     });
   });
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { createUser } from '../src/auth/users.js';
+import { createSession } from '../src/auth/sessions.js';
+import { applyAccessSettings, getAddressScope, isAddressAllowed } from '../src/access/index.js';
+import { accessSettingsSchema, cidrSchema } from '../src/access/settings.js';
+
+const policy = (settings: Record<string, unknown>) => accessSettingsSchema.parse(settings);
+
+describe('access policy', () => {
+  it('sorts addresses into loopback, LAN and internet', () => {
+    assert.equal(getAddressScope('127.0.0.1'), 'loopback');
+    assert.equal(getAddressScope('::1'), 'loopback');
+    assert.equal(getAddressScope('::ffff:192.168.1.20'), 'lan');
+    assert.equal(getAddressScope('172.31.0.1'), 'lan');
+    assert.equal(getAddressScope('fe80::1%eth0'), 'lan');
+    assert.equal(getAddressScope('172.32.0.1'), 'internet');
+    assert.equal(getAddressScope('2001:db8::1'), 'internet');
+  });
+
+  it('lets everyone in while remote access is on, except denied networks', () => {
+    const open = policy({ deny: ['203.0.113.0/24'] });
+    assert.equal(isAddressAllowed(open, '198.51.100.1'), true);
+    assert.equal(isAddressAllowed(open, '::ffff:203.0.113.9'), false);
+  });
+
+  it('only lets the LAN and allowed networks in while remote access is off', () => {
+    const closed = policy({ remoteAccess: false, allow: ['100.64.0.0/10', '2001:db8::/32'] });
+    assert.equal(isAddressAllowed(closed, '192.168.1.20'), true);
+    assert.equal(isAddressAllowed(closed, '100.100.1.1'), true);
+    assert.equal(isAddressAllowed(closed, '2001:db8::5'), true);
+    assert.equal(isAddressAllowed(closed, '198.51.100.1'), false);
+    assert.equal(isAddressAllowed(closed, '2001:db9::5'), false);
+  });
+
+  it('never refuses this device and always refuses what is not an address', () => {
+    const strict = policy({ remoteAccess: false, deny: ['0.0.0.0/0', '::/0'] });
+    assert.equal(isAddressAllowed(strict, '127.0.0.1'), true);
+    assert.equal(isAddressAllowed(strict, '::1'), true);
+    assert.equal(isAddressAllowed(strict, '192.168.1.20'), false);
+    assert.equal(isAddressAllowed(policy({}), ''), false);
+    assert.equal(isAddressAllowed(policy({}), 'nas.local'), false);
+  });
+
+  it('reads networks and single addresses', () => {
+    assert.equal(cidrSchema.parse('192.168.1.0/24'), '192.168.1.0/24');
+    assert.equal(cidrSchema.parse(' 10.0.0.5 '), '10.0.0.5/32');
+    assert.equal(cidrSchema.parse('FD00::/8'), 'fd00::/8');
+    for (const value of ['192.168.1.0/33', '10.0.0.0/8/8', 'lan', '10.0.0/8', 'fd00::/129']) {
+      assert.equal(cidrSchema.safeParse(value).success, false, value);
+    }
+  });
+});
+
+describe('access control', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  let session: string;
+
+  const from = (remoteAddress: string) =>
+    app.inject({ method: 'GET', url: '/health', remoteAddress });
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+
+    const admin = await createUser('admin', 'correct horse battery');
+    session = (await createSession(admin.id)).token;
+  });
+
+  after(async () => {
+    applyAccessSettings(policy({}));
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('refuses clients outside the policy before anything else runs', async () => {
+    applyAccessSettings(policy({ remoteAccess: false, deny: ['192.168.66.0/24'] }));
+    assert.equal((await from('192.168.1.20')).statusCode, 200);
+    assert.equal((await from('127.0.0.1')).statusCode, 200);
+
+    for (const address of ['198.51.100.1', '192.168.66.7']) {
+      const response = await from(address);
+      assert.equal(response.statusCode, 403);
+      assert.equal(response.json().message, `Access from ${address} is not allowed`);
+    }
+  });
+
+  it('refuses settings that would lock out the admin saving them', async () => {
+    applyAccessSettings(policy({}));
+    const save = (deny: string[]) => app.inject({
+      method: 'PUT',
+      url: '/api/system/access/settings',
+      remoteAddress: '192.168.1.20',
+      headers: { authorization: `Bearer ${session}` },
+      payload: { deny }
+    });
+
+    const refused = await save(['192.168.1.0/24']);
+    assert.equal(refused.statusCode, 400);
+    assert.match(refused.json().message, /would block your own address/);
+
+    const saved = await save(['192.168.66.0/24']);
+    assert.equal(saved.statusCode, 200);
+    assert.deepEqual(saved.json().settings.deny, ['192.168.66.0/24']);
+    assert.equal((await from('192.168.66.7')).statusCode, 403);
+  });
+});
@@ -0,0 +1,125 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { createUser } from '../src/auth/users.js';
+import { createApiToken, requiredScope } from '../src/auth/apiTokens.js';
+import { createSession } from '../src/auth/sessions.js';
+
+describe('requiredScope', () => {
+  it('maps a route to its area and access', () => {
+    assert.equal(requiredScope('GET', '/api/docker/containers'), 'docker:read');
+    assert.equal(requiredScope('POST', '/api/docker/containers/:id/start'), 'docker:write');
+    assert.equal(requiredScope('HEAD', '/api/system/info'), 'system:read');
+    assert.equal(requiredScope('PUT', '/api/appearance'), 'users:write');
+    assert.equal(requiredScope('GET', '/ws'), 'system:read');
+  });
+
+  it('has no scope for unknown areas', () => {
+    assert.equal(requiredScope('GET', '/api/unknown'), null);
+    assert.equal(requiredScope('GET', '/health'), null);
+  });
+});
+
+describe('security routes with API tokens', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  let session: string;
+  let readToken: string;
+  let writeToken: string;
+  let dockerToken: string;
+  let usersToken: string;
+
+  const request = (method: 'GET' | 'POST' | 'PUT', url: string, bearer: string) =>
+    app.inject({
+      method,
+      url,
+      headers: { authorization: `Bearer ${bearer}` },
+      payload: method === 'GET' ? undefined : {}
+    });
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+
+    const admin = await createUser('admin', 'correct horse battery');
+    session = (await createSession(admin.id)).token;
+    readToken = (await createApiToken(admin.id, 'read', ['system:read'], null)).token;
+    writeToken = (await createApiToken(admin.id, 'write', ['system:write'], null)).token;
+    dockerToken = (await createApiToken(admin.id, 'docker', ['docker:write'], null)).token;
+    usersToken = (await createApiToken(admin.id, 'users', ['users:write'], null)).token;
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  for (const [method, url] of [
+    ['PUT', '/api/system/tls/settings'],
+    ['POST', '/api/system/tls/certificate'],
+    ['POST', '/api/system/tls/certificate/self-signed'],
+    ['GET', '/api/system/audit']
+  ] as const) {
+    it(`refuses ${method} ${url} to a system:write token`, async () => {
+      const response = await request(method, url, writeToken);
+      assert.equal(response.statusCode, 403);
+      assert.equal(response.json().message, 'This route is not available to API tokens');
+    });
+  }
+
+  it('refuses the audit log to a system:read token', async () => {
+    const response = await request('GET', '/api/system/audit', readToken);
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('still lets a system:read token see the certificate', async () => {
+    const response = await request('GET', '/api/system/tls', readToken);
+    assert.equal(response.statusCode, 200);
+  });
+
+  it('refuses container shells to a docker:write token', async () => {
+    const response = await request('POST', '/api/docker/containers/web/exec', dockerToken);
+    assert.equal(response.statusCode, 403);
+    assert.equal(response.json().message, 'This route is not available to API tokens');
+  });
+
+  it('lets a users:write token create accounts but not admins', async () => {
+    const create = (role: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/users',
+        headers: { authorization: `Bearer ${usersToken}` },
+        payload: { username: `${role}-by-token`, password: 'correct horse battery', role }
+      });
+
+    assert.equal((await create('viewer')).statusCode, 200);
+    const admin = await create('admin');
+    assert.equal(admin.statusCode, 403);
+    assert.equal(admin.json().message, 'Only a signed-in session can grant the admin role');
+  });
+
+  it('refuses promotions to admin with a users:write token', async () => {
+    const viewer = await createUser('promoted', 'correct horse battery', '', 'viewer');
+    const promote = (bearer: string) =>
+      app.inject({
+        method: 'PUT',
+        url: `/api/users/${viewer.id}`,
+        headers: { authorization: `Bearer ${bearer}` },
+        payload: { role: 'admin' }
+      });
+
+    assert.equal((await promote(usersToken)).statusCode, 403);
+    assert.equal((await promote(session)).statusCode, 200);
+  });
+
+  it('lets a signed-in admin read the audit log', async () => {
+    const response = await request('GET', '/api/system/audit', session);
+    assert.equal(response.statusCode, 200);
+  });
+});
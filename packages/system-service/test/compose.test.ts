@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseComposeFile } from '../src/docker/compose.js';
+import { ValidationError } from '../src/errors/index.js';
+
+const parse = (text: string, env: Record<string, string> = {}) =>
+  parseComposeFile(text, env, '/srv/stacks/demo');
+
+const service = (text: string, env: Record<string, string> = {}) =>
+  parse(text, env).project.services[0];
+
+// The messages of every problem found in an invalid file
+const problems = (text: string) => {
+  try {
+    parse(text);
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    const { issues } = error.details as { issues: { message: string }[] };
+    return issues.map(({ message }) => message);
+  }
+  assert.fail('The file was accepted');
+};
+
+const withPorts = (...ports: string[]) =>
+  `services:\n  web:\n    image: nginx\n    ports:\n${ports.map((port) => `      - "${port}"\n`).join('')}`;
+
+describe('Compose files', () => {
+  it('reads ports in their short and long forms', () => {
+    const { ports } = service(`
+services:
+  web:
+    image: nginx
+    ports:
+      - 80
+      - "8080:80"
+      - "127.0.0.1:5353:53/udp"
+      - target: 443
+        published: 8443
+`);
+    assert.deepEqual(ports, [
+      { target: 80, published: null, protocol: 'tcp', hostIp: null },
+      { target: 80, published: '8080', protocol: 'tcp', hostIp: null },
+      { target: 53, published: '5353', protocol: 'udp', hostIp: '127.0.0.1' },
+      { target: 443, published: '8443', protocol: 'tcp', hostIp: null }
+    ]);
+  });
+
+  it('expands port ranges into one mapping per port', () => {
+    const { ports } = service(withPorts('9000-9002:8000-8002'));
+    assert.deepEqual(ports.map(({ target, published }) => [target, published]), [
+      [8000, '9000'],
+      [8001, '9001'],
+      [8002, '9002']
+    ]);
+  });
+
+  it('rejects invalid ports and ranges', () => {
+    assert.match(problems(withPorts('70000'))[0], /between 1 and 65535/);
+    assert.match(problems(withPorts('8010-8000'))[0], /ends before it starts/);
+    assert.match(problems(withPorts('9000-9001:8000-8002'))[0], /differ in length/);
+    assert.match(problems(withPorts('1-2000'))[0], /at most 1000 ports/);
+    assert.match(problems(withPorts('localhost:80'))[0], /Not a port mapping/);
+  });
+
+  it('limits the ports a whole file publishes', () => {
+    const ranges = Array.from({ length: 6 }, (_, index) => `${index * 1000 + 1}-${(index + 1) * 1000}`);
+    assert.deepEqual(
+      problems(withPorts(...ranges)),
+      ['A Compose file may publish at most 5000 ports']
+    );
+    // The limit is per file, not shared between files
+    assert.equal(service(withPorts(...ranges.slice(0, 5))).ports.length, 5000);
+    assert.equal(service(withPorts(...ranges.slice(0, 5))).ports.length, 5000);
+  });
+
+  it('fills in variables from the env and leaves secret references alone', () => {
+    const { image, environment } = service(`
+services:
+  db:
+    image: postgres:\${TAG:-16}
+    environment:
+      POSTGRES_USER: \${USER_NAME}
+      POSTGRES_PASSWORD: \${secret:db-password}
+      PRICE: $$5
+      TZ:
+`, { USER_NAME: 'nest', TZ: 'UTC' });
+    assert.equal(image, 'postgres:16');
+    assert.deepEqual(environment, {
+      POSTGRES_USER: 'nest',
+      POSTGRES_PASSWORD: '${secret:db-password}',
+      PRICE: '$5',
+      TZ: 'UTC'
+    });
+  });
+
+  it('reports required variables and unset ones', () => {
+    assert.deepEqual(
+      problems('services:\n  web:\n    image: ${IMAGE?Set IMAGE in the env}\n'),
+      ['Set IMAGE in the env']
+    );
+    const { warnings } = parse('services:\n  web:\n    image: nginx:${TAG}\n    build: .\n');
+    assert.deepEqual(warnings.sort(), [
+      'Variable TAG is not set; using an empty string',
+      'web: build is not supported and was ignored'
+    ]);
+  });
+
+  it('orders services after the ones they depend on', () => {
+    const { services } = parse(`
+services:
+  app:
+    image: app
+    depends_on:
+      db:
+        condition: service_healthy
+  proxy:
+    image: nginx
+    network_mode: service:app
+  db:
+    image: postgres
+`).project;
+    assert.deepEqual(services.map(({ name }) => name), ['db', 'app', 'proxy']);
+  });
+
+  it('resolves relative bind mounts against the stack directory', () => {
+    const { volumes } = service(
+      'services:\n  web:\n    image: nginx\n    volumes:\n      - ./html:/usr/share/nginx/html:ro\n'
+    );
+    assert.equal(volumes[0].source, '/srv/stacks/demo/html');
+    assert.equal(volumes[0].readOnly, true);
+  });
+
+  it('rejects files that do not describe services', () => {
+    assert.deepEqual(problems('services: {}\n'), ['Define at least one service']);
+    assert.deepEqual(problems('- nginx\n'), ['Expected a mapping']);
+    assert.match(problems('services: [\n')[0], /./);
+    assert.match(problems('services:\n  web:\n    build: .\n')[0], /An image is required/);
+  });
+
+  it('rejects references to undefined services and dependency cycles', () => {
+    assert.match(
+      problems('services:\n  web:\n    image: nginx\n    depends_on: [db]\n')[0],
+      /db/
+    );
+    assert.deepEqual(
+      problems('services:\n  a:\n    image: a\n    depends_on: [b]\n  b:\n    image: b\n    depends_on: [a]\n'),
+      ['Services depend on each other in a cycle']
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getConfig, loadConfig } from '../src/config.js';
+
+describe('service configuration', () => {
+  let dir: string;
+  const configFile = () => path.join(dir, 'nestos.config.json');
+  const writeConfig = (settings: unknown) =>
+    fs.writeFile(configFile(), typeof settings === 'string' ? settings : JSON.stringify(settings));
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    for (const variable of Object.keys(process.env)) {
+      if (variable.startsWith('NESTOS_') || variable === 'CORS_ORIGIN') {
+        delete process.env[variable];
+      }
+    }
+  });
+
+  afterEach(() => {
+    delete process.env.NESTOS_HTTP_PORT;
+    delete process.env.NESTOS_DATA_DIR;
+    delete process.env.CORS_ORIGIN;
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('has defaults for everything', () => {
+    const config = loadConfig(path.join(dir, 'missing.json'));
+    assert.equal(config.httpPort, 3000);
+    assert.equal(config.dataDir, path.resolve('data'));
+    assert.equal(config.tlsDir, path.join(config.dataDir, 'tls'));
+    assert.equal(config.stacksDir, path.join(config.dataDir, 'stacks'));
+    assert.equal(config.pluginCatalogUrl, `${config.repositoryUrl}/nestos-plugins/plugins.json`);
+    assert.equal(config.terminalIdleMinutes, 15);
+    assert.equal(getConfig(), config);
+  });
+
+  it('takes settings from the file and lets the environment override them', async () => {
+    await writeConfig({
+      httpPort: 8080,
+      dataDir: '/var/lib/nestos',
+      corsOrigins: ['https://a.example']
+    });
+    assert.equal(loadConfig(configFile()).httpPort, 8080);
+
+    process.env.NESTOS_HTTP_PORT = '9090';
+    process.env.CORS_ORIGIN = 'https://b.example, https://c.example';
+    const config = loadConfig(configFile());
+    assert.equal(config.httpPort, 9090);
+    assert.equal(config.dataDir, '/var/lib/nestos');
+    assert.equal(config.tlsDir, '/var/lib/nestos/tls');
+    assert.deepEqual(config.corsOrigins, ['https://b.example', 'https://c.example']);
+  });
+
+  it('resolves relative paths from the working directory', async () => {
+    process.env.NESTOS_DATA_DIR = 'state';
+    await writeConfig({ stacksDir: '../stacks' });
+    const config = loadConfig(configFile());
+    assert.equal(config.dataDir, path.join(process.cwd(), 'state'));
+    assert.equal(config.stacksDir, path.resolve(process.cwd(), '../stacks'));
+  });
+
+  it('names the invalid setting', async () => {
+    process.env.NESTOS_HTTP_PORT = '70000';
+    assert.throws(() => loadConfig(path.join(dir, 'missing.json')), /httpPort:/);
+    delete process.env.NESTOS_HTTP_PORT;
+
+    await writeConfig({ repositoryUrl: 'not a url' });
+    assert.throws(() => loadConfig(configFile()), /repositoryUrl:/);
+
+    await writeConfig({ terminalIdleMinutes: -1 });
+    assert.throws(() => loadConfig(configFile()), /terminalIdleMinutes:/);
+  });
+
+  it('refuses unknown settings and unreadable files', async () => {
+    await writeConfig({ httpport: 8080 });
+    assert.throws(() => loadConfig(configFile()), /Unrecognized key\(s\) in object: 'httpport'/);
+
+    await writeConfig('{ "httpPort": ');
+    assert.throws(() => loadConfig(configFile()), /Failed to read .*nestos\.config\.json/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandError, hostTools, HostTool, runCommand } from '../src/utils/executor.js';
+
+describe('command executor', () => {
+  it('refuses tools outside the allow-list', async () => {
+    for (const tool of ['bash', 'sh', 'dd', 'powershell', 'rm', '/usr/bin/tail', 'tail ']) {
+      await assert.rejects(
+        runCommand(tool as HostTool, ['-c', 'id']),
+        (error: CommandError) => error instanceof CommandError && error.exitCode === null
+          && error.message === `Command not allowed: ${tool}`
+      );
+    }
+  });
+
+  it('lists no shells or interpreters', () => {
+    for (const tool of ['bash', 'sh', 'zsh', 'dd', 'node', 'python3', 'perl', 'sudo', 'env']) {
+      assert.ok(!(hostTools as readonly string[]).includes(tool), tool);
+    }
+  });
+
+  it('passes arguments and input through without a shell', async () => {
+    const { exitCode, stdout } = await runCommand('tail', ['-n', '1'], {
+      input: 'first\n$(id); echo `whoami` > /tmp/x\n'
+    });
+    assert.equal(exitCode, 0);
+    assert.equal(stdout, '$(id); echo `whoami` > /tmp/x\n');
+  });
+
+  it('rejects on a non-zero exit unless asked not to', async () => {
+    await assert.rejects(
+      runCommand('tail', ['/nonexistent/file']),
+      (error: CommandError) => error.exitCode === 1 && /tail exited with code 1/.test(error.message)
+    );
+    const { exitCode, stderr } = await runCommand('tail', ['/nonexistent/file'], {
+      allowNonZeroExit: true
+    });
+    assert.equal(exitCode, 1);
+    assert.match(stderr, /nonexistent/);
+  });
+
+  it('stops tools that run too long', async () => {
+    await assert.rejects(
+      runCommand('tail', ['-f', '/dev/null'], { timeoutMs: 200 }),
+      (error: CommandError) => error.timedOut && /timed out after 200ms/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { helperRequestSchema } from '../src/helper/protocol.js';
+
+const accepts = (request: unknown) => helperRequestSchema.parse(request);
+const rejects = (request: unknown) =>
+  assert.equal(helperRequestSchema.safeParse(request).success, false, JSON.stringify(request));
+
+describe('helper requests', () => {
+  it('accepts the operations the service needs', () => {
+    accepts({ op: 'mkfs', filesystem: 'ext4', device: '/dev/sdb1' });
+    accepts({ op: 'mdadm.create', name: 'md0', level: '1', devices: ['/dev/sdb', '/dev/sdc'] });
+    accepts({ op: 'service.restart', unit: 'nestos-system' });
+    accepts({ op: 'apt.upgrade' });
+    accepts({ op: 'hostname', hostname: 'nestos-1' });
+  });
+
+  it('rejects unknown operations and extra units', () => {
+    rejects({ op: 'exec', command: 'id' });
+    rejects({ op: 'service.restart', unit: 'sshd' });
+    rejects({ op: 'mkfs', filesystem: 'ntfs', device: '/dev/sdb1' });
+  });
+
+  it('normalises device paths and refuses ones outside /dev', () => {
+    assert.deepEqual(accepts({ op: 'umount', device: '/dev//sdb/./1' }), {
+      op: 'umount',
+      device: '/dev/sdb/1'
+    });
+    rejects({ op: 'umount', device: '/dev/../etc/shadow' });
+    rejects({ op: 'umount', device: '/etc/shadow' });
+    rejects({ op: 'umount', device: '/dev/sdb;reboot' });
+  });
+
+  it('only mounts below the storage roots', () => {
+    accepts({ op: 'mount', device: '/dev/sdb1', mountPoint: '/media/usb' });
+    assert.equal(
+      (accepts({ op: 'mount', device: '/dev/sdb1', mountPoint: '/mnt/data/../disk' }) as {
+        mountPoint: string;
+      }).mountPoint,
+      '/mnt/disk'
+    );
+    rejects({ op: 'mount', device: '/dev/sdb1', mountPoint: '/mnt' });
+    rejects({ op: 'mount', device: '/dev/sdb1', mountPoint: '/mnt/../etc' });
+    rejects({ op: 'mount', device: '/dev/sdb1', mountPoint: '/mnt-other/disk' });
+    rejects({ op: 'mount', device: '/dev/sdb1', mountPoint: 'mnt/disk' });
+  });
+
+  it('only writes backups named like backups', () => {
+    accepts({
+      op: 'backup.create',
+      file: '/mnt/backups/nestos-backup-2026-01-01T00-00-00-000Z.tar.gz',
+      retention: 30
+    });
+    rejects({ op: 'backup.create', file: '/mnt/backups/important.txt', retention: 30 });
+    rejects({ op: 'backup.create', file: '/etc/nestos-backup-1.tar.gz', retention: 30 });
+    rejects({
+      op: 'backup.create',
+      file: '/mnt/backups/nestos-backup-1.tar.gz',
+      retention: 0
+    });
+  });
+
+  it('refuses values that would become extra lines or arguments', () => {
+    rejects({ op: 'hostname', hostname: '-oops' });
+    rejects({ op: 'timezone', timezone: '../../etc/passwd' });
+    rejects({ op: 'network.configure', iface: 'eth0', dhcp: false, address: '10.0.0.2\nup id' });
+  });
+});
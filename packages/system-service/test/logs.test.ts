@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LogDemuxer, LogLine, logFilter, logOptionsSchema } from '../src/docker/logs.js';
+import { UnprocessableError } from '../src/errors/index.js';
+
+// A frame of Docker's multiplexed log stream
+const frame = (stream: number, text: string) => {
+  const payload = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+};
+
+const line = (message: string, timestamp: string | null = null): LogLine =>
+  ({ stream: 'stdout', timestamp, message });
+
+describe('log demuxer', () => {
+  it('splits frames into lines of their stream', () => {
+    const demuxer = new LogDemuxer(false);
+    const lines = demuxer.push(Buffer.concat([
+      frame(1, '2026-01-01T00:00:00.000000000Z started\n'),
+      frame(2, 'failed\r\nretrying\n')
+    ]));
+    assert.deepEqual(lines, [
+      { stream: 'stdout', timestamp: '2026-01-01T00:00:00.000000000Z', message: 'started' },
+      { stream: 'stderr', timestamp: null, message: 'failed' },
+      { stream: 'stderr', timestamp: null, message: 'retrying' }
+    ]);
+  });
+
+  it('keeps frames, lines and characters split across chunks', () => {
+    const demuxer = new LogDemuxer(false);
+    const data = Buffer.concat([frame(1, 'héllo '), frame(1, 'world\nbye')]);
+    const lines: LogLine[] = [];
+    for (let index = 0; index < data.length; index += 3) {
+      lines.push(...demuxer.push(data.subarray(index, index + 3)));
+    }
+    assert.deepEqual(lines.map(({ message }) => message), ['héllo world']);
+    assert.deepEqual(demuxer.end().map(({ message }) => message), ['bye']);
+  });
+
+  it('treats a TTY\'s output as unframed stdout', () => {
+    const demuxer = new LogDemuxer(true);
+    assert.deepEqual(demuxer.push(Buffer.from('one\ntwo')), [line('one')]);
+    assert.deepEqual(demuxer.end(), [line('two')]);
+  });
+
+  it('skips frames of unknown streams', () => {
+    const demuxer = new LogDemuxer(false);
+    const lines = demuxer.push(Buffer.concat([frame(3, 'x\n'), frame(1, 'y\n')]));
+    assert.deepEqual(lines, [line('y')]);
+  });
+});
+
+describe('log filter', () => {
+  const lines = [
+    line('GET /health 200', '2026-01-01T00:00:00Z'),
+    line('ERROR disk full', '2026-01-01T00:01:00Z'),
+    line('error: retrying', '2026-01-01T00:02:00Z')
+  ];
+  const select = (options: Record<string, unknown>) =>
+    logFilter(logOptionsSchema.parse(options))(lines).map(({ message }) => message);
+
+  it('matches a case-insensitive regular expression', () => {
+    assert.deepEqual(select({ filter: '^error' }), ['ERROR disk full', 'error: retrying']);
+    assert.deepEqual(select({ filter: '\\b2\\d\\d$' }), ['GET /health 200']);
+    assert.equal(select({}).length, 3);
+  });
+
+  it('applies since and until to each line', () => {
+    assert.deepEqual(
+      select({ since: '2026-01-01T00:00:30Z', until: '2026-01-01T00:01:30Z' }),
+      ['ERROR disk full']
+    );
+  });
+
+  it('rejects invalid and overlong patterns', () => {
+    assert.equal(logOptionsSchema.safeParse({ filter: '(unclosed' }).success, false);
+    assert.equal(logOptionsSchema.safeParse({ filter: 'a'.repeat(201) }).success, false);
+  });
+
+  it('gives up on patterns that backtrack catastrophically', () => {
+    const select = logFilter(logOptionsSchema.parse({ filter: '(a+)+$' }));
+    const started = Date.now();
+    assert.throws(() => select([line(`${'a'.repeat(40)}!`)]), UnprocessableError);
+    assert.ok(Date.now() - started < 5000);
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { createUser } from '../src/auth/users.js';
+import { createSession } from '../src/auth/sessions.js';
+import { SESSION_COOKIE } from '../src/auth/index.js';
+import { originSchema } from '../src/auth/origins.js';
+
+describe('origin values', () => {
+  it('accepts origins, with or without a trailing slash', () => {
+    assert.equal(originSchema.parse('https://ha.local:8123/'), 'https://ha.local:8123');
+    assert.equal(originSchema.parse(' http://192.168.1.2:3000 '), 'http://192.168.1.2:3000');
+  });
+
+  it('rejects anything but an http(s) origin', () => {
+    for (const value of ['https://ha.local/path', 'ftp://ha.local', 'ha.local', 'null', '*']) {
+      assert.equal(originSchema.safeParse(value).success, false, value);
+    }
+  });
+});
+
+describe('cross-site request protection', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  let session: string;
+
+  // Replaces the trusted origins, which needs a session, from the given page
+  const saveOrigins = (headers: Record<string, string>, allowedOrigins: string[] = []) =>
+    app.inject({
+      method: 'PUT',
+      url: '/api/system/origins',
+      headers: { host: 'nas.local:3000', cookie: `${SESSION_COOKIE}=${session}`, ...headers },
+      payload: { allowedOrigins }
+    });
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+
+    const admin = await createUser('admin', 'correct horse battery');
+    session = (await createSession(admin.id)).token;
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('accepts the API\'s own origin and the control panel on the same host', async () => {
+    assert.equal((await saveOrigins({ origin: 'http://nas.local:3000' })).statusCode, 200);
+    assert.equal((await saveOrigins({ origin: 'https://nas.local:8443' })).statusCode, 200);
+    assert.equal((await saveOrigins({ referer: 'http://nas.local:8443/settings' })).statusCode, 200);
+  });
+
+  it('accepts requests that do not come from a browser', async () => {
+    assert.equal((await saveOrigins({})).statusCode, 200);
+  });
+
+  it('refuses state changes from other pages', async () => {
+    const pages: Record<string, string>[] = [
+      { origin: 'https://evil.example' },
+      { origin: 'http://nas.local:8080' },
+      { origin: 'null' },
+      { referer: 'https://evil.example/attack' }
+    ];
+    for (const headers of pages) {
+      const response = await saveOrigins(headers);
+      assert.equal(response.statusCode, 403, JSON.stringify(headers));
+      assert.match(response.json().message, /are not allowed/);
+    }
+  });
+
+  it('refuses WebSocket connections from other pages', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/ws',
+      headers: {
+        host: 'nas.local:3000',
+        origin: 'https://evil.example',
+        upgrade: 'websocket',
+        connection: 'Upgrade',
+        cookie: `${SESSION_COOKIE}=${session}`
+      }
+    });
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('leaves API token requests to the token check', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/logout',
+      headers: { host: 'nas.local:3000', origin: 'https://evil.example', authorization: 'Bearer x' }
+    });
+    assert.equal(response.statusCode, 401);
+  });
+
+  it('trusts origins saved in Settings, with CORS headers', async () => {
+    const corsHeader = async (origin: string) => (await app.inject({
+      method: 'GET',
+      url: '/health',
+      headers: { host: 'nas.local:3000', origin }
+    })).headers['access-control-allow-origin'];
+
+    assert.equal(await corsHeader('https://ha.local:8123'), undefined);
+    assert.equal((await saveOrigins({}, ['https://ha.local:8123/'])).statusCode, 200);
+    assert.equal(await corsHeader('https://ha.local:8123'), 'https://ha.local:8123');
+    assert.equal((await saveOrigins({ origin: 'https://ha.local:8123' }, [])).statusCode, 200);
+    assert.equal((await saveOrigins({ origin: 'https://ha.local:8123' })).statusCode, 403);
+  });
+});
@@ -0,0 +1,68 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig, nestosConfigSchema, setConfig } from '../src/config.js';
+import { catalogEntrySchema, isPinned, verifyCatalogSignature } from '../src/plugins/catalog.js';
+
+const entry = { id: 'demo', name: 'Demo', repository: 'https://github.com/nestos/demo' };
+const catalog = JSON.stringify([entry]);
+
+const signWith = (key: KeyObject, content = catalog) =>
+  sign(null, Buffer.from(content, 'utf-8'), key).toString('base64');
+
+describe('plugin catalog verification', () => {
+  const trusted = generateKeyPairSync('ed25519');
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dir;
+    process.env.NESTOS_PLUGIN_CATALOG_KEY = path.join(dir, 'plugin-catalog.pub');
+    setConfig(loadConfig());
+  });
+
+  after(async () => {
+    delete process.env.NESTOS_PLUGIN_CATALOG_KEY;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('is on by default and refuses everything without a key', async () => {
+    assert.match(nestosConfigSchema.parse({}).pluginCatalogKey, /keys\/plugin-catalog\.pub$/);
+    assert.match(
+      (await verifyCatalogSignature(catalog, signWith(trusted.privateKey))) ?? '',
+      /No trusted plugin catalog key is installed/
+    );
+  });
+
+  it('accepts only catalogs signed with the trusted key', async () => {
+    await fs.writeFile(
+      path.join(dir, 'plugin-catalog.pub'),
+      trusted.publicKey.export({ type: 'spki', format: 'pem' })
+    );
+
+    assert.equal(await verifyCatalogSignature(catalog, `${signWith(trusted.privateKey)}\n`), null);
+    assert.equal(await verifyCatalogSignature(catalog, null), 'The plugin catalog is not signed');
+    const untrusted = generateKeyPairSync('ed25519').privateKey;
+    assert.match(
+      (await verifyCatalogSignature(catalog, signWith(untrusted))) ?? '',
+      /does not match the trusted key/
+    );
+    assert.match(
+      (await verifyCatalogSignature(`${catalog} `, signWith(trusted.privateKey))) ?? '',
+      /does not match the trusted key/
+    );
+  });
+
+  it('requires a commit and checksum for every plugin', () => {
+    const commit = 'a'.repeat(40);
+    assert.equal(isPinned(catalogEntrySchema.parse(entry)), false);
+    assert.equal(isPinned(catalogEntrySchema.parse({ ...entry, commit })), false);
+    assert.equal(
+      isPinned(catalogEntrySchema.parse({ ...entry, commit, sha256: 'b'.repeat(64) })),
+      true
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { maskPlainSecrets, restoreMaskedSecrets } from '../src/plugins/config.js';
+
+describe('plugin settings without a schema', () => {
+  const stored = {
+    DB_PASSWORD: 'hunter2',
+    API_TOKEN: '${secret:plugin.demo.API_TOKEN}',
+    PORT: 8080,
+    TZ: 'Europe/London',
+    ADMIN_PASSWORD: ''
+  };
+
+  it('masks plain values of secret-looking settings', () => {
+    assert.deepEqual(maskPlainSecrets(stored), {
+      DB_PASSWORD: '********',
+      API_TOKEN: '${secret:plugin.demo.API_TOKEN}',
+      PORT: 8080,
+      TZ: 'Europe/London',
+      ADMIN_PASSWORD: ''
+    });
+  });
+
+  it('keeps stored values for masks sent back', () => {
+    const saved = restoreMaskedSecrets({ ...maskPlainSecrets(stored), TZ: 'UTC' }, stored);
+    assert.deepEqual(saved, { ...stored, TZ: 'UTC' });
+  });
+
+  it('takes new values in place of masked ones', () => {
+    const saved = restoreMaskedSecrets({ DB_PASSWORD: 'changed' }, stored);
+    assert.deepEqual(saved, { DB_PASSWORD: 'changed' });
+  });
+});
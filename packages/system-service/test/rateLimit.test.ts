@@ -0,0 +1,159 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { createUser } from '../src/auth/users.js';
+import { createSession } from '../src/auth/sessions.js';
+import {
+  clearAllLoginLockouts,
+  clearLoginLockout,
+  getAttemptKeys,
+  getRetryAfterMs,
+  listLoginLockouts,
+  recordFailedAttempt,
+  recordSuccessfulAttempt
+} from '../src/auth/rateLimit.js';
+
+const fail = (keys: string[], times: number) => {
+  for (let attempt = 0; attempt < times; attempt += 1) {
+    recordFailedAttempt(keys);
+  }
+};
+
+describe('failed attempt counters', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+    clearAllLoginLockouts();
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('lets the first attempts through, then doubles the wait', () => {
+    const keys = getAttemptKeys('192.0.2.1', 'Admin');
+    fail(keys, 5);
+    assert.equal(getRetryAfterMs(keys), 0);
+    fail(keys, 1);
+    assert.equal(getRetryAfterMs(keys), 1000);
+    fail(keys, 2);
+    assert.equal(getRetryAfterMs(keys), 4000);
+    mock.timers.tick(4000);
+    assert.equal(getRetryAfterMs(keys), 0);
+  });
+
+  it('counts accounts regardless of case', () => {
+    assert.deepEqual(getAttemptKeys('192.0.2.1', 'Admin'), ['ip:192.0.2.1', 'account:admin']);
+    assert.deepEqual(getAttemptKeys('192.0.2.1'), ['ip:192.0.2.1']);
+  });
+
+  it('locks an account out after ten failures until the lockout expires', () => {
+    const keys = getAttemptKeys('192.0.2.1', 'admin');
+    fail(keys, 10);
+    assert.equal(getRetryAfterMs(keys), 15 * 60 * 1000);
+
+    const account = listLoginLockouts().find((lockout) => lockout.kind === 'account');
+    assert.equal(account?.locked, true);
+    assert.equal(account?.value, 'admin');
+    // The address has more leeway than the account
+    const address = listLoginLockouts().find((lockout) => lockout.kind === 'ip');
+    assert.equal(address?.locked, false);
+
+    mock.timers.tick(15 * 60 * 1000);
+    assert.equal(getRetryAfterMs(keys), 0);
+    assert.equal(listLoginLockouts().find((lockout) => lockout.kind === 'account')?.locked, false);
+  });
+
+  it('lets an admin clear a lockout', () => {
+    const keys = getAttemptKeys('192.0.2.1', 'admin');
+    fail(keys, 11);
+    assert.equal(clearLoginLockout('account:admin'), true);
+    assert.equal(clearLoginLockout('account:admin'), false);
+    assert.equal(getRetryAfterMs(['account:admin']), 0);
+    assert.ok(getRetryAfterMs(['ip:192.0.2.1']) > 0);
+  });
+
+  it('resets the account but not the address on success', () => {
+    const keys = getAttemptKeys('192.0.2.1', 'admin');
+    fail(keys, 4);
+    recordSuccessfulAttempt(keys);
+    assert.deepEqual(listLoginLockouts().map(({ id, failures }) => [id, failures]), [
+      ['ip:192.0.2.1', 4]
+    ]);
+  });
+
+  it('forgets counters an hour after the last failure', () => {
+    fail(getAttemptKeys('192.0.2.1', 'admin'), 3);
+    mock.timers.tick(60 * 60 * 1000);
+    assert.deepEqual(listLoginLockouts(), []);
+  });
+});
+
+describe('sign-in throttling', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  let session: string;
+
+  const login = (password: string, username = 'admin') => app.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { username, password }
+  });
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+    const admin = await createUser('admin', 'correct horse battery');
+    session = (await createSession(admin.id)).token;
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearAllLoginLockouts();
+  });
+
+  it('answers 429 with Retry-After once the free attempts are used up', async () => {
+    for (let attempt = 0; attempt < 6; attempt += 1) {
+      assert.equal((await login('wrong')).statusCode, 401);
+    }
+    const throttled = await login('correct horse battery');
+    assert.equal(throttled.statusCode, 429);
+    assert.equal(throttled.headers['retry-after'], '1');
+    assert.equal(throttled.json().code, 'RATE_LIMITED');
+  });
+
+  it('counts guesses at other spellings of the same account', async () => {
+    for (const username of ['admin', 'ADMIN', 'Admin', 'aDmin', 'adMin', 'admIn']) {
+      await login('wrong', username);
+    }
+    assert.equal((await login('wrong', 'ADMIN')).statusCode, 429);
+  });
+
+  it('lets admins see and clear lockouts', async () => {
+    fail(getAttemptKeys('198.51.100.7', 'admin'), 10);
+    assert.equal((await login('correct horse battery')).statusCode, 429);
+
+    const headers = { authorization: `Bearer ${session}` };
+    const list = await app.inject({ method: 'GET', url: '/api/auth/lockouts', headers });
+    assert.equal(list.statusCode, 200);
+    assert.ok(list.json().some((lockout: { id: string; locked: boolean }) =>
+      lockout.id === 'account:admin' && lockout.locked));
+
+    const cleared = await app.inject({
+      method: 'DELETE',
+      url: `/api/auth/lockouts/${encodeURIComponent('account:admin')}`,
+      headers
+    });
+    assert.equal(cleared.statusCode, 200);
+    assert.equal((await login('correct horse battery')).statusCode, 200);
+  });
+});
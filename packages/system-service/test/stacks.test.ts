@@ -0,0 +1,197 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import Docker from 'dockerode';
+import { loadConfig, setConfig } from '../src/config.js';
+import { deployStack, saveStack } from '../src/docker/stacks.js';
+
+interface FakeContainer {
+  Id: string;
+  Labels: Record<string, string>;
+  State: string;
+  options: Docker.ContainerCreateOptions;
+}
+
+const notFound = () => Object.assign(new Error('Not found'), { statusCode: 404 });
+
+// The parts of the Docker API deployments use, kept in memory
+class FakeDocker {
+  networks = new Map<string, Record<string, unknown>>();
+  volumes = new Map<string, Record<string, unknown>>();
+  containers = new Map<string, FakeContainer>();
+  connections: { network: string; container: string }[] = [];
+  private nextId = 1;
+
+  getNetwork(name: string) {
+    return {
+      inspect: async () => this.networks.get(name) ?? Promise.reject(notFound()),
+      connect: async ({ Container }: { Container: string }) => {
+        this.connections.push({ network: name, container: Container });
+      }
+    };
+  }
+
+  async createNetwork(options: { Name: string }) {
+    this.networks.set(options.Name, options);
+  }
+
+  getVolume(name: string) {
+    return { inspect: async () => this.volumes.get(name) ?? Promise.reject(notFound()) };
+  }
+
+  async createVolume(options: { Name: string }) {
+    this.volumes.set(options.Name, options);
+  }
+
+  getImage(image: string) {
+    return { inspect: async () => ({ Id: `sha256:${image}` }) };
+  }
+
+  async listContainers() {
+    return [...this.containers.values()];
+  }
+
+  async createContainer(options: Docker.ContainerCreateOptions) {
+    const id = `container-${this.nextId++}`;
+    this.containers.set(id, {
+      Id: id,
+      Labels: options.Labels ?? {},
+      State: 'created',
+      options
+    });
+    return { id, start: () => this.getContainer(id).start() };
+  }
+
+  getContainer(id: string) {
+    const container = () => this.containers.get(id) ?? assert.fail(`No container ${id}`);
+    return {
+      start: async () => {
+        container().State = 'running';
+      },
+      stop: async () => {
+        container().State = 'exited';
+      },
+      remove: async () => {
+        this.containers.delete(id);
+      },
+      inspect: async () => ({ State: { Status: container().State } })
+    };
+  }
+
+  byService(service: string) {
+    return [...this.containers.values()].find(
+      (container) => container.Labels['com.docker.compose.service'] === service
+    ) ?? assert.fail(`No container for ${service}`);
+  }
+}
+
+const COMPOSE = `
+services:
+  web:
+    image: nginx
+    ports:
+      - "8080-8081:80-81"
+    volumes:
+      - html:/usr/share/nginx/html
+      - ./conf:/etc/nginx/conf.d:ro
+    networks: [front, back]
+    depends_on: [app]
+  app:
+    image: app:\${TAG}
+    environment:
+      MODE: production
+    networks: [back]
+volumes:
+  html: {}
+networks:
+  front: {}
+  back: {}
+`;
+
+describe('stack deployments', () => {
+  let dataDir: string;
+  let docker: FakeDocker;
+  const deploy = () => deployStack(docker as unknown as Docker, 'demo');
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    setConfig(loadConfig());
+  });
+
+  after(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    docker = new FakeDocker();
+    await fs.rm(path.join(dataDir, 'stacks'), { recursive: true, force: true });
+    await saveStack('demo', { compose: COMPOSE, env: 'TAG=1\n' }, true);
+  });
+
+  it('creates resources and starts services after their dependencies', async () => {
+    assert.deepEqual(await deploy(), [
+      { service: 'app', action: 'created' },
+      { service: 'web', action: 'created' }
+    ]);
+    assert.deepEqual([...docker.networks.keys()].sort(), ['demo_back', 'demo_front']);
+    assert.deepEqual([...docker.volumes.keys()], ['demo_html']);
+
+    const web = docker.byService('web');
+    assert.equal(web.State, 'running');
+    assert.equal(web.options.name, 'demo-web-1');
+    assert.deepEqual(web.options.HostConfig?.PortBindings, {
+      '80/tcp': [{ HostIp: '', HostPort: '8080' }],
+      '81/tcp': [{ HostIp: '', HostPort: '8081' }]
+    });
+    assert.deepEqual(web.options.HostConfig?.Binds, [
+      'demo_html:/usr/share/nginx/html',
+      `${path.join(dataDir, 'stacks', 'demo', 'conf')}:/etc/nginx/conf.d:ro`
+    ]);
+    // The first network is joined on creation, the others afterwards
+    assert.equal(web.options.HostConfig?.NetworkMode, 'demo_front');
+    assert.deepEqual(docker.connections, [{ network: 'demo_back', container: web.Id }]);
+    assert.deepEqual(docker.byService('app').options.Env, ['MODE=production']);
+  });
+
+  it('leaves unchanged services alone and recreates changed ones', async () => {
+    await deploy();
+    const web = docker.byService('web').Id;
+    assert.deepEqual(await deploy(), [
+      { service: 'app', action: 'unchanged' },
+      { service: 'web', action: 'unchanged' }
+    ]);
+
+    await saveStack('demo', { compose: COMPOSE, env: 'TAG=2\n' }, false);
+    assert.deepEqual(await deploy(), [
+      { service: 'app', action: 'recreated' },
+      { service: 'web', action: 'unchanged' }
+    ]);
+    assert.equal(docker.byService('app').options.Image, 'app:2');
+    assert.equal(docker.byService('web').Id, web);
+  });
+
+  it('starts stopped containers and removes dropped services', async () => {
+    await deploy();
+    await docker.getContainer(docker.byService('app').Id).stop();
+    const withoutWeb = COMPOSE.replace(/ {2}web:[\s\S]*?(?= {2}app:)/, '');
+    await saveStack('demo', { compose: withoutWeb, env: 'TAG=1\n' }, false);
+
+    assert.deepEqual(await deploy(), [
+      { service: 'app', action: 'started' },
+      { service: 'web', action: 'removed' }
+    ]);
+    assert.equal(docker.containers.size, 1);
+  });
+
+  it('refuses missing external networks', async () => {
+    await saveStack('demo', {
+      compose: 'services:\n  web:\n    image: nginx\nnetworks:\n  default:\n    external: true\n    name: proxy\n',
+      env: ''
+    }, false);
+    await assert.rejects(deploy(), /External network proxy does not exist/);
+    assert.equal(docker.containers.size, 0);
+  });
+});
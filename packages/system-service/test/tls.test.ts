@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, X509Certificate } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig, setConfig } from '../src/config.js';
+import {
+  ensureCertificate,
+  getCaCertificate,
+  getCertificateInfo,
+  installCertificate,
+  tlsPaths
+} from '../src/tls/certificates.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TLS certificates', () => {
+  let dataDir: string;
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    setConfig(loadConfig());
+  });
+
+  after(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('issues a certificate from a local CA on first start', async () => {
+    const { cert } = await ensureCertificate();
+    const certificate = new X509Certificate(cert);
+    const ca = new X509Certificate((await getCaCertificate()) ?? '');
+
+    assert.ok(ca.ca);
+    assert.ok(!certificate.ca);
+    assert.ok(certificate.checkIssued(ca));
+    assert.ok(certificate.verify(ca.publicKey));
+    assert.match(certificate.subjectAltName ?? '', /DNS:localhost/);
+    assert.match(certificate.subjectAltName ?? '', new RegExp(`DNS:${os.hostname()}\\.local`));
+    // Browsers refuse server certificates valid for longer than 825 days
+    const lifetime = Date.parse(certificate.validTo) - Date.parse(certificate.validFrom);
+    assert.ok(lifetime <= 825 * DAY_MS);
+
+    for (const key of [tlsPaths().caKey, tlsPaths().privateKey]) {
+      assert.equal((await fs.stat(key)).mode & 0o777, 0o600);
+    }
+  });
+
+  it('keeps the certificate it has', async () => {
+    const first = await ensureCertificate();
+    assert.deepEqual(await ensureCertificate(), first);
+  });
+
+  it('refuses uploads that are not a matching, valid pair', async () => {
+    const { cert, key } = await ensureCertificate();
+    const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey
+      .export({ type: 'pkcs8', format: 'pem' }) as string;
+
+    await assert.rejects(installCertificate('not a certificate', key), /not a valid PEM/);
+    await assert.rejects(installCertificate(cert, 'not a key'), /not a valid unencrypted PEM/);
+    await assert.rejects(installCertificate(cert, otherKey), /does not match the certificate/);
+    assert.equal(await fs.readFile(tlsPaths().privateKey, 'utf-8'), key);
+  });
+
+  it('installs a matching pair and describes it', async () => {
+    const { cert, key } = await ensureCertificate();
+    const info = await installCertificate(cert, key);
+
+    assert.equal(info.expired, false);
+    assert.match(info.issuer, /NestOS Local CA/);
+    assert.ok(info.subjectAltNames.includes('DNS:localhost'));
+    assert.deepEqual(await getCertificateInfo(), info);
+  });
+});
@@ -0,0 +1,155 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { createUser, updateUser } from '../src/auth/users.js';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getTotpUri,
+  hashRecoveryCode,
+  verifyTotp
+} from '../src/auth/totp.js';
+
+// The RFC 6238 test secret, "12345678901234567890", in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const at = (seconds: number) => seconds * 1000;
+
+// An independent RFC 4226 implementation for codes at the current time
+function currentCode(secret: string, stepOffset = 0): string {
+  let bits = '';
+  for (const char of secret) {
+    bits += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(bits.match(/.{8}/g)?.map((byte) => parseInt(byte, 2)) ?? []);
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000) + stepOffset));
+  const digest = createHmac('sha1', key).update(counter).digest();
+  const offset = digest[19] & 0x0f;
+  return ((digest.readUInt32BE(offset) & 0x7fffffff) % 1e6).toString().padStart(6, '0');
+}
+
+describe('TOTP codes', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '287082', at(59)), 1);
+    assert.equal(verifyTotp(RFC_SECRET, '081804', at(1111111109)), 37037036);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', at(1234567890)), 41152263);
+    assert.equal(verifyTotp(RFC_SECRET, '279037', at(2000000000)), 66666666);
+  });
+
+  it('allows one step of clock drift either way', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '005924', at(1234567890 + 30)), 41152263);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', at(1234567890 - 30)), 41152263);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', at(1234567890 + 60)), null);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', at(1234567890 - 60)), null);
+  });
+
+  it('accepts spaces and refuses anything but six digits', () => {
+    assert.equal(verifyTotp(RFC_SECRET, ' 005 924 ', at(1234567890)), 41152263);
+    for (const code of ['5924', '0059240', '00592a', '', '89005924', '-05924']) {
+      assert.equal(verifyTotp(RFC_SECRET, code, at(1234567890)), null, code);
+    }
+  });
+
+  it('generates base32 secrets authenticator apps can read', () => {
+    const secret = generateTotpSecret();
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(secret, generateTotpSecret());
+    assert.notEqual(verifyTotp(secret, currentCode(secret)), null);
+
+    const uri = new URL(getTotpUri(secret, 'admin'));
+    assert.equal(uri.protocol, 'otpauth:');
+    assert.equal(uri.host, 'totp');
+    assert.equal(decodeURIComponent(uri.pathname), '/NestOS:admin');
+    assert.equal(uri.searchParams.get('secret'), secret);
+    assert.equal(uri.searchParams.get('issuer'), 'NestOS');
+  });
+
+  it('hashes recovery codes however they are typed', () => {
+    const [code] = generateRecoveryCodes(1);
+    assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    assert.equal(hashRecoveryCode(code.toUpperCase().replace('-', ' ')), hashRecoveryCode(code));
+    assert.equal(new Set(generateRecoveryCodes()).size, 10);
+  });
+});
+
+describe('signing in with two-factor authentication', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  const secret = generateTotpSecret();
+  const [recoveryCode] = generateRecoveryCodes(1);
+
+  const challenge = async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/login',
+      payload: { username: 'admin', password: 'correct horse battery' }
+    });
+    assert.equal(response.json().twoFactorRequired, true);
+    return response.json().challenge as string;
+  };
+
+  const secondFactor = async (code: string, token?: string) => app.inject({
+    method: 'POST',
+    url: '/api/auth/login/two-factor',
+    payload: { challenge: token ?? await challenge(), code }
+  });
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+
+    const admin = await createUser('admin', 'correct horse battery');
+    await updateUser(admin.id, (user) => ({
+      ...user,
+      twoFactor: {
+        enabled: true,
+        secret,
+        recoveryCodes: [hashRecoveryCode(recoveryCode)],
+        lastUsedStep: 0
+      }
+    }));
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('needs a code after the password', async () => {
+    const response = await secondFactor('000000');
+    assert.equal(response.statusCode, 401);
+  });
+
+  it('accepts a current code only once', async () => {
+    const code = currentCode(secret);
+    const response = await secondFactor(code);
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().user.username, 'admin');
+
+    assert.equal((await secondFactor(code)).statusCode, 401);
+    // Nor an earlier one, once a later one was used
+    assert.equal((await secondFactor(currentCode(secret, -1))).statusCode, 401);
+  });
+
+  it('accepts each recovery code once', async () => {
+    assert.equal((await secondFactor(recoveryCode)).statusCode, 200);
+    assert.equal((await secondFactor(recoveryCode)).statusCode, 401);
+  });
+
+  it('drops a challenge after five wrong codes', async () => {
+    const token = await challenge();
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      assert.equal((await secondFactor('000000', token)).statusCode, 401);
+    }
+    const response = await secondFactor(currentCode(secret, 1), token);
+    assert.equal(response.statusCode, 401);
+    assert.match(response.json().message, /Sign-in expired/);
+  });
+});
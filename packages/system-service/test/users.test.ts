@@ -0,0 +1,60 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import { loadConfig } from '../src/config.js';
+import { createServer } from '../src/server.js';
+import { loadUsers } from '../src/auth/users.js';
+
+describe('accounts', () => {
+  let app: FastifyInstance;
+  let dataDir: string;
+  const usersFile = () => path.join(dataDir, 'users.json');
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nestos-test-'));
+    process.env.NESTOS_DATA_DIR = dataDir;
+    app = await createServer(loadConfig(), { https: null, logger: false });
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('has no accounts before setup', async () => {
+    assert.deepEqual(await loadUsers(), []);
+  });
+
+  it('creates only one admin when two setups race', async () => {
+    const responses = await Promise.all(
+      ['first', 'second'].map((username) =>
+        app.inject({
+          method: 'POST',
+          url: '/api/auth/setup',
+          payload: { username, password: 'correct horse battery' }
+        })
+      )
+    );
+
+    assert.deepEqual(responses.map((response) => response.statusCode).sort(), [200, 409]);
+    const users = await loadUsers();
+    assert.equal(users.length, 1);
+    assert.equal(users[0].role, 'admin');
+  });
+
+  it('refuses to read an accounts file that does not parse', async () => {
+    await fs.writeFile(usersFile(), '[{"id":');
+    await assert.rejects(loadUsers());
+  });
+
+  it('refuses to read accounts that do not validate', async () => {
+    await fs.writeFile(usersFile(), JSON.stringify([{ id: 'x' }]));
+    await assert.rejects(loadUsers(), /is not a valid accounts file/);
+
+    const response = await app.inject({ method: 'GET', url: '/api/auth/setup' });
+    assert.equal(response.statusCode, 500);
+  });
+});